@@ -0,0 +1,117 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { AgentToolRegistry } from './agent-tool.registry';
+import { VectorStoreService } from 'src/services/vector-store.service';
+import { agentToolsConfig } from 'src/config/agent-tools.config';
+import { AGENT_TOOLS } from 'src/utils/constants/agent-tools.constants';
+
+describe('AgentToolRegistry', () => {
+  let registry: AgentToolRegistry;
+  let search: jest.Mock;
+
+  beforeEach(async () => {
+    search = jest.fn().mockResolvedValue([
+      {
+        pageContent: 'Refunds take 30 days.',
+        metadata: { source: 'policy.pdf', pageNumber: 2 },
+      },
+    ]);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        AgentToolRegistry,
+        { provide: VectorStoreService, useValue: { search } },
+        {
+          provide: agentToolsConfig.KEY,
+          useValue: {
+            defaultTools: [AGENT_TOOLS.CALCULATOR],
+            httpAllowedHosts: [],
+          },
+        },
+      ],
+    }).compile();
+
+    registry = moduleRef.get(AgentToolRegistry);
+  });
+
+  describe('createToolkit', () => {
+    it('enables the configured default tools when a request names none', () => {
+      const { tools } = registry.createToolkit('tenant-1');
+
+      expect(tools.map(({ name }) => name)).toEqual([AGENT_TOOLS.CALCULATOR]);
+    });
+
+    it('rejects unknown tools, listing the available ones', () => {
+      const error = (() => {
+        try {
+          registry.createToolkit('tenant-1', ['calculator', 'shell']);
+        } catch (e: unknown) {
+          return e;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect((error as BadRequestException).getResponse()).toMatchObject({
+        error_code: 'UNKNOWN_AGENT_TOOL',
+        data: {
+          unknown_tools: ['shell'],
+          available_tools: Object.values(AGENT_TOOLS),
+        },
+      });
+    });
+
+    it('searches the documents of the tenant the agent runs for', async () => {
+      const {
+        tools: [documentSearch],
+      } = registry.createToolkit('tenant-1', [AGENT_TOOLS.DOCUMENT_SEARCH]);
+
+      const output = await documentSearch.invoke('refund window');
+
+      expect(search).toHaveBeenCalledWith('refund window', 'tenant-1', {
+        k: expect.any(Number),
+      });
+      expect(output).toBe('[1] (policy.pdf, page 2)\nRefunds take 30 days.');
+    });
+
+    it('records each call, and returns errors to the model as the output', async () => {
+      const {
+        tools: [calculator, httpFetch],
+        steps,
+      } = registry.createToolkit('tenant-1', [
+        AGENT_TOOLS.CALCULATOR,
+        AGENT_TOOLS.HTTP_FETCH,
+      ]);
+
+      expect(await calculator.invoke('2 * 21')).toBe('42');
+      expect(await httpFetch.invoke('https://example.com/')).toMatch(
+        /^Error: The host example.com is not allowlisted/,
+      );
+
+      expect(steps).toMatchObject([
+        {
+          tool: AGENT_TOOLS.CALCULATOR,
+          input: '2 * 21',
+          output: '42',
+          error: false,
+        },
+        { tool: AGENT_TOOLS.HTTP_FETCH, error: true },
+      ]);
+    });
+  });
+
+  describe('register', () => {
+    it('adds a tool that requests can enable by name', async () => {
+      registry.register({
+        name: 'echo',
+        description: 'Repeats its input.',
+        run: async (input) => input,
+      });
+
+      const {
+        tools: [echo],
+      } = registry.createToolkit('tenant-1', ['echo']);
+
+      expect(await echo.invoke('Hello')).toBe('Hello');
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Registry of the tools the agent chats can call.
+ *
+ * Searching the uploaded documents, a calculator, the current date and time, an HTTP fetch
+ * restricted to allowlisted hosts and a Tavily web search are registered by default; further
+ * tools can be added with `register`. Each agent request picks the tools it enables by name,
+ * falling back to the `defaultTools` of the `agentTools` configuration namespace.
+ *
+ * @class AgentToolRegistry
+ *
+ * @method register - Adds a tool, replacing any tool with the same name.
+ *
+ * @method createToolkit - Creates the LangChain tools of one agent run, together with the list
+ *                         their calls are recorded in, with their input, output and timing.
+ *                         Throws a BadRequestException listing the available tools when a name
+ *                         is unknown.
+ * @param {string} tenantId - The tenant the agent runs for, whose data the tools may access.
+ * @param {string[]} names - Names of the enabled tools; the configured defaults when omitted.
+ * @returns {{ tools: DynamicTool[], steps: IntermediateStep[] }}
+ */
+
+import {
+  BadRequestException,
+  HttpStatus,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { DynamicTool } from '@langchain/core/tools';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import { VectorStoreService } from 'src/services/vector-store.service';
+import {
+  AgentToolsConfig,
+  agentToolsConfig,
+} from 'src/config/agent-tools.config';
+import { AgentToolDefinition } from './tools/agent-tool.interface';
+import { IntermediateStep } from './interfaces/intermediate-step.interface';
+import { documentSearchTool } from './tools/document-search.tool';
+import { calculatorTool } from './tools/calculator.tool';
+import { currentDatetimeTool } from './tools/current-datetime.tool';
+import { httpFetchTool } from './tools/http-fetch.tool';
+import { webSearchTool } from './tools/web-search.tool';
+
+@Injectable()
+export class AgentToolRegistry {
+  private tools = new Map<string, AgentToolDefinition>(
+    [
+      documentSearchTool,
+      calculatorTool,
+      currentDatetimeTool,
+      httpFetchTool,
+      webSearchTool,
+    ].map((tool) => [tool.name, tool]),
+  );
+
+  constructor(
+    private vectorStoreService: VectorStoreService,
+    @Inject(agentToolsConfig.KEY) private agentToolsSettings: AgentToolsConfig,
+  ) {}
+
+  register(tool: AgentToolDefinition) {
+    this.tools.set(tool.name, tool);
+  }
+
+  createToolkit(tenantId: string, names?: string[]) {
+    const enabled = [...new Set(names ?? this.agentToolsSettings.defaultTools)];
+    const unknown = enabled.filter((name) => !this.tools.has(name));
+    if (unknown.length) {
+      throw new BadRequestException(
+        customMessage(HttpStatus.BAD_REQUEST, MESSAGES.UNKNOWN_AGENT_TOOL, {
+          unknown_tools: unknown,
+          available_tools: [...this.tools.keys()],
+        }),
+      );
+    }
+
+    const steps: IntermediateStep[] = [];
+    const tools = enabled.map((name) => {
+      const { description, run } = this.tools.get(name);
+      return new DynamicTool({
+        name,
+        description,
+        func: async (input: string) => {
+          const startedAt = new Date();
+          let output: string;
+          let error = false;
+          try {
+            output = await run(input, {
+              vectorStoreService: this.vectorStoreService,
+              agentToolsSettings: this.agentToolsSettings,
+              tenantId,
+            });
+          } catch (e: unknown) {
+            output = `Error: ${e instanceof Error ? e.message : String(e)}`;
+            error = true;
+          }
+          steps.push({
+            tool: name,
+            input,
+            output,
+            error,
+            started_at: startedAt,
+            duration_ms: Date.now() - startedAt.getTime(),
+          });
+          return output;
+        },
+      });
+    });
+    return { tools, steps };
+  }
+}
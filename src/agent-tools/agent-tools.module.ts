@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { AgentToolRegistry } from './agent-tool.registry';
+
+@Module({
+  providers: [AgentToolRegistry],
+  exports: [AgentToolRegistry],
+})
+export class AgentToolsModule {}
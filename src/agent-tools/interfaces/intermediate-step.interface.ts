@@ -0,0 +1,20 @@
+/**
+ * A tool call made by the agent while answering, returned with agent-chat responses.
+ *
+ * @interface IntermediateStep
+ *
+ * @property tool - Name of the tool.
+ * @property input - Input written by the model for the tool.
+ * @property output - Output of the tool, or the error message when it failed.
+ * @property error - Whether the tool failed.
+ * @property started_at - When the tool was called.
+ * @property duration_ms - How long the tool ran, in milliseconds.
+ */
+export interface IntermediateStep {
+  tool: string;
+  input: string;
+  output: string;
+  error: boolean;
+  started_at: Date;
+  duration_ms: number;
+}
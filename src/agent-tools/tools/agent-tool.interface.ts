@@ -0,0 +1,33 @@
+import { VectorStoreService } from 'src/services/vector-store.service';
+import { AgentToolsConfig } from 'src/config/agent-tools.config';
+
+/**
+ * Services and settings handed to the agent tools when they run.
+ *
+ * @interface AgentToolDependencies
+ *
+ * @property vectorStoreService - Searches the uploaded documents.
+ * @property agentToolsSettings - The `agentTools` configuration namespace.
+ * @property tenantId - The tenant the agent runs for; tools only access this tenant's data.
+ */
+export interface AgentToolDependencies {
+  vectorStoreService: VectorStoreService;
+  agentToolsSettings: AgentToolsConfig;
+  tenantId: string;
+}
+
+/**
+ * A tool the agent can call, registered in the AgentToolRegistry.
+ *
+ * @interface AgentToolDefinition
+ *
+ * @property name - Name of the tool, used by the agent and in the `tools` of agent-chat requests.
+ * @property description - Tells the model what the tool does and what its input must be.
+ * @property run - Runs the tool on the input written by the model. Errors are returned to the model
+ *                 as the tool's output, so that it can correct its input or answer without the tool.
+ */
+export interface AgentToolDefinition {
+  name: string;
+  description: string;
+  run: (input: string, dependencies: AgentToolDependencies) => Promise<string>;
+}
@@ -0,0 +1,41 @@
+import { calculatorTool } from './calculator.tool';
+import { AgentToolDependencies } from './agent-tool.interface';
+import { CALCULATOR_MAX_EXPRESSION_LENGTH } from 'src/utils/constants/agent-tools.constants';
+
+describe('calculatorTool', () => {
+  const calculate = (expression: string) =>
+    calculatorTool.run(expression, {} as AgentToolDependencies);
+
+  it('evaluates arithmetic, comparisons and math functions', async () => {
+    expect(await calculate('(12.5 * 4) / 4')).toBe('12.5');
+    expect(await calculate('max(2, sqrt(16)) ^ 2')).toBe('16');
+    expect(await calculate('3 > 2')).toBe('true');
+  });
+
+  it.each(['constructor', 'toString', 'hasOwnProperty', '__proto__', 'length'])(
+    'does not resolve %s through the prototype of an object',
+    async (name) => {
+      await expect(calculate(name)).rejects.toThrow();
+      await expect(calculate(`${name}("1")`)).rejects.toThrow();
+    },
+  );
+
+  it('refuses assignments and function definitions', async () => {
+    await expect(calculate('x = 2')).rejects.toThrow();
+    await expect(calculate('f(x) = x * 2')).rejects.toThrow();
+  });
+
+  it('refuses expressions that do not evaluate to a number', async () => {
+    await expect(calculate('"text"')).rejects.toThrow(
+      'The expression does not evaluate to a number',
+    );
+  });
+
+  it('refuses expressions longer than the limit', async () => {
+    await expect(
+      calculate('1+'.repeat(CALCULATOR_MAX_EXPRESSION_LENGTH) + '1'),
+    ).rejects.toThrow(
+      `The expression is longer than ${CALCULATOR_MAX_EXPRESSION_LENGTH} characters`,
+    );
+  });
+});
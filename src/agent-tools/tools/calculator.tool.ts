@@ -0,0 +1,46 @@
+import { Parser } from 'expr-eval';
+import {
+  AGENT_TOOLS,
+  CALCULATOR_MAX_EXPRESSION_LENGTH,
+} from 'src/utils/constants/agent-tools.constants';
+import { AgentToolDefinition } from './agent-tool.interface';
+
+// Arithmetic only: no assignments, user-defined functions, array membership tests or string lengths
+const parser = new Parser({
+  operators: {
+    assignment: false,
+    fndef: false,
+    in: false,
+    length: false,
+  },
+});
+// expr-eval looks names up with `in` on its operator tables and on the variables, so that on plain
+// objects `constructor` or `toString` would resolve to the functions of Object.prototype
+const tables = parser as unknown as Record<string, object>;
+for (const table of [
+  'functions',
+  'unaryOps',
+  'binaryOps',
+  'ternaryOps',
+  'consts',
+]) {
+  tables[table] = Object.assign(Object.create(null), tables[table]);
+}
+
+export const calculatorTool: AgentToolDefinition = {
+  name: AGENT_TOOLS.CALCULATOR,
+  description:
+    'Evaluates a math expression, e.g. "(12.5 * 4) / 3" or "sqrt(2) ^ 10". Supports + - * / % ^, comparisons and functions such as sqrt, abs, round, min, max, log, sin. Input: the expression.',
+  run: async (input) => {
+    if (input.length > CALCULATOR_MAX_EXPRESSION_LENGTH) {
+      throw new Error(
+        `The expression is longer than ${CALCULATOR_MAX_EXPRESSION_LENGTH} characters`,
+      );
+    }
+    const result = parser.evaluate(input, Object.create(null));
+    if (typeof result !== 'number' && typeof result !== 'boolean') {
+      throw new Error('The expression does not evaluate to a number');
+    }
+    return String(result);
+  },
+};
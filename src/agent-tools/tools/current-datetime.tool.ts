@@ -0,0 +1,18 @@
+import { AGENT_TOOLS } from 'src/utils/constants/agent-tools.constants';
+import { AgentToolDefinition } from './agent-tool.interface';
+
+export const currentDatetimeTool: AgentToolDefinition = {
+  name: AGENT_TOOLS.CURRENT_DATETIME,
+  description:
+    'Returns the current date, time and weekday. Input: an IANA time zone such as "Europe/Paris", or an empty string for UTC.',
+  run: async (input) => {
+    const timeZone = input.trim() || 'UTC';
+    const now = new Date();
+    const local = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      dateStyle: 'full',
+      timeStyle: 'long',
+    }).format(now);
+    return `${local} (ISO 8601 UTC: ${now.toISOString()})`;
+  },
+};
@@ -0,0 +1,20 @@
+import {
+  AGENT_TOOLS,
+  DOCUMENT_SEARCH_TOOL_K,
+} from 'src/utils/constants/agent-tools.constants';
+import { formatSource } from 'src/services/numbered-sources';
+import { AgentToolDefinition } from './agent-tool.interface';
+
+export const documentSearchTool: AgentToolDefinition = {
+  name: AGENT_TOOLS.DOCUMENT_SEARCH,
+  description:
+    'Searches the documents uploaded by the user. Input: a search query. Output: the most relevant passages with their source.',
+  run: async (input, { vectorStoreService, tenantId }) => {
+    const chunks = await vectorStoreService.search(input, tenantId, {
+      k: DOCUMENT_SEARCH_TOOL_K,
+    });
+    if (!chunks.length) return 'No matching passages were found.';
+
+    return chunks.map(formatSource).join('\n\n');
+  },
+};
@@ -0,0 +1,98 @@
+import { AddressInfo } from 'net';
+import { Server, createServer } from 'http';
+import { httpFetchTool } from './http-fetch.tool';
+import { AgentToolDependencies } from './agent-tool.interface';
+import { AgentToolsConfig } from 'src/config/agent-tools.config';
+
+describe('httpFetchTool', () => {
+  let server: Server;
+  let baseUrl: string;
+  // Whether the endless route is still being written to by the server
+  let streaming: boolean;
+
+  const dependencies = (settings: Partial<AgentToolsConfig> = {}) =>
+    ({
+      agentToolsSettings: {
+        httpAllowedHosts: ['127.0.0.1'],
+        httpTimeoutMs: 5000,
+        httpMaxResponseLength: 100,
+        ...settings,
+      },
+    }) as AgentToolDependencies;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      switch (request.url) {
+        case '/page':
+          response.setHeader('content-type', 'text/html');
+          response.end(
+            '<html><head><script>ignored()</script></head><body><h1>Refunds</h1>\n<p>take 30 days.</p></body></html>',
+          );
+          break;
+        case '/redirect':
+          response.writeHead(302, { location: 'http://example.com/' });
+          response.end();
+          break;
+        case '/endless': {
+          streaming = true;
+          const write = () => {
+            while (response.write('x'.repeat(1024)));
+          };
+          response.on('drain', write);
+          response.on('close', () => (streaming = false));
+          write();
+          break;
+        }
+        default:
+          response.end('Plain text');
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('returns the status and the text of an HTML page', async () => {
+    expect(await httpFetchTool.run(`${baseUrl}/page`, dependencies())).toBe(
+      'HTTP 200\nRefunds take 30 days.',
+    );
+  });
+
+  it('refuses a host outside the allowlist', async () => {
+    await expect(
+      httpFetchTool.run(
+        `${baseUrl}/page`,
+        dependencies({ httpAllowedHosts: [] }),
+      ),
+    ).rejects.toThrow('The host 127.0.0.1 is not allowlisted');
+  });
+
+  it('refuses other protocols than http and https', async () => {
+    await expect(
+      httpFetchTool.run('file:///etc/passwd', dependencies()),
+    ).rejects.toThrow('Only http and https URLs can be fetched');
+  });
+
+  it('does not follow redirects', async () => {
+    await expect(
+      httpFetchTool.run(`${baseUrl}/redirect`, dependencies()),
+    ).rejects.toThrow();
+  });
+
+  it('stops reading a response at the maximum length', async () => {
+    const output = await httpFetchTool.run(
+      `${baseUrl}/endless`,
+      dependencies(),
+    );
+
+    expect(output).toBe(`HTTP 200\n${'x'.repeat(100)}`);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(streaming).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import * as cheerio from 'cheerio';
+import {
+  AGENT_TOOLS,
+  HTTP_FETCH_HTML_READ_FACTOR,
+} from 'src/utils/constants/agent-tools.constants';
+import { AgentToolDefinition } from './agent-tool.interface';
+
+// Reads the body until it reaches the maximum length, so that a large response is never held in memory
+const readBody = async (response: Response, maxLength: number) => {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let body = '';
+  try {
+    while (body.length < maxLength) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      body += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    await reader.cancel();
+  }
+  return body.slice(0, maxLength);
+};
+
+export const httpFetchTool: AgentToolDefinition = {
+  name: AGENT_TOOLS.HTTP_FETCH,
+  description:
+    'Fetches a web page or API response with a GET request and returns its text. Only allowlisted hosts can be fetched. Input: the absolute http(s) URL.',
+  run: async (input, { agentToolsSettings }) => {
+    const { httpAllowedHosts, httpTimeoutMs, httpMaxResponseLength } =
+      agentToolsSettings;
+    const url = new URL(input.trim());
+    if (!['http:', 'https:'].includes(url.protocol)) {
+      throw new Error('Only http and https URLs can be fetched');
+    }
+    if (!httpAllowedHosts.includes(url.hostname.toLowerCase())) {
+      throw new Error(
+        `The host ${url.hostname} is not allowlisted. Allowed hosts: ${httpAllowedHosts.join(', ') || 'none'}`,
+      );
+    }
+
+    // Redirects are refused, as they could lead outside the allowlist
+    const response = await fetch(url, {
+      redirect: 'error',
+      signal: AbortSignal.timeout(httpTimeoutMs),
+    });
+    const isHtml = response.headers.get('content-type')?.includes('text/html');
+    const body = await readBody(
+      response,
+      isHtml
+        ? httpMaxResponseLength * HTTP_FETCH_HTML_READ_FACTOR
+        : httpMaxResponseLength,
+    );
+    const text = isHtml
+      ? cheerio.load(body)('body').text().replace(/\s+/g, ' ').trim()
+      : body;
+
+    return `HTTP ${response.status}\n${text.slice(0, httpMaxResponseLength)}`;
+  },
+};
@@ -0,0 +1,10 @@
+import { TavilySearchResults } from '@langchain/community/tools/tavily_search';
+import { AGENT_TOOLS } from 'src/utils/constants/agent-tools.constants';
+import { AgentToolDefinition } from './agent-tool.interface';
+
+export const webSearchTool: AgentToolDefinition = {
+  name: AGENT_TOOLS.WEB_SEARCH,
+  description:
+    'Searches the web for recent information with Tavily. Input: a search query.',
+  run: (input) => new TavilySearchResults({ maxResults: 1 }).invoke(input),
+};
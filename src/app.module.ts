@@ -1,11 +1,73 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { LangchainChatModule } from './langchain-chat/langchain-chat.module';
-import { VectorStoreService } from './services/vector-store.service';
+import { ServicesModule } from './services/services.module';
+import { ConversationsModule } from './conversations/conversations.module';
+import { DocumentsModule } from './documents/documents.module';
+import { PromptTemplatesModule } from './prompt-templates/prompt-templates.module';
+import { AgentToolsModule } from './agent-tools/agent-tools.module';
+import { UsageModule } from './usage/usage.module';
+import { AuthModule } from './auth/auth.module';
+import { EvaluationsModule } from './evaluations/evaluations.module';
+import { ObservabilityModule } from './observability/observability.module';
+import { ErrorsModule } from './errors/errors.module';
+import { GuardrailsModule } from './guardrails/guardrails.module';
+import { validateEnvironment } from './config/environment.validation';
+import { serverConfig } from './config/server.config';
+import { observabilityConfig } from './config/observability.config';
+import { databaseConfig } from './config/database.config';
+import { vectorStoreConfig } from './config/vector-store.config';
+import { modelsConfig } from './config/models.config';
+import { chunkingConfig } from './config/chunking.config';
+import { uploadsConfig } from './config/uploads.config';
+import { ingestionConfig } from './config/ingestion.config';
+import { summarizationConfig } from './config/summarization.config';
+import { evaluationConfig } from './config/evaluation.config';
+import { responseCacheConfig } from './config/response-cache.config';
+import { agentToolsConfig } from './config/agent-tools.config';
+import { usageConfig } from './config/usage.config';
+import { authConfig } from './config/auth.config';
+import { rateLimitsConfig } from './config/rate-limits.config';
+import { guardrailsConfig } from './config/guardrails.config';
 
 @Module({
-  imports: [ConfigModule.forRoot(), LangchainChatModule],
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      validate: validateEnvironment,
+      load: [
+        serverConfig,
+        observabilityConfig,
+        databaseConfig,
+        vectorStoreConfig,
+        modelsConfig,
+        chunkingConfig,
+        uploadsConfig,
+        ingestionConfig,
+        summarizationConfig,
+        evaluationConfig,
+        responseCacheConfig,
+        agentToolsConfig,
+        usageConfig,
+        authConfig,
+        rateLimitsConfig,
+        guardrailsConfig,
+      ],
+    }),
+    ServicesModule,
+    ObservabilityModule,
+    ErrorsModule,
+    AuthModule,
+    UsageModule,
+    GuardrailsModule,
+    LangchainChatModule,
+    ConversationsModule,
+    DocumentsModule,
+    PromptTemplatesModule,
+    AgentToolsModule,
+    EvaluationsModule,
+  ],
   controllers: [],
-  providers: [VectorStoreService],
+  providers: [],
 })
 export class AppModule {}
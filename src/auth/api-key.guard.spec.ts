@@ -0,0 +1,140 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { createHash } from 'crypto';
+import { ApiKeyGuard } from './api-key.guard';
+import { ApiKeysService } from './api-keys.service';
+import { AdminOnly } from './decorators/admin-only.decorator';
+import { Public } from './decorators/public.decorator';
+import { DatabaseService } from 'src/services/database.service';
+import { authConfig } from 'src/config/auth.config';
+import { AuthenticatedRequest } from './interfaces/api-key.interface';
+
+@Controller('documents')
+class DocumentsController {
+  @Get()
+  findAll() {}
+
+  @Public()
+  @Get('formats')
+  formats() {}
+
+  @AdminOnly()
+  @Get('tenants')
+  tenants() {}
+}
+
+const ADMIN_API_KEY = 'admin-key-of-the-tests';
+
+// The stored keys, by the SHA-256 hash they are looked up with
+const hash = (key: string) => createHash('sha256').update(key).digest('hex');
+const apiKeys = {
+  [hash('lc_key-of-tenant-a')]: { id: 'key-a', tenant_id: 'tenant-a' },
+  [hash('lc_key-of-tenant-b')]: { id: 'key-b', tenant_id: 'tenant-b' },
+};
+
+describe('ApiKeyGuard', () => {
+  let guard: ApiKeyGuard;
+  let query: jest.Mock;
+
+  const request = (headers: Record<string, string>) =>
+    ({
+      header: (name: string) => headers[name],
+    }) as Partial<AuthenticatedRequest> as AuthenticatedRequest;
+
+  const canActivate = (
+    handler: keyof DocumentsController,
+    authenticatedRequest: AuthenticatedRequest,
+  ) =>
+    guard.canActivate(
+      new ExecutionContextHost(
+        [authenticatedRequest],
+        DocumentsController,
+        DocumentsController.prototype[handler],
+      ),
+    );
+
+  beforeEach(async () => {
+    // Revoked keys are left out by the query, as by `revoked_at IS NULL`
+    query = jest.fn(async (_sql: string, [keyHash]: string[]) =>
+      apiKeys[keyHash] ? [apiKeys[keyHash]] : [],
+    );
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ApiKeyGuard,
+        ApiKeysService,
+        Reflector,
+        { provide: DatabaseService, useValue: { query } },
+        { provide: authConfig.KEY, useValue: { adminApiKey: ADMIN_API_KEY } },
+      ],
+    }).compile();
+
+    guard = moduleRef.get(ApiKeyGuard);
+  });
+
+  it('attaches the tenant of the presented key to the request', async () => {
+    const requestOfA = request({ 'x-api-key': 'lc_key-of-tenant-a' });
+    const requestOfB = request({ authorization: 'Bearer lc_key-of-tenant-b' });
+
+    expect(await canActivate('findAll', requestOfA)).toBe(true);
+    expect(await canActivate('findAll', requestOfB)).toBe(true);
+
+    expect(requestOfA.auth).toMatchObject({
+      tenantId: 'tenant-a',
+      apiKeyId: 'key-a',
+    });
+    expect(requestOfB.auth).toMatchObject({
+      tenantId: 'tenant-b',
+      apiKeyId: 'key-b',
+    });
+  });
+
+  it('only looks up active keys, by their hash', async () => {
+    await canActivate(
+      'findAll',
+      request({ 'x-api-key': 'lc_key-of-tenant-a' }),
+    );
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain('key_hash = $1 AND revoked_at IS NULL');
+    expect(params).toEqual([hash('lc_key-of-tenant-a')]);
+  });
+
+  it('rejects a request without a key, or with an unknown or revoked one', async () => {
+    await expect(canActivate('findAll', request({}))).rejects.toThrow(
+      UnauthorizedException,
+    );
+    await expect(
+      canActivate('findAll', request({ 'x-api-key': 'lc_revoked-key' })),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('does not take the admin key for the key of a tenant', async () => {
+    await expect(
+      canActivate('findAll', request({ 'x-api-key': ADMIN_API_KEY })),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('requires the admin key on admin routes', async () => {
+    await expect(
+      canActivate('tenants', request({ 'x-api-key': 'lc_key-of-tenant-a' })),
+    ).rejects.toThrow(ForbiddenException);
+    expect(
+      await canActivate(
+        'tenants',
+        request({ authorization: `Bearer ${ADMIN_API_KEY}` }),
+      ),
+    ).toBe(true);
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('lets requests without a key through to public routes', async () => {
+    expect(await canActivate('formats', request({}))).toBe(true);
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { createHash, timingSafeEqual } from 'crypto';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import {
+  ACCESS_LEVEL_METADATA,
+  ACCESS_LEVELS,
+  API_KEY_HEADER,
+} from 'src/utils/constants/auth.constants';
+import { AuthConfig, authConfig } from 'src/config/auth.config';
+import { ApiKeysService } from './api-keys.service';
+import { AuthenticatedRequest } from './interfaces/api-key.interface';
+
+/**
+ * Guard authenticating every request with an API key, sent in the `x-api-key` header or as a
+ * bearer token. Routes marked with `@AdminOnly()` require the admin key of the configuration,
+ * routes marked with `@Public()` require no key; every other route requires an active key issued
+ * to a tenant, whose ID is then attached to the request for `@TenantId()`.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private apiKeysService: ApiKeysService,
+    @Inject(authConfig.KEY) private authSettings: AuthConfig,
+  ) {}
+
+  async canActivate(context: ExecutionContext) {
+    const accessLevel = this.reflector.getAllAndOverride<ACCESS_LEVELS>(
+      ACCESS_LEVEL_METADATA,
+      [context.getHandler(), context.getClass()],
+    );
+    if (accessLevel === ACCESS_LEVELS.PUBLIC) return true;
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const key = this.presentedKey(request);
+    if (!key) {
+      throw new UnauthorizedException(
+        customMessage(HttpStatus.UNAUTHORIZED, MESSAGES.MISSING_API_KEY),
+      );
+    }
+
+    if (accessLevel === ACCESS_LEVELS.ADMIN) {
+      if (!this.isAdminKey(key)) {
+        throw new ForbiddenException(
+          customMessage(HttpStatus.FORBIDDEN, MESSAGES.ADMIN_API_KEY_REQUIRED),
+        );
+      }
+      return true;
+    }
+
+    const apiKey = await this.apiKeysService.authenticate(key);
+    if (!apiKey) {
+      throw new UnauthorizedException(
+        customMessage(HttpStatus.UNAUTHORIZED, MESSAGES.INVALID_API_KEY),
+      );
+    }
+    request.auth = {
+      tenantId: apiKey.tenant_id,
+      apiKeyId: apiKey.id,
+      limits: apiKey,
+    };
+    return true;
+  }
+
+  private presentedKey = (request: AuthenticatedRequest) => {
+    const [scheme, token] = (request.header('authorization') ?? '').split(' ');
+    if (scheme?.toLowerCase() === 'bearer' && token) return token;
+    return request.header(API_KEY_HEADER);
+  };
+
+  // Comparing digests keeps the comparison constant-time whatever the length of the presented key
+  private isAdminKey = (key: string) => {
+    const digest = (value: string) =>
+      createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(key), digest(this.authSettings.adminApiKey));
+  };
+}
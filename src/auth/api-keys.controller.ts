@@ -0,0 +1,75 @@
+/**
+ * Admin controller for the tenants and their API keys. Every route requires the admin API key.
+ *
+ * @class ApiKeysController
+ *
+ * @method createTenant - Creates a tenant. Accepts POST requests with a CreateTenantDto.
+ * @method findAllTenants - Lists the tenants.
+ * @method issue - Issues an API key to a tenant. Accepts POST requests with an IssueApiKeyDto; the key is only
+ *                 shown in this response.
+ * @method findAll - Lists the issued API keys, optionally filtered by the `tenant_id` query parameter.
+ * @method updateLimits - Changes the requests per minute and token budgets of an API key. Accepts PATCH requests with an ApiKeyLimitsDto.
+ * @method revoke - Revokes an API key.
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { AdminOnly } from './decorators/admin-only.decorator';
+import { CreateTenantDto } from './dtos/create-tenant.dto';
+import { IssueApiKeyDto } from './dtos/issue-api-key.dto';
+import { ApiKeyLimitsDto } from './dtos/api-key-limits.dto';
+
+@AdminOnly()
+@Controller('admin')
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post('tenants')
+  @HttpCode(201)
+  async createTenant(@Body() createTenantDto: CreateTenantDto) {
+    return await this.apiKeysService.createTenant(createTenantDto);
+  }
+
+  @Get('tenants')
+  async findAllTenants() {
+    return await this.apiKeysService.findAllTenants();
+  }
+
+  @Post('api-keys')
+  @HttpCode(201)
+  async issue(@Body() issueApiKeyDto: IssueApiKeyDto) {
+    return await this.apiKeysService.issue(issueApiKeyDto);
+  }
+
+  @Get('api-keys')
+  async findAll(
+    @Query('tenant_id', new ParseUUIDPipe({ optional: true }))
+    tenantId?: string,
+  ) {
+    return await this.apiKeysService.findAll(tenantId);
+  }
+
+  @Patch('api-keys/:id')
+  async updateLimits(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() apiKeyLimitsDto: ApiKeyLimitsDto,
+  ) {
+    return await this.apiKeysService.updateLimits(id, apiKeyLimitsDto);
+  }
+
+  @Delete('api-keys/:id')
+  async revoke(@Param('id', ParseUUIDPipe) id: string) {
+    return await this.apiKeysService.revoke(id);
+  }
+}
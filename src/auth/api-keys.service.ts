@@ -0,0 +1,240 @@
+/**
+ * Service for the tenants and the API keys they authenticate with.
+ *
+ * Every route requires an API key. A key is issued to a tenant, and the documents, vectors,
+ * uploaded files and conversations created with it belong to that tenant and are only visible
+ * to its keys. Keys are random, returned once when they are issued and stored as their SHA-256
+ * hash in the `api_keys` table, next to the `tenants` table, on the pool shared through
+ * DatabaseService.
+ *
+ * @class ApiKeysService
+ *
+ * @method createTenant - Creates a tenant, or throws a ConflictException if the name is taken.
+ * @method findAllTenants - Lists the tenants.
+ *
+ * @method issue - Issues a new API key to a tenant.
+ * @param {IssueApiKeyDto} issueApiKeyDto - The tenant and the optional name of the key.
+ * @returns The key record together with the key itself, which cannot be retrieved later.
+ *
+ * @method findAll - Lists the issued keys, optionally of a single tenant, without their secret.
+ * @method updateLimits - Changes the requests per minute and token budgets of a key.
+ * @method revoke - Revokes a key, which stops authenticating requests immediately.
+ *
+ * @method authenticate - Returns the active key matching a presented API key, or undefined.
+ */
+
+import {
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { DatabaseService } from 'src/services/database.service';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import {
+  API_KEY_BYTES,
+  API_KEY_DISPLAY_LENGTH,
+  API_KEY_PREFIX,
+} from 'src/utils/constants/auth.constants';
+import { CreateTenantDto } from './dtos/create-tenant.dto';
+import { IssueApiKeyDto } from './dtos/issue-api-key.dto';
+import { ApiKeyLimitsDto } from './dtos/api-key-limits.dto';
+import { ApiKey, Tenant } from './interfaces/api-key.interface';
+
+@Injectable()
+export class ApiKeysService {
+  constructor(private databaseService: DatabaseService) {}
+
+  async onModuleInit() {
+    await this.databaseService.query(`
+      CREATE TABLE IF NOT EXISTS tenants (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name TEXT NOT NULL UNIQUE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `);
+    await this.databaseService.query(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        key_preview TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        last_used_at TIMESTAMPTZ,
+        revoked_at TIMESTAMPTZ
+      );
+    `);
+    // Limits of each key; NULL falls back to the `rateLimits` configuration
+    await this.databaseService.query(`
+      ALTER TABLE api_keys
+        ADD COLUMN IF NOT EXISTS requests_per_minute INTEGER,
+        ADD COLUMN IF NOT EXISTS daily_token_budget INTEGER,
+        ADD COLUMN IF NOT EXISTS monthly_token_budget INTEGER;
+    `);
+  }
+
+  async createTenant(createTenantDto: CreateTenantDto) {
+    try {
+      const [tenant] = await this.databaseService.query<Tenant>(
+        `INSERT INTO tenants (name) VALUES ($1)
+         ON CONFLICT (name) DO NOTHING RETURNING *`,
+        [createTenantDto.name],
+      );
+      if (!tenant) {
+        throw new ConflictException(
+          customMessage(HttpStatus.CONFLICT, MESSAGES.TENANT_EXISTS),
+        );
+      }
+      return customMessage(HttpStatus.CREATED, MESSAGES.SUCCESS, tenant);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async findAllTenants() {
+    try {
+      const tenants = await this.databaseService.query<Tenant>(
+        'SELECT * FROM tenants ORDER BY created_at',
+      );
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, tenants);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async issue(issueApiKeyDto: IssueApiKeyDto) {
+    try {
+      const [tenant] = await this.databaseService.query<Tenant>(
+        'SELECT * FROM tenants WHERE id = $1',
+        [issueApiKeyDto.tenant_id],
+      );
+      if (!tenant) {
+        throw new NotFoundException(
+          customMessage(HttpStatus.NOT_FOUND, MESSAGES.TENANT_NOT_FOUND),
+        );
+      }
+
+      const key = `${API_KEY_PREFIX}${randomBytes(API_KEY_BYTES).toString('base64url')}`;
+      const [apiKey] = await this.databaseService.query<ApiKey>(
+        `INSERT INTO api_keys (tenant_id, name, key_preview, key_hash,
+           requests_per_minute, daily_token_budget, monthly_token_budget)
+         VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING ${API_KEY_COLUMNS}`,
+        [
+          tenant.id,
+          issueApiKeyDto.name ?? DEFAULT_API_KEY_NAME,
+          key.slice(0, API_KEY_DISPLAY_LENGTH),
+          this.hash(key),
+          issueApiKeyDto.requests_per_minute ?? null,
+          issueApiKeyDto.daily_token_budget ?? null,
+          issueApiKeyDto.monthly_token_budget ?? null,
+        ],
+      );
+      return customMessage(HttpStatus.CREATED, MESSAGES.SUCCESS, {
+        ...apiKey,
+        key,
+      });
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async findAll(tenantId?: string) {
+    try {
+      const apiKeys = await this.databaseService.query<ApiKey>(
+        `SELECT ${API_KEY_COLUMNS} FROM api_keys
+         WHERE $1::uuid IS NULL OR tenant_id = $1
+         ORDER BY created_at`,
+        [tenantId ?? null],
+      );
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, apiKeys);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async updateLimits(id: string, apiKeyLimitsDto: ApiKeyLimitsDto) {
+    try {
+      const [current] = await this.databaseService.query<ApiKey>(
+        `SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE id = $1`,
+        [id],
+      );
+      if (!current) throw this.apiKeyNotFound();
+
+      // Omitted limits are kept, null ones reset to the configured defaults
+      const limit = (name: keyof ApiKeyLimitsDto) =>
+        apiKeyLimitsDto[name] === undefined
+          ? current[name]
+          : apiKeyLimitsDto[name];
+      const [apiKey] = await this.databaseService.query<ApiKey>(
+        `UPDATE api_keys
+         SET requests_per_minute = $2, daily_token_budget = $3, monthly_token_budget = $4
+         WHERE id = $1 RETURNING ${API_KEY_COLUMNS}`,
+        [
+          id,
+          limit('requests_per_minute'),
+          limit('daily_token_budget'),
+          limit('monthly_token_budget'),
+        ],
+      );
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, apiKey);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async revoke(id: string) {
+    try {
+      const [apiKey] = await this.databaseService.query<ApiKey>(
+        `UPDATE api_keys SET revoked_at = coalesce(revoked_at, now())
+         WHERE id = $1 RETURNING ${API_KEY_COLUMNS}`,
+        [id],
+      );
+      if (!apiKey) throw this.apiKeyNotFound();
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, apiKey);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async authenticate(key: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await this.databaseService.query<ApiKey>(
+      `UPDATE api_keys SET last_used_at = now()
+       WHERE key_hash = $1 AND revoked_at IS NULL
+       RETURNING ${API_KEY_COLUMNS}`,
+      [this.hash(key)],
+    );
+    return apiKey;
+  }
+
+  private apiKeyNotFound = () =>
+    new NotFoundException(
+      customMessage(HttpStatus.NOT_FOUND, MESSAGES.API_KEY_NOT_FOUND),
+    );
+
+  // Keys carry 256 random bits, so a fast unsalted hash cannot be brute-forced
+  private hash = (key: string) =>
+    createHash('sha256').update(key).digest('hex');
+
+  private exceptionHandling = (e: unknown) => {
+    if (e instanceof HttpException) throw e;
+    Logger.error(e);
+    throw new HttpException(
+      customMessage(
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        MESSAGES.EXTERNAL_SERVER_ERROR,
+      ),
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  };
+}
+
+// Every column but the key hash
+const API_KEY_COLUMNS = `id, tenant_id, name, key_preview, created_at, last_used_at, revoked_at,
+  requests_per_minute, daily_token_budget, monthly_token_budget`;
+
+const DEFAULT_API_KEY_NAME = 'API key';
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeyGuard } from './api-key.guard';
+import { RateLimitsModule } from 'src/rate-limits/rate-limits.module';
+import { RateLimitGuard } from 'src/rate-limits/rate-limit.guard';
+
+/**
+ * Module for API-key authentication. The guard is registered application-wide, so that every
+ * route requires a key, followed by the guard enforcing the rate limits and token budgets of
+ * the key; global guards run in the order they are registered.
+ */
+@Module({
+  imports: [RateLimitsModule],
+  controllers: [ApiKeysController],
+  providers: [
+    ApiKeysService,
+    { provide: APP_GUARD, useClass: ApiKeyGuard },
+    { provide: APP_GUARD, useClass: RateLimitGuard },
+  ],
+})
+export class AuthModule {}
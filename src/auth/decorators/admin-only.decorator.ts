@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+import {
+  ACCESS_LEVEL_METADATA,
+  ACCESS_LEVELS,
+} from 'src/utils/constants/auth.constants';
+
+// Restricts a route or controller to the admin API key
+export const AdminOnly = () =>
+  SetMetadata(ACCESS_LEVEL_METADATA, ACCESS_LEVELS.ADMIN);
@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+import {
+  ACCESS_LEVEL_METADATA,
+  ACCESS_LEVELS,
+} from 'src/utils/constants/auth.constants';
+
+// Opens a route or controller to requests without an API key
+export const Public = () =>
+  SetMetadata(ACCESS_LEVEL_METADATA, ACCESS_LEVELS.PUBLIC);
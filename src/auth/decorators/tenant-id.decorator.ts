@@ -0,0 +1,8 @@
+import { ExecutionContext, createParamDecorator } from '@nestjs/common';
+import { AuthenticatedRequest } from '../interfaces/api-key.interface';
+
+// The ID of the tenant whose API key authenticated the request
+export const TenantId = createParamDecorator(
+  (_data: unknown, context: ExecutionContext) =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().auth?.tenantId,
+);
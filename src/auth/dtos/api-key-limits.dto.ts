@@ -0,0 +1,29 @@
+/**
+ * Data Transfer Object for the limits of an API key, overriding the `rateLimits` configuration
+ * namespace. When updating a key, an omitted limit is left unchanged and a null limit falls back
+ * to the configured default again.
+ *
+ * @class ApiKeyLimitsDto
+ *
+ * @property requests_per_minute - Requests per minute on each route; routes with a stricter configured limit keep it.
+ * @property daily_token_budget - Tokens the key may use per UTC day.
+ * @property monthly_token_budget - Tokens the key may use per UTC month.
+ */
+import { IsInt, IsOptional, Min } from 'class-validator';
+
+export class ApiKeyLimitsDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  requests_per_minute?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  daily_token_budget?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  monthly_token_budget?: number | null;
+}
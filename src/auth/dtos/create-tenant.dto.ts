@@ -0,0 +1,15 @@
+/**
+ * Data Transfer Object for creating a tenant.
+ *
+ * @class CreateTenantDto
+ *
+ * @property name - Unique name of the tenant.
+ */
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class CreateTenantDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+}
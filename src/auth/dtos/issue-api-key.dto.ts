@@ -0,0 +1,28 @@
+/**
+ * Data Transfer Object for issuing an API key to a tenant.
+ *
+ * @class IssueApiKeyDto
+ *
+ * @property tenant_id - The tenant the key acts for.
+ * @property name - Optional name of the key, e.g., the application using it.
+ * @property requests_per_minute, daily_token_budget, monthly_token_budget - Optional limits of the key, see ApiKeyLimitsDto.
+ */
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiKeyLimitsDto } from './api-key-limits.dto';
+
+export class IssueApiKeyDto extends ApiKeyLimitsDto {
+  @IsUUID()
+  tenant_id: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name?: string;
+}
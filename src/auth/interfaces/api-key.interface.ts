@@ -0,0 +1,54 @@
+import { Request } from 'express';
+
+/**
+ * A tenant: the owner of API keys, documents, vectors and conversations.
+ *
+ * @interface Tenant
+ *
+ * @property id - Identifier of the tenant, stamped on every record it owns.
+ * @property name - Unique human readable name of the tenant.
+ * @property created_at - When the tenant was created.
+ */
+export interface Tenant {
+  id: string;
+  name: string;
+  created_at: Date;
+}
+
+/**
+ * An API key issued to a tenant. The key itself is only returned when it is issued; the
+ * SHA-256 hash it is authenticated with is never returned.
+ *
+ * @interface ApiKey
+ *
+ * @property id - Identifier of the key.
+ * @property tenant_id - The tenant the key acts for.
+ * @property name - Human readable name of the key.
+ * @property key_preview - The first characters of the key, to tell keys apart.
+ * @property created_at - When the key was issued.
+ * @property last_used_at - When the key last authenticated a request.
+ * @property revoked_at - When the key was revoked; revoked keys no longer authenticate.
+ * @property requests_per_minute, daily_token_budget, monthly_token_budget - Limits of the key; null for the configured defaults.
+ */
+export interface ApiKey {
+  id: string;
+  tenant_id: string;
+  name: string;
+  key_preview: string;
+  created_at: Date;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+  requests_per_minute: number | null;
+  daily_token_budget: number | null;
+  monthly_token_budget: number | null;
+}
+
+export type ApiKeyLimits = Pick<
+  ApiKey,
+  'requests_per_minute' | 'daily_token_budget' | 'monthly_token_budget'
+>;
+
+// A request authenticated by ApiKeyGuard with a tenant API key
+export interface AuthenticatedRequest extends Request {
+  auth?: { tenantId: string; apiKeyId: string; limits: ApiKeyLimits };
+}
@@ -0,0 +1,26 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { environmentVariables } from './environment.validation';
+
+/**
+ * Settings of the agent tools: the tools enabled when a request does not pick any, and the
+ * allowlisted hosts, timeout and maximum response length of the HTTP fetch tool.
+ */
+export const agentToolsConfig = registerAs('agentTools', () => {
+  const variables = environmentVariables();
+  return {
+    defaultTools: splitList(variables.AGENT_DEFAULT_TOOLS),
+    httpAllowedHosts: splitList(variables.AGENT_HTTP_ALLOWED_HOSTS).map(
+      (host) => host.toLowerCase(),
+    ),
+    httpTimeoutMs: variables.AGENT_HTTP_TIMEOUT_MS,
+    httpMaxResponseLength: variables.AGENT_HTTP_MAX_RESPONSE_LENGTH,
+  };
+});
+
+export type AgentToolsConfig = ConfigType<typeof agentToolsConfig>;
+
+export const splitList = (value = '') =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
@@ -0,0 +1,12 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { environmentVariables } from './environment.validation';
+
+/**
+ * Authentication settings: the admin API key, which guards the routes issuing and revoking the
+ * API keys of the tenants.
+ */
+export const authConfig = registerAs('auth', () => ({
+  adminApiKey: environmentVariables().ADMIN_API_KEY,
+}));
+
+export type AuthConfig = ConfigType<typeof authConfig>;
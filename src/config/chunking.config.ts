@@ -0,0 +1,20 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { environmentVariables } from './environment.validation';
+
+/**
+ * Ingestion settings used when an upload or re-ingestion request does not override them.
+ */
+export const chunkingConfig = registerAs('chunking', () => {
+  const variables = environmentVariables();
+  return {
+    chunking_strategy: variables.CHUNKING_STRATEGY,
+    chunk_size: variables.CHUNK_SIZE,
+    chunk_overlap: variables.CHUNK_OVERLAP,
+    encoding_name: variables.CHUNK_TOKEN_ENCODING,
+    sentence_overlap: variables.CHUNK_SENTENCE_OVERLAP,
+    breakpoint_percentile: variables.CHUNK_BREAKPOINT_PERCENTILE,
+    buffer_size: variables.CHUNK_BUFFER_SIZE,
+  };
+});
+
+export type ChunkingConfig = ConfigType<typeof chunkingConfig>;
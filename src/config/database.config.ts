@@ -0,0 +1,20 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { PoolConfig } from 'pg';
+import { environmentVariables } from './environment.validation';
+
+/**
+ * Connection settings of the PostgreSQL pool shared through DatabaseService.
+ */
+export const databaseConfig = registerAs('database', (): PoolConfig => {
+  const variables = environmentVariables();
+  return {
+    host: variables.DB_HOST,
+    port: variables.DB_PORT,
+    user: variables.DB_USER,
+    password: variables.DB_PASSWORD,
+    database: variables.DB_NAME,
+    max: variables.DB_POOL_MAX,
+  };
+});
+
+export type DatabaseConfig = ConfigType<typeof databaseConfig>;
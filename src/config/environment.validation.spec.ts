@@ -0,0 +1,72 @@
+import { validateEnvironment } from './environment.validation';
+import { serverConfig } from './server.config';
+import { databaseConfig } from './database.config';
+import { modelsConfig } from './models.config';
+import { rateLimitsConfig } from './rate-limits.config';
+
+const requiredVariables = {
+  ADMIN_API_KEY: 'admin-key-of-the-tests',
+  CHAT_MODEL_PROVIDER: 'fake',
+  EMBEDDINGS_PROVIDER: 'fake',
+};
+
+describe('validateEnvironment', () => {
+  it('fills in the defaults of the variables left empty', () => {
+    const variables = validateEnvironment({
+      ...requiredVariables,
+      PORT: '',
+      DB_PORT: '',
+    });
+
+    expect(variables.PORT).toBe(6000);
+    expect(variables.DB_PORT).toBe(5434);
+  });
+
+  it('lists every invalid variable', () => {
+    expect(() =>
+      validateEnvironment({
+        ...requiredVariables,
+        PORT: '70000',
+        CHUNK_SIZE: '100',
+        CHUNK_OVERLAP: '200',
+      }),
+    ).toThrow(
+      /PORT must not be greater than 65535[\s\S]*CHUNK_OVERLAP must be smaller than CHUNK_SIZE/,
+    );
+  });
+});
+
+describe('configuration namespaces', () => {
+  const processEnvironment = process.env;
+
+  beforeEach(() => {
+    // ConfigModule leaves the variables already set in the process environment as they are
+    process.env = {
+      ...processEnvironment,
+      PORT: '',
+      DB_PORT: '',
+      CHAT_MODEL_MAX_TOKENS: '',
+      TOKEN_BUDGET_DAILY: '',
+    };
+  });
+
+  afterEach(() => {
+    process.env = processEnvironment;
+  });
+
+  it('are built from the validated variables rather than the process environment', () => {
+    validateEnvironment({
+      ...process.env,
+      ...requiredVariables,
+      CHAT_MODEL_TEMPERATURE: '0.2',
+    });
+
+    expect(serverConfig().port).toBe(6000);
+    expect(databaseConfig().port).toBe(5434);
+    expect(modelsConfig().chat).toMatchObject({
+      temperature: 0.2,
+      maxTokens: undefined,
+    });
+    expect(rateLimitsConfig().dailyTokenBudget).toBeUndefined();
+  });
+});
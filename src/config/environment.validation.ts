@@ -0,0 +1,462 @@
+/**
+ * Schema of the environment variables read by the application, validated once at startup.
+ *
+ * ConfigModule passes the merged `.env` file and process environment to `validateEnvironment`,
+ * which ignores empty values, converts the others to their declared types, fills in the defaults
+ * below and throws a single error listing every invalid variable, so that a misconfigured
+ * application stops before it opens any connection. The typed settings of each namespace are then built from these
+ * variables by the factories in this directory, through `environmentVariables`, rather than from the raw process
+ * environment: ConfigModule does not overwrite the variables already set there, empty ones included.
+ *
+ * @class EnvironmentVariables
+ *
+ * @method validateEnvironment - Validates the raw environment and returns it with types and defaults applied.
+ * @param {Record<string, unknown>} environment - The variables loaded by ConfigModule.
+ * @returns {EnvironmentVariables} The validated variables.
+ *
+ * @method environmentVariables - Returns the variables validated by ConfigModule, validating the process
+ *                                environment when ConfigModule has not.
+ */
+
+import { plainToInstance } from 'class-transformer';
+import {
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  MinLength,
+  ValidateIf,
+  ValidationError,
+  validateSync,
+} from 'class-validator';
+import { MODEL_PROVIDERS } from 'src/utils/constants/model-providers.constants';
+import { DISTANCE_STRATEGIES } from 'src/utils/constants/retrieval.constants';
+import { AGENT_TOOLS } from 'src/utils/constants/agent-tools.constants';
+import { LOG_FORMATS } from 'src/utils/constants/observability.constants';
+import {
+  CHUNKING_STRATEGIES,
+  TOKEN_ENCODINGS,
+  TokenEncoding,
+} from 'src/utils/constants/chunking.constants';
+import {
+  INJECTION_ACTIONS,
+  MODERATION_ACTIONS,
+  PII_ACTIONS,
+  PII_ENTITIES,
+} from 'src/utils/constants/guardrails.constants';
+import { splitList } from './agent-tools.config';
+import { parseModelPrices } from './usage.config';
+import { parseRouteRateLimits } from './rate-limits.config';
+
+export class EnvironmentVariables {
+  // Server
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  PORT: number = 6000;
+
+  @IsString()
+  API_PREFIX: string = 'api/v1';
+
+  // Comma-separated origins allowed by CORS
+  @IsString()
+  CORS_ORIGINS: string = '';
+
+  // Observability
+  @IsEnum(LOG_FORMATS)
+  LOG_FORMAT: LOG_FORMATS = LOG_FORMATS.JSON;
+
+  @IsInt()
+  @Min(1)
+  HEALTH_CHECK_TIMEOUT_MS: number = 5000;
+
+  // Authentication
+  @MinLength(16, {
+    message:
+      'ADMIN_API_KEY is required and must be at least 16 characters long',
+  })
+  ADMIN_API_KEY: string;
+
+  // Database
+  @IsNotEmpty()
+  @IsString()
+  DB_HOST: string = '127.0.0.1';
+
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  DB_PORT: number = 5434;
+
+  @IsNotEmpty()
+  @IsString()
+  DB_USER: string = 'pgvector';
+
+  @IsString()
+  DB_PASSWORD: string = 'admin';
+
+  @IsNotEmpty()
+  @IsString()
+  DB_NAME: string = 'pgvector-db';
+
+  @IsInt()
+  @Min(1)
+  DB_POOL_MAX: number = 10;
+
+  // Vector store
+  @Matches(/^[a-z_][a-z0-9_]*$/i, {
+    message: 'VECTOR_STORE_TABLE must be a plain SQL identifier',
+  })
+  VECTOR_STORE_TABLE: string = 'testlangchain';
+
+  @IsIn(DISTANCE_STRATEGIES)
+  VECTOR_STORE_DISTANCE_STRATEGY: string = 'cosine';
+
+  @Matches(/^[a-z_]+$/, {
+    message:
+      'VECTOR_STORE_TEXT_SEARCH_CONFIG must be a Postgres text search configuration name',
+  })
+  VECTOR_STORE_TEXT_SEARCH_CONFIG: string = 'english';
+
+  // Models
+  @IsEnum(MODEL_PROVIDERS)
+  CHAT_MODEL_PROVIDER: MODEL_PROVIDERS = MODEL_PROVIDERS.OPENAI;
+
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  CHAT_MODEL?: string;
+
+  @IsNumber()
+  @Min(0)
+  @Max(2)
+  CHAT_MODEL_TEMPERATURE: number = 0.8;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  CHAT_MODEL_MAX_TOKENS?: number;
+
+  // Fallback chat model, used when the chat model is rate limited or unavailable
+  @IsOptional()
+  @IsEnum(MODEL_PROVIDERS)
+  CHAT_FALLBACK_PROVIDER?: MODEL_PROVIDERS;
+
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  CHAT_FALLBACK_MODEL?: string;
+
+  @IsInt()
+  @Min(0)
+  MODEL_MAX_RETRIES: number = 2;
+
+  @IsIn([
+    MODEL_PROVIDERS.OPENAI,
+    MODEL_PROVIDERS.OPENAI_COMPATIBLE,
+    MODEL_PROVIDERS.FAKE,
+  ])
+  EMBEDDINGS_PROVIDER: MODEL_PROVIDERS = MODEL_PROVIDERS.OPENAI;
+
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  EMBEDDINGS_MODEL?: string;
+
+  @ValidateIf(
+    (environment: EnvironmentVariables) =>
+      environment.CHAT_MODEL_PROVIDER === MODEL_PROVIDERS.OPENAI ||
+      environment.CHAT_FALLBACK_PROVIDER === MODEL_PROVIDERS.OPENAI ||
+      environment.EMBEDDINGS_PROVIDER === MODEL_PROVIDERS.OPENAI,
+  )
+  @IsNotEmpty({
+    message:
+      'OPENAI_API_KEY is required when OpenAI is the chat, fallback or embeddings provider',
+  })
+  OPENAI_API_KEY?: string;
+
+  @ValidateIf(
+    (environment: EnvironmentVariables) =>
+      environment.CHAT_MODEL_PROVIDER === MODEL_PROVIDERS.ANTHROPIC ||
+      environment.CHAT_FALLBACK_PROVIDER === MODEL_PROVIDERS.ANTHROPIC,
+  )
+  @IsNotEmpty({
+    message:
+      'ANTHROPIC_API_KEY is required when Anthropic is the chat or fallback provider',
+  })
+  ANTHROPIC_API_KEY?: string;
+
+  @IsNotEmpty()
+  @IsString()
+  OPENAI_COMPATIBLE_BASE_URL: string = 'http://localhost:11434/v1';
+
+  @IsString()
+  OPENAI_COMPATIBLE_API_KEY: string = 'none';
+
+  // Chunking
+  @IsEnum(CHUNKING_STRATEGIES)
+  CHUNKING_STRATEGY: CHUNKING_STRATEGIES = CHUNKING_STRATEGIES.CHARACTER;
+
+  @IsInt()
+  @Min(1)
+  CHUNK_SIZE: number = 1000;
+
+  @IsInt()
+  @Min(0)
+  CHUNK_OVERLAP: number = 50;
+
+  @IsIn(TOKEN_ENCODINGS)
+  CHUNK_TOKEN_ENCODING: TokenEncoding = 'cl100k_base';
+
+  @IsInt()
+  @Min(0)
+  CHUNK_SENTENCE_OVERLAP: number = 1;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  CHUNK_BREAKPOINT_PERCENTILE: number = 95;
+
+  @IsInt()
+  @Min(0)
+  CHUNK_BUFFER_SIZE: number = 1;
+
+  // Uploads
+  @IsNotEmpty()
+  @IsString()
+  UPLOAD_DIRECTORY: string = './src/pdfs';
+
+  @IsInt()
+  @Min(1)
+  UPLOAD_MAX_FILE_SIZE: number = 20 * 1024 * 1024;
+
+  // Ingestion jobs
+  // 0 runs no ingestion worker in the instance
+  @IsInt()
+  @Min(0)
+  INGESTION_CONCURRENCY: number = 2;
+
+  @IsInt()
+  @Min(100)
+  INGESTION_POLL_INTERVAL_MS: number = 1000;
+
+  @IsInt()
+  @Min(1)
+  INGESTION_MAX_ATTEMPTS: number = 3;
+
+  @IsInt()
+  @Min(0)
+  INGESTION_RETRY_BACKOFF_MS: number = 5000;
+
+  @IsInt()
+  @Min(1000)
+  INGESTION_STALE_AFTER_MS: number = 5 * 60 * 1000;
+
+  @IsInt()
+  @Min(1)
+  INGESTION_EMBEDDING_BATCH_SIZE: number = 64;
+
+  @IsInt()
+  @Min(1)
+  INGESTION_EMBEDDING_CONCURRENCY: number = 4;
+
+  // Document summaries
+  @IsInt()
+  @Min(1000)
+  SUMMARIZATION_MAX_INPUT_CHARACTERS: number = 12000;
+
+  @IsInt()
+  @Min(1)
+  SUMMARIZATION_CONCURRENCY: number = 4;
+
+  // Evaluation runs; the judge defaults to the chat model
+  @IsOptional()
+  @IsEnum(MODEL_PROVIDERS)
+  EVALUATION_JUDGE_PROVIDER?: MODEL_PROVIDERS;
+
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  EVALUATION_JUDGE_MODEL?: string;
+
+  @IsInt()
+  @Min(1)
+  EVALUATION_CONCURRENCY: number = 2;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  EVALUATION_REGRESSION_TOLERANCE: number = 0.02;
+
+  // Response cache
+  @IsInt()
+  @Min(0)
+  RESPONSE_CACHE_TTL_SECONDS: number = 86400;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  RESPONSE_CACHE_SIMILARITY_THRESHOLD: number = 0.95;
+
+  // Agent tools, as comma-separated lists
+  @IsString()
+  AGENT_DEFAULT_TOOLS: string = [
+    AGENT_TOOLS.DOCUMENT_SEARCH,
+    AGENT_TOOLS.CALCULATOR,
+    AGENT_TOOLS.CURRENT_DATETIME,
+  ].join(',');
+
+  @IsString()
+  AGENT_HTTP_ALLOWED_HOSTS: string = '';
+
+  @IsInt()
+  @Min(1)
+  AGENT_HTTP_TIMEOUT_MS: number = 10000;
+
+  @IsInt()
+  @Min(1)
+  AGENT_HTTP_MAX_RESPONSE_LENGTH: number = 4000;
+
+  // Usage accounting, as a JSON object of per-million-token prices by model
+  @IsOptional()
+  @IsString()
+  MODEL_PRICES?: string;
+
+  // Rate limits and token budgets, per API key
+  @IsInt()
+  @Min(1)
+  RATE_LIMIT_REQUESTS_PER_MINUTE: number = 60;
+
+  // JSON object of requests per minute by `<controller path>/<route path>`
+  @IsOptional()
+  @IsString()
+  RATE_LIMIT_ROUTES?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  TOKEN_BUDGET_DAILY?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  TOKEN_BUDGET_MONTHLY?: number;
+
+  // Guardrails
+  @IsEnum(PII_ACTIONS)
+  GUARDRAILS_PII_ACTION: PII_ACTIONS = PII_ACTIONS.REDACT;
+
+  // Comma-separated kinds of personal data
+  @IsString()
+  GUARDRAILS_PII_ENTITIES: string = Object.values(PII_ENTITIES).join(',');
+
+  @IsEnum(INJECTION_ACTIONS)
+  GUARDRAILS_INJECTION_ACTION: INJECTION_ACTIONS = INJECTION_ACTIONS.STRIP;
+
+  @IsEnum(MODERATION_ACTIONS)
+  GUARDRAILS_MODERATION_ACTION: MODERATION_ACTIONS = MODERATION_ACTIONS.BLOCK;
+
+  // Comma-separated terms the chat model output must not contain
+  @IsString()
+  GUARDRAILS_BLOCKED_TERMS: string = '';
+}
+
+export const validateEnvironment = (environment: Record<string, unknown>) => {
+  // Variables left empty, as in a copy of .env.example, count as unset
+  const setVariables = Object.fromEntries(
+    Object.entries(environment).filter(([, value]) => value !== ''),
+  );
+  const variables = plainToInstance(EnvironmentVariables, setVariables, {
+    enableImplicitConversion: true,
+  });
+  const errors = validateSync(variables, { skipMissingProperties: false });
+
+  const problems = errors.flatMap(describeError);
+  if (variables.CHUNK_OVERLAP >= variables.CHUNK_SIZE) {
+    problems.push('CHUNK_OVERLAP must be smaller than CHUNK_SIZE');
+  }
+  const unknownTools = splitList(variables.AGENT_DEFAULT_TOOLS).filter(
+    (tool) => !Object.values<string>(AGENT_TOOLS).includes(tool),
+  );
+  if (unknownTools.length) {
+    problems.push(
+      `AGENT_DEFAULT_TOOLS names unknown tools: ${unknownTools.join(', ')}`,
+    );
+  }
+  const unknownEntities = splitList(variables.GUARDRAILS_PII_ENTITIES).filter(
+    (entity) => !Object.values<string>(PII_ENTITIES).includes(entity),
+  );
+  if (unknownEntities.length) {
+    problems.push(
+      `GUARDRAILS_PII_ENTITIES names unknown kinds of personal data: ${unknownEntities.join(', ')}`,
+    );
+  }
+  problems.push(...describeModelPrices(variables.MODEL_PRICES));
+  problems.push(...describeRouteRateLimits(variables.RATE_LIMIT_ROUTES));
+  if (problems.length) {
+    throw new Error(
+      `Invalid environment configuration:\n  - ${problems.join('\n  - ')}`,
+    );
+  }
+  validatedVariables = variables;
+  return variables;
+};
+
+let validatedVariables: EnvironmentVariables | undefined;
+
+export const environmentVariables = () =>
+  validatedVariables ?? validateEnvironment(process.env);
+
+const describeModelPrices = (value?: string) => {
+  let prices: unknown;
+  try {
+    prices = parseModelPrices(value);
+  } catch {
+    return ['MODEL_PRICES must be a JSON object'];
+  }
+  if (!prices || typeof prices !== 'object' || Array.isArray(prices)) {
+    return ['MODEL_PRICES must be a JSON object'];
+  }
+  return Object.entries(prices)
+    .filter(
+      ([, price]) =>
+        !['prompt', 'completion'].every(
+          (side) => typeof price?.[side] === 'number' && price[side] >= 0,
+        ),
+    )
+    .map(
+      ([model]) =>
+        `MODEL_PRICES entry "${model}" must have non-negative numeric "prompt" and "completion" prices`,
+    );
+};
+
+const describeRouteRateLimits = (value?: string) => {
+  let limits: unknown;
+  try {
+    limits = parseRouteRateLimits(value);
+  } catch {
+    return ['RATE_LIMIT_ROUTES must be a JSON object'];
+  }
+  if (!limits || typeof limits !== 'object' || Array.isArray(limits)) {
+    return ['RATE_LIMIT_ROUTES must be a JSON object'];
+  }
+  return Object.entries(limits)
+    .filter(([, limit]) => !Number.isInteger(limit) || limit < 1)
+    .map(
+      ([route]) =>
+        `RATE_LIMIT_ROUTES entry "${route}" must be a positive integer of requests per minute`,
+    );
+};
+
+// Secrets are never echoed back in the startup error
+const describeError = ({ property, value, constraints }: ValidationError) =>
+  Object.values(constraints ?? {}).map((constraint) =>
+    /KEY|PASSWORD/.test(property)
+      ? constraint
+      : `${constraint} (received ${value === undefined ? 'nothing' : JSON.stringify(value)})`,
+  );
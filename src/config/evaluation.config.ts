@@ -0,0 +1,19 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { environmentVariables } from './environment.validation';
+
+/**
+ * Settings of the evaluation runs: the judge model scoring the answers, the configured chat
+ * model when unset, how many cases are evaluated at once, and by how much a metric may drop
+ * below the baseline before it is reported as a regression.
+ */
+export const evaluationConfig = registerAs('evaluation', () => {
+  const variables = environmentVariables();
+  return {
+    judgeProvider: variables.EVALUATION_JUDGE_PROVIDER,
+    judgeModel: variables.EVALUATION_JUDGE_MODEL,
+    concurrency: variables.EVALUATION_CONCURRENCY,
+    regressionTolerance: variables.EVALUATION_REGRESSION_TOLERANCE,
+  };
+});
+
+export type EvaluationConfig = ConfigType<typeof evaluationConfig>;
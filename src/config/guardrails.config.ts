@@ -0,0 +1,24 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { PII_ENTITIES } from 'src/utils/constants/guardrails.constants';
+import { splitList } from './agent-tools.config';
+import { environmentVariables } from './environment.validation';
+
+/**
+ * Settings of the guardrails: what is done with the personal data sent to the model provider and
+ * which kinds are looked for, with the prompt-injection patterns found in retrieved chunks and with
+ * the chat model outputs breaking a moderation rule, and the terms the outputs must not contain.
+ */
+export const guardrailsConfig = registerAs('guardrails', () => {
+  const variables = environmentVariables();
+  return {
+    piiAction: variables.GUARDRAILS_PII_ACTION,
+    piiEntities: splitList(variables.GUARDRAILS_PII_ENTITIES) as PII_ENTITIES[],
+    injectionAction: variables.GUARDRAILS_INJECTION_ACTION,
+    moderationAction: variables.GUARDRAILS_MODERATION_ACTION,
+    blockedTerms: splitList(variables.GUARDRAILS_BLOCKED_TERMS).map((term) =>
+      term.toLowerCase(),
+    ),
+  };
+});
+
+export type GuardrailsConfig = ConfigType<typeof guardrailsConfig>;
@@ -0,0 +1,23 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { environmentVariables } from './environment.validation';
+
+/**
+ * Settings of the background ingestion worker: how many jobs it runs at once and how often it polls
+ * the queue, how often and how long after a failure a job is retried, after how long without
+ * progress a running job is considered abandoned by a stopped worker, and how many chunks are
+ * embedded per call and how many of these calls a job makes at once.
+ */
+export const ingestionConfig = registerAs('ingestion', () => {
+  const variables = environmentVariables();
+  return {
+    concurrency: variables.INGESTION_CONCURRENCY,
+    pollIntervalMs: variables.INGESTION_POLL_INTERVAL_MS,
+    maxAttempts: variables.INGESTION_MAX_ATTEMPTS,
+    retryBackoffMs: variables.INGESTION_RETRY_BACKOFF_MS,
+    staleAfterMs: variables.INGESTION_STALE_AFTER_MS,
+    embeddingBatchSize: variables.INGESTION_EMBEDDING_BATCH_SIZE,
+    embeddingConcurrency: variables.INGESTION_EMBEDDING_CONCURRENCY,
+  };
+});
+
+export type IngestionConfig = ConfigType<typeof ingestionConfig>;
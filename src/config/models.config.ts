@@ -0,0 +1,39 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { environmentVariables } from './environment.validation';
+
+/**
+ * Settings of ModelProviderService: the default chat model and its fallback, the embeddings
+ * model, the retries of failed model calls, and the credentials and endpoint of each provider.
+ */
+export const modelsConfig = registerAs('models', () => {
+  const variables = environmentVariables();
+  return {
+    chat: {
+      provider: variables.CHAT_MODEL_PROVIDER,
+      model: variables.CHAT_MODEL,
+      temperature: variables.CHAT_MODEL_TEMPERATURE,
+      maxTokens: variables.CHAT_MODEL_MAX_TOKENS,
+      fallback: {
+        provider: variables.CHAT_FALLBACK_PROVIDER,
+        model: variables.CHAT_FALLBACK_MODEL,
+      },
+    },
+    embeddings: {
+      provider: variables.EMBEDDINGS_PROVIDER,
+      model: variables.EMBEDDINGS_MODEL,
+    },
+    maxRetries: variables.MODEL_MAX_RETRIES,
+    openAI: {
+      apiKey: variables.OPENAI_API_KEY,
+    },
+    anthropic: {
+      apiKey: variables.ANTHROPIC_API_KEY,
+    },
+    openAICompatible: {
+      baseUrl: variables.OPENAI_COMPATIBLE_BASE_URL,
+      apiKey: variables.OPENAI_COMPATIBLE_API_KEY,
+    },
+  };
+});
+
+export type ModelsConfig = ConfigType<typeof modelsConfig>;
@@ -0,0 +1,16 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { environmentVariables } from './environment.validation';
+
+/**
+ * Settings of logs and health checks: the format of the application logs, and how long the
+ * health check waits for each dependency before reporting it down.
+ */
+export const observabilityConfig = registerAs('observability', () => {
+  const variables = environmentVariables();
+  return {
+    logFormat: variables.LOG_FORMAT,
+    healthCheckTimeoutMs: variables.HEALTH_CHECK_TIMEOUT_MS,
+  };
+});
+
+export type ObservabilityConfig = ConfigType<typeof observabilityConfig>;
@@ -0,0 +1,27 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { DEFAULT_ROUTE_RATE_LIMITS } from 'src/utils/constants/rate-limits.constants';
+import { environmentVariables } from './environment.validation';
+
+/**
+ * Default limits of the API keys: the requests per minute of every route, the stricter limits of
+ * the routes listed in RATE_LIMIT_ROUTES merged over the built-in ones, and the daily and monthly
+ * token budgets, unlimited when unset. Each key can override the requests per minute and budgets.
+ */
+export const rateLimitsConfig = registerAs('rateLimits', () => {
+  const variables = environmentVariables();
+  return {
+    requestsPerMinute: variables.RATE_LIMIT_REQUESTS_PER_MINUTE,
+    routes: {
+      ...DEFAULT_ROUTE_RATE_LIMITS,
+      ...parseRouteRateLimits(variables.RATE_LIMIT_ROUTES),
+    },
+    dailyTokenBudget: variables.TOKEN_BUDGET_DAILY,
+    monthlyTokenBudget: variables.TOKEN_BUDGET_MONTHLY,
+  };
+});
+
+export type RateLimitsConfig = ConfigType<typeof rateLimitsConfig>;
+
+// RATE_LIMIT_ROUTES is a JSON object such as {"langchain-chat/agent-chat": 10}
+export const parseRouteRateLimits = (value = ''): Record<string, number> =>
+  value ? JSON.parse(value) : {};
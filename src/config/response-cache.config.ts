@@ -0,0 +1,16 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { environmentVariables } from './environment.validation';
+
+/**
+ * Settings of the response cache: how long a cached answer is served, 0 disabling the cache, and
+ * the cosine similarity above which the answer to an earlier query is served for a new one.
+ */
+export const responseCacheConfig = registerAs('responseCache', () => {
+  const variables = environmentVariables();
+  return {
+    ttlSeconds: variables.RESPONSE_CACHE_TTL_SECONDS,
+    similarityThreshold: variables.RESPONSE_CACHE_SIMILARITY_THRESHOLD,
+  };
+});
+
+export type ResponseCacheConfig = ConfigType<typeof responseCacheConfig>;
@@ -0,0 +1,18 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { splitList } from './agent-tools.config';
+import { environmentVariables } from './environment.validation';
+
+/**
+ * HTTP server settings: the port the application listens on, the prefix of every route and the
+ * origins allowed to call it from a browser. No cross-origin request is allowed when the list is empty.
+ */
+export const serverConfig = registerAs('server', () => {
+  const variables = environmentVariables();
+  return {
+    port: variables.PORT,
+    apiPrefix: variables.API_PREFIX,
+    corsOrigins: splitList(variables.CORS_ORIGINS),
+  };
+});
+
+export type ServerConfig = ConfigType<typeof serverConfig>;
@@ -0,0 +1,17 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { environmentVariables } from './environment.validation';
+
+/**
+ * Settings of the document summaries: the maximum number of characters of text sent to the model
+ * in one call, consecutive chunks being grouped up to that size, and how many of these calls a
+ * map-reduce summary makes at once.
+ */
+export const summarizationConfig = registerAs('summarization', () => {
+  const variables = environmentVariables();
+  return {
+    maxInputCharacters: variables.SUMMARIZATION_MAX_INPUT_CHARACTERS,
+    concurrency: variables.SUMMARIZATION_CONCURRENCY,
+  };
+});
+
+export type SummarizationConfig = ConfigType<typeof summarizationConfig>;
@@ -0,0 +1,16 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { environmentVariables } from './environment.validation';
+
+/**
+ * Settings of uploaded documents: the directory they are stored in and the maximum size, in bytes,
+ * of an uploaded file.
+ */
+export const uploadsConfig = registerAs('uploads', () => {
+  const variables = environmentVariables();
+  return {
+    directory: variables.UPLOAD_DIRECTORY,
+    maxFileSize: variables.UPLOAD_MAX_FILE_SIZE,
+  };
+});
+
+export type UploadsConfig = ConfigType<typeof uploadsConfig>;
@@ -0,0 +1,23 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import {
+  DEFAULT_MODEL_PRICES,
+  ModelPrice,
+} from 'src/utils/constants/usage.constants';
+import { environmentVariables } from './environment.validation';
+
+/**
+ * Settings of usage accounting: the price table of the models, in US dollars per million
+ * tokens, made of the defaults with the entries of MODEL_PRICES merged over them.
+ */
+export const usageConfig = registerAs('usage', () => ({
+  prices: {
+    ...DEFAULT_MODEL_PRICES,
+    ...parseModelPrices(environmentVariables().MODEL_PRICES),
+  },
+}));
+
+export type UsageConfig = ConfigType<typeof usageConfig>;
+
+// MODEL_PRICES is a JSON object such as {"gpt-4o": {"prompt": 5, "completion": 15}}
+export const parseModelPrices = (value = ''): Record<string, ModelPrice> =>
+  value ? JSON.parse(value) : {};
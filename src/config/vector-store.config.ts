@@ -0,0 +1,25 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { DistanceStrategy } from '@langchain/community/vectorstores/pgvector';
+import { environmentVariables } from './environment.validation';
+
+/**
+ * Settings of the PGVector table: its name and columns, the distance strategy of similarity
+ * searches and the text search configuration of keyword searches.
+ */
+export const vectorStoreConfig = registerAs('vectorStore', () => {
+  const variables = environmentVariables();
+  return {
+    tableName: variables.VECTOR_STORE_TABLE,
+    columns: {
+      idColumnName: 'id',
+      vectorColumnName: 'vector',
+      contentColumnName: 'content',
+      metadataColumnName: 'metadata',
+    },
+    distanceStrategy:
+      variables.VECTOR_STORE_DISTANCE_STRATEGY as DistanceStrategy,
+    textSearchConfig: variables.VECTOR_STORE_TEXT_SEARCH_CONFIG,
+  };
+});
+
+export type VectorStoreConfig = ConfigType<typeof vectorStoreConfig>;
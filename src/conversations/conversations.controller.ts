@@ -0,0 +1,83 @@
+/**
+ * Controller for managing stored conversations.
+ *
+ * Exposes CRUD endpoints over the conversations persisted by ConversationsService, scoped to the
+ * tenant of the API key. Chatting
+ * within a conversation is done through the `conversation-chat` and `conversation-agent-chat`
+ * routes of LangchainChatController, which take a `conversation_id` and the new user message.
+ *
+ * @class ConversationsController
+ *
+ * @method create - Creates a conversation. Accepts POST requests with a CreateConversationDto.
+ * @method findAll - Lists all conversations, most recently updated first.
+ * @method findOne - Fetches a conversation with its messages.
+ * @method rename - Renames a conversation. Accepts PATCH requests with a RenameConversationDto.
+ * @method remove - Deletes a conversation together with its messages.
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { ConversationsService } from './conversations.service';
+import { CreateConversationDto } from './dtos/create-conversation.dto';
+import { RenameConversationDto } from './dtos/rename-conversation.dto';
+import { TenantId } from 'src/auth/decorators/tenant-id.decorator';
+
+@Controller('conversations')
+export class ConversationsController {
+  constructor(private readonly conversationsService: ConversationsService) {}
+
+  @Post()
+  @HttpCode(201)
+  async create(
+    @Body() createConversationDto: CreateConversationDto,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.conversationsService.create(
+      createConversationDto,
+      tenantId,
+    );
+  }
+
+  @Get()
+  async findAll(@TenantId() tenantId: string) {
+    return await this.conversationsService.findAll(tenantId);
+  }
+
+  @Get(':id')
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.conversationsService.findOne(id, tenantId);
+  }
+
+  @Patch(':id')
+  async rename(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() renameConversationDto: RenameConversationDto,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.conversationsService.rename(
+      id,
+      renameConversationDto,
+      tenantId,
+    );
+  }
+
+  @Delete(':id')
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.conversationsService.remove(id, tenantId);
+  }
+}
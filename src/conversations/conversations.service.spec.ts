@@ -0,0 +1,134 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { ConversationsService } from './conversations.service';
+import { DatabaseService } from 'src/services/database.service';
+import { vercelRoles } from 'src/utils/constants/openAI.constants';
+
+const conversation = {
+  id: 'conversation-1',
+  title: 'Refunds',
+  tenant_id: 'tenant-1',
+};
+
+describe('ConversationsService', () => {
+  let service: ConversationsService;
+  let query: jest.Mock;
+  let client: { query: jest.Mock };
+
+  beforeEach(async () => {
+    // The database only holds the conversation of tenant-1
+    query = jest.fn(async (sql: string, params: unknown[]) => {
+      if (sql.includes('FROM conversation_messages')) {
+        return [{ role: vercelRoles.user, content: 'Hello' }];
+      }
+      return params.includes('tenant-1') ? [conversation] : [];
+    });
+    client = {
+      query: jest.fn(async (_sql: string, params: unknown[]) => ({
+        rowCount: params.includes('tenant-1') ? 1 : 0,
+      })),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ConversationsService,
+        {
+          provide: DatabaseService,
+          useValue: {
+            query,
+            transaction: (work: (c: typeof client) => Promise<unknown>) =>
+              work(client),
+          },
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(ConversationsService);
+  });
+
+  describe('findAll', () => {
+    it('lists the conversations of the tenant only', async () => {
+      await service.findAll('tenant-1');
+
+      expect(query).toHaveBeenCalledWith(
+        'SELECT * FROM conversations WHERE tenant_id = $1 ORDER BY updated_at DESC',
+        ['tenant-1'],
+      );
+    });
+  });
+
+  describe('findOne', () => {
+    it('returns the conversation with its messages', async () => {
+      const response = await service.findOne('conversation-1', 'tenant-1');
+
+      expect(response).toMatchObject({
+        data: {
+          ...conversation,
+          messages: [{ role: vercelRoles.user, content: 'Hello' }],
+        },
+      });
+    });
+
+    it('reports the conversation of another tenant as not found, without reading its messages', async () => {
+      const error = await service
+        .findOne('conversation-1', 'tenant-2')
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(NotFoundException);
+      expect((error as NotFoundException).getResponse()).toMatchObject({
+        error_code: 'CONVERSATION_NOT_FOUND',
+      });
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('rename', () => {
+    it('does not rename the conversation of another tenant', async () => {
+      await expect(
+        service.rename('conversation-1', { title: 'Mine' }, 'tenant-2'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('remove', () => {
+    it('does not delete the conversation of another tenant', async () => {
+      await expect(
+        service.remove('conversation-1', 'tenant-2'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(query).toHaveBeenCalledWith(
+        'DELETE FROM conversations WHERE id = $1 AND tenant_id = $2 RETURNING id',
+        ['conversation-1', 'tenant-2'],
+      );
+    });
+  });
+
+  describe('appendMessages', () => {
+    const messages = [
+      { role: vercelRoles.user, content: 'How long do refunds take?' },
+      { role: vercelRoles.assistant, content: '30 days.' },
+    ];
+
+    it('stores the messages in order and bumps the conversation', async () => {
+      await service.appendMessages('conversation-1', messages, 'tenant-1');
+
+      const [update, ...inserts] = client.query.mock.calls;
+      expect(update).toEqual([
+        expect.stringContaining('UPDATE conversations SET updated_at = now()'),
+        ['conversation-1', 'tenant-1'],
+      ]);
+      expect(inserts).toEqual(
+        messages.map(({ role, content }) => [
+          expect.stringContaining('INSERT INTO conversation_messages'),
+          ['conversation-1', 'tenant-1', role, content],
+        ]),
+      );
+    });
+
+    it('does not append to the conversation of another tenant', async () => {
+      await expect(
+        service.appendMessages('conversation-1', messages, 'tenant-2'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(client.query).toHaveBeenCalledTimes(1);
+    });
+  });
+});
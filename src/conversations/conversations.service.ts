@@ -0,0 +1,206 @@
+/**
+ * Service for storing conversations and their messages in PostgreSQL.
+ *
+ * Conversations let clients of the context-aware and agent chats send only the new user
+ * message together with a conversation ID, instead of the whole chat history. The
+ * `conversations` and `conversation_messages` tables live on the pool shared through
+ * DatabaseService, next to the vector store table, and are created on module init.
+ * Conversations belong to the tenant that created them: every method is scoped to a tenant ID,
+ * and the conversations of other tenants are reported as not found.
+ *
+ * @class ConversationsService
+ *
+ * @method create - Creates a conversation with an optional title.
+ * @method findAll - Lists the conversations of the tenant, most recently updated first.
+ * @method findOne - Fetches a conversation together with its messages.
+ * @method rename - Changes the title of a conversation.
+ * @method remove - Deletes a conversation and, through the foreign key, its messages.
+ *
+ * @method getMessages - Returns the stored messages of a conversation in chronological order,
+ *                       throwing a NotFoundException when the conversation does not exist.
+ * @method appendMessages - Appends messages to a conversation in a single transaction and
+ *                          bumps its `updated_at` timestamp, throwing a NotFoundException when the
+ *                          conversation does not exist.
+ */
+
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { DatabaseService } from 'src/services/database.service';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import { CreateConversationDto } from './dtos/create-conversation.dto';
+import { RenameConversationDto } from './dtos/rename-conversation.dto';
+import {
+  Conversation,
+  ConversationMessage,
+} from './interfaces/conversation.interface';
+import { MessageDto } from 'src/langchain-chat/dtos/context-aware-messages.dto';
+
+@Injectable()
+export class ConversationsService {
+  constructor(private databaseService: DatabaseService) {}
+
+  async onModuleInit() {
+    await this.databaseService.query(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        title TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        tenant_id UUID
+      );
+    `);
+    // Conversations created before tenants were introduced belong to no tenant
+    await this.databaseService.query(
+      'ALTER TABLE conversations ADD COLUMN IF NOT EXISTS tenant_id UUID',
+    );
+    await this.databaseService.query(
+      'CREATE INDEX IF NOT EXISTS conversations_tenant_id_idx ON conversations (tenant_id)',
+    );
+    await this.databaseService.query(`
+      CREATE TABLE IF NOT EXISTS conversation_messages (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp()
+      );
+    `);
+    await this.databaseService.query(`
+      CREATE INDEX IF NOT EXISTS conversation_messages_conversation_id_idx
+        ON conversation_messages (conversation_id, created_at);
+    `);
+  }
+
+  async create(createConversationDto: CreateConversationDto, tenantId: string) {
+    try {
+      const [conversation] = await this.databaseService.query<Conversation>(
+        'INSERT INTO conversations (title, tenant_id) VALUES ($1, $2) RETURNING *',
+        [createConversationDto.title ?? DEFAULT_CONVERSATION_TITLE, tenantId],
+      );
+      return customMessage(HttpStatus.CREATED, MESSAGES.SUCCESS, conversation);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async findAll(tenantId: string) {
+    try {
+      const conversations = await this.databaseService.query<Conversation>(
+        'SELECT * FROM conversations WHERE tenant_id = $1 ORDER BY updated_at DESC',
+        [tenantId],
+      );
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, conversations);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async findOne(id: string, tenantId: string) {
+    try {
+      const conversation = await this.findConversation(id, tenantId);
+      const messages = await this.getMessages(id, tenantId);
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, {
+        ...conversation,
+        messages,
+      });
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async rename(
+    id: string,
+    renameConversationDto: RenameConversationDto,
+    tenantId: string,
+  ) {
+    try {
+      const [conversation] = await this.databaseService.query<Conversation>(
+        `UPDATE conversations SET title = $2, updated_at = now()
+         WHERE id = $1 AND tenant_id = $3 RETURNING *`,
+        [id, renameConversationDto.title, tenantId],
+      );
+      if (!conversation) throw this.notFound();
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, conversation);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async remove(id: string, tenantId: string) {
+    try {
+      const deleted = await this.databaseService.query<Conversation>(
+        'DELETE FROM conversations WHERE id = $1 AND tenant_id = $2 RETURNING id',
+        [id, tenantId],
+      );
+      if (!deleted.length) throw this.notFound();
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async getMessages(conversationId: string, tenantId: string) {
+    await this.findConversation(conversationId, tenantId);
+    return this.databaseService.query<ConversationMessage>(
+      `SELECT * FROM conversation_messages
+       WHERE conversation_id = $1 ORDER BY created_at`,
+      [conversationId],
+    );
+  }
+
+  async appendMessages(
+    conversationId: string,
+    messages: MessageDto[],
+    tenantId: string,
+  ) {
+    await this.databaseService.transaction(async (client) => {
+      const { rowCount } = await client.query(
+        `UPDATE conversations SET updated_at = now()
+         WHERE id = $1 AND tenant_id = $2`,
+        [conversationId, tenantId],
+      );
+      if (!rowCount) throw this.notFound();
+      for (const message of messages) {
+        await client.query(
+          `INSERT INTO conversation_messages (conversation_id, role, content)
+           SELECT id, $3, $4 FROM conversations WHERE id = $1 AND tenant_id = $2`,
+          [conversationId, tenantId, message.role, message.content],
+        );
+      }
+    });
+  }
+
+  private findConversation = async (id: string, tenantId: string) => {
+    const [conversation] = await this.databaseService.query<Conversation>(
+      'SELECT * FROM conversations WHERE id = $1 AND tenant_id = $2',
+      [id, tenantId],
+    );
+    if (!conversation) throw this.notFound();
+    return conversation;
+  };
+
+  private notFound = () =>
+    new NotFoundException(
+      customMessage(HttpStatus.NOT_FOUND, MESSAGES.CONVERSATION_NOT_FOUND),
+    );
+
+  private exceptionHandling = (e: unknown) => {
+    if (e instanceof HttpException) throw e;
+    Logger.error(e);
+    throw new HttpException(
+      customMessage(
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        MESSAGES.EXTERNAL_SERVER_ERROR,
+      ),
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  };
+}
+
+const DEFAULT_CONVERSATION_TITLE = 'New conversation';
@@ -0,0 +1,15 @@
+/**
+ * Data Transfer Object for creating a conversation.
+ *
+ * @class CreateConversationDto
+ *
+ * @property title - Optional title of the conversation. A default title is used when omitted.
+ */
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class CreateConversationDto {
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  title?: string;
+}
@@ -0,0 +1,14 @@
+/**
+ * Data Transfer Object for renaming a conversation.
+ *
+ * @class RenameConversationDto
+ *
+ * @property title - The new title of the conversation. It must be a non-empty string.
+ */
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class RenameConversationDto {
+  @IsNotEmpty()
+  @IsString()
+  title: string;
+}
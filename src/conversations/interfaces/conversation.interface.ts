@@ -0,0 +1,44 @@
+/**
+ * A stored conversation, as returned by ConversationsService.
+ *
+ * @interface Conversation
+ *
+ * @property id - Identifier of the conversation, used as `conversation_id` in chat requests.
+ * @property title - Human readable title of the conversation.
+ * @property created_at - When the conversation was created.
+ * @property updated_at - When the conversation was last renamed or had a message appended.
+ * @property tenant_id - The tenant that created the conversation.
+ */
+export interface Conversation {
+  id: string;
+  title: string;
+  created_at: Date;
+  updated_at: Date;
+  tenant_id: string;
+}
+
+/**
+ * A single stored message of a conversation.
+ *
+ * @interface ConversationMessage
+ *
+ * @property id - Identifier of the message.
+ * @property conversation_id - Identifier of the conversation the message belongs to.
+ * @property role - The role of the message author, e.g., 'user', 'assistant'.
+ * @property content - The content of the message.
+ * @property created_at - When the message was stored.
+ */
+export interface ConversationMessage {
+  id: string;
+  conversation_id: string;
+  role: string;
+  content: string;
+  created_at: Date;
+}
+
+/**
+ * A conversation together with its messages in chronological order.
+ */
+export interface ConversationWithMessages extends Conversation {
+  messages: ConversationMessage[];
+}
@@ -0,0 +1,168 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { Document } from '@langchain/core/documents';
+import { ChunkingService } from './chunking.service';
+import { VectorStoreService } from 'src/services/vector-store.service';
+import { ingestionConfig } from 'src/config/ingestion.config';
+import { CHUNKING_STRATEGIES } from 'src/utils/constants/chunking.constants';
+import { IngestionSettings } from './interfaces/document-record.interface';
+
+const settings = (
+  overrides: Partial<IngestionSettings> = {},
+): IngestionSettings => ({
+  chunking_strategy: CHUNKING_STRATEGIES.CHARACTER,
+  chunk_size: 1000,
+  chunk_overlap: 0,
+  encoding_name: 'cl100k_base',
+  sentence_overlap: 0,
+  breakpoint_percentile: 95,
+  buffer_size: 0,
+  ...overrides,
+});
+
+describe('ChunkingService', () => {
+  let service: ChunkingService;
+  let embedDocuments: jest.Mock;
+
+  beforeEach(async () => {
+    // Sentences starting with the same letter share a topic, and point the same way
+    embedDocuments = jest.fn(async (texts: string[]) =>
+      texts.map((text) => (text.startsWith('B') ? [0, 1] : [1, 0])),
+    );
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ChunkingService,
+        { provide: VectorStoreService, useValue: { embedDocuments } },
+        {
+          provide: ingestionConfig.KEY,
+          useValue: { embeddingBatchSize: 16, embeddingConcurrency: 2 },
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(ChunkingService);
+  });
+
+  describe('split', () => {
+    it('splits by characters the documents ingested before strategies were introduced', async () => {
+      const chunks = await service.split(
+        [
+          new Document({
+            pageContent: 'First paragraph.\n\nSecond paragraph.',
+            metadata: { source: 'notes.txt', pageNumber: 3 },
+          }),
+        ],
+        { chunk_size: 20, chunk_overlap: 0 } as IngestionSettings,
+      );
+
+      expect(chunks.map(({ pageContent }) => pageContent)).toEqual([
+        'First paragraph.',
+        'Second paragraph.',
+      ]);
+      expect(chunks[0].metadata).toEqual({
+        source: 'notes.txt',
+        pageNumber: 3,
+        chunkingStrategy: CHUNKING_STRATEGIES.CHARACTER,
+      });
+    });
+
+    it('repeats the last sentences of a chunk as long as they leave room for the next one', async () => {
+      const chunks = await service.split(
+        [
+          new Document({
+            pageContent: 'One two three. Four five. Six seven eight.',
+          }),
+        ],
+        settings({
+          chunking_strategy: CHUNKING_STRATEGIES.SENTENCE,
+          chunk_size: 30,
+          sentence_overlap: 2,
+        }),
+      );
+
+      expect(chunks.map(({ pageContent }) => pageContent)).toEqual([
+        'One two three. Four five.',
+        'Four five. Six seven eight.',
+      ]);
+    });
+
+    it('nests the Markdown heading paths under the heading the loader found the text in', async () => {
+      const chunks = await service.split(
+        [
+          new Document({
+            pageContent:
+              '# Setup\n\nInstall the package.\n\n## Linux\n\nRun the installer.',
+            metadata: { headingPath: 'Guide' },
+          }),
+        ],
+        settings({ chunking_strategy: CHUNKING_STRATEGIES.MARKDOWN }),
+      );
+
+      expect(
+        chunks.map(({ pageContent, metadata }) => [
+          pageContent,
+          metadata.headingPath,
+        ]),
+      ).toEqual([
+        ['Setup\n\nInstall the package.', 'Guide > Setup'],
+        ['Linux\n\nRun the installer.', 'Guide > Setup > Linux'],
+      ]);
+    });
+
+    it('starts a semantic chunk where the distance between sentences is above the percentile', async () => {
+      const documents = [
+        new Document({
+          pageContent: 'A one. A two. B three. B four. A five.',
+        }),
+      ];
+
+      const split = (breakpoint_percentile: number) =>
+        service
+          .split(
+            documents,
+            settings({
+              chunking_strategy: CHUNKING_STRATEGIES.SEMANTIC,
+              breakpoint_percentile,
+            }),
+          )
+          .then((chunks) => chunks.map(({ pageContent }) => pageContent));
+
+      // The distances are 0, 1, 0 and 1: the median lies between them, the maximum is never exceeded
+      expect(await split(50)).toEqual([
+        'A one. A two.',
+        'B three. B four.',
+        'A five.',
+      ]);
+      expect(await split(100)).toEqual([
+        'A one. A two. B three. B four. A five.',
+      ]);
+    });
+
+    it('embeds each sentence with its neighbours, in the configured batches', async () => {
+      await service.split(
+        [new Document({ pageContent: 'A one. A two. B three.' })],
+        settings({
+          chunking_strategy: CHUNKING_STRATEGIES.SEMANTIC,
+          buffer_size: 1,
+        }),
+      );
+
+      expect(embedDocuments).toHaveBeenCalledWith(
+        ['A one. A two.', 'A one. A two. B three.', 'A two. B three.'],
+        { batchSize: 16, concurrency: 2 },
+      );
+    });
+  });
+
+  describe('validate', () => {
+    it('rejects a chunk overlap that is not smaller than the chunk size', () => {
+      expect(() =>
+        service.validate(settings({ chunk_size: 100, chunk_overlap: 100 })),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        service.validate(settings({ chunk_size: 100, chunk_overlap: 99 })),
+      ).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Service splitting the documents parsed from a file into chunks, with one of the strategies of
+ * CHUNKING_STRATEGIES.
+ *
+ * Each parsed document is split on its own, so that its chunks keep the location metadata of the
+ * loader, such as `pageNumber` or `headingPath`, and every chunk records the strategy it was split
+ * with in its `chunkingStrategy` metadata. The sentence, Markdown and semantic strategies split
+ * text that does not fit in a chunk, such as a sentence longer than the chunk size, the way the
+ * character strategy does.
+ *
+ * The semantic strategy embeds the sentences of the file with the configured embeddings model, in
+ * batches of the `ingestion` configuration namespace. The token strategy counts with a LangChain
+ * tokenizer, whose encoding is downloaded on first use.
+ *
+ * @class ChunkingService
+ *
+ * @method split - Splits parsed documents into chunks.
+ * @param {Document[]} documents - The documents parsed from a file by its loader.
+ * @param {IngestionSettings} settings - The strategy and its settings.
+ * @returns The chunks, in document order.
+ *
+ * @method validate - Throws a BadRequestException when settings cannot split a document: the chunk overlap
+ *                    must be smaller than the chunk size.
+ */
+
+import {
+  BadRequestException,
+  HttpStatus,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import {
+  RecursiveCharacterTextSplitter,
+  TokenTextSplitter,
+} from 'langchain/text_splitter';
+import { Document } from '@langchain/core/documents';
+import { cosineSimilarity } from '@langchain/core/utils/math';
+import { VectorStoreService } from 'src/services/vector-store.service';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import { CHUNKING_STRATEGIES } from 'src/utils/constants/chunking.constants';
+import { IngestionConfig, ingestionConfig } from 'src/config/ingestion.config';
+import { IngestionSettings } from './interfaces/document-record.interface';
+import { markdownToBlocks } from './loaders/markdown.loader';
+import { sectionsFromBlocks } from './loaders/heading-sections';
+
+type Splitter = (
+  documents: Document[],
+  settings: IngestionSettings,
+) => Promise<Document[]>;
+
+@Injectable()
+export class ChunkingService {
+  constructor(
+    private vectorStoreService: VectorStoreService,
+    @Inject(ingestionConfig.KEY) private ingestionSettings: IngestionConfig,
+  ) {}
+
+  async split(documents: Document[], settings: IngestionSettings) {
+    // Documents ingested before strategies were introduced were split by characters
+    const strategy =
+      settings.chunking_strategy ?? CHUNKING_STRATEGIES.CHARACTER;
+    const chunks = await this.splitters[strategy](documents, settings);
+
+    return chunks.map((chunk) => {
+      // Keep the loader's location metadata, but not the splitter's line ranges
+      const metadata: Record<string, unknown> = {
+        ...chunk.metadata,
+        chunkingStrategy: strategy,
+      };
+      delete metadata.loc;
+      return new Document({ pageContent: chunk.pageContent, metadata });
+    });
+  }
+
+  validate({ chunk_size, chunk_overlap }: IngestionSettings) {
+    if (chunk_overlap >= chunk_size) {
+      throw new BadRequestException(
+        customMessage(
+          HttpStatus.BAD_REQUEST,
+          MESSAGES.INVALID_CHUNKING_SETTINGS,
+          { chunk_size, chunk_overlap },
+        ),
+      );
+    }
+  }
+
+  private splitCharacters: Splitter = (documents, settings) =>
+    this.characterSplitter(settings).splitDocuments(documents);
+
+  private splitTokens: Splitter = (
+    documents,
+    { chunk_size, chunk_overlap, encoding_name },
+  ) =>
+    new TokenTextSplitter({
+      chunkSize: chunk_size,
+      chunkOverlap: chunk_overlap,
+      encodingName: encoding_name,
+    }).splitDocuments(documents);
+
+  private splitSentences: Splitter = async (documents, settings) => {
+    const { chunk_size, sentence_overlap } = settings;
+    const chunks: Document[] = [];
+
+    for (const document of documents) {
+      let current: string[] = [];
+      const sentences = await this.fittingSentences(
+        document.pageContent,
+        settings,
+      );
+      for (const sentence of sentences) {
+        if (
+          current.length &&
+          joinedLength([...current, sentence]) > chunk_size
+        ) {
+          chunks.push(this.chunkOf(current, document));
+          // Repeat the last sentences of the chunk, as long as they leave room for the next one
+          current = sentence_overlap ? current.slice(-sentence_overlap) : [];
+          while (
+            current.length &&
+            joinedLength([...current, sentence]) > chunk_size
+          ) {
+            current = current.slice(1);
+          }
+        }
+        current.push(sentence);
+      }
+      if (current.length) chunks.push(this.chunkOf(current, document));
+    }
+    return chunks;
+  };
+
+  private splitMarkdown: Splitter = (documents, settings) => {
+    const sections = documents.flatMap((document) =>
+      sectionsFromBlocks(markdownToBlocks(document.pageContent)).map(
+        (section) =>
+          new Document({
+            pageContent: section.pageContent,
+            metadata: {
+              ...document.metadata,
+              // Headings within the text are nested under the heading the loader found it in
+              headingPath: [
+                document.metadata.headingPath,
+                section.metadata.headingPath,
+              ]
+                .filter(Boolean)
+                .join(' > '),
+            },
+          }),
+      ),
+    );
+    return RecursiveCharacterTextSplitter.fromLanguage('markdown', {
+      chunkSize: settings.chunk_size,
+      chunkOverlap: settings.chunk_overlap,
+    }).splitDocuments(sections);
+  };
+
+  private splitSemantic: Splitter = async (documents, settings) => {
+    const { buffer_size, breakpoint_percentile } = settings;
+    const sentences = documents.map((document) =>
+      sentencesOf(document.pageContent),
+    );
+
+    // Each sentence is embedded with its neighbours, which steadies the distances of short sentences
+    const windows = sentences.flatMap((list) =>
+      list.map((_, index) =>
+        list
+          .slice(Math.max(0, index - buffer_size), index + buffer_size + 1)
+          .join(' '),
+      ),
+    );
+    const { embeddingBatchSize, embeddingConcurrency } = this.ingestionSettings;
+    const vectors = await this.vectorStoreService.embedDocuments(windows, {
+      batchSize: embeddingBatchSize,
+      concurrency: embeddingConcurrency,
+    });
+
+    // Distances between consecutive sentences of the same document
+    let offset = 0;
+    const distances = sentences.map((list) => {
+      const start = offset;
+      offset += list.length;
+      return list
+        .slice(1)
+        .map(
+          (_, index) =>
+            1 -
+            cosineSimilarity(
+              [vectors[start + index]],
+              [vectors[start + index + 1]],
+            )[0][0],
+        );
+    });
+    const threshold = percentile(distances.flat(), breakpoint_percentile);
+
+    const groups = documents.flatMap((document, documentIndex) => {
+      const [first, ...rest] = sentences[documentIndex];
+      if (!first) return [];
+      const chunks: Document[] = [];
+      let current = [first];
+      rest.forEach((sentence, index) => {
+        if (distances[documentIndex][index] > threshold) {
+          chunks.push(this.chunkOf(current, document));
+          current = [];
+        }
+        current.push(sentence);
+      });
+      chunks.push(this.chunkOf(current, document));
+      return chunks;
+    });
+    // Semantic chunks longer than the chunk size are split further
+    return this.characterSplitter(settings).splitDocuments(groups);
+  };
+
+  private splitters: Record<CHUNKING_STRATEGIES, Splitter> = {
+    [CHUNKING_STRATEGIES.CHARACTER]: this.splitCharacters,
+    [CHUNKING_STRATEGIES.TOKEN]: this.splitTokens,
+    [CHUNKING_STRATEGIES.SENTENCE]: this.splitSentences,
+    [CHUNKING_STRATEGIES.MARKDOWN]: this.splitMarkdown,
+    [CHUNKING_STRATEGIES.SEMANTIC]: this.splitSemantic,
+  };
+
+  // Splits a text into sentences, splitting sentences longer than the chunk size by characters
+  private fittingSentences = async (
+    text: string,
+    settings: IngestionSettings,
+  ) => {
+    const splitter = this.characterSplitter(settings);
+    const pieces = await Promise.all(
+      sentencesOf(text).map((sentence) =>
+        sentence.length > settings.chunk_size
+          ? splitter.splitText(sentence)
+          : [sentence],
+      ),
+    );
+    return pieces.flat();
+  };
+
+  private characterSplitter = ({
+    chunk_size,
+    chunk_overlap,
+  }: IngestionSettings) =>
+    new RecursiveCharacterTextSplitter({
+      chunkSize: chunk_size,
+      chunkOverlap: chunk_overlap,
+    });
+
+  private chunkOf = (sentences: string[], document: Document) =>
+    new Document({
+      pageContent: sentences.join(' '),
+      metadata: { ...document.metadata },
+    });
+}
+
+// A sentence ends with terminal punctuation, possibly followed by closing quotes or brackets, before
+// whitespace; a blank line also ends one, e.g., after a heading or a list item
+const SENTENCE_BOUNDARY = /(?<=[.!?…]["'”’)\]]*)\s+|\n\s*\n/;
+
+const sentencesOf = (text: string) =>
+  text
+    .split(SENTENCE_BOUNDARY)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+
+const joinedLength = (sentences: string[]) => sentences.join(' ').length;
+
+// Percentile with linear interpolation between the closest ranks; no value means no breakpoint
+const percentile = (values: number[], rank: number) => {
+  if (!values.length) return Infinity;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (rank / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  return (
+    sorted[lower] +
+    (sorted[Math.ceil(position)] - sorted[lower]) * (position - lower)
+  );
+};
@@ -0,0 +1,146 @@
+import { UnsupportedMediaTypeException } from '@nestjs/common';
+import { Document } from '@langchain/core/documents';
+import { join } from 'path';
+import { DocumentLoaderRegistry } from './document-loader.registry';
+
+const fixture = (name: string) => join(__dirname, 'fixtures', name);
+
+// LangChain imports pdf-parse and d3-dsv dynamically, which Jest cannot do without ES modules, so
+// its PDF and CSV loaders return what they parse from a file of two pages, or of two rows
+jest.mock('langchain/document_loaders/fs/pdf', () => ({
+  PDFLoader: class {
+    load = async () =>
+      ['Refunds take 30 days.', 'Shipping is free.'].map(
+        (pageContent, index) => ({
+          pageContent,
+          metadata: { pdf: { totalPages: 2 }, loc: { pageNumber: index + 1 } },
+        }),
+      );
+  },
+}));
+jest.mock('langchain/document_loaders/fs/csv', () => ({
+  CSVLoader: class {
+    load = async () =>
+      [
+        'question: Refunds?\nanswer: 30 days',
+        'question: Shipping?\nanswer: Free',
+      ].map((pageContent, index) => ({
+        pageContent,
+        metadata: { source: 'faq.csv', line: index + 1 },
+      }));
+  },
+}));
+
+describe('DocumentLoaderRegistry', () => {
+  let registry: DocumentLoaderRegistry;
+
+  beforeEach(() => {
+    registry = new DocumentLoaderRegistry();
+  });
+
+  describe('resolve', () => {
+    it('picks a loader by the MIME type of the upload', () => {
+      expect(registry.resolve('export', 'application/pdf').name).toBe('pdf');
+    });
+
+    it('falls back to the extension when the MIME type is generic', () => {
+      expect(
+        registry.resolve('Guide.MD', 'application/octet-stream').name,
+      ).toBe('markdown');
+      expect(registry.resolve('faq.csv').name).toBe('csv');
+    });
+
+    it('rejects an unsupported format with 415, listing the supported extensions', () => {
+      const error = (() => {
+        try {
+          registry.resolve('archive.zip', 'application/zip');
+        } catch (e: unknown) {
+          return e;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(UnsupportedMediaTypeException);
+      expect(
+        (error as UnsupportedMediaTypeException).getResponse(),
+      ).toMatchObject({
+        statusCode: 415,
+        error_code: 'UNSUPPORTED_FILE_TYPE',
+        data: {
+          supported_extensions: expect.arrayContaining(['.pdf', '.md', '.csv']),
+        },
+      });
+    });
+
+    it('prefers the loaders registered later', () => {
+      const load = jest.fn();
+      registry.register({
+        name: 'markdown-with-front-matter',
+        mimeTypes: ['text/markdown'],
+        extensions: ['.md'],
+        load,
+      });
+
+      expect(registry.resolve('guide.md').name).toBe(
+        'markdown-with-front-matter',
+      );
+    });
+  });
+
+  describe('load', () => {
+    const loaded = async (name: string, mimeType?: string) =>
+      (await registry.load(fixture(name), name, mimeType)).map(
+        ({ pageContent, metadata }: Document) => ({ pageContent, metadata }),
+      );
+
+    it('keeps the page number of each page of a PDF file', async () => {
+      expect(await loaded('policy.pdf', 'application/pdf')).toEqual([
+        { pageContent: 'Refunds take 30 days.', metadata: { pageNumber: 1 } },
+        { pageContent: 'Shipping is free.', metadata: { pageNumber: 2 } },
+      ]);
+    });
+
+    it('keeps the row number of each row of a CSV file', async () => {
+      expect(
+        (await loaded('faq.csv', 'text/csv')).map(({ metadata }) => metadata),
+      ).toEqual([{ row: 1 }, { row: 2 }]);
+    });
+
+    it('parses a Markdown file into one document per section, with its heading path', async () => {
+      expect(await loaded('guide.md')).toEqual([
+        {
+          pageContent: 'Setup\n\nInstall the package.',
+          metadata: { headingPath: 'Setup' },
+        },
+        {
+          pageContent:
+            'Linux\n\nRun the installer.\n\n```\n# not a heading\n```',
+          metadata: { headingPath: 'Setup > Linux' },
+        },
+      ]);
+    });
+
+    it('parses an HTML file into sections, leaving out its styles', async () => {
+      expect(await loaded('returns.html', 'text/html')).toEqual([
+        {
+          pageContent: 'Returns\nRefunds take 30 days.',
+          metadata: { headingPath: 'Returns' },
+        },
+        {
+          pageContent: 'Exceptions\nGift cards',
+          metadata: { headingPath: 'Returns > Exceptions' },
+        },
+      ]);
+    });
+
+    it('parses a JSON file into one document per top-level entry, with its path', async () => {
+      expect(await loaded('plan.json', 'application/json')).toEqual([
+        { pageContent: '$.plan: Pro', metadata: { jsonPath: '$.plan' } },
+        {
+          pageContent:
+            '$.limits.seats: 5\n$.limits.regions[0]: eu\n$.limits.regions[1]: us',
+          metadata: { jsonPath: '$.limits' },
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Registry of the parsers used to ingest uploaded files.
+ *
+ * A loader is picked by the MIME type reported for the upload, falling back to the file
+ * extension, since browsers often report generic types such as 'application/octet-stream'
+ * for Markdown or CSV files. PDF, Markdown, HTML, DOCX, plain-text, CSV and JSON loaders are
+ * registered by default; further formats can be added with `register`.
+ *
+ * @class DocumentLoaderRegistry
+ *
+ * @method register - Adds a loader, taking precedence over loaders registered before it.
+ *
+ * @method resolve - Returns the loader for a file, or throws an UnsupportedMediaTypeException
+ *                   listing the supported extensions when no loader matches.
+ * @param {string} fileName - Original name of the file, used for its extension.
+ * @param {string} mimeType - MIME type reported for the file.
+ *
+ * @method load - Resolves the loader for a file and parses it into documents.
+ */
+
+import {
+  HttpStatus,
+  Injectable,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { extname } from 'path';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import { DocumentLoaderDefinition } from './loaders/document-loader.interface';
+import { pdfLoader } from './loaders/pdf.loader';
+import { markdownLoader } from './loaders/markdown.loader';
+import { htmlLoader } from './loaders/html.loader';
+import { docxLoader } from './loaders/docx.loader';
+import { textLoader } from './loaders/text.loader';
+import { csvLoader } from './loaders/csv.loader';
+import { jsonLoader } from './loaders/json.loader';
+
+@Injectable()
+export class DocumentLoaderRegistry {
+  private loaders: DocumentLoaderDefinition[] = [
+    pdfLoader,
+    markdownLoader,
+    htmlLoader,
+    docxLoader,
+    textLoader,
+    csvLoader,
+    jsonLoader,
+  ];
+
+  register(loader: DocumentLoaderDefinition) {
+    this.loaders.unshift(loader);
+  }
+
+  resolve(fileName: string, mimeType?: string): DocumentLoaderDefinition {
+    const extension = extname(fileName).toLowerCase();
+    const loader =
+      this.loaders.find(({ mimeTypes }) => mimeTypes.includes(mimeType)) ??
+      this.loaders.find(({ extensions }) => extensions.includes(extension));
+
+    if (!loader) {
+      throw new UnsupportedMediaTypeException(
+        customMessage(
+          HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+          MESSAGES.UNSUPPORTED_FILE_TYPE,
+          {
+            supported_extensions: this.loaders.flatMap(
+              ({ extensions }) => extensions,
+            ),
+          },
+        ),
+      );
+    }
+    return loader;
+  }
+
+  async load(filePath: string, fileName: string, mimeType?: string) {
+    return this.resolve(fileName, mimeType).load(filePath);
+  }
+}
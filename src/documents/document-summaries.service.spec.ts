@@ -0,0 +1,212 @@
+import { ConflictException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { Document } from '@langchain/core/documents';
+import { AIMessage, BaseMessage } from '@langchain/core/messages';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { DocumentSummariesService } from './document-summaries.service';
+import { DatabaseService } from 'src/services/database.service';
+import { VectorStoreService } from 'src/services/vector-store.service';
+import { ModelProviderService } from 'src/services/model-provider.service';
+import { PromptTemplatesService } from 'src/prompt-templates/prompt-templates.service';
+import { UsageService } from 'src/usage/usage.service';
+import { ObservabilityService } from 'src/observability/observability.service';
+import { GuardrailsService } from 'src/guardrails/guardrails.service';
+import { summarizationConfig } from 'src/config/summarization.config';
+import { PROMPT_TEMPLATE_NAMES } from 'src/utils/constants/prompt-templates.constants';
+import {
+  SUMMARY_STRATEGIES,
+  SUMMARY_STYLES,
+} from 'src/utils/constants/summaries.constants';
+import { DocumentRecord } from './interfaces/document-record.interface';
+import { DocumentSummary } from './interfaces/document-summary.interface';
+
+// Templates naming the step, so that a summary shows the calls it was written with
+const TEMPLATES: Record<string, string> = {
+  [PROMPT_TEMPLATE_NAMES.SUMMARY_MAP]: 'map {text}',
+  [PROMPT_TEMPLATE_NAMES.SUMMARY_COMBINE]: 'combine {text}',
+  [PROMPT_TEMPLATE_NAMES.SUMMARY_REFINE]: 'refine {summary} with {text}',
+};
+
+const document = {
+  id: 'document-1',
+  tenant_id: 'tenant-1',
+  ingested_at: new Date('2024-05-01T10:00:00Z'),
+} as DocumentRecord;
+
+describe('DocumentSummariesService', () => {
+  let service: DocumentSummariesService;
+  let getDocumentChunks: jest.Mock;
+  let generate: jest.Mock;
+  let summaries: DocumentSummary[];
+
+  beforeEach(async () => {
+    getDocumentChunks = jest
+      .fn()
+      .mockResolvedValue(
+        ['A.', 'B.', 'C.'].map((pageContent) => new Document({ pageContent })),
+      );
+
+    // The chat model answers each prompt with the prompt itself, in angle brackets
+    const chatModel = new FakeListChatModel({ responses: [''] });
+    generate = jest.fn(async (messages: BaseMessage[]) => {
+      const text = `<${messages[0].content}>`;
+      return { generations: [{ text, message: new AIMessage(text) }] };
+    });
+    chatModel._generate = generate;
+
+    // The cached summaries, looked up and upserted like the `document_summaries` table
+    summaries = [];
+    const query = jest.fn(async (sql: string, params: unknown[]) => {
+      if (sql.startsWith('SELECT')) {
+        const [documentId, style, strategy, model, ingestedAt] = params;
+        return summaries.filter(
+          (summary) =>
+            summary.document_id === documentId &&
+            summary.style === style &&
+            summary.strategy === strategy &&
+            summary.model === model &&
+            summary.ingested_at === ingestedAt,
+        );
+      }
+      const [document_id, tenant_id, style, strategy, model] = params;
+      const [summary, chunk_count, ingested_at] = params.slice(5);
+      const row = {
+        document_id,
+        tenant_id,
+        style,
+        strategy,
+        model,
+        summary,
+        chunk_count,
+        ingested_at,
+      } as DocumentSummary;
+      summaries = [
+        ...summaries.filter(
+          (cached) =>
+            cached.document_id !== document_id ||
+            cached.style !== style ||
+            cached.strategy !== strategy ||
+            cached.model !== model,
+        ),
+        row,
+      ];
+      return [row];
+    });
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        DocumentSummariesService,
+        { provide: DatabaseService, useValue: { query } },
+        { provide: VectorStoreService, useValue: { getDocumentChunks } },
+        {
+          provide: ModelProviderService,
+          useValue: {
+            getChatModelName: () => 'fake-model',
+            getChatModel: () => chatModel,
+          },
+        },
+        {
+          provide: PromptTemplatesService,
+          useValue: {
+            resolve: async (name: string) => ({ template: TEMPLATES[name] }),
+            assertInputs: jest.fn(),
+          },
+        },
+        { provide: UsageService, useValue: { currentUsage: () => ({}) } },
+        { provide: ObservabilityService, useValue: { runConfig: () => ({}) } },
+        {
+          provide: GuardrailsService,
+          useValue: { screenChunks: async (chunks: Document[]) => chunks },
+        },
+        {
+          provide: summarizationConfig.KEY,
+          // Each chunk of two characters is a section of its own
+          useValue: { maxInputCharacters: 5, concurrency: 2 },
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(DocumentSummariesService);
+  });
+
+  const summarize = (
+    strategy: SUMMARY_STRATEGIES,
+    summarizedDocument = document,
+  ) =>
+    service.summarize(summarizedDocument, {
+      style: SUMMARY_STYLES.BRIEF,
+      strategy,
+    });
+
+  describe('summarize', () => {
+    it('summarizes each section, then combines their summaries in document order', async () => {
+      const { summary, cached } = await summarize(
+        SUMMARY_STRATEGIES.MAP_REDUCE,
+      );
+
+      expect(summary).toBe('<combine <map A.>\n\n<map B.>\n\n<map C.>>');
+      expect(cached).toBe(false);
+    });
+
+    it('refines the summary of the first section with each following section, in order', async () => {
+      const { summary } = await summarize(SUMMARY_STRATEGIES.REFINE);
+
+      expect(summary).toBe('<refine <refine <combine A.> with B.> with C.>');
+    });
+
+    it('summarizes a document fitting in one section in a single call', async () => {
+      getDocumentChunks.mockResolvedValue([
+        new Document({ pageContent: 'A.' }),
+      ]);
+
+      const { summary } = await summarize(SUMMARY_STRATEGIES.MAP_REDUCE);
+
+      expect(summary).toBe('<combine A.>');
+      expect(generate).toHaveBeenCalledTimes(1);
+    });
+
+    it('serves the cached summary until the document is re-ingested', async () => {
+      await summarize(SUMMARY_STRATEGIES.REFINE);
+      generate.mockClear();
+
+      const cachedSummary = await summarize(SUMMARY_STRATEGIES.REFINE);
+      expect(cachedSummary.cached).toBe(true);
+      expect(generate).not.toHaveBeenCalled();
+
+      const reingested = {
+        ...document,
+        ingested_at: new Date('2024-05-02T10:00:00Z'),
+      };
+      const freshSummary = await summarize(
+        SUMMARY_STRATEGIES.REFINE,
+        reingested,
+      );
+      expect(freshSummary).toMatchObject({
+        cached: false,
+        ingested_at: reingested.ingested_at,
+      });
+      expect(generate).toHaveBeenCalled();
+    });
+
+    it('refuses to summarize a document without chunks', async () => {
+      getDocumentChunks.mockResolvedValue([]);
+
+      await expect(
+        summarize(SUMMARY_STRATEGIES.MAP_REDUCE),
+      ).rejects.toBeInstanceOf(ConflictException);
+    });
+  });
+
+  describe('removeForDocument', () => {
+    it('deletes the summaries of a document within the given transaction', async () => {
+      const client = { query: jest.fn() };
+
+      await service.removeForDocument('document-1', client as never);
+
+      expect(client.query).toHaveBeenCalledWith(
+        'DELETE FROM document_summaries WHERE document_id = $1',
+        ['document-1'],
+      );
+    });
+  });
+});
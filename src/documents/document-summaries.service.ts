@@ -0,0 +1,289 @@
+/**
+ * Service writing and caching the summaries of the documents in the documents library.
+ *
+ * A summary covers every chunk of a document, read from the vector store in document order and
+ * screened for prompt injection by GuardrailsService.
+ * Consecutive chunks are grouped into sections of at most `maxInputCharacters` characters, and
+ * a document fitting in one section is summarized in a single call. Longer documents are
+ * summarized with one of two strategies: 'map_reduce' summarizes the sections in parallel and
+ * combines their summaries, summarizing them again first while they do not fit in one call;
+ * 'refine' summarizes the first section and refines that summary with each following section.
+ * The prompts are the built-in `summary-*` prompt templates, or their latest stored version.
+ *
+ * Summaries are cached in the `document_summaries` table by document, style, strategy and chat
+ * model, together with the time the summarized chunks were stored. A cached summary is only served
+ * while the document has not been re-ingested since, and the summaries of a document are removed
+ * whenever its chunks are replaced or deleted.
+ *
+ * Configuration (the `summarization` namespace, see src/config/summarization.config.ts):
+ * - maxInputCharacters - Characters of text sent to the model per call (SUMMARIZATION_MAX_INPUT_CHARACTERS).
+ * - concurrency - Calls made at once by a map-reduce summary (SUMMARIZATION_CONCURRENCY).
+ *
+ * @class DocumentSummariesService
+ *
+ * @method summarize - Returns the cached summary of a document in the requested style, or writes and caches it.
+ * @param {DocumentRecord} document - The document to summarize, already checked to belong to the tenant.
+ * @param {SummarizeDocumentDto} summarizeDocumentDto - The style, strategy and chat model of the summary.
+ * @returns The summary, whether it was served from the cache, and the usage of the model calls made.
+ *
+ * @method removeForDocument - Deletes the cached summaries of a document, optionally within the caller's transaction.
+ */
+
+import {
+  ConflictException,
+  HttpStatus,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import * as pg from 'pg';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { DatabaseService } from 'src/services/database.service';
+import { VectorStoreService } from 'src/services/vector-store.service';
+import { ModelProviderService } from 'src/services/model-provider.service';
+import { PromptTemplatesService } from 'src/prompt-templates/prompt-templates.service';
+import { UsageService } from 'src/usage/usage.service';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import { PROMPT_TEMPLATE_NAMES } from 'src/utils/constants/prompt-templates.constants';
+import {
+  SUMMARY_STRATEGIES,
+  SUMMARY_STYLE_INSTRUCTIONS,
+} from 'src/utils/constants/summaries.constants';
+import {
+  SummarizationConfig,
+  summarizationConfig,
+} from 'src/config/summarization.config';
+import { ObservabilityService } from 'src/observability/observability.service';
+import { GuardrailsService } from 'src/guardrails/guardrails.service';
+import { SummarizeDocumentDto } from './dtos/summarize-document.dto';
+import { DocumentRecord } from './interfaces/document-record.interface';
+import { DocumentSummary } from './interfaces/document-summary.interface';
+
+@Injectable()
+export class DocumentSummariesService {
+  constructor(
+    private databaseService: DatabaseService,
+    private vectorStoreService: VectorStoreService,
+    private modelProviderService: ModelProviderService,
+    private promptTemplatesService: PromptTemplatesService,
+    private usageService: UsageService,
+    private observabilityService: ObservabilityService,
+    private guardrailsService: GuardrailsService,
+    @Inject(summarizationConfig.KEY)
+    private summarizationSettings: SummarizationConfig,
+  ) {}
+
+  async onModuleInit() {
+    await this.databaseService.query(`
+      CREATE TABLE IF NOT EXISTS document_summaries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        document_id UUID NOT NULL,
+        tenant_id UUID,
+        style TEXT NOT NULL,
+        strategy TEXT NOT NULL,
+        model TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        chunk_count INTEGER NOT NULL,
+        ingested_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        UNIQUE (document_id, style, strategy, model)
+      );
+    `);
+  }
+
+  async summarize(
+    document: DocumentRecord,
+    summarizeDocumentDto: SummarizeDocumentDto,
+  ) {
+    const { style, model_options: modelOptionsDto = {} } = summarizeDocumentDto;
+    const strategy =
+      summarizeDocumentDto.strategy ?? SUMMARY_STRATEGIES.MAP_REDUCE;
+    // Summaries are deterministic unless the request sets a temperature, so that they can be cached
+    const overrides = {
+      provider: modelOptionsDto.provider,
+      model: modelOptionsDto.model,
+      temperature: modelOptionsDto.temperature ?? 0,
+      maxTokens: modelOptionsDto.max_tokens,
+    };
+    const model = this.modelProviderService.getChatModelName(overrides);
+
+    if (!summarizeDocumentDto.refresh) {
+      const [cached] = await this.databaseService.query<DocumentSummary>(
+        `SELECT * FROM document_summaries
+         WHERE document_id = $1 AND style = $2 AND strategy = $3 AND model = $4
+           AND ingested_at IS NOT DISTINCT FROM $5::timestamptz`,
+        [document.id, style, strategy, model, document.ingested_at],
+      );
+      if (cached) return this.summaryResponse(cached, true);
+    }
+
+    const chunks = await this.guardrailsService.screenChunks(
+      await this.vectorStoreService.getDocumentChunks(
+        document.id,
+        document.tenant_id,
+      ),
+    );
+    if (!chunks.length) {
+      throw new ConflictException(
+        customMessage(HttpStatus.CONFLICT, MESSAGES.DOCUMENT_NOT_INGESTED, {
+          status: document.status,
+        }),
+      );
+    }
+
+    const sections = this.groupTexts(chunks.map((chunk) => chunk.pageContent));
+    const chatModel = this.modelProviderService.getChatModel(overrides);
+    const instructions = SUMMARY_STYLE_INSTRUCTIONS[style];
+    const text =
+      strategy === SUMMARY_STRATEGIES.REFINE
+        ? await this.refine(sections, instructions, chatModel)
+        : await this.mapReduce(sections, instructions, chatModel);
+
+    // A summary written while the document was re-ingested is stored with the previous ingestion
+    // time, so it is never served for the new chunks
+    const [summary] = await this.databaseService.query<DocumentSummary>(
+      `INSERT INTO document_summaries (document_id, tenant_id, style, strategy, model,
+         summary, chunk_count, ingested_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (document_id, style, strategy, model) DO UPDATE
+       SET summary = EXCLUDED.summary, chunk_count = EXCLUDED.chunk_count,
+         ingested_at = EXCLUDED.ingested_at, created_at = now()
+       RETURNING *`,
+      [
+        document.id,
+        document.tenant_id,
+        style,
+        strategy,
+        model,
+        text.trim(),
+        chunks.length,
+        document.ingested_at,
+      ],
+    );
+    return this.summaryResponse(summary, false);
+  }
+
+  async removeForDocument(
+    documentId: string,
+    client: pg.Pool | pg.PoolClient = this.databaseService.pool,
+  ) {
+    await client.query(
+      'DELETE FROM document_summaries WHERE document_id = $1',
+      [documentId],
+    );
+  }
+
+  private mapReduce = async (
+    sections: string[],
+    style: string,
+    chatModel: BaseChatModel,
+  ) => {
+    const mapChain = await this.loadChain(
+      PROMPT_TEMPLATE_NAMES.SUMMARY_MAP,
+      { text: '' },
+      chatModel,
+    );
+    let texts = sections;
+    // Summaries are summarized again, in groups, until they fit in the combining call
+    while (texts.length > 1) {
+      const summaries = await mapChain.batch(
+        texts.map((text) => ({ text })),
+        {
+          ...this.observabilityService.runConfig(),
+          maxConcurrency: this.summarizationSettings.concurrency,
+        },
+      );
+      const groups = this.groupTexts(summaries);
+      if (groups.length >= texts.length) {
+        texts = [summaries.join(SECTION_SEPARATOR)];
+        break;
+      }
+      texts = groups;
+    }
+
+    const combineChain = await this.loadChain(
+      PROMPT_TEMPLATE_NAMES.SUMMARY_COMBINE,
+      { style, text: '' },
+      chatModel,
+    );
+    return combineChain.invoke(
+      { style, text: texts[0] },
+      this.observabilityService.runConfig(),
+    );
+  };
+
+  private refine = async (
+    sections: string[],
+    style: string,
+    chatModel: BaseChatModel,
+  ) => {
+    const [first, ...rest] = sections;
+    const combineChain = await this.loadChain(
+      PROMPT_TEMPLATE_NAMES.SUMMARY_COMBINE,
+      { style, text: '' },
+      chatModel,
+    );
+    let summary = await combineChain.invoke(
+      { style, text: first },
+      this.observabilityService.runConfig(),
+    );
+    if (!rest.length) return summary;
+
+    const refineChain = await this.loadChain(
+      PROMPT_TEMPLATE_NAMES.SUMMARY_REFINE,
+      { style, summary: '', text: '' },
+      chatModel,
+    );
+    for (const text of rest) {
+      summary = await refineChain.invoke(
+        { style, summary, text },
+        this.observabilityService.runConfig(),
+      );
+    }
+    return summary;
+  };
+
+  // Groups consecutive texts into sections of at most `maxInputCharacters`; longer texts stay alone
+  private groupTexts = (texts: string[]) => {
+    const { maxInputCharacters } = this.summarizationSettings;
+    const groups: string[] = [];
+    let current = '';
+    for (const text of texts) {
+      if (
+        current &&
+        current.length + SECTION_SEPARATOR.length + text.length >
+          maxInputCharacters
+      ) {
+        groups.push(current);
+        current = text;
+      } else {
+        current = current ? `${current}${SECTION_SEPARATOR}${text}` : text;
+      }
+    }
+    if (current) groups.push(current);
+    return groups;
+  };
+
+  // Resolves the latest version of a summary template and checks its variables against the chain inputs
+  private loadChain = async (
+    name: PROMPT_TEMPLATE_NAMES,
+    input: Record<string, string>,
+    chatModel: BaseChatModel,
+  ) => {
+    const record = await this.promptTemplatesService.resolve(name);
+    this.promptTemplatesService.assertInputs(record, Object.keys(input));
+    return PromptTemplate.fromTemplate(record.template)
+      .pipe(chatModel)
+      .pipe(new StringOutputParser());
+  };
+
+  private summaryResponse = (summary: DocumentSummary, cached: boolean) => ({
+    ...summary,
+    cached,
+    usage: this.usageService.currentUsage(),
+  });
+}
+
+const SECTION_SEPARATOR = '\n\n';
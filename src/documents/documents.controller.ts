@@ -0,0 +1,87 @@
+/**
+ * Controller for the documents library.
+ *
+ * Exposes the documents registered by uploads to the `upload-document` route of
+ * LangchainChatController, and lets clients remove or re-ingest them. Each tenant only sees the
+ * documents uploaded with its API keys.
+ *
+ * @class DocumentsController
+ *
+ * @method findAll - Lists the tenant's registered documents with their status and chunk count.
+ * @method findOne - Shows a single registered document.
+ * @method remove - Deletes a document together with its vectors and its file on disk.
+ * @method reingest - Queues a new ingestion of a document and responds with 202 and the job. Accepts POST
+ *                    requests with an IngestionSettingsDto overriding the settings the document was last
+ *                    split with.
+ * @method summarize - Summarizes a document in the style of a SummarizeDocumentDto, with a map-reduce or refine pass over
+ *                     all of its chunks in document order. The summary is cached until the document is re-ingested.
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseUUIDPipe,
+  Post,
+} from '@nestjs/common';
+import { DocumentsService } from './documents.service';
+import { IngestionSettingsDto } from './dtos/ingestion-settings.dto';
+import { SummarizeDocumentDto } from './dtos/summarize-document.dto';
+import { TenantId } from 'src/auth/decorators/tenant-id.decorator';
+
+@Controller('documents')
+export class DocumentsController {
+  constructor(private readonly documentsService: DocumentsService) {}
+
+  @Get()
+  async findAll(@TenantId() tenantId: string) {
+    return await this.documentsService.findAll(tenantId);
+  }
+
+  @Get(':id')
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.documentsService.findOne(id, tenantId);
+  }
+
+  @Delete(':id')
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.documentsService.remove(id, tenantId);
+  }
+
+  @Post(':id/reingest')
+  @HttpCode(202)
+  async reingest(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() ingestionSettingsDto: IngestionSettingsDto,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.documentsService.reingest(
+      id,
+      ingestionSettingsDto,
+      tenantId,
+    );
+  }
+
+  @Post(':id/summary')
+  @HttpCode(200)
+  async summarize(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() summarizeDocumentDto: SummarizeDocumentDto,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.documentsService.summarize(
+      id,
+      summarizeDocumentDto,
+      tenantId,
+    );
+  }
+}
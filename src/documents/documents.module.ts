@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { DocumentsService } from './documents.service';
+import { DocumentsController } from './documents.controller';
+import { DocumentLoaderRegistry } from './document-loader.registry';
+import { IngestionJobsService } from './ingestion-jobs.service';
+import { IngestionJobsController } from './ingestion-jobs.controller';
+import { IngestionWorker } from './ingestion.worker';
+import { DocumentSummariesService } from './document-summaries.service';
+import { ChunkingService } from './chunking.service';
+import { PromptTemplatesModule } from 'src/prompt-templates/prompt-templates.module';
+
+@Module({
+  imports: [PromptTemplatesModule],
+  controllers: [DocumentsController, IngestionJobsController],
+  providers: [
+    DocumentsService,
+    DocumentLoaderRegistry,
+    IngestionJobsService,
+    IngestionWorker,
+    DocumentSummariesService,
+    ChunkingService,
+  ],
+  exports: [DocumentsService, DocumentLoaderRegistry],
+})
+export class DocumentsModule {}
@@ -0,0 +1,441 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { existsSync, mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as pg from 'pg';
+import { Test } from '@nestjs/testing';
+import { Document } from '@langchain/core/documents';
+import { DocumentsService } from './documents.service';
+import { DocumentLoaderRegistry } from './document-loader.registry';
+import {
+  IngestionInterruptedError,
+  IngestionJobsService,
+} from './ingestion-jobs.service';
+import { DocumentSummariesService } from './document-summaries.service';
+import { ChunkingService } from './chunking.service';
+import { DatabaseService } from 'src/services/database.service';
+import { VectorStoreService } from 'src/services/vector-store.service';
+import { ResponseCacheService } from 'src/services/response-cache.service';
+import { chunkingConfig } from 'src/config/chunking.config';
+import { ingestionConfig } from 'src/config/ingestion.config';
+import { IngestionJob } from './interfaces/ingestion-job.interface';
+import { DOCUMENT_STATUS } from 'src/utils/constants/documents.constants';
+
+const job = {
+  id: 'job-1',
+  document_id: 'document-1',
+  tenant_id: 'tenant-1',
+  attempts: 1,
+} as IngestionJob;
+
+const pages = [
+  new Document({ pageContent: 'Refunds take 30 days.' }),
+  new Document({ pageContent: 'Shipping is free.' }),
+];
+
+describe('DocumentsService', () => {
+  let service: DocumentsService;
+  let client: { query: jest.Mock };
+  let vectorStoreService: Record<string, jest.Mock>;
+  let ingestionJobsService: Record<string, jest.Mock>;
+  let responseCacheService: Record<string, jest.Mock>;
+  let tracker: { progress: jest.Mock; complete: jest.Mock };
+  let query: jest.Mock;
+  // The stored file of the document; this spec unless a test removes the document
+  let storedPath: string;
+  // The ready or processing documents with the same file as an upload
+  let duplicates: object[];
+
+  beforeEach(async () => {
+    client = { query: jest.fn().mockResolvedValue({ rows: [{}] }) };
+    storedPath = __filename;
+    duplicates = [];
+    vectorStoreService = {
+      findEmbeddings: jest.fn().mockResolvedValue(new Map()),
+      embedDocuments: jest.fn(async (texts: string[]) => texts.map(() => [1])),
+      replaceDocumentChunks: jest.fn(),
+      deleteDocumentChunks: jest.fn(),
+    };
+    ingestionJobsService = {
+      removeForDocument: jest.fn(),
+      fail: jest.fn(),
+      cancel: jest.fn().mockResolvedValue(job),
+      enqueue: jest.fn().mockResolvedValue(job),
+    };
+    responseCacheService = { invalidateDocuments: jest.fn() };
+    tracker = {
+      progress: jest.fn().mockResolvedValue(undefined),
+      complete: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        DocumentsService,
+        {
+          provide: DatabaseService,
+          useValue: {
+            query: (query = jest.fn(async (sql: string, [, tenantId]) => {
+              if (sql.includes('content_hash = $2')) return duplicates;
+              return tenantId === 'tenant-1'
+                ? [
+                    {
+                      id: 'document-1',
+                      tenant_id: 'tenant-1',
+                      stored_path: storedPath,
+                      content_hash: 'hash-of-the-file',
+                      ingestion_settings: { chunk_size: 500 },
+                    },
+                  ]
+                : [];
+            })),
+            transaction: (work) => work(client),
+          },
+        },
+        { provide: VectorStoreService, useValue: vectorStoreService },
+        {
+          provide: DocumentLoaderRegistry,
+          useValue: { load: async () => pages },
+        },
+        { provide: IngestionJobsService, useValue: ingestionJobsService },
+        {
+          provide: DocumentSummariesService,
+          useValue: { removeForDocument: jest.fn() },
+        },
+        {
+          provide: ChunkingService,
+          useValue: { split: async (loaded) => loaded, validate: jest.fn() },
+        },
+        { provide: ResponseCacheService, useValue: responseCacheService },
+        {
+          provide: chunkingConfig.KEY,
+          useValue: { chunk_size: 1000, chunk_overlap: 200 },
+        },
+        {
+          provide: ingestionConfig.KEY,
+          useValue: { embeddingBatchSize: 1, embeddingConcurrency: 1 },
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(DocumentsService);
+  });
+
+  describe('register', () => {
+    // An uploaded file, stored on disk by multer
+    const upload = () => {
+      const filePath = join(
+        mkdtempSync(join(tmpdir(), 'documents-')),
+        'refunds.txt',
+      );
+      writeFileSync(filePath, 'Refunds take 30 days.');
+      return {
+        path: filePath,
+        originalname: 'refunds.txt',
+        mimetype: 'text/plain',
+        size: 21,
+      } as Express.Multer.File;
+    };
+
+    it('rejects a file identical to a document of the tenant, and deletes it', async () => {
+      duplicates = [{ id: 'document-1' }];
+      const file = upload();
+
+      const error = await service
+        .register(file, {}, 'tenant-1')
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect((error as ConflictException).getResponse()).toMatchObject({
+        error_code: 'DUPLICATE_DOCUMENT',
+        data: { document: { id: 'document-1' } },
+      });
+      expect(existsSync(file.path)).toBe(false);
+      expect(client.query).not.toHaveBeenCalled();
+    });
+
+    it('rejects a file registered by an identical upload sent at the same time', async () => {
+      const file = upload();
+      client.query.mockImplementationOnce(async () => {
+        duplicates = [{ id: 'document-2' }];
+        throw Object.assign(
+          new pg.DatabaseError('duplicate key value', 0, 'error'),
+          {
+            code: '23505',
+            constraint: 'documents_tenant_id_active_content_hash_idx',
+          },
+        );
+      });
+
+      const error = await service
+        .register(file, {}, 'tenant-1')
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect((error as ConflictException).getResponse()).toMatchObject({
+        data: { document: { id: 'document-2' } },
+      });
+      expect(existsSync(file.path)).toBe(false);
+      expect(ingestionJobsService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('queues the ingestion of a new file', async () => {
+      const file = upload();
+
+      await service.register(file, {}, 'tenant-1');
+
+      const [sql, params] = client.query.mock.calls[0];
+      expect(sql).toContain('INSERT INTO documents');
+      expect(params.at(-1)).toMatch(/^[0-9a-f]{64}$/);
+      expect(ingestionJobsService.enqueue).toHaveBeenCalled();
+      expect(existsSync(file.path)).toBe(true);
+    });
+  });
+
+  describe('ingest', () => {
+    it('stores the chunks with the job completion, once every chunk is embedded', async () => {
+      await service.ingest(job, tracker);
+
+      expect(tracker.complete).toHaveBeenCalledWith(client);
+      const [, documentId, tenantId, chunks, vectors] =
+        vectorStoreService.replaceDocumentChunks.mock.calls[0];
+      expect([documentId, tenantId]).toEqual(['document-1', 'tenant-1']);
+      expect(chunks).toHaveLength(2);
+      expect(vectors).toEqual([[1], [1]]);
+      expect(client.query.mock.calls.at(-1)[1].slice(0, 3)).toEqual([
+        'document-1',
+        DOCUMENT_STATUS.READY,
+        2,
+      ]);
+    });
+
+    it('reuses the vectors of chunks the tenant already has, and embeds the others', async () => {
+      const hash = createHash('sha256')
+        .update('Refunds take 30 days.')
+        .digest('hex');
+      vectorStoreService.findEmbeddings.mockResolvedValueOnce(
+        new Map([[hash, [0.5]]]),
+      );
+
+      await service.ingest(job, tracker);
+
+      expect(vectorStoreService.findEmbeddings).toHaveBeenCalledWith(
+        'tenant-1',
+        [hash, expect.any(String)],
+      );
+      expect(vectorStoreService.embedDocuments).toHaveBeenCalledWith(
+        ['Shipping is free.'],
+        { batchSize: 1, concurrency: 1 },
+        expect.any(Function),
+      );
+      const [, , , , vectors] =
+        vectorStoreService.replaceDocumentChunks.mock.calls[0];
+      expect(vectors).toEqual([[0.5], [1]]);
+      expect(tracker.progress).toHaveBeenCalledWith({
+        chunks_total: 2,
+        chunks_reused: 1,
+        chunks_embedded: 1,
+      });
+    });
+
+    it('stores no vectors when embedding fails partway', async () => {
+      vectorStoreService.embedDocuments.mockRejectedValueOnce(
+        new Error('Embeddings timed out'),
+      );
+
+      await expect(service.ingest(job, tracker)).rejects.toThrow(
+        'Embeddings timed out',
+      );
+      expect(tracker.complete).not.toHaveBeenCalled();
+      expect(vectorStoreService.replaceDocumentChunks).not.toHaveBeenCalled();
+    });
+
+    it('stores no vectors when the job was cancelled while embedding', async () => {
+      tracker.complete.mockRejectedValueOnce(
+        new IngestionInterruptedError('job-1'),
+      );
+
+      await expect(service.ingest(job, tracker)).rejects.toThrow(
+        IngestionInterruptedError,
+      );
+      expect(vectorStoreService.replaceDocumentChunks).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('failIngestion', () => {
+    it('removes the chunks of a document that was never ready', async () => {
+      client.query.mockResolvedValueOnce({ rows: [], rowCount: 0 });
+
+      await service.failIngestion(job, 'Embeddings timed out');
+
+      expect(ingestionJobsService.fail).toHaveBeenCalledWith(
+        client,
+        job,
+        'Embeddings timed out',
+      );
+      expect(vectorStoreService.deleteDocumentChunks).toHaveBeenCalledWith(
+        'document-1',
+        'tenant-1',
+        client,
+      );
+      expect(client.query.mock.calls.at(-1)[1]).toEqual([
+        'document-1',
+        DOCUMENT_STATUS.FAILED,
+        0,
+        'Embeddings timed out',
+        DOCUMENT_STATUS.READY,
+      ]);
+    });
+
+    it('keeps a re-ingested document ready with its previous chunks', async () => {
+      client.query.mockResolvedValueOnce({ rows: [], rowCount: 1 });
+
+      await service.failIngestion(job, 'Embeddings timed out');
+
+      expect(vectorStoreService.deleteDocumentChunks).not.toHaveBeenCalled();
+      expect(client.query).toHaveBeenCalledTimes(1);
+      const [sql, params] = client.query.mock.calls[0];
+      expect(sql).toContain('ingested_at IS NOT NULL');
+      expect(params).toEqual([
+        'document-1',
+        DOCUMENT_STATUS.READY,
+        'Embeddings timed out',
+      ]);
+    });
+  });
+
+  describe('cancelIngestion', () => {
+    it('marks a document that was never ready cancelled and removes its chunks', async () => {
+      client.query.mockResolvedValueOnce({ rows: [], rowCount: 0 });
+
+      await service.cancelIngestion('job-1', 'tenant-1');
+
+      expect(vectorStoreService.deleteDocumentChunks).toHaveBeenCalled();
+      expect(client.query.mock.calls.at(-1)[1].slice(0, 2)).toEqual([
+        'document-1',
+        DOCUMENT_STATUS.CANCELLED,
+      ]);
+    });
+
+    it('keeps a re-ingested document ready with its previous chunks', async () => {
+      client.query.mockResolvedValueOnce({ rows: [], rowCount: 1 });
+
+      await service.cancelIngestion('job-1', 'tenant-1');
+
+      expect(vectorStoreService.deleteDocumentChunks).not.toHaveBeenCalled();
+      expect(client.query.mock.calls[0][1]).toEqual([
+        'document-1',
+        DOCUMENT_STATUS.READY,
+        null,
+      ]);
+    });
+  });
+
+  describe('remove', () => {
+    it('interrupts its ingestion, then deletes its chunks, cached answers and file', async () => {
+      storedPath = join(mkdtempSync(join(tmpdir(), 'documents-')), 'a.txt');
+      writeFileSync(storedPath, 'Refunds take 30 days.');
+
+      await service.remove('document-1', 'tenant-1');
+
+      expect(ingestionJobsService.removeForDocument).toHaveBeenCalledWith(
+        'document-1',
+      );
+      expect(
+        ingestionJobsService.removeForDocument.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        vectorStoreService.deleteDocumentChunks.mock.invocationCallOrder[0],
+      );
+      expect(vectorStoreService.deleteDocumentChunks).toHaveBeenCalledWith(
+        'document-1',
+        'tenant-1',
+      );
+      expect(responseCacheService.invalidateDocuments).toHaveBeenCalledWith(
+        'tenant-1',
+        'document-1',
+      );
+      expect(existsSync(storedPath)).toBe(false);
+      expect(query).toHaveBeenLastCalledWith(
+        'DELETE FROM documents WHERE id = $1',
+        ['document-1'],
+      );
+    });
+  });
+
+  describe('reingest', () => {
+    it('queues an ingestion with the stored settings and the overrides of the request', async () => {
+      client.query.mockResolvedValueOnce({ rows: [{ id: 'document-1' }] });
+
+      const response = await service.reingest(
+        'document-1',
+        { chunk_overlap: 50 },
+        'tenant-1',
+      );
+
+      expect(client.query.mock.calls[0][1]).toEqual([
+        'document-1',
+        DOCUMENT_STATUS.PROCESSING,
+        { chunk_size: 500, chunk_overlap: 50 },
+      ]);
+      expect(ingestionJobsService.enqueue).toHaveBeenCalledWith(
+        client,
+        'document-1',
+        'tenant-1',
+      );
+      expect(response).toMatchObject({
+        statusCode: 202,
+        data: { document: { id: 'document-1' }, job },
+      });
+    });
+
+    it('refuses a document whose ingestion is already queued or running', async () => {
+      client.query.mockResolvedValueOnce({ rows: [] });
+
+      const error = await service
+        .reingest('document-1', {}, 'tenant-1')
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect((error as ConflictException).getResponse()).toMatchObject({
+        error_code: 'DOCUMENT_INGESTION_IN_PROGRESS',
+      });
+      expect(ingestionJobsService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('refuses a document whose file was uploaded again since it failed', async () => {
+      client.query.mockImplementationOnce(async () => {
+        duplicates = [{ id: 'document-2' }];
+        throw Object.assign(
+          new pg.DatabaseError('duplicate key value', 0, 'error'),
+          {
+            code: '23505',
+            constraint: 'documents_tenant_id_active_content_hash_idx',
+          },
+        );
+      });
+
+      const error = await service
+        .reingest('document-1', {}, 'tenant-1')
+        .catch((e: unknown) => e);
+
+      expect((error as ConflictException).getResponse()).toMatchObject({
+        error_code: 'DUPLICATE_DOCUMENT',
+        data: { document: { id: 'document-2' } },
+      });
+    });
+  });
+
+  describe('documents of another tenant', () => {
+    it('are not found', async () => {
+      await expect(service.findOne('document-1', 'tenant-2')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('are not removed', async () => {
+      await expect(service.remove('document-1', 'tenant-2')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
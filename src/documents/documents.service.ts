@@ -0,0 +1,637 @@
+/**
+ * Service for the documents library: the registry of uploaded files and their ingestion.
+ *
+ * Every upload is recorded in the `documents` table with its original filename, stored path,
+ * size, upload time, chunk count, ingestion status and the settings it was split with. Chunks
+ * written to the vector store carry the document's ID in their `documentId` metadata, so that
+ * they can be removed when the document is deleted or re-ingested. Documents belong to the tenant
+ * that uploaded them: every method is scoped to a tenant ID, and the documents and chunks of other
+ * tenants are reported as not found.
+ *
+ * Ingestion runs in the background: registering or re-ingesting a document queues a job with
+ * IngestionJobsService, in the same transaction, and IngestionWorker later calls `ingest`. The
+ * chunks are only stored once all of them are embedded, in the transaction completing the job, so
+ * that an ingestion that fails or is cancelled never leaves part of them behind; a re-ingested
+ * document keeps its previous chunks until the new ones replace them, and keeps serving them, still
+ * ready, when its re-ingestion fails or is cancelled.
+ *
+ * Files and chunks are hashed with SHA-256. A tenant uploading a file identical to one of its
+ * documents that is ready or being ingested gets a 409 response naming that document; a unique
+ * index enforces it for identical uploads sent at the same time. Each chunk
+ * records the hash of its text in its `contentHash` metadata: a chunk repeating an earlier chunk of
+ * the same document, such as a page header, is stored once, and chunks identical to ones the
+ * tenant already has in the vector store reuse their vectors instead of being embedded again.
+ * Each chunk also records its position in the document in its `chunkIndex` metadata.
+ *
+ * Documents are split into chunks by ChunkingService, with the strategy and settings of the upload
+ * or re-ingestion request, falling back to the document's previous settings and to the `chunking`
+ * configuration namespace. The chunks a file would produce can be previewed without registering it.
+ *
+ * Whenever the chunks of a document are replaced or deleted, the cached document-chat answers that
+ * may depend on them are dropped from ResponseCacheService: every answer from the tenant's documents
+ * when new chunks are stored, and the answers citing the document when its chunks are deleted.
+ *
+ * @class DocumentsService
+ *
+ * @method register - Records an uploaded file in the registry with the 'processing' status and queues its ingestion.
+ * @param {Express.Multer.File} file - The uploaded file, already stored on disk.
+ * @param {IngestionSettingsDto} ingestionSettingsDto - Optional overrides of the `chunking` configuration namespace.
+ * @param {string} tenantId - The tenant uploading the document.
+ * @returns The registered document and its queued ingestion job; throws a ConflictException if the tenant already has an identical file,
+ *          or a BadRequestException if the settings cannot split it. The file is deleted in both cases.
+ *
+ * @method previewChunks - Loads and splits an uploaded file like an ingestion would, without embedding or storing its chunks. The
+ *                         semantic strategy still embeds the sentences of the file to find its breakpoints.
+ * @param {Express.Multer.File} file - The uploaded file, already stored on disk.
+ * @param {IngestionSettingsDto} ingestionSettingsDto - Optional overrides of the `chunking` configuration namespace.
+ * @returns The settings used and the chunks, with their text and metadata.
+ *
+ * @method ingest - Loads the document of a job with the loader registered for its format, splits and embeds it, then stores its chunks
+ *                  and marks it 'ready' with its chunk count. Errors are rethrown for the worker to retry or fail the job.
+ * @param {IngestionJob} job - The running job.
+ * @param {IngestionTracker} tracker - Hooks reporting the progress of the ingestion to the job.
+ * @returns The updated document.
+ *
+ * @method failIngestion - Marks a job failed. A document that was never ready is marked failed and its chunks are removed; a
+ *                         re-ingested one stays ready with its previous chunks, and records the error of the job.
+ * @method cancelIngestion - Cancels a queued or running job of the tenant. A document that was never ready is marked cancelled and
+ *                           its chunks are removed; a re-ingested one stays ready with its previous chunks.
+ *
+ * @method findAll - Lists the registered documents of the tenant, most recent upload first.
+ * @method findOne - Shows a single registered document.
+ * @method remove - Deletes a document together with its jobs, its vectors and its file on disk.
+ * @method reingest - Queues a new ingestion of a document with updated settings, unless one is already queued or running, or the tenant
+ *                    has since uploaded the same file again.
+ * @method summarize - Summarizes a document of the tenant in the requested style through DocumentSummariesService, which
+ *                     caches the summary until the document is re-ingested.
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { createReadStream, existsSync } from 'fs';
+import * as path from 'path';
+import * as pg from 'pg';
+import { unlink } from 'fs/promises';
+import { Document } from '@langchain/core/documents';
+import { DatabaseService } from 'src/services/database.service';
+import { VectorStoreService } from 'src/services/vector-store.service';
+import { ResponseCacheService } from 'src/services/response-cache.service';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { toModelProviderError } from 'src/errors/model-provider.errors';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import { DOCUMENT_STATUS } from 'src/utils/constants/documents.constants';
+import { UNIQUE_VIOLATION } from 'src/utils/constants/common.constants';
+import { ChunkingConfig, chunkingConfig } from 'src/config/chunking.config';
+import { IngestionConfig, ingestionConfig } from 'src/config/ingestion.config';
+import { IngestionSettingsDto } from './dtos/ingestion-settings.dto';
+import {
+  DocumentRecord,
+  IngestionSettings,
+} from './interfaces/document-record.interface';
+import {
+  IngestionJob,
+  IngestionTracker,
+} from './interfaces/ingestion-job.interface';
+import { DocumentLoaderRegistry } from './document-loader.registry';
+import { IngestionJobsService } from './ingestion-jobs.service';
+import { DocumentSummariesService } from './document-summaries.service';
+import { ChunkingService } from './chunking.service';
+import { SummarizeDocumentDto } from './dtos/summarize-document.dto';
+
+// Unique index on the file hash of the ready and processing documents of a tenant
+const DUPLICATE_DOCUMENTS_INDEX = 'documents_tenant_id_active_content_hash_idx';
+
+const isDuplicateDocument = (e: unknown) =>
+  e instanceof pg.DatabaseError &&
+  e.code === UNIQUE_VIOLATION &&
+  e.constraint === DUPLICATE_DOCUMENTS_INDEX;
+
+@Injectable()
+export class DocumentsService {
+  constructor(
+    private databaseService: DatabaseService,
+    private vectorStoreService: VectorStoreService,
+    private documentLoaderRegistry: DocumentLoaderRegistry,
+    private ingestionJobsService: IngestionJobsService,
+    private documentSummariesService: DocumentSummariesService,
+    private chunkingService: ChunkingService,
+    private responseCacheService: ResponseCacheService,
+    @Inject(chunkingConfig.KEY) private chunkingSettings: ChunkingConfig,
+    @Inject(ingestionConfig.KEY) private ingestionSettings: IngestionConfig,
+  ) {}
+
+  async onModuleInit() {
+    await this.databaseService.query(`
+      CREATE TABLE IF NOT EXISTS documents (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        original_name TEXT NOT NULL,
+        stored_path TEXT NOT NULL,
+        mime_type TEXT,
+        size_bytes INTEGER NOT NULL,
+        uploaded_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        chunk_count INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL,
+        error TEXT,
+        ingestion_settings JSONB NOT NULL,
+        tenant_id UUID
+      );
+    `);
+    // Documents registered before tenants were introduced belong to no tenant
+    await this.databaseService.query(
+      'ALTER TABLE documents ADD COLUMN IF NOT EXISTS tenant_id UUID',
+    );
+    await this.databaseService.query(
+      'CREATE INDEX IF NOT EXISTS documents_tenant_id_idx ON documents (tenant_id)',
+    );
+    // SHA-256 of the uploaded file, detecting duplicate uploads; unknown for earlier documents
+    await this.databaseService.query(
+      'ALTER TABLE documents ADD COLUMN IF NOT EXISTS content_hash TEXT',
+    );
+    // A tenant has one ready or processing document per file, even when identical uploads race
+    await this.databaseService.query(
+      'DROP INDEX IF EXISTS documents_tenant_id_content_hash_idx',
+    );
+    await this.databaseService.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS ${DUPLICATE_DOCUMENTS_INDEX}
+        ON documents (tenant_id, content_hash)
+        WHERE status IN ('${DOCUMENT_STATUS.READY}', '${DOCUMENT_STATUS.PROCESSING}');
+    `);
+    // When the current chunks were stored, telling cached summaries apart from stale ones
+    await this.databaseService.query(
+      'ALTER TABLE documents ADD COLUMN IF NOT EXISTS ingested_at TIMESTAMPTZ',
+    );
+  }
+
+  async register(
+    file: Express.Multer.File,
+    ingestionSettingsDto: IngestionSettingsDto,
+    tenantId: string,
+  ) {
+    const settings = this.mergeSettings(
+      this.chunkingSettings,
+      ingestionSettingsDto,
+    );
+    try {
+      this.chunkingService.validate(settings);
+    } catch (e: unknown) {
+      await unlink(file.path);
+      throw e;
+    }
+
+    const contentHash = await this.hashFile(file.path);
+    const duplicate = await this.findDuplicate(tenantId, contentHash);
+    if (duplicate) {
+      await unlink(file.path);
+      throw this.duplicateConflict(duplicate);
+    }
+
+    try {
+      return await this.databaseService.transaction(async (client) => {
+        const {
+          rows: [document],
+        } = await client.query<DocumentRecord>(
+          `INSERT INTO documents (original_name, stored_path, mime_type, size_bytes, status,
+             ingestion_settings, tenant_id, content_hash)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+          [
+            file.originalname,
+            path.resolve(file.path),
+            file.mimetype,
+            file.size,
+            DOCUMENT_STATUS.PROCESSING,
+            settings,
+            tenantId,
+            contentHash,
+          ],
+        );
+        const job = await this.ingestionJobsService.enqueue(
+          client,
+          document.id,
+          tenantId,
+        );
+        return { document, job };
+      });
+    } catch (e: unknown) {
+      // An identical upload registered since the check above
+      if (!isDuplicateDocument(e)) throw e;
+      await unlink(file.path);
+      throw this.duplicateConflict(
+        await this.findDuplicate(tenantId, contentHash),
+      );
+    }
+  }
+
+  async ingest(job: IngestionJob, tracker: IngestionTracker) {
+    const document = await this.findDocument(job.document_id, job.tenant_id);
+    if (!existsSync(document.stored_path)) {
+      throw new BadRequestException(
+        customMessage(HttpStatus.BAD_REQUEST, MESSAGES.FILE_NOT_FOUND),
+      );
+    }
+
+    // Load the file with the loader registered for its format
+    const loaded = await this.documentLoaderRegistry.load(
+      document.stored_path,
+      document.original_name,
+      document.mime_type,
+    );
+    await tracker.progress({ pages_parsed: loaded.length });
+    const chunks = await this.splitDocument(
+      loaded,
+      document.ingestion_settings,
+      { documentId: document.id, source: document.original_name },
+    );
+
+    // Reuse the vectors of identical chunks, and embed each remaining text once
+    const hashes = chunks.map((chunk) => chunk.metadata.contentHash as string);
+    const vectorsByHash = await this.vectorStoreService.findEmbeddings(
+      document.tenant_id,
+      hashes,
+    );
+    const reused = vectorsByHash.size;
+    await tracker.progress({
+      chunks_total: chunks.length,
+      chunks_reused: reused,
+      chunks_embedded: reused,
+    });
+    const pending = chunks.filter(
+      (chunk) => !vectorsByHash.has(chunk.metadata.contentHash),
+    );
+    const { embeddingBatchSize, embeddingConcurrency } = this.ingestionSettings;
+    const embedded = await this.vectorStoreService.embedDocuments(
+      pending.map((chunk) => chunk.pageContent),
+      { batchSize: embeddingBatchSize, concurrency: embeddingConcurrency },
+      (count) => tracker.progress({ chunks_embedded: reused + count }),
+    );
+    pending.forEach((chunk, index) =>
+      vectorsByHash.set(chunk.metadata.contentHash, embedded[index]),
+    );
+    const vectors = hashes.map((hash) => vectorsByHash.get(hash));
+
+    return this.databaseService.transaction(async (client) => {
+      await tracker.complete(client);
+      await this.vectorStoreService.replaceDocumentChunks(
+        client,
+        document.id,
+        document.tenant_id,
+        chunks,
+        vectors,
+      );
+      await this.documentSummariesService.removeForDocument(
+        document.id,
+        client,
+      );
+      await this.responseCacheService.invalidateDocuments(
+        document.tenant_id,
+        undefined,
+        client,
+      );
+      return this.updateStatus(client, document.id, DOCUMENT_STATUS.READY, {
+        chunk_count: chunks.length,
+      });
+    });
+  }
+
+  async previewChunks(
+    file: Express.Multer.File,
+    ingestionSettingsDto: IngestionSettingsDto,
+  ) {
+    const settings = this.mergeSettings(
+      this.chunkingSettings,
+      ingestionSettingsDto,
+    );
+    this.chunkingService.validate(settings);
+    const loaded = await this.documentLoaderRegistry.load(
+      file.path,
+      file.originalname,
+      file.mimetype,
+    );
+    const chunks = await this.splitDocument(loaded, settings, {
+      source: file.originalname,
+    });
+    return {
+      settings,
+      pages_parsed: loaded.length,
+      chunk_count: chunks.length,
+      chunks: chunks.map(({ pageContent, metadata }) => ({
+        text: pageContent,
+        characters: pageContent.length,
+        metadata,
+      })),
+    };
+  }
+
+  async failIngestion(job: IngestionJob, error: string) {
+    await this.databaseService.transaction(async (client) => {
+      await this.ingestionJobsService.fail(client, job, error);
+      await this.endIngestion(
+        client,
+        job.document_id,
+        job.tenant_id,
+        DOCUMENT_STATUS.FAILED,
+        error,
+      );
+    });
+  }
+
+  async cancelIngestion(jobId: string, tenantId: string) {
+    try {
+      const job = await this.databaseService.transaction(async (client) => {
+        const cancelled = await this.ingestionJobsService.cancel(
+          client,
+          jobId,
+          tenantId,
+        );
+        await this.endIngestion(
+          client,
+          cancelled.document_id,
+          tenantId,
+          DOCUMENT_STATUS.CANCELLED,
+        );
+        return cancelled;
+      });
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, job);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async findAll(tenantId: string) {
+    try {
+      const documents = await this.databaseService.query<DocumentRecord>(
+        'SELECT * FROM documents WHERE tenant_id = $1 ORDER BY uploaded_at DESC',
+        [tenantId],
+      );
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, documents);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async findOne(id: string, tenantId: string) {
+    try {
+      const document = await this.findDocument(id, tenantId);
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, document);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async remove(id: string, tenantId: string) {
+    try {
+      const document = await this.findDocument(id, tenantId);
+      // Removing the jobs first interrupts a running ingestion before it can store chunks
+      await this.ingestionJobsService.removeForDocument(document.id);
+      await this.vectorStoreService.deleteDocumentChunks(document.id, tenantId);
+      await this.documentSummariesService.removeForDocument(document.id);
+      await this.responseCacheService.invalidateDocuments(
+        tenantId,
+        document.id,
+      );
+      if (existsSync(document.stored_path)) {
+        await unlink(document.stored_path);
+      }
+      await this.databaseService.query('DELETE FROM documents WHERE id = $1', [
+        document.id,
+      ]);
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async reingest(
+    id: string,
+    ingestionSettingsDto: IngestionSettingsDto,
+    tenantId: string,
+  ) {
+    try {
+      const document = await this.findDocument(id, tenantId);
+      const settings = this.mergeSettings(
+        document.ingestion_settings,
+        ingestionSettingsDto,
+      );
+      this.chunkingService.validate(settings);
+      const queued = await this.databaseService.transaction(async (client) => {
+        const {
+          rows: [updated],
+        } = await client
+          .query<DocumentRecord>(
+            `UPDATE documents
+             SET status = $2, error = NULL, ingestion_settings = $3
+             WHERE id = $1 AND status <> $2 RETURNING *`,
+            [document.id, DOCUMENT_STATUS.PROCESSING, settings],
+          )
+          // A failed or cancelled document whose file was uploaded again since
+          .catch(async (e: unknown) => {
+            if (!isDuplicateDocument(e)) throw e;
+            throw this.duplicateConflict(
+              await this.findDuplicate(tenantId, document.content_hash),
+            );
+          });
+        if (!updated) {
+          throw new ConflictException(
+            customMessage(
+              HttpStatus.CONFLICT,
+              MESSAGES.DOCUMENT_INGESTION_IN_PROGRESS,
+            ),
+          );
+        }
+        const job = await this.ingestionJobsService.enqueue(
+          client,
+          updated.id,
+          tenantId,
+        );
+        return { document: updated, job };
+      });
+      return customMessage(HttpStatus.ACCEPTED, MESSAGES.SUCCESS, queued);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async summarize(
+    id: string,
+    summarizeDocumentDto: SummarizeDocumentDto,
+    tenantId: string,
+  ) {
+    try {
+      const document = await this.findDocument(id, tenantId);
+      const summary = await this.documentSummariesService.summarize(
+        document,
+        summarizeDocumentDto,
+      );
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, summary);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  // Splits the loaded file once, then hashes each chunk and drops the repeated ones
+  private splitDocument = async (
+    loaded: Document[],
+    settings: IngestionSettings,
+    metadata: { documentId?: string; source: string },
+  ) => {
+    const texts = await this.chunkingService.split(loaded, settings);
+    const seenHashes = new Set<string>();
+
+    return (
+      texts
+        .map(
+          (chunk): Document => ({
+            pageContent: chunk.pageContent,
+            metadata: {
+              ...chunk.metadata,
+              ...metadata,
+              contentHash: this.hash(chunk.pageContent),
+            },
+          }),
+        )
+        // Keep the first occurrence of a chunk repeated within the document
+        .filter(({ metadata }) => {
+          if (seenHashes.has(metadata.contentHash)) return false;
+          seenHashes.add(metadata.contentHash);
+          return true;
+        })
+        // Position of the chunk in the document, which summaries read it in
+        .map(
+          (chunk, chunkIndex): Document => ({
+            ...chunk,
+            metadata: { ...chunk.metadata, chunkIndex },
+          }),
+        )
+    );
+  };
+
+  // A re-ingested document keeps serving the chunks of its last ingestion, with the error of the
+  // job; a document that was never ready has its chunks removed and takes the given status
+  private endIngestion = async (
+    client: pg.PoolClient,
+    documentId: string,
+    tenantId: string,
+    status: DOCUMENT_STATUS,
+    error: string = null,
+  ) => {
+    const { rowCount } = await client.query(
+      `UPDATE documents SET status = $2, error = $3
+       WHERE id = $1 AND ingested_at IS NOT NULL`,
+      [documentId, DOCUMENT_STATUS.READY, error],
+    );
+    if (rowCount) return;
+
+    await this.vectorStoreService.deleteDocumentChunks(
+      documentId,
+      tenantId,
+      client,
+    );
+    await this.documentSummariesService.removeForDocument(documentId, client);
+    await this.responseCacheService.invalidateDocuments(
+      tenantId,
+      documentId,
+      client,
+    );
+    await this.updateStatus(client, documentId, status, { error });
+  };
+
+  private updateStatus = async (
+    client: pg.PoolClient,
+    id: string,
+    status: DOCUMENT_STATUS,
+    { chunk_count = 0, error = null }: { chunk_count?: number; error?: string },
+  ) => {
+    // Only a ready document has chunks, stored at the time of this update
+    const {
+      rows: [document],
+    } = await client.query<DocumentRecord>(
+      `UPDATE documents SET status = $2, chunk_count = $3, error = $4,
+         ingested_at = CASE WHEN $2 = $5 THEN now() END
+       WHERE id = $1 RETURNING *`,
+      [id, status, chunk_count, error, DOCUMENT_STATUS.READY],
+    );
+    return document;
+  };
+
+  private hash = (text: string) =>
+    createHash('sha256').update(text).digest('hex');
+
+  private hashFile = (filePath: string) =>
+    new Promise<string>((resolve, reject) => {
+      const hash = createHash('sha256');
+      createReadStream(filePath)
+        .on('data', (data) => hash.update(data))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+    });
+
+  // Each setting comes from the request, then the current settings, then the configuration
+  private mergeSettings = (
+    current: Partial<IngestionSettings>,
+    overrides: IngestionSettingsDto,
+  ) =>
+    Object.fromEntries(
+      Object.entries(this.chunkingSettings).map(([key, value]) => [
+        key,
+        overrides[key] ?? current[key] ?? value,
+      ]),
+    ) as IngestionSettings;
+
+  // The ready or processing document of the tenant with the same file
+  private findDuplicate = async (tenantId: string, contentHash: string) => {
+    const [duplicate] = await this.databaseService.query<DocumentRecord>(
+      `SELECT * FROM documents
+       WHERE tenant_id = $1 AND content_hash = $2 AND status = ANY($3)
+       ORDER BY uploaded_at LIMIT 1`,
+      [
+        tenantId,
+        contentHash,
+        [DOCUMENT_STATUS.READY, DOCUMENT_STATUS.PROCESSING],
+      ],
+    );
+    return duplicate;
+  };
+
+  private duplicateConflict = (duplicate: DocumentRecord) =>
+    new ConflictException(
+      customMessage(HttpStatus.CONFLICT, MESSAGES.DUPLICATE_DOCUMENT, {
+        document: duplicate,
+      }),
+    );
+
+  private findDocument = async (id: string, tenantId: string) => {
+    const [document] = await this.databaseService.query<DocumentRecord>(
+      'SELECT * FROM documents WHERE id = $1 AND tenant_id = $2',
+      [id, tenantId],
+    );
+    if (!document) {
+      throw new NotFoundException(
+        customMessage(HttpStatus.NOT_FOUND, MESSAGES.DOCUMENT_NOT_FOUND),
+      );
+    }
+    return document;
+  };
+
+  private exceptionHandling = (e: unknown) => {
+    if (e instanceof HttpException) throw e;
+    Logger.error(e);
+    throw (
+      toModelProviderError(e) ??
+      new HttpException(
+        customMessage(
+          HttpStatus.INTERNAL_SERVER_ERROR,
+          MESSAGES.EXTERNAL_SERVER_ERROR,
+        ),
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      )
+    );
+  };
+}
@@ -0,0 +1,12 @@
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { INGESTION_JOB_STATUS } from 'src/utils/constants/ingestion-jobs.constants';
+
+export class IngestionJobsQueryDto {
+  @IsOptional()
+  @IsUUID()
+  document_id?: string;
+
+  @IsOptional()
+  @IsEnum(INGESTION_JOB_STATUS)
+  status?: INGESTION_JOB_STATUS;
+}
@@ -0,0 +1,76 @@
+/**
+ * Data Transfer Object for the settings used to split a document into chunks.
+ *
+ * Every property is optional; omitted values fall back to the document's previous
+ * settings on re-ingestion, or to the `chunking` configuration
+ * namespace on upload. Values are
+ * transformed to numbers because they may arrive as multipart form fields. Each strategy
+ * only reads the settings it uses, see CHUNKING_STRATEGIES.
+ *
+ * @class IngestionSettingsDto
+ *
+ * @property chunking_strategy - How the document is split into chunks, one of CHUNKING_STRATEGIES.
+ * @property chunk_size - Maximum number of characters per chunk, or of tokens for the token strategy. It must be a positive integer.
+ * @property chunk_overlap - Number of characters, or tokens, shared by consecutive chunks. It must be a non-negative integer
+ *                           smaller than the chunk size.
+ * @property encoding_name - Tokenizer the token strategy counts with, one of TOKEN_ENCODINGS.
+ * @property sentence_overlap - Number of sentences the sentence strategy repeats at the start of the next chunk.
+ * @property breakpoint_percentile - Percentile of the distances between sentences above which the semantic strategy starts a new chunk, from 0 to 100.
+ * @property buffer_size - Number of neighbouring sentences on each side embedded with a sentence by the semantic strategy.
+ */
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  CHUNKING_STRATEGIES,
+  TOKEN_ENCODINGS,
+  TokenEncoding,
+} from 'src/utils/constants/chunking.constants';
+
+export class IngestionSettingsDto {
+  @IsOptional()
+  @IsEnum(CHUNKING_STRATEGIES)
+  chunking_strategy?: CHUNKING_STRATEGIES;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  chunk_size?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  chunk_overlap?: number;
+
+  @IsOptional()
+  @IsIn(TOKEN_ENCODINGS)
+  encoding_name?: TokenEncoding;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  sentence_overlap?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  breakpoint_percentile?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  buffer_size?: number;
+}
@@ -0,0 +1,36 @@
+/**
+ * Data Transfer Object for summarizing a document.
+ *
+ * @class SummarizeDocumentDto
+ *
+ * @property style - Style of the summary: 'brief', 'detailed', 'bullet_points' or 'executive'.
+ * @property strategy - How a document too long for a single model call is summarized, 'map_reduce' by default.
+ * @property model_options - Optional overrides of the chat model settings, see ModelOptionsDto. Summaries are
+ *                           written at temperature 0 unless a temperature is set.
+ * @property refresh - Whether to write a new summary even if one is cached.
+ */
+import { Type } from 'class-transformer';
+import { IsBoolean, IsEnum, IsOptional, ValidateNested } from 'class-validator';
+import { ModelOptionsDto } from 'src/langchain-chat/dtos/model-options.dto';
+import {
+  SUMMARY_STRATEGIES,
+  SUMMARY_STYLES,
+} from 'src/utils/constants/summaries.constants';
+
+export class SummarizeDocumentDto {
+  @IsEnum(SUMMARY_STYLES)
+  style: SUMMARY_STYLES;
+
+  @IsOptional()
+  @IsEnum(SUMMARY_STRATEGIES)
+  strategy?: SUMMARY_STRATEGIES;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ModelOptionsDto)
+  model_options?: ModelOptionsDto;
+
+  @IsOptional()
+  @IsBoolean()
+  refresh?: boolean;
+}
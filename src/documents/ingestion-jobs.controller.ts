@@ -0,0 +1,61 @@
+/**
+ * Controller for the ingestion jobs queued by uploads and re-ingestions.
+ *
+ * @class IngestionJobsController
+ *
+ * @method findAll - Lists the tenant's jobs, most recent first. Accepts GET requests with an IngestionJobsQueryDto
+ *                   filtering them by `document_id` and/or `status`.
+ * @method findOne - Shows the status of a job and its progress: pages parsed, chunks embedded out of the
+ *                   total, attempts made and the error of the last failed attempt.
+ * @method cancel - Cancels a queued or running job. The document is marked cancelled and keeps no chunks.
+ */
+
+import {
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { IngestionJobsService } from './ingestion-jobs.service';
+import { DocumentsService } from './documents.service';
+import { IngestionJobsQueryDto } from './dtos/ingestion-jobs-query.dto';
+import { TenantId } from 'src/auth/decorators/tenant-id.decorator';
+
+@Controller('ingestion-jobs')
+export class IngestionJobsController {
+  constructor(
+    private readonly ingestionJobsService: IngestionJobsService,
+    private readonly documentsService: DocumentsService,
+  ) {}
+
+  @Get()
+  async findAll(
+    @Query() ingestionJobsQueryDto: IngestionJobsQueryDto,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.ingestionJobsService.findAll(
+      tenantId,
+      ingestionJobsQueryDto,
+    );
+  }
+
+  @Get(':id')
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.ingestionJobsService.findOne(id, tenantId);
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(200)
+  async cancel(
+    @Param('id', ParseUUIDPipe) id: string,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.documentsService.cancelIngestion(id, tenantId);
+  }
+}
@@ -0,0 +1,134 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import {
+  IngestionInterruptedError,
+  IngestionJobsService,
+} from './ingestion-jobs.service';
+import { DatabaseService } from 'src/services/database.service';
+import { UsageService } from 'src/usage/usage.service';
+import { ObservabilityService } from 'src/observability/observability.service';
+import { ingestionConfig } from 'src/config/ingestion.config';
+import { IngestionJob } from './interfaces/ingestion-job.interface';
+import { INGESTION_JOB_STATUS } from 'src/utils/constants/ingestion-jobs.constants';
+
+const runningJob = { id: 'job-1', attempts: 3 } as IngestionJob;
+
+describe('IngestionJobsService', () => {
+  let service: IngestionJobsService;
+  let query: jest.Mock;
+  let poolQuery: jest.Mock;
+  let client: { query: jest.Mock };
+
+  beforeEach(async () => {
+    query = jest.fn().mockResolvedValue([]);
+    poolQuery = jest.fn().mockResolvedValue({ rowCount: 1 });
+    client = { query: jest.fn().mockResolvedValue({ rows: [], rowCount: 1 }) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        IngestionJobsService,
+        {
+          provide: DatabaseService,
+          useValue: { query, pool: { query: poolQuery } },
+        },
+        { provide: UsageService, useValue: { currentContext: () => null } },
+        { provide: ObservabilityService, useValue: { requestId: () => null } },
+        {
+          provide: ingestionConfig.KEY,
+          useValue: {
+            maxAttempts: 3,
+            retryBackoffMs: 1000,
+            staleAfterMs: 60000,
+          },
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(IngestionJobsService);
+  });
+
+  describe('claim', () => {
+    it('starts the next due job, or a running job gone stale, skipping the locked ones', async () => {
+      query.mockResolvedValueOnce([runningJob]);
+
+      expect(await service.claim()).toBe(runningJob);
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain('attempts = attempts + 1');
+      expect(sql).toContain('FOR UPDATE SKIP LOCKED');
+      expect(params).toEqual([
+        INGESTION_JOB_STATUS.RUNNING,
+        INGESTION_JOB_STATUS.QUEUED,
+        60000,
+      ]);
+    });
+
+    it('returns nothing when no job is due', async () => {
+      expect(await service.claim()).toBeUndefined();
+    });
+  });
+
+  describe('retry', () => {
+    it('queues the job again after a backoff doubled with each attempt', async () => {
+      await service.retry(runningJob, 'Embeddings timed out');
+
+      const [sql, params] = poolQuery.mock.calls[0];
+      expect(sql).toContain(
+        `WHERE id = $1 AND attempts = $2 AND status = '${INGESTION_JOB_STATUS.RUNNING}'`,
+      );
+      expect(params).toEqual([
+        'job-1',
+        3,
+        INGESTION_JOB_STATUS.QUEUED,
+        'Embeddings timed out',
+        4000,
+      ]);
+    });
+  });
+
+  describe('updates of a running job', () => {
+    it('interrupt the worker once the job no longer runs its attempt', async () => {
+      poolQuery.mockResolvedValueOnce({ rowCount: 0 });
+      client.query.mockResolvedValueOnce({ rowCount: 0 });
+
+      await expect(
+        service.progress(runningJob, { chunks_embedded: 10 }),
+      ).rejects.toThrow(IngestionInterruptedError);
+      await expect(
+        service.complete(client as never, runningJob),
+      ).rejects.toThrow(IngestionInterruptedError);
+    });
+  });
+
+  describe('cancel', () => {
+    it('cancels a queued or running job of the tenant', async () => {
+      const cancelled = { id: 'job-1', status: INGESTION_JOB_STATUS.CANCELLED };
+      client.query.mockResolvedValueOnce({ rows: [cancelled] });
+
+      expect(await service.cancel(client as never, 'job-1', 'tenant-1')).toBe(
+        cancelled,
+      );
+      expect(client.query.mock.calls[0][1]).toEqual([
+        'job-1',
+        'tenant-1',
+        INGESTION_JOB_STATUS.CANCELLED,
+        [INGESTION_JOB_STATUS.QUEUED, INGESTION_JOB_STATUS.RUNNING],
+      ]);
+    });
+
+    it('rejects a finished job with a conflict', async () => {
+      query.mockResolvedValueOnce([{ id: 'job-1' }]);
+
+      await expect(
+        service.cancel(client as never, 'job-1', 'tenant-1'),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('does not find the jobs of another tenant', async () => {
+      await expect(
+        service.cancel(client as never, 'job-1', 'tenant-2'),
+      ).rejects.toThrow(NotFoundException);
+      expect(query.mock.calls[0][1]).toEqual(['job-1', 'tenant-2']);
+    });
+  });
+});
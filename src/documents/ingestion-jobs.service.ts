@@ -0,0 +1,319 @@
+/**
+ * Service for the queue of ingestion jobs, stored in the `ingestion_jobs` table.
+ *
+ * Uploads and re-ingestions queue a job instead of ingesting the document while the HTTP request
+ * waits. IngestionWorker claims queued jobs with `FOR UPDATE SKIP LOCKED`, so that several
+ * instances can share the queue, and reports progress through the job. Every update made on behalf
+ * of a running job is conditioned on the job still running the same attempt: once a job has been
+ * cancelled, removed with its document, or taken over by another worker after its heartbeat went
+ * stale, the updates of the former worker throw an IngestionInterruptedError and it stops.
+ *
+ * Configuration (the `ingestion` namespace, see src/config/ingestion.config.ts):
+ * - maxAttempts, retryBackoffMs - Attempts per job, and the delay before the first retry, doubled after each failure.
+ * - staleAfterMs - Time without progress after which a running job is claimed again.
+ *
+ * @class IngestionJobsService
+ *
+ * @method enqueue - Queues the ingestion of a document, within the transaction registering or resetting it.
+ * @method claim - Starts the next due job, or a running job whose worker stopped reporting progress.
+ * @method progress - Records the progress of a running job and refreshes its heartbeat.
+ * @method complete - Marks a running job succeeded, within the transaction storing its chunks.
+ * @method retry - Queues a failed attempt again after the backoff delay.
+ * @method fail - Marks a running job failed, within the transaction marking its document failed.
+ *
+ * @method cancel - Cancels a queued or running job of the tenant, within the transaction marking its document cancelled.
+ * @returns The cancelled job; a 404 response if the tenant has no such job, a 409 response if it has finished.
+ *
+ * @method findAll - Lists the jobs of the tenant, most recent first, optionally of a document or with a status.
+ * @method findOne - Shows a single job of the tenant with its progress.
+ * @method removeForDocument - Deletes the jobs of a document, interrupting a running one.
+ */
+
+import {
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import * as pg from 'pg';
+import { DatabaseService } from 'src/services/database.service';
+import { UsageService } from 'src/usage/usage.service';
+import { ObservabilityService } from 'src/observability/observability.service';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import {
+  ACTIVE_INGESTION_JOB_STATUSES,
+  INGESTION_JOB_STATUS,
+} from 'src/utils/constants/ingestion-jobs.constants';
+import { IngestionConfig, ingestionConfig } from 'src/config/ingestion.config';
+import { IngestionJobsQueryDto } from './dtos/ingestion-jobs-query.dto';
+import {
+  IngestionJob,
+  IngestionProgress,
+} from './interfaces/ingestion-job.interface';
+
+// Thrown to the worker of a job that has been cancelled, removed or taken over
+export class IngestionInterruptedError extends Error {
+  constructor(jobId: string) {
+    super(`Ingestion job ${jobId} is no longer run by this worker`);
+  }
+}
+
+@Injectable()
+export class IngestionJobsService {
+  constructor(
+    private databaseService: DatabaseService,
+    private usageService: UsageService,
+    private observabilityService: ObservabilityService,
+    @Inject(ingestionConfig.KEY) private ingestionSettings: IngestionConfig,
+  ) {}
+
+  async onModuleInit() {
+    await this.databaseService.query(`
+      CREATE TABLE IF NOT EXISTS ingestion_jobs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        document_id UUID NOT NULL,
+        tenant_id UUID NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL,
+        run_after TIMESTAMPTZ NOT NULL DEFAULT now(),
+        pages_parsed INTEGER NOT NULL DEFAULT 0,
+        chunks_total INTEGER,
+        chunks_embedded INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        endpoint TEXT,
+        caller TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        started_at TIMESTAMPTZ,
+        finished_at TIMESTAMPTZ,
+        heartbeat_at TIMESTAMPTZ
+      );
+    `);
+    // Jobs queued before correlation IDs were introduced have none
+    await this.databaseService.query(
+      'ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS request_id TEXT',
+    );
+    // Chunks whose vectors were found in the store instead of being embedded again
+    await this.databaseService.query(
+      'ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS chunks_reused INTEGER NOT NULL DEFAULT 0',
+    );
+    await this.databaseService.query(`
+      CREATE INDEX IF NOT EXISTS ingestion_jobs_status_run_after_idx
+        ON ingestion_jobs (status, run_after);
+    `);
+    await this.databaseService.query(
+      'CREATE INDEX IF NOT EXISTS ingestion_jobs_document_id_idx ON ingestion_jobs (document_id)',
+    );
+    await this.databaseService.query(`
+      CREATE INDEX IF NOT EXISTS ingestion_jobs_tenant_id_created_at_idx
+        ON ingestion_jobs (tenant_id, created_at);
+    `);
+  }
+
+  async enqueue(
+    client: pg.PoolClient,
+    documentId: string,
+    tenantId: string,
+  ): Promise<IngestionJob> {
+    const usageContext = this.usageService.currentContext();
+    const {
+      rows: [job],
+    } = await client.query<IngestionJob>(
+      `INSERT INTO ingestion_jobs (document_id, tenant_id, status, max_attempts, endpoint, caller,
+         request_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+      [
+        documentId,
+        tenantId,
+        INGESTION_JOB_STATUS.QUEUED,
+        this.ingestionSettings.maxAttempts,
+        usageContext?.endpoint ?? null,
+        usageContext?.caller ?? null,
+        this.observabilityService.requestId() ?? null,
+      ],
+    );
+    return job;
+  }
+
+  async claim(): Promise<IngestionJob | undefined> {
+    const [job] = await this.databaseService.query<IngestionJob>(
+      `UPDATE ingestion_jobs
+       SET status = $1, attempts = attempts + 1, heartbeat_at = now(),
+         started_at = coalesce(started_at, now()),
+         pages_parsed = 0, chunks_total = NULL, chunks_embedded = 0, chunks_reused = 0
+       WHERE id = (
+         SELECT id FROM ingestion_jobs
+         WHERE (status = $2 AND run_after <= now())
+           OR (status = $1 AND heartbeat_at < now() - $3 * interval '1 millisecond')
+         ORDER BY run_after
+         FOR UPDATE SKIP LOCKED
+         LIMIT 1
+       )
+       RETURNING *`,
+      [
+        INGESTION_JOB_STATUS.RUNNING,
+        INGESTION_JOB_STATUS.QUEUED,
+        this.ingestionSettings.staleAfterMs,
+      ],
+    );
+    return job;
+  }
+
+  async progress(job: IngestionJob, progress: Partial<IngestionProgress>) {
+    await this.updateRunning(
+      this.databaseService.pool,
+      job,
+      // Batches are embedded concurrently, so their progress may be reported out of order
+      `pages_parsed = coalesce($3, pages_parsed),
+       chunks_total = coalesce($4, chunks_total),
+       chunks_embedded = greatest($5, chunks_embedded),
+       chunks_reused = coalesce($6, chunks_reused),
+       heartbeat_at = now()`,
+      [
+        progress.pages_parsed ?? null,
+        progress.chunks_total ?? null,
+        progress.chunks_embedded ?? null,
+        progress.chunks_reused ?? null,
+      ],
+    );
+  }
+
+  async complete(client: pg.PoolClient, job: IngestionJob) {
+    await this.updateRunning(
+      client,
+      job,
+      'status = $3, error = NULL, finished_at = now()',
+      [INGESTION_JOB_STATUS.SUCCEEDED],
+    );
+  }
+
+  async retry(job: IngestionJob, error: string) {
+    const backoffMs =
+      this.ingestionSettings.retryBackoffMs * 2 ** (job.attempts - 1);
+    await this.updateRunning(
+      this.databaseService.pool,
+      job,
+      `status = $3, error = $4, heartbeat_at = NULL,
+       run_after = now() + $5 * interval '1 millisecond'`,
+      [INGESTION_JOB_STATUS.QUEUED, error, backoffMs],
+    );
+  }
+
+  async fail(client: pg.PoolClient, job: IngestionJob, error: string) {
+    await this.updateRunning(
+      client,
+      job,
+      'status = $3, error = $4, finished_at = now()',
+      [INGESTION_JOB_STATUS.FAILED, error],
+    );
+  }
+
+  async cancel(
+    client: pg.PoolClient,
+    id: string,
+    tenantId: string,
+  ): Promise<IngestionJob> {
+    const {
+      rows: [job],
+    } = await client.query<IngestionJob>(
+      `UPDATE ingestion_jobs SET status = $3, finished_at = now()
+       WHERE id = $1 AND tenant_id = $2 AND status = ANY($4)
+       RETURNING *`,
+      [
+        id,
+        tenantId,
+        INGESTION_JOB_STATUS.CANCELLED,
+        ACTIVE_INGESTION_JOB_STATUSES,
+      ],
+    );
+    if (job) return job;
+
+    await this.findJob(id, tenantId);
+    throw new ConflictException(
+      customMessage(HttpStatus.CONFLICT, MESSAGES.INGESTION_JOB_FINISHED),
+    );
+  }
+
+  async findAll(
+    tenantId: string,
+    ingestionJobsQueryDto: IngestionJobsQueryDto,
+  ) {
+    try {
+      const jobs = await this.databaseService.query<IngestionJob>(
+        `SELECT * FROM ingestion_jobs
+         WHERE tenant_id = $1
+           AND ($2::uuid IS NULL OR document_id = $2)
+           AND ($3::text IS NULL OR status = $3)
+         ORDER BY created_at DESC`,
+        [
+          tenantId,
+          ingestionJobsQueryDto.document_id ?? null,
+          ingestionJobsQueryDto.status ?? null,
+        ],
+      );
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, jobs);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async findOne(id: string, tenantId: string) {
+    try {
+      const job = await this.findJob(id, tenantId);
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, job);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async removeForDocument(documentId: string) {
+    await this.databaseService.query(
+      'DELETE FROM ingestion_jobs WHERE document_id = $1',
+      [documentId],
+    );
+  }
+
+  // Updates a job only while it still runs the attempt the worker started
+  private updateRunning = async (
+    queryable: pg.Pool | pg.PoolClient,
+    job: IngestionJob,
+    assignments: string,
+    params: unknown[],
+  ) => {
+    const { rowCount } = await queryable.query(
+      `UPDATE ingestion_jobs SET ${assignments}
+       WHERE id = $1 AND attempts = $2 AND status = '${INGESTION_JOB_STATUS.RUNNING}'`,
+      [job.id, job.attempts, ...params],
+    );
+    if (!rowCount) throw new IngestionInterruptedError(job.id);
+  };
+
+  private findJob = async (id: string, tenantId: string) => {
+    const [job] = await this.databaseService.query<IngestionJob>(
+      'SELECT * FROM ingestion_jobs WHERE id = $1 AND tenant_id = $2',
+      [id, tenantId],
+    );
+    if (!job) {
+      throw new NotFoundException(
+        customMessage(HttpStatus.NOT_FOUND, MESSAGES.INGESTION_JOB_NOT_FOUND),
+      );
+    }
+    return job;
+  };
+
+  private exceptionHandling = (e: unknown) => {
+    if (e instanceof HttpException) throw e;
+    Logger.error(e);
+    throw new HttpException(
+      customMessage(
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        MESSAGES.EXTERNAL_SERVER_ERROR,
+      ),
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  };
+}
@@ -0,0 +1,115 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { IngestionWorker } from './ingestion.worker';
+import { DocumentsService } from './documents.service';
+import {
+  IngestionInterruptedError,
+  IngestionJobsService,
+} from './ingestion-jobs.service';
+import { UsageService } from 'src/usage/usage.service';
+import { ObservabilityService } from 'src/observability/observability.service';
+import { ingestionConfig } from 'src/config/ingestion.config';
+import { IngestionJob } from './interfaces/ingestion-job.interface';
+
+describe('IngestionWorker', () => {
+  let worker: IngestionWorker;
+  let ingest: jest.Mock;
+  let failIngestion: jest.Mock;
+  let claim: jest.Mock;
+  let retry: jest.Mock;
+  let settings: { concurrency: number; pollIntervalMs: number };
+
+  // Runs one poll of the queue and waits for the jobs it claimed
+  const poll = async (...jobs: IngestionJob[]) => {
+    jobs.forEach((job) => claim.mockResolvedValueOnce(job));
+    jest.useFakeTimers();
+    worker.onApplicationBootstrap();
+    await jest.advanceTimersByTimeAsync(1000);
+    worker.onModuleDestroy();
+    jest.useRealTimers();
+    await new Promise(setImmediate);
+  };
+
+  const job = (attempts: number) =>
+    ({ id: 'job-1', attempts, max_attempts: 3 }) as IngestionJob;
+
+  beforeEach(async () => {
+    ingest = jest.fn().mockResolvedValue(undefined);
+    failIngestion = jest.fn().mockResolvedValue(undefined);
+    claim = jest.fn().mockResolvedValue(undefined);
+    retry = jest.fn().mockResolvedValue(undefined);
+    settings = { concurrency: 2, pollIntervalMs: 1000 };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        IngestionWorker,
+        { provide: DocumentsService, useValue: { ingest, failIngestion } },
+        { provide: IngestionJobsService, useValue: { claim, retry } },
+        {
+          provide: UsageService,
+          useValue: { runInContext: (_context, run) => run() },
+        },
+        {
+          provide: ObservabilityService,
+          useValue: { runInRequest: (_requestId, run) => run() },
+        },
+        { provide: ingestionConfig.KEY, useValue: settings },
+      ],
+    }).compile();
+
+    worker = moduleRef.get(IngestionWorker);
+  });
+
+  it('claims due jobs up to its concurrency', async () => {
+    await poll(job(1), job(1), job(1));
+
+    expect(claim).toHaveBeenCalledTimes(2);
+    expect(ingest).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not poll the queue with a concurrency of 0', async () => {
+    settings.concurrency = 0;
+
+    await poll(job(1));
+
+    expect(claim).not.toHaveBeenCalled();
+  });
+
+  it('retries a failed attempt while the job has attempts left', async () => {
+    ingest.mockRejectedValueOnce(new Error('Embeddings timed out'));
+
+    await poll(job(2));
+
+    expect(retry).toHaveBeenCalledWith(job(2), 'Embeddings timed out');
+    expect(failIngestion).not.toHaveBeenCalled();
+  });
+
+  it('fails the job once its last attempt failed', async () => {
+    ingest.mockRejectedValueOnce(new Error('Embeddings timed out'));
+
+    await poll(job(3));
+
+    expect(retry).not.toHaveBeenCalled();
+    expect(failIngestion).toHaveBeenCalledWith(job(3), 'Embeddings timed out');
+  });
+
+  it('fails the job at once on a client error', async () => {
+    ingest.mockRejectedValueOnce(
+      new BadRequestException({ message: 'File not found' }),
+    );
+
+    await poll(job(1));
+
+    expect(retry).not.toHaveBeenCalled();
+    expect(failIngestion).toHaveBeenCalledWith(job(1), 'File not found');
+  });
+
+  it('stops without failing a job that was cancelled or taken over', async () => {
+    ingest.mockRejectedValueOnce(new IngestionInterruptedError('job-1'));
+
+    await poll(job(1));
+
+    expect(retry).not.toHaveBeenCalled();
+    expect(failIngestion).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { UsageService } from 'src/usage/usage.service';
+import { ObservabilityService } from 'src/observability/observability.service';
+import { IngestionConfig, ingestionConfig } from 'src/config/ingestion.config';
+import { DocumentsService } from './documents.service';
+import {
+  IngestionInterruptedError,
+  IngestionJobsService,
+} from './ingestion-jobs.service';
+import { IngestionJob } from './interfaces/ingestion-job.interface';
+
+/**
+ * Background worker running the queued ingestion jobs.
+ *
+ * Every `pollIntervalMs`, it claims due jobs until `concurrency` of them run in this instance, and
+ * ingests their document through DocumentsService, within the usage context and the correlation ID
+ * of the request that queued them. A failed attempt is retried with exponential backoff until the job runs out of
+ * attempts, at which point the job and its document are marked failed. Client errors, such as a
+ * missing file or an unsupported format, fail the job at once, since retrying cannot fix them.
+ * With a `concurrency` of 0, the worker does not poll, leaving the queue to other instances.
+ */
+@Injectable()
+export class IngestionWorker {
+  private readonly logger = new Logger(IngestionWorker.name);
+  private timer: NodeJS.Timeout;
+  private polling = false;
+  private running = 0;
+
+  constructor(
+    private documentsService: DocumentsService,
+    private ingestionJobsService: IngestionJobsService,
+    private usageService: UsageService,
+    private observabilityService: ObservabilityService,
+    @Inject(ingestionConfig.KEY) private ingestionSettings: IngestionConfig,
+  ) {}
+
+  onApplicationBootstrap() {
+    if (!this.ingestionSettings.concurrency) return;
+    this.timer = setInterval(this.poll, this.ingestionSettings.pollIntervalMs);
+  }
+
+  onModuleDestroy() {
+    // Jobs still running are claimed again by a worker once their heartbeat goes stale
+    clearInterval(this.timer);
+  }
+
+  private poll = async () => {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      while (this.running < this.ingestionSettings.concurrency) {
+        const job = await this.ingestionJobsService.claim();
+        if (!job) break;
+        this.running++;
+        // Failures are logged within the context too, so that they carry the correlation ID
+        this.observabilityService
+          .runInRequest(job.request_id, () => this.run(job))
+          .finally(() => this.running--);
+      }
+    } catch (e: unknown) {
+      this.logger.error(e);
+    } finally {
+      this.polling = false;
+    }
+  };
+
+  private run = async (job: IngestionJob) => {
+    try {
+      await this.usageService.runInContext(
+        {
+          endpoint: job.endpoint,
+          conversationId: null,
+          tenantId: job.tenant_id,
+          caller: job.caller,
+        },
+        () =>
+          this.documentsService.ingest(job, {
+            progress: (progress) =>
+              this.ingestionJobsService.progress(job, progress),
+            complete: (client) =>
+              this.ingestionJobsService.complete(client, job),
+          }),
+      );
+    } catch (e: unknown) {
+      if (e instanceof IngestionInterruptedError) return;
+      await this.handleFailure(job, e).catch((failure: unknown) => {
+        if (!(failure instanceof IngestionInterruptedError)) {
+          this.logger.error(failure);
+        }
+      });
+    }
+  };
+
+  private handleFailure = async (job: IngestionJob, e: unknown) => {
+    const error = this.errorMessage(e);
+    const retriable = !(
+      e instanceof HttpException &&
+      e.getStatus() < HttpStatus.INTERNAL_SERVER_ERROR
+    );
+    if (retriable && job.attempts < job.max_attempts) {
+      this.logger.warn(
+        `Ingestion job ${job.id} failed (attempt ${job.attempts} of ${job.max_attempts}), retrying: ${error}`,
+      );
+      await this.ingestionJobsService.retry(job, error);
+      return;
+    }
+    this.logger.error(`Ingestion job ${job.id} failed: ${error}`);
+    await this.documentsService.failIngestion(job, error);
+  };
+
+  // HTTP exceptions carry the customMessage envelope, whose message is more telling than theirs
+  private errorMessage = (e: unknown) => {
+    if (e instanceof HttpException) {
+      const response = e.getResponse();
+      if (typeof response === 'object' && 'message' in response) {
+        return [response.message].flat().join(', ');
+      }
+    }
+    return e instanceof Error ? e.message : String(e);
+  };
+}
@@ -0,0 +1,56 @@
+import { DOCUMENT_STATUS } from 'src/utils/constants/documents.constants';
+import {
+  CHUNKING_STRATEGIES,
+  TokenEncoding,
+} from 'src/utils/constants/chunking.constants';
+
+/**
+ * Settings a document was split with, stored alongside it so that it can be re-ingested, see
+ * IngestionSettingsDto. Documents ingested before chunking strategies were introduced only record
+ * a chunk size and overlap, and were split with the character strategy.
+ */
+export interface IngestionSettings {
+  chunking_strategy: CHUNKING_STRATEGIES;
+  chunk_size: number;
+  chunk_overlap: number;
+  encoding_name: TokenEncoding;
+  sentence_overlap: number;
+  breakpoint_percentile: number;
+  buffer_size: number;
+}
+
+/**
+ * A document registered in the documents library.
+ *
+ * @interface DocumentRecord
+ *
+ * @property id - Identifier of the document, stored as `documentId` in the metadata of its chunks.
+ * @property original_name - The filename the document was uploaded with.
+ * @property stored_path - Where the uploaded file is stored on disk.
+ * @property mime_type - The MIME type reported for the upload.
+ * @property size_bytes - Size of the uploaded file.
+ * @property uploaded_at - When the document was uploaded.
+ * @property chunk_count - Number of chunks stored in the vector store.
+ * @property status - Ingestion status of the document.
+ * @property error - Reason of the last ingestion failure, if any.
+ * @property ingestion_settings - Settings the document was last split with.
+ * @property tenant_id - The tenant that uploaded the document.
+ * @property content_hash - SHA-256 of the uploaded file, null for documents uploaded before files were hashed.
+ * @property ingested_at - When the current chunks of the document were stored; null when it has none, or was
+ *                         ingested before this was recorded.
+ */
+export interface DocumentRecord {
+  id: string;
+  original_name: string;
+  stored_path: string;
+  mime_type: string;
+  size_bytes: number;
+  uploaded_at: Date;
+  chunk_count: number;
+  status: DOCUMENT_STATUS;
+  error: string | null;
+  ingestion_settings: IngestionSettings;
+  tenant_id: string;
+  content_hash: string | null;
+  ingested_at: Date | null;
+}
@@ -0,0 +1,33 @@
+import {
+  SUMMARY_STRATEGIES,
+  SUMMARY_STYLES,
+} from 'src/utils/constants/summaries.constants';
+
+/**
+ * A cached summary of a document.
+ *
+ * @interface DocumentSummary
+ *
+ * @property id - Identifier of the summary.
+ * @property document_id - The summarized document.
+ * @property tenant_id - The tenant owning the document.
+ * @property style - Style of the summary.
+ * @property strategy - Strategy the summary was written with.
+ * @property model - The chat model that wrote the summary, as `<provider>/<model>`.
+ * @property summary - The text of the summary.
+ * @property chunk_count - Number of chunks summarized.
+ * @property ingested_at - When the summarized chunks were stored; the summary is stale once the document is re-ingested.
+ * @property created_at - When the summary was written.
+ */
+export interface DocumentSummary {
+  id: string;
+  document_id: string;
+  tenant_id: string;
+  style: SUMMARY_STYLES;
+  strategy: SUMMARY_STRATEGIES;
+  model: string;
+  summary: string;
+  chunk_count: number;
+  ingested_at: Date | null;
+  created_at: Date;
+}
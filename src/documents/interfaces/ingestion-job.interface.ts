@@ -0,0 +1,63 @@
+import * as pg from 'pg';
+import { INGESTION_JOB_STATUS } from 'src/utils/constants/ingestion-jobs.constants';
+
+/**
+ * Progress of an ingestion job; pages are the documents returned by the loader, such as the pages
+ * of a PDF or the sections of a Markdown file. Chunks whose vectors are reused from identical chunks
+ * already in the store count as embedded.
+ */
+export interface IngestionProgress {
+  pages_parsed: number;
+  chunks_total: number | null;
+  chunks_embedded: number;
+  chunks_reused: number;
+}
+
+/**
+ * A queued, running or finished ingestion of a document.
+ *
+ * @interface IngestionJob
+ *
+ * @property id - Identifier of the job.
+ * @property document_id - The document being ingested.
+ * @property tenant_id - The tenant owning the document.
+ * @property status - Status of the job.
+ * @property attempts - Attempts started so far, including the running one.
+ * @property max_attempts - Attempts allowed before the job fails.
+ * @property run_after - When the job may next be picked up by a worker.
+ * @property error - Reason of the last failed attempt, if any.
+ * @property endpoint, caller - The route and the API key that queued the job, to which the usage of its
+ *                              embeddings calls is attributed.
+ * @property request_id - Correlation ID of the request that queued the job, carried by the logs of its runs.
+ * @property created_at, started_at, finished_at, heartbeat_at - When the job was queued, first started,
+ *                                                               finished and last reported progress.
+ */
+export interface IngestionJob extends IngestionProgress {
+  id: string;
+  document_id: string;
+  tenant_id: string;
+  status: INGESTION_JOB_STATUS;
+  attempts: number;
+  max_attempts: number;
+  run_after: Date;
+  error: string | null;
+  endpoint: string | null;
+  caller: string | null;
+  request_id: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  finished_at: Date | null;
+  heartbeat_at: Date | null;
+}
+
+/**
+ * Hooks through which a running ingestion reports to its job. Both throw an
+ * IngestionInterruptedError once the job has been cancelled or taken over by another worker.
+ *
+ * @method progress - Records the progress made so far.
+ * @method complete - Marks the job succeeded, inside the transaction storing the chunks.
+ */
+export interface IngestionTracker {
+  progress(progress: Partial<IngestionProgress>): Promise<void>;
+  complete(client: pg.PoolClient): Promise<void>;
+}
@@ -0,0 +1,20 @@
+import { Document } from '@langchain/core/documents';
+import { CSVLoader } from 'langchain/document_loaders/fs/csv';
+import { DocumentLoaderDefinition } from './document-loader.interface';
+
+/**
+ * Loads CSV files one document per row, written as `column: value` lines. The `row`
+ * metadata is the 1-based index of the row, not counting the header.
+ */
+export const csvLoader: DocumentLoaderDefinition = {
+  name: 'csv',
+  mimeTypes: ['text/csv', 'application/csv'],
+  extensions: ['.csv'],
+  load: async (filePath) => {
+    const rows = await new CSVLoader(filePath).load();
+    return rows.map(
+      ({ pageContent, metadata }) =>
+        new Document({ pageContent, metadata: { row: metadata.line } }),
+    );
+  },
+};
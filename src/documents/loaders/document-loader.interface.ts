@@ -0,0 +1,21 @@
+import { Document } from '@langchain/core/documents';
+
+/**
+ * A parser for one file format, registered in the DocumentLoaderRegistry.
+ *
+ * @interface DocumentLoaderDefinition
+ *
+ * @property name - Name of the format, e.g., 'pdf', 'markdown'.
+ * @property mimeTypes - MIME types the loader is picked for.
+ * @property extensions - File extensions, including the leading dot, the loader is picked for
+ *                        when the MIME type of an upload is not recognised.
+ * @property load - Parses the file into documents. The metadata of each document holds the
+ *                  format-specific location of its text, e.g., `pageNumber` for PDF,
+ *                  `headingPath` for Markdown, HTML and DOCX, `row` for CSV and `jsonPath` for JSON.
+ */
+export interface DocumentLoaderDefinition {
+  name: string;
+  mimeTypes: string[];
+  extensions: string[];
+  load: (filePath: string) => Promise<Document[]>;
+}
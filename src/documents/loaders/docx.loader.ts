@@ -0,0 +1,20 @@
+import { convertToHtml } from 'mammoth';
+import { DocumentLoaderDefinition } from './document-loader.interface';
+import { sectionsFromBlocks } from './heading-sections';
+import { htmlToBlocks } from './html.loader';
+
+/**
+ * Loads Word documents by converting them to HTML first, so that their heading styles
+ * produce the same `headingPath` metadata as HTML files.
+ */
+export const docxLoader: DocumentLoaderDefinition = {
+  name: 'docx',
+  mimeTypes: [
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ],
+  extensions: ['.docx'],
+  load: async (filePath) => {
+    const { value: html } = await convertToHtml({ path: filePath });
+    return sectionsFromBlocks(htmlToBlocks(html));
+  },
+};
@@ -0,0 +1,59 @@
+import { Document } from '@langchain/core/documents';
+
+/**
+ * A block of text extracted from a structured file. Headings carry their level (1 to 6).
+ */
+export interface TextBlock {
+  text: string;
+  headingLevel?: number;
+}
+
+/**
+ * Groups text blocks into one document per heading section.
+ *
+ * Each document holds the heading of its section followed by the text below it, and records
+ * the titles of the enclosing headings in its `headingPath` metadata, e.g., 'Setup > Linux'.
+ * Text before the first heading forms a section with an empty heading path.
+ *
+ * @param blocks - The text blocks of the file, in document order.
+ * @returns The sections that contain any text.
+ */
+export const sectionsFromBlocks = (blocks: TextBlock[]): Document[] => {
+  const sections: Document[] = [];
+  const headings: { level: number; title: string }[] = [];
+  let lines: string[] = [];
+
+  const flush = () => {
+    const pageContent = lines.join('\n').trim();
+    if (pageContent) {
+      sections.push(
+        new Document({
+          pageContent,
+          metadata: {
+            headingPath: headings.map(({ title }) => title).join(' > '),
+          },
+        }),
+      );
+    }
+    lines = [];
+  };
+
+  for (const block of blocks) {
+    if (!block.headingLevel) {
+      lines.push(block.text);
+      continue;
+    }
+    flush();
+    while (
+      headings.length &&
+      headings[headings.length - 1].level >= block.headingLevel
+    ) {
+      headings.pop();
+    }
+    headings.push({ level: block.headingLevel, title: block.text });
+    lines.push(block.text);
+  }
+  flush();
+
+  return sections;
+};
@@ -0,0 +1,42 @@
+import { load as loadHtml } from 'cheerio';
+import { readFile } from 'fs/promises';
+import { DocumentLoaderDefinition } from './document-loader.interface';
+import { TextBlock, sectionsFromBlocks } from './heading-sections';
+
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, pre, blockquote, td, th';
+const CONTAINER_SELECTOR = 'p, li, pre, blockquote, td, th';
+
+/**
+ * Extracts the headings and text blocks of an HTML string in document order.
+ *
+ * Blocks nested in another text block, e.g., a paragraph inside a list item, are skipped
+ * because their text is already part of the enclosing block.
+ */
+export const htmlToBlocks = (html: string): TextBlock[] => {
+  const $ = loadHtml(html);
+  $('script, style, noscript').remove();
+
+  return $(BLOCK_SELECTOR)
+    .toArray()
+    .filter((element) => !$(element).parents(CONTAINER_SELECTOR).length)
+    .map((element) => {
+      const heading = /^h([1-6])$/.exec(element.tagName);
+      const text =
+        element.tagName === 'pre'
+          ? $(element).text()
+          : $(element).text().replace(/\s+/g, ' ');
+      return {
+        text: text.trim(),
+        headingLevel: heading ? Number(heading[1]) : undefined,
+      };
+    })
+    .filter(({ text }) => text);
+};
+
+export const htmlLoader: DocumentLoaderDefinition = {
+  name: 'html',
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  extensions: ['.html', '.htm', '.xhtml'],
+  load: async (filePath) =>
+    sectionsFromBlocks(htmlToBlocks(await readFile(filePath, 'utf8'))),
+};
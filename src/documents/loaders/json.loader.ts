@@ -0,0 +1,44 @@
+import { Document } from '@langchain/core/documents';
+import { readFile } from 'fs/promises';
+import { DocumentLoaderDefinition } from './document-loader.interface';
+
+/**
+ * Flattens a JSON value into `path: value` lines, one per leaf value.
+ */
+const flatten = (value: unknown, path: string): string[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => flatten(item, `${path}[${index}]`));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) =>
+      flatten(item, `${path}.${key}`),
+    );
+  }
+  return [`${path}: ${value}`];
+};
+
+/**
+ * Loads JSON files one document per element of a top-level array, or per property of a
+ * top-level object. The `jsonPath` metadata locates the element, e.g., `$[3]` or `$.faq`.
+ */
+export const jsonLoader: DocumentLoaderDefinition = {
+  name: 'json',
+  mimeTypes: ['application/json'],
+  extensions: ['.json'],
+  load: async (filePath) => {
+    const json = JSON.parse(await readFile(filePath, 'utf8'));
+    const entries: [string, unknown][] = Array.isArray(json)
+      ? json.map((item, index) => [`$[${index}]`, item])
+      : json !== null && typeof json === 'object'
+        ? Object.entries(json).map(([key, item]) => [`$.${key}`, item])
+        : [['$', json]];
+
+    return entries.map(
+      ([jsonPath, item]) =>
+        new Document({
+          pageContent: flatten(item, jsonPath).join('\n'),
+          metadata: { jsonPath },
+        }),
+    );
+  },
+};
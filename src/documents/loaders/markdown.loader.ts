@@ -0,0 +1,27 @@
+import { readFile } from 'fs/promises';
+import { DocumentLoaderDefinition } from './document-loader.interface';
+import { TextBlock, sectionsFromBlocks } from './heading-sections';
+
+/**
+ * Extracts the ATX headings (`# Title`) and text lines of a Markdown string. Lines inside
+ * fenced code blocks are never treated as headings.
+ */
+export const markdownToBlocks = (markdown: string): TextBlock[] => {
+  let inFence = false;
+
+  return markdown.split(/\r?\n/).map((line) => {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = inFence ? null : /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    return heading
+      ? { text: heading[2], headingLevel: heading[1].length }
+      : { text: line };
+  });
+};
+
+export const markdownLoader: DocumentLoaderDefinition = {
+  name: 'markdown',
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+  extensions: ['.md', '.markdown'],
+  load: async (filePath) =>
+    sectionsFromBlocks(markdownToBlocks(await readFile(filePath, 'utf8'))),
+};
@@ -0,0 +1,22 @@
+import { Document } from '@langchain/core/documents';
+import { PDFLoader } from 'langchain/document_loaders/fs/pdf';
+import { DocumentLoaderDefinition } from './document-loader.interface';
+
+/**
+ * Loads PDF files one document per page, keeping the 1-based page number of the PDF.
+ */
+export const pdfLoader: DocumentLoaderDefinition = {
+  name: 'pdf',
+  mimeTypes: ['application/pdf'],
+  extensions: ['.pdf'],
+  load: async (filePath) => {
+    const pages = await new PDFLoader(filePath).load();
+    return pages.map(
+      ({ pageContent, metadata }) =>
+        new Document({
+          pageContent,
+          metadata: { pageNumber: metadata.loc.pageNumber },
+        }),
+    );
+  },
+};
@@ -0,0 +1,12 @@
+import { Document } from '@langchain/core/documents';
+import { readFile } from 'fs/promises';
+import { DocumentLoaderDefinition } from './document-loader.interface';
+
+export const textLoader: DocumentLoaderDefinition = {
+  name: 'text',
+  mimeTypes: ['text/plain'],
+  extensions: ['.txt', '.text', '.log'],
+  load: async (filePath) => [
+    new Document({ pageContent: await readFile(filePath, 'utf8') }),
+  ],
+};
@@ -0,0 +1,27 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+
+/**
+ * Base class of the errors raised by the application for a known failure, carrying the status and
+ * message of its response.
+ *
+ * Domain errors are HttpExceptions whose response is the `customMessage` envelope, with the key of
+ * the message as `error_code`, so that the services and the global ErrorResponseFilter pass them
+ * through as they are.
+ *
+ * @param {HttpStatus} status - The status of the response.
+ * @param {MESSAGES} message - The message of the response, whose key is the error code.
+ * @param {object} data - Details of the failure, sent as the `data` of the response.
+ * @param {unknown} cause - The error that caused this one, kept for the logs.
+ */
+export class DomainError extends HttpException {
+  constructor(
+    status: HttpStatus,
+    message: MESSAGES,
+    data: object = {},
+    cause?: unknown,
+  ) {
+    super(customMessage(status, message, data), status, { cause });
+  }
+}
@@ -0,0 +1,84 @@
+import { Logger, NotFoundException } from '@nestjs/common';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { Response } from 'express';
+import { ErrorResponseFilter } from './error-response.filter';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+
+describe('ErrorResponseFilter', () => {
+  const filter = new ErrorResponseFilter();
+  let response: {
+    headersSent: boolean;
+    writableEnded: boolean;
+    status: jest.Mock;
+    json: jest.Mock;
+    end: jest.Mock;
+  };
+
+  const sent = (exception: unknown) => {
+    filter.catch(
+      exception,
+      new ExecutionContextHost([{}, response as Partial<Response>]),
+    );
+    return {
+      status: response.status.mock.calls[0]?.[0],
+      body: response.json.mock.calls[0]?.[0],
+    };
+  };
+
+  beforeEach(() => {
+    jest.spyOn(Logger, 'error').mockImplementation();
+    response = {
+      headersSent: false,
+      writableEnded: false,
+      status: jest.fn(() => response),
+      json: jest.fn(),
+      end: jest.fn(),
+    };
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('sends the error of a model provider with its error code', () => {
+    const error = Object.assign(new Error('Rate limit reached'), {
+      status: 429,
+    });
+
+    expect(sent(error)).toEqual({
+      status: 429,
+      body: expect.objectContaining({
+        statusCode: 429,
+        message: [MESSAGES.MODEL_RATE_LIMITED],
+        error_code: 'MODEL_RATE_LIMITED',
+      }),
+    });
+  });
+
+  it('names the status as the error code of a plain HttpException', () => {
+    expect(sent(new NotFoundException('Cannot GET /nowhere'))).toEqual({
+      status: 404,
+      body: expect.objectContaining({
+        message: ['Cannot GET /nowhere'],
+        error_code: 'NOT_FOUND',
+      }),
+    });
+  });
+
+  it('sends any other error as a 500 response', () => {
+    expect(sent(new Error('Connection terminated'))).toEqual({
+      status: 500,
+      body: expect.objectContaining({
+        message: [MESSAGES.EXTERNAL_SERVER_ERROR],
+        error_code: 'EXTERNAL_SERVER_ERROR',
+      }),
+    });
+  });
+
+  it('only ends a response whose stream has started', () => {
+    response.headersSent = true;
+
+    sent(Object.assign(new Error('Overloaded'), { status: 529 }));
+
+    expect(response.end).toHaveBeenCalled();
+    expect(response.status).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { Response } from 'express';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import { DomainError } from './domain.errors';
+import { toModelProviderError } from './model-provider.errors';
+
+/**
+ * Exception filter sending every error of the application as the `customMessage` envelope, with a
+ * machine-readable `error_code`.
+ *
+ * HttpExceptions built with `customMessage`, domain errors included, are sent as they are. Those
+ * raised by Nest and Express with a plain message, such as an unknown route or a malformed JSON
+ * body, are wrapped in the envelope, the name of their status being their error code. Any other
+ * error is logged, then sent as the matching model provider error, or as a 500 response when it
+ * does not come from a model provider. Streamed responses have already sent their status and
+ * report errors in the stream; they are only ended.
+ */
+@Catch()
+export class ErrorResponseFilter implements ExceptionFilter {
+  catch(exception: unknown, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse<Response>();
+    if (response.headersSent) {
+      if (!response.writableEnded) response.end();
+      return;
+    }
+
+    const error = this.toHttpException(exception);
+    response.status(error.getStatus()).json(this.envelope(error));
+  }
+
+  private toHttpException = (exception: unknown) => {
+    if (exception instanceof HttpException) return exception;
+    Logger.error(exception);
+    return (
+      toModelProviderError(exception) ??
+      new DomainError(
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        MESSAGES.EXTERNAL_SERVER_ERROR,
+      )
+    );
+  };
+
+  private envelope = (error: HttpException) => {
+    const response = error.getResponse();
+    if (typeof response === 'object' && 'error_code' in response) {
+      return response;
+    }
+    const message =
+      typeof response === 'string'
+        ? response
+        : (response as { message?: string | string[] }).message ??
+          error.message;
+    return customMessage(error.getStatus(), [message].flat().join(', '));
+  };
+}
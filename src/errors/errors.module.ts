@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { APP_FILTER, APP_PIPE } from '@nestjs/core';
+import { ErrorResponseFilter } from './error-response.filter';
+import { RequestValidationPipe } from './request-validation.pipe';
+
+/**
+ * Module registering, application-wide, the validation of the request DTOs and the filter sending
+ * every error in the `customMessage` envelope with its error code.
+ */
+@Module({
+  providers: [
+    { provide: APP_PIPE, useClass: RequestValidationPipe },
+    { provide: APP_FILTER, useClass: ErrorResponseFilter },
+  ],
+})
+export class ErrorsModule {}
@@ -0,0 +1,11 @@
+import { HttpStatus } from '@nestjs/common';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import { MODERATION_RULES } from 'src/utils/constants/guardrails.constants';
+import { DomainError } from './domain.errors';
+
+// The chat model output broke an output moderation rule while GUARDRAILS_MODERATION_ACTION is `block`
+export class OutputBlockedError extends DomainError {
+  constructor(rules: MODERATION_RULES[]) {
+    super(HttpStatus.UNPROCESSABLE_ENTITY, MESSAGES.OUTPUT_BLOCKED, { rules });
+  }
+}
@@ -0,0 +1,123 @@
+import { HttpStatus, NotFoundException } from '@nestjs/common';
+import {
+  ModelContextLengthExceededError,
+  ModelRateLimitedError,
+  ModelRequestRejectedError,
+  ModelUnavailableError,
+  toModelProviderError,
+} from './model-provider.errors';
+
+// An error of the OpenAI or Anthropic SDK, carrying the HTTP status of the provider's response
+const providerError = (
+  status: number,
+  message = 'Request failed',
+  fields: object = {},
+) => Object.assign(new Error(message), { status, ...fields });
+
+class APIConnectionTimeoutError extends Error {}
+
+describe('toModelProviderError', () => {
+  it.each([
+    [
+      'a rate limit',
+      providerError(429),
+      ModelRateLimitedError,
+      'MODEL_RATE_LIMITED',
+    ],
+    [
+      'an exhausted quota',
+      providerError(429, 'You exceeded your current quota', {
+        code: 'insufficient_quota',
+      }),
+      ModelRequestRejectedError,
+      'MODEL_REQUEST_REJECTED',
+    ],
+    [
+      'an OpenAI context length error',
+      providerError(400, "This model's maximum context length is 8192 tokens", {
+        code: 'context_length_exceeded',
+      }),
+      ModelContextLengthExceededError,
+      'MODEL_CONTEXT_LENGTH_EXCEEDED',
+    ],
+    [
+      'an Anthropic prompt too long error',
+      providerError(400, 'prompt is too long: 210000 tokens > 200000 maximum'),
+      ModelContextLengthExceededError,
+      'MODEL_CONTEXT_LENGTH_EXCEEDED',
+    ],
+    [
+      'an unavailable provider',
+      providerError(503),
+      ModelUnavailableError,
+      'MODEL_UNAVAILABLE',
+    ],
+    [
+      'a request timeout',
+      providerError(408),
+      ModelUnavailableError,
+      'MODEL_UNAVAILABLE',
+    ],
+    [
+      'an overloaded Anthropic API',
+      providerError(529, 'Overloaded', {
+        error: { type: 'error', error: { type: 'overloaded_error' } },
+      }),
+      ModelUnavailableError,
+      'MODEL_UNAVAILABLE',
+    ],
+    [
+      'a connection timeout',
+      new APIConnectionTimeoutError('Request timed out'),
+      ModelUnavailableError,
+      'MODEL_UNAVAILABLE',
+    ],
+    [
+      'an invalid API key',
+      providerError(401),
+      ModelRequestRejectedError,
+      'MODEL_REQUEST_REJECTED',
+    ],
+    [
+      'an unknown model',
+      providerError(404),
+      ModelRequestRejectedError,
+      'MODEL_REQUEST_REJECTED',
+    ],
+  ])('classifies %s', (_, error, errorClass, errorCode) => {
+    const modelProviderError = toModelProviderError(error);
+
+    expect(modelProviderError).toBeInstanceOf(errorClass);
+    expect(modelProviderError.getResponse()).toMatchObject({
+      error_code: errorCode,
+    });
+    expect(modelProviderError.cause).toBe(error);
+  });
+
+  it('only takes rate limits and unavailable providers for transient errors', () => {
+    expect(toModelProviderError(providerError(429)).transient).toBe(true);
+    expect(toModelProviderError(providerError(502)).transient).toBe(true);
+    expect(toModelProviderError(providerError(400)).transient).toBe(false);
+    expect(toModelProviderError(providerError(403)).transient).toBe(false);
+  });
+
+  it('leaves out the errors that do not come from a model provider', () => {
+    expect(toModelProviderError(new Error('Connection terminated'))).toBe(
+      undefined,
+    );
+    expect(
+      toModelProviderError(
+        Object.assign(new NotFoundException(), {
+          status: HttpStatus.NOT_FOUND,
+        }),
+      ),
+    ).toBeUndefined();
+    expect(toModelProviderError('Aborted')).toBeUndefined();
+  });
+
+  it('keeps a model provider error as it is', () => {
+    const error = new ModelRateLimitedError();
+
+    expect(toModelProviderError(error)).toBe(error);
+  });
+});
@@ -0,0 +1,126 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import {
+  CONTEXT_LENGTH_ERROR_PATTERN,
+  MODEL_CONNECTION_ERRORS,
+  MODEL_QUOTA_ERROR_CODES,
+} from 'src/utils/constants/model-providers.constants';
+import { DomainError } from './domain.errors';
+
+/**
+ * A call to a model provider that failed, see toModelProviderError.
+ *
+ * @property transient - Whether the call may succeed later or with another model, which is when
+ *                       FallbackChatModel switches to the fallback model.
+ */
+export abstract class ModelProviderError extends DomainError {
+  abstract readonly transient: boolean;
+}
+
+// The provider kept rate limiting the call after the last retry
+export class ModelRateLimitedError extends ModelProviderError {
+  readonly transient = true;
+
+  constructor(cause?: unknown) {
+    super(HttpStatus.TOO_MANY_REQUESTS, MESSAGES.MODEL_RATE_LIMITED, {}, cause);
+  }
+}
+
+// The prompt, chat history and retrieved context included, is longer than the context window
+export class ModelContextLengthExceededError extends ModelProviderError {
+  readonly transient = false;
+
+  constructor(cause?: unknown) {
+    super(
+      HttpStatus.BAD_REQUEST,
+      MESSAGES.MODEL_CONTEXT_LENGTH_EXCEEDED,
+      {},
+      cause,
+    );
+  }
+}
+
+// The provider could not be reached, timed out or kept failing after the last retry
+export class ModelUnavailableError extends ModelProviderError {
+  readonly transient = true;
+
+  constructor(cause?: unknown) {
+    super(
+      HttpStatus.SERVICE_UNAVAILABLE,
+      MESSAGES.MODEL_UNAVAILABLE,
+      {},
+      cause,
+    );
+  }
+}
+
+// The provider refused the call itself, e.g., for invalid credentials, an unknown model or no quota left
+export class ModelRequestRejectedError extends ModelProviderError {
+  readonly transient = false;
+
+  constructor(cause?: unknown) {
+    super(HttpStatus.BAD_GATEWAY, MESSAGES.MODEL_REQUEST_REJECTED, {}, cause);
+  }
+}
+
+type ProviderError = Error & {
+  status?: number;
+  code?: string;
+  error?: { type?: string; error?: { type?: string } };
+};
+
+/**
+ * Classifies an error thrown by a chat model or embeddings call, once LangChain has given up
+ * retrying it.
+ *
+ * The OpenAI and Anthropic SDKs, which the OpenAI-compatible provider uses too, raise errors
+ * carrying the HTTP status of the provider's response: 429 is a rate limit, unless the quota is
+ * exhausted; 400 is a context length error when the provider says so; 408 and 5xx, including the
+ * 529 of an overloaded Anthropic API, mean that the provider is unavailable, as do connection
+ * errors and timeouts; and any other 4xx is a rejected request. Errors that do not come from a
+ * provider, such as a cancelled call, a database error or an HttpException, are not model errors.
+ *
+ * @param {unknown} e - The error to classify.
+ * @returns The matching ModelProviderError, or undefined when the error does not come from a provider.
+ */
+export const toModelProviderError = (
+  e: unknown,
+): ModelProviderError | undefined => {
+  if (!(e instanceof Error)) return undefined;
+  if (e instanceof ModelProviderError) return e;
+  if (e instanceof HttpException) return undefined;
+
+  const { status, code, error } = e as ProviderError;
+  const type = error?.error?.type ?? error?.type;
+  if (
+    MODEL_CONNECTION_ERRORS.includes(e.constructor.name) ||
+    MODEL_CONNECTION_ERRORS.includes(e.name)
+  ) {
+    return new ModelUnavailableError(e);
+  }
+  if (typeof status !== 'number') return undefined;
+
+  if (status === HttpStatus.TOO_MANY_REQUESTS) {
+    return MODEL_QUOTA_ERROR_CODES.includes(code)
+      ? new ModelRequestRejectedError(e)
+      : new ModelRateLimitedError(e);
+  }
+  if (
+    code === 'context_length_exceeded' ||
+    (status === HttpStatus.BAD_REQUEST &&
+      CONTEXT_LENGTH_ERROR_PATTERN.test(e.message))
+  ) {
+    return new ModelContextLengthExceededError(e);
+  }
+  if (
+    status >= HttpStatus.INTERNAL_SERVER_ERROR ||
+    status === HttpStatus.REQUEST_TIMEOUT ||
+    type === 'overloaded_error'
+  ) {
+    return new ModelUnavailableError(e);
+  }
+  if (status >= HttpStatus.BAD_REQUEST) {
+    return new ModelRequestRejectedError(e);
+  }
+  return undefined;
+};
@@ -0,0 +1,30 @@
+import {
+  HttpStatus,
+  Injectable,
+  ValidationError,
+  ValidationPipe,
+} from '@nestjs/common';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import { DomainError } from './domain.errors';
+
+/**
+ * Validation pipe enforcing the class-validator decorators of the DTOs on every route.
+ *
+ * Bodies and queries are turned into instances of their DTO, so that `@Type()` converts nested
+ * objects and the numbers of multipart fields, and properties without decorators are stripped. A
+ * request that does not validate gets a 400 response with the VALIDATION_FAILED error code, listing
+ * every failed constraint by its property path, e.g., `messages.0.content should not be empty`.
+ */
+@Injectable()
+export class RequestValidationPipe extends ValidationPipe {
+  constructor() {
+    super({ transform: true, whitelist: true });
+  }
+
+  createExceptionFactory() {
+    return (validationErrors: ValidationError[] = []) =>
+      new DomainError(HttpStatus.BAD_REQUEST, MESSAGES.VALIDATION_FAILED, {
+        errors: this.flattenValidationErrors(validationErrors),
+      });
+  }
+}
@@ -0,0 +1,101 @@
+import { NestFactory } from '@nestjs/core';
+import { Logger } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { isUUID, validateSync } from 'class-validator';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { parseArgs } from 'util';
+import { UsageService } from './usage/usage.service';
+import { EvaluationsService } from './evaluations/evaluations.service';
+import { EvaluationDatasetDto } from './evaluations/dtos/evaluation-dataset.dto';
+import { EvaluationReport } from './evaluations/interfaces/evaluation-report.interface';
+import { markdownReport } from './evaluations/markdown-report';
+
+const USAGE =
+  'Usage: npm run evaluate -- --dataset <file> --tenant <tenant ID> [--baseline <report file>] [--output <directory>]';
+
+/**
+ * Runs an evaluation dataset from the command line, see USAGE.
+ *
+ * The dataset file holds an EvaluationDatasetDto as JSON and is evaluated on the documents of the
+ * tenant. The report is written to the output directory, `evaluation-reports` by default, as JSON
+ * and Markdown, and the Markdown report is printed. When a baseline is given, such as the JSON report
+ * of an earlier run, the report is compared with it and the process exits with code 1 if a metric
+ * regressed, so that the script can gate changes in CI. The ingestion worker does not run in the
+ * script.
+ */
+async function evaluate() {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: 'string' },
+      tenant: { type: 'string' },
+      baseline: { type: 'string' },
+      output: { type: 'string', default: 'evaluation-reports' },
+    },
+  });
+  if (!values.dataset || !values.tenant || !isUUID(values.tenant)) {
+    throw new Error(USAGE);
+  }
+
+  const dataset = plainToInstance(
+    EvaluationDatasetDto,
+    JSON.parse(await readFile(values.dataset, 'utf8')),
+  );
+  const errors = validateSync(dataset);
+  if (errors.length) {
+    throw new Error(`Invalid dataset:\n${errors.join('')}`);
+  }
+  const baseline: EvaluationReport | undefined = values.baseline
+    ? JSON.parse(await readFile(values.baseline, 'utf8'))
+    : undefined;
+
+  // The run must not claim the jobs of the shared ingestion queue, and abandon them on exit; the
+  // environment is validated when the application module is loaded, so it is loaded afterwards
+  process.env.INGESTION_CONCURRENCY = '0';
+  const { AppModule } = await import('./app.module');
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn'],
+  });
+  try {
+    const usageService = app.get(UsageService);
+    const evaluationsService = app.get(EvaluationsService);
+    // The model calls of the run are recorded for the tenant, like those of a request
+    const report = await usageService.runInContext(
+      {
+        endpoint: 'npm run evaluate',
+        conversationId: null,
+        tenantId: values.tenant,
+        caller: null,
+      },
+      () => evaluationsService.evaluate(dataset, values.tenant),
+    );
+    const comparison = baseline
+      ? evaluationsService.compare(report, baseline)
+      : undefined;
+
+    const name = `${report.dataset}-${report.started_at}`.replace(
+      /[^\w.-]+/g,
+      '-',
+    );
+    const markdown = markdownReport(report, comparison);
+    await mkdir(values.output, { recursive: true });
+    await writeFile(
+      join(values.output, `${name}.json`),
+      JSON.stringify({ ...report, comparison: comparison ?? null }, null, 2),
+    );
+    await writeFile(join(values.output, `${name}.md`), markdown);
+    console.log(markdown);
+
+    if (comparison?.regressions.length) {
+      Logger.error(`Regressed metrics: ${comparison.regressions.join(', ')}`);
+      process.exitCode = 1;
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+evaluate().catch((e: unknown) => {
+  Logger.error(e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,119 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { RetrievalSettingsDto } from 'src/langchain-chat/dtos/retrieval-settings.dto';
+import { ModelOptionsDto } from 'src/langchain-chat/dtos/model-options.dto';
+import { PromptTemplateSelectionDto } from 'src/prompt-templates/dtos/prompt-template-selection.dto';
+
+/**
+ * Data Transfer Object for a source the answer to an evaluation question is expected to come from.
+ *
+ * A retrieved chunk matches the source when it matches every property given.
+ *
+ * @class ExpectedSourceDto
+ *
+ * @property document_id - Identifier of the document. It must be a UUID.
+ * @property document_name - Original filename of the document, for datasets written before the documents were uploaded.
+ * @property page_number - Page of the document the chunk must come from.
+ */
+export class ExpectedSourceDto {
+  @IsOptional()
+  @IsUUID()
+  document_id?: string;
+
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  document_name?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  page_number?: number;
+}
+
+/**
+ * Data Transfer Object for a question of an evaluation dataset.
+ *
+ * @class EvaluationCaseDto
+ *
+ * @property id - Optional identifier of the case, to follow it across reports; its position otherwise.
+ * @property question - The question asked to the document chat.
+ * @property expected_answer - The reference answer the correctness of the answer is judged against.
+ * @property expected_sources - The sources the retrieval should find, scoring the hit rate and MRR.
+ */
+export class EvaluationCaseDto {
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  id?: string;
+
+  @IsNotEmpty()
+  @IsString()
+  question: string;
+
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  expected_answer?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ExpectedSourceDto)
+  expected_sources?: ExpectedSourceDto[];
+}
+
+/**
+ * Data Transfer Object for an evaluation dataset: questions with their expected answers and sources,
+ * and the settings of the document chat they are run through.
+ *
+ * @class EvaluationDatasetDto
+ *
+ * @property name - Name of the dataset; runs of the same dataset are compared with its baseline.
+ * @property cases - The questions of the dataset. It must not be empty.
+ * @property retrieval - Settings of the document retrieval, see RetrievalSettingsDto.
+ * @property model_options - Overrides of the chat model answering the questions, see ModelOptionsDto.
+ * @property prompt_template - The document chat prompt template to evaluate, the built-in one by default.
+ * @property judge_model_options - Overrides of the judge model, which defaults to the `evaluation` configuration.
+ */
+export class EvaluationDatasetDto {
+  @IsNotEmpty()
+  @IsString()
+  name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => EvaluationCaseDto)
+  cases: EvaluationCaseDto[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RetrievalSettingsDto)
+  retrieval?: RetrievalSettingsDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ModelOptionsDto)
+  model_options?: ModelOptionsDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PromptTemplateSelectionDto)
+  prompt_template?: PromptTemplateSelectionDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ModelOptionsDto)
+  judge_model_options?: ModelOptionsDto;
+}
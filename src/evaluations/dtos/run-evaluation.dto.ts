@@ -0,0 +1,26 @@
+/**
+ * Data Transfer Object for starting an evaluation run.
+ *
+ * @class RunEvaluationDto
+ *
+ * @property dataset - The dataset to evaluate, see EvaluationDatasetDto.
+ * @property baseline_run_id - A run to compare with instead of the baseline of the dataset. It must be a UUID.
+ * @property save_as_baseline - Whether the run becomes the baseline of its dataset.
+ */
+import { IsBoolean, IsOptional, IsUUID, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { EvaluationDatasetDto } from './evaluation-dataset.dto';
+
+export class RunEvaluationDto {
+  @ValidateNested()
+  @Type(() => EvaluationDatasetDto)
+  dataset: EvaluationDatasetDto;
+
+  @IsOptional()
+  @IsUUID()
+  baseline_run_id?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  save_as_baseline?: boolean;
+}
@@ -0,0 +1,69 @@
+/**
+ * Controller for the evaluation runs of the document chat.
+ *
+ * @class EvaluationsController
+ *
+ * @method run - Evaluates a dataset on the tenant's documents and stores the run. Accepts POST requests with a
+ *               RunEvaluationDto holding the dataset, optionally the run to compare with, and whether the run
+ *               becomes the baseline of its dataset. Responds with the report, its comparison with the baseline
+ *               and the report as Markdown.
+ * @method findAll - Lists the tenant's runs, most recent first, optionally filtered by `dataset`, without their report.
+ * @method findOne - Shows a run with its report, its comparison with the dataset's baseline and the report as Markdown.
+ * @method setBaseline - Makes a run the baseline that later runs of its dataset are compared with.
+ */
+
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { EvaluationsService } from './evaluations.service';
+import { RunEvaluationDto } from './dtos/run-evaluation.dto';
+import { EvaluationRunsQueryDto } from './dtos/evaluation-runs-query.dto';
+import { TenantId } from 'src/auth/decorators/tenant-id.decorator';
+
+@Controller('evaluations')
+export class EvaluationsController {
+  constructor(private readonly evaluationsService: EvaluationsService) {}
+
+  @Post('runs')
+  async run(
+    @Body() runEvaluationDto: RunEvaluationDto,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.evaluationsService.run(runEvaluationDto, tenantId);
+  }
+
+  @Get('runs')
+  async findAll(
+    @Query() evaluationRunsQueryDto: EvaluationRunsQueryDto,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.evaluationsService.findAll(
+      evaluationRunsQueryDto,
+      tenantId,
+    );
+  }
+
+  @Get('runs/:id')
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.evaluationsService.findOne(id, tenantId);
+  }
+
+  @Post('runs/:id/baseline')
+  @HttpCode(200)
+  async setBaseline(
+    @Param('id', ParseUUIDPipe) id: string,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.evaluationsService.setBaseline(id, tenantId);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { EvaluationsService } from './evaluations.service';
+import { EvaluationsController } from './evaluations.controller';
+import { LangchainChatModule } from 'src/langchain-chat/langchain-chat.module';
+import { PromptTemplatesModule } from 'src/prompt-templates/prompt-templates.module';
+
+@Module({
+  imports: [LangchainChatModule, PromptTemplatesModule],
+  controllers: [EvaluationsController],
+  providers: [EvaluationsService],
+  exports: [EvaluationsService],
+})
+export class EvaluationsModule {}
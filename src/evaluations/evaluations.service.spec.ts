@@ -0,0 +1,144 @@
+import { Test } from '@nestjs/testing';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { EvaluationsService } from './evaluations.service';
+import { DatabaseService } from 'src/services/database.service';
+import { ModelProviderService } from 'src/services/model-provider.service';
+import { LangchainChatService } from 'src/langchain-chat/langchain-chat.service';
+import { PromptTemplatesService } from 'src/prompt-templates/prompt-templates.service';
+import { UsageService } from 'src/usage/usage.service';
+import { ObservabilityService } from 'src/observability/observability.service';
+import { evaluationConfig } from 'src/config/evaluation.config';
+import { Citation } from 'src/langchain-chat/interfaces/citation.interface';
+import { EVALUATION_METRICS } from 'src/utils/constants/evaluation.constants';
+import { RETRIEVAL_MODES } from 'src/utils/constants/retrieval.constants';
+
+const citation = (marker: number, documentName: string): Citation => ({
+  marker,
+  document_id: `document-${documentName}`,
+  document_name: documentName,
+  snippet: documentName,
+  score: 1,
+});
+
+describe('EvaluationsService', () => {
+  let service: EvaluationsService;
+  let answerFromDocuments: jest.Mock;
+
+  beforeEach(async () => {
+    answerFromDocuments = jest.fn().mockResolvedValue({
+      answer: 'The refund window is 30 days.',
+      context: '[1] policy.pdf',
+      citations: [citation(1, 'faq.pdf'), citation(2, 'policy.pdf')],
+    });
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        EvaluationsService,
+        { provide: DatabaseService, useValue: {} },
+        { provide: LangchainChatService, useValue: { answerFromDocuments } },
+        {
+          provide: ModelProviderService,
+          useValue: {
+            getChatModel: () =>
+              new FakeListChatModel({
+                responses: ['{"score": 1, "reason": "Supported."}'],
+              }),
+            getChatModelName: () => 'fake:judge',
+          },
+        },
+        {
+          provide: PromptTemplatesService,
+          useValue: {
+            resolve: async () => ({ template: 'Grade: {answer}' }),
+            assertInputs: () => undefined,
+          },
+        },
+        { provide: UsageService, useValue: { currentUsage: () => ({}) } },
+        { provide: ObservabilityService, useValue: { runConfig: () => ({}) } },
+        {
+          provide: evaluationConfig.KEY,
+          useValue: { concurrency: 2, regressionTolerance: 0.05 },
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(EvaluationsService);
+  });
+
+  describe('evaluate', () => {
+    it('scores the rank of the first expected source among the retrieved chunks', async () => {
+      const report = await service.evaluate(
+        {
+          name: 'refunds',
+          cases: [
+            {
+              question: 'How long is the refund window?',
+              expected_sources: [{ document_name: 'policy.pdf' }],
+            },
+            {
+              question: 'Who pays for the return shipping?',
+              expected_sources: [{ document_name: 'shipping.pdf' }],
+            },
+            { question: 'Is there a restocking fee?' },
+          ],
+        },
+        'tenant-1',
+      );
+
+      expect(report.cases.map(({ rank, hit }) => [rank, hit])).toEqual([
+        [2, true],
+        [null, false],
+        [null, null],
+      ]);
+      expect(report.metrics[EVALUATION_METRICS.HIT_RATE]).toBe(0.5);
+      expect(report.metrics[EVALUATION_METRICS.MRR]).toBe(0.25);
+      expect(report.metrics[EVALUATION_METRICS.FAITHFULNESS]).toBe(1);
+      expect(report.metrics[EVALUATION_METRICS.CORRECTNESS]).toBeNull();
+    });
+
+    it('searches the documents with the retrieval settings of the dataset', async () => {
+      const report = await service.evaluate(
+        {
+          name: 'refunds',
+          cases: [{ question: 'Is there a fee?' }],
+          retrieval: { k: 5, retrieval_mode: RETRIEVAL_MODES.HYBRID },
+        },
+        'tenant-1',
+      );
+
+      expect(answerFromDocuments).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_query: 'Is there a fee?',
+          k: 5,
+          retrieval_mode: RETRIEVAL_MODES.HYBRID,
+        }),
+        'tenant-1',
+      );
+      expect(report.settings.retrieval).toEqual({
+        k: 5,
+        retrieval_mode: RETRIEVAL_MODES.HYBRID,
+      });
+    });
+
+    it('reports a failed case with its error and leaves it out of the metrics', async () => {
+      answerFromDocuments.mockRejectedValueOnce(new Error('Model unavailable'));
+
+      const report = await service.evaluate(
+        {
+          name: 'refunds',
+          cases: [
+            {
+              question: 'How long is the refund window?',
+              expected_sources: [{ document_name: 'faq.pdf' }],
+            },
+          ],
+        },
+        'tenant-1',
+      );
+
+      expect(report.failed_case_count).toBe(1);
+      expect(report.cases[0].error).toBe('Model unavailable');
+      expect(report.metrics[EVALUATION_METRICS.HIT_RATE]).toBeNull();
+    });
+  });
+});
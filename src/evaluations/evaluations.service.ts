@@ -0,0 +1,533 @@
+/**
+ * Service evaluating the retrieval and answers of the document chat against datasets of questions.
+ *
+ * Each case of a dataset is asked to the document chat pipeline of LangchainChatService with the
+ * dataset's retrieval, chat model and prompt template settings, on the documents of a tenant. The
+ * retrieved chunks are scored against the expected sources of the case (hit rate and mean
+ * reciprocal rank), and a judge model scores the answer for faithfulness to the retrieved context
+ * and, when the case has an expected answer, for correctness. Cases are evaluated `concurrency` at
+ * a time; a case that fails is reported with its error and left out of the metrics.
+ *
+ * Runs started through the `evaluations` routes are stored with their report in the
+ * `evaluation_runs` table. One run per dataset and tenant can be marked as the baseline, which
+ * later runs of the dataset are compared with; a metric dropping by more than
+ * `regressionTolerance` is reported as a regression. The `evaluate` npm script runs a dataset
+ * file through `evaluate` and `compare` without storing it, see src/evaluate.ts.
+ *
+ * Configuration (the `evaluation` namespace, see src/config/evaluation.config.ts):
+ * - judgeProvider, judgeModel - The judge model, the configured chat model when unset.
+ * - concurrency - Cases evaluated at once (EVALUATION_CONCURRENCY).
+ * - regressionTolerance - Drop of a metric tolerated before it is a regression (EVALUATION_REGRESSION_TOLERANCE).
+ *
+ * @class EvaluationsService
+ *
+ * @method run - Evaluates a dataset, stores the run, and compares it with the dataset's baseline or a given run.
+ * @param {RunEvaluationDto} runEvaluationDto - The dataset, the run to compare with, and whether the run becomes the baseline.
+ * @param {string} tenantId - The tenant whose documents are evaluated.
+ * @returns The stored run with its report, its comparison with the baseline, and the report as Markdown.
+ *
+ * @method findAll - Lists the runs of the tenant, optionally of a single dataset, without their report.
+ * @method findOne - Shows a run with its report, its comparison with the dataset's baseline, and the report as Markdown.
+ * @method setBaseline - Makes a run the baseline of its dataset.
+ *
+ * @method evaluate - Evaluates a dataset on the documents of a tenant.
+ * @returns {EvaluationReport} The report of the run.
+ *
+ * @method compare - Compares a report with a baseline report.
+ * @returns {EvaluationComparison} The change of each metric, and the metrics that regressed.
+ */
+
+import {
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import * as pg from 'pg';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { Runnable } from '@langchain/core/runnables';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { DatabaseService } from 'src/services/database.service';
+import { ModelProviderService } from 'src/services/model-provider.service';
+import { LangchainChatService } from 'src/langchain-chat/langchain-chat.service';
+import { PromptTemplatesService } from 'src/prompt-templates/prompt-templates.service';
+import { UsageService } from 'src/usage/usage.service';
+import { Citation } from 'src/langchain-chat/interfaces/citation.interface';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { toModelProviderError } from 'src/errors/model-provider.errors';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import { PROMPT_TEMPLATE_NAMES } from 'src/utils/constants/prompt-templates.constants';
+import { EVALUATION_METRICS } from 'src/utils/constants/evaluation.constants';
+import {
+  EvaluationConfig,
+  evaluationConfig,
+} from 'src/config/evaluation.config';
+import { ObservabilityService } from 'src/observability/observability.service';
+import { RunEvaluationDto } from './dtos/run-evaluation.dto';
+import { EvaluationRunsQueryDto } from './dtos/evaluation-runs-query.dto';
+import {
+  EvaluationCaseDto,
+  EvaluationDatasetDto,
+  ExpectedSourceDto,
+} from './dtos/evaluation-dataset.dto';
+import {
+  EvaluationCaseResult,
+  EvaluationComparison,
+  EvaluationMetrics,
+  EvaluationReport,
+  EvaluationRun,
+  JudgeScore,
+  MetricComparison,
+} from './interfaces/evaluation-report.interface';
+import { markdownReport } from './markdown-report';
+
+@Injectable()
+export class EvaluationsService {
+  constructor(
+    private databaseService: DatabaseService,
+    private langchainChatService: LangchainChatService,
+    private modelProviderService: ModelProviderService,
+    private promptTemplatesService: PromptTemplatesService,
+    private usageService: UsageService,
+    private observabilityService: ObservabilityService,
+    @Inject(evaluationConfig.KEY) private evaluationSettings: EvaluationConfig,
+  ) {}
+
+  async onModuleInit() {
+    await this.databaseService.query(`
+      CREATE TABLE IF NOT EXISTS evaluation_runs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL,
+        dataset TEXT NOT NULL,
+        metrics JSONB NOT NULL,
+        report JSONB NOT NULL,
+        is_baseline BOOLEAN NOT NULL DEFAULT false,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `);
+    await this.databaseService.query(`
+      CREATE INDEX IF NOT EXISTS evaluation_runs_tenant_id_dataset_idx
+        ON evaluation_runs (tenant_id, dataset, created_at);
+    `);
+    // At most one baseline per dataset of a tenant
+    await this.databaseService.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS evaluation_runs_baseline_idx
+        ON evaluation_runs (tenant_id, dataset) WHERE is_baseline;
+    `);
+  }
+
+  async run(runEvaluationDto: RunEvaluationDto, tenantId: string) {
+    try {
+      const { dataset } = runEvaluationDto;
+      // Look the baseline up first, so that an unknown run fails before any model is called
+      const baseline = runEvaluationDto.baseline_run_id
+        ? await this.findRun(runEvaluationDto.baseline_run_id, tenantId)
+        : await this.findBaseline(dataset.name, tenantId);
+
+      const report = await this.evaluate(dataset, tenantId);
+      const run = await this.databaseService.transaction(async (client) => {
+        if (runEvaluationDto.save_as_baseline) {
+          await this.clearBaseline(client, dataset.name, tenantId);
+        }
+        const {
+          rows: [stored],
+        } = await client.query<EvaluationRun>(
+          `INSERT INTO evaluation_runs (tenant_id, dataset, metrics, report, is_baseline)
+           VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+          [
+            tenantId,
+            dataset.name,
+            report.metrics,
+            report,
+            runEvaluationDto.save_as_baseline ?? false,
+          ],
+        );
+        return stored;
+      });
+      return customMessage(
+        HttpStatus.CREATED,
+        MESSAGES.SUCCESS,
+        this.runResponse(run, baseline),
+      );
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async findAll(
+    evaluationRunsQueryDto: EvaluationRunsQueryDto,
+    tenantId: string,
+  ) {
+    try {
+      const runs = await this.databaseService.query<EvaluationRun>(
+        `SELECT id, tenant_id, dataset, metrics, is_baseline, created_at
+         FROM evaluation_runs
+         WHERE tenant_id = $1 AND ($2::text IS NULL OR dataset = $2)
+         ORDER BY created_at DESC`,
+        [tenantId, evaluationRunsQueryDto.dataset ?? null],
+      );
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, runs);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async findOne(id: string, tenantId: string) {
+    try {
+      const run = await this.findRun(id, tenantId);
+      const baseline = run.is_baseline
+        ? undefined
+        : await this.findBaseline(run.dataset, tenantId);
+      return customMessage(
+        HttpStatus.OK,
+        MESSAGES.SUCCESS,
+        this.runResponse(run, baseline),
+      );
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async setBaseline(id: string, tenantId: string) {
+    try {
+      const run = await this.databaseService.transaction(async (client) => {
+        const {
+          rows: [found],
+        } = await client.query<EvaluationRun>(
+          'SELECT dataset FROM evaluation_runs WHERE id = $1 AND tenant_id = $2',
+          [id, tenantId],
+        );
+        if (!found) throw this.runNotFound();
+        await this.clearBaseline(client, found.dataset, tenantId);
+        const {
+          rows: [updated],
+        } = await client.query<EvaluationRun>(
+          `UPDATE evaluation_runs SET is_baseline = true WHERE id = $1
+           RETURNING id, tenant_id, dataset, metrics, is_baseline, created_at`,
+          [id],
+        );
+        return updated;
+      });
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, run);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async evaluate(
+    dataset: EvaluationDatasetDto,
+    tenantId: string,
+  ): Promise<EvaluationReport> {
+    const startedAt = new Date().toISOString();
+    const { judgeProvider, judgeModel } = this.evaluationSettings;
+    // The judge grades deterministically, at temperature 0
+    const judgeOverrides = {
+      provider: dataset.judge_model_options?.provider ?? judgeProvider,
+      model: dataset.judge_model_options?.model ?? judgeModel,
+      temperature: 0,
+      maxTokens: dataset.judge_model_options?.max_tokens,
+    };
+    const judge = this.modelProviderService.getChatModel(judgeOverrides);
+    const faithfulnessChain = await this.loadJudgeChain(
+      PROMPT_TEMPLATE_NAMES.EVALUATION_FAITHFULNESS,
+      ['context', 'answer'],
+      judge,
+    );
+    const correctnessChain = await this.loadJudgeChain(
+      PROMPT_TEMPLATE_NAMES.EVALUATION_CORRECTNESS,
+      ['question', 'expected_answer', 'answer'],
+      judge,
+    );
+
+    const cases = await this.mapConcurrently(
+      dataset.cases,
+      async (evaluationCase, index): Promise<EvaluationCaseResult> => {
+        const result: EvaluationCaseResult = {
+          id: evaluationCase.id ?? String(index + 1),
+          question: evaluationCase.question,
+          expected_answer: evaluationCase.expected_answer ?? null,
+          answer: null,
+          retrieved: [],
+          rank: null,
+          hit: null,
+          reciprocal_rank: null,
+          faithfulness: null,
+          correctness: null,
+        };
+        try {
+          const { answer, citations, context } =
+            await this.langchainChatService.answerFromDocuments(
+              {
+                ...dataset.retrieval,
+                user_query: evaluationCase.question,
+                model_options: dataset.model_options,
+                prompt_template: dataset.prompt_template,
+              },
+              tenantId,
+            );
+          result.answer = answer;
+          result.retrieved = citations.map(
+            ({ marker, document_id, document_name, page_number, score }) => ({
+              marker,
+              document_id,
+              document_name,
+              page_number,
+              score,
+            }),
+          );
+          Object.assign(result, this.scoreRetrieval(evaluationCase, citations));
+
+          result.faithfulness = await this.judge(faithfulnessChain, {
+            context,
+            answer,
+          });
+          if (evaluationCase.expected_answer) {
+            result.correctness = await this.judge(correctnessChain, {
+              question: evaluationCase.question,
+              expected_answer: evaluationCase.expected_answer,
+              answer,
+            });
+          }
+        } catch (e: unknown) {
+          result.error = this.errorMessage(e);
+        }
+        return result;
+      },
+    );
+
+    return {
+      dataset: dataset.name,
+      settings: {
+        retrieval: dataset.retrieval ?? {},
+        model_options: dataset.model_options ?? {},
+        prompt_template: dataset.prompt_template ?? null,
+        judge_model: this.modelProviderService.getChatModelName(judgeOverrides),
+      },
+      metrics: this.metrics(cases),
+      case_count: cases.length,
+      failed_case_count: cases.filter((result) => result.error).length,
+      cases,
+      usage: this.usageService.currentUsage(),
+      started_at: startedAt,
+      finished_at: new Date().toISOString(),
+    };
+  }
+
+  compare(
+    report: EvaluationReport,
+    baseline: EvaluationReport,
+    baselineRunId: string | null = null,
+  ): EvaluationComparison {
+    const { regressionTolerance } = this.evaluationSettings;
+    const metrics = Object.fromEntries(
+      Object.values(EVALUATION_METRICS).map((metric) => {
+        const baselineValue = baseline.metrics[metric] ?? null;
+        const current = report.metrics[metric] ?? null;
+        const delta =
+          baselineValue === null || current === null
+            ? null
+            : current - baselineValue;
+        const comparison: MetricComparison = {
+          baseline: baselineValue,
+          current,
+          delta,
+          regressed: delta !== null && delta < -regressionTolerance,
+        };
+        return [metric, comparison];
+      }),
+    ) as Record<EVALUATION_METRICS, MetricComparison>;
+
+    return {
+      baseline_run_id: baselineRunId,
+      baseline_finished_at: baseline.finished_at,
+      metrics,
+      regressions: Object.values(EVALUATION_METRICS).filter(
+        (metric) => metrics[metric].regressed,
+      ),
+    };
+  }
+
+  // The first retrieved chunk matching an expected source sets the rank of the case
+  private scoreRetrieval = (
+    evaluationCase: EvaluationCaseDto,
+    citations: Citation[],
+  ): Pick<EvaluationCaseResult, 'rank' | 'hit' | 'reciprocal_rank'> => {
+    const expectedSources = evaluationCase.expected_sources ?? [];
+    if (!expectedSources.length) {
+      return { rank: null, hit: null, reciprocal_rank: null };
+    }
+    const index = citations.findIndex((citation) =>
+      expectedSources.some((source) => this.matchesSource(citation, source)),
+    );
+    return index < 0
+      ? { rank: null, hit: false, reciprocal_rank: 0 }
+      : { rank: index + 1, hit: true, reciprocal_rank: 1 / (index + 1) };
+  };
+
+  private matchesSource = (citation: Citation, source: ExpectedSourceDto) =>
+    (source.document_id === undefined ||
+      citation.document_id === source.document_id) &&
+    (source.document_name === undefined ||
+      citation.document_name === source.document_name) &&
+    (source.page_number === undefined ||
+      citation.page_number === source.page_number);
+
+  // Cases that failed, or lack what a metric needs, are left out of its mean
+  private metrics = (cases: EvaluationCaseResult[]): EvaluationMetrics => {
+    const evaluated = cases.filter((result) => !result.error);
+    const mean = (values: (number | null)[]) => {
+      const scored = values.filter((value) => value !== null);
+      return scored.length
+        ? scored.reduce((total, value) => total + value, 0) / scored.length
+        : null;
+    };
+    return {
+      [EVALUATION_METRICS.HIT_RATE]: mean(
+        evaluated.map((result) =>
+          result.hit === null ? null : Number(result.hit),
+        ),
+      ),
+      [EVALUATION_METRICS.MRR]: mean(
+        evaluated.map((result) => result.reciprocal_rank),
+      ),
+      [EVALUATION_METRICS.FAITHFULNESS]: mean(
+        evaluated.map((result) => result.faithfulness?.score ?? null),
+      ),
+      [EVALUATION_METRICS.CORRECTNESS]: mean(
+        evaluated.map((result) => result.correctness?.score ?? null),
+      ),
+    };
+  };
+
+  private loadJudgeChain = async (
+    name: PROMPT_TEMPLATE_NAMES,
+    inputs: string[],
+    judge: BaseChatModel,
+  ) => {
+    const record = await this.promptTemplatesService.resolve(name);
+    this.promptTemplatesService.assertInputs(record, inputs);
+    return PromptTemplate.fromTemplate(record.template)
+      .pipe(judge)
+      .pipe(new StringOutputParser());
+  };
+
+  // The judge is asked for {"score", "reason"}; any other response scores nothing
+  private judge = async (
+    chain: Runnable<Record<string, string>, string>,
+    input: Record<string, string>,
+  ): Promise<JudgeScore> => {
+    const output = await chain.invoke(
+      input,
+      this.observabilityService.runConfig(),
+    );
+    const json = output.match(/\{[\s\S]*\}/)?.[0];
+    try {
+      const { score, reason } = JSON.parse(json);
+      if (typeof score === 'number' && Number.isFinite(score)) {
+        return {
+          score: Math.min(Math.max(score, 0), 1),
+          reason: String(reason ?? ''),
+        };
+      }
+    } catch (e: unknown) {
+      // Reported below with the judge's response
+    }
+    return {
+      score: null,
+      reason: `The judge did not respond with a score: ${output.slice(0, JUDGE_OUTPUT_EXCERPT_LENGTH)}`,
+    };
+  };
+
+  private mapConcurrently = async <T, R>(
+    items: T[],
+    run: (item: T, index: number) => Promise<R>,
+  ) => {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const runner = async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await run(items[index], index);
+      }
+    };
+    const runners = Math.min(this.evaluationSettings.concurrency, items.length);
+    await Promise.all(Array.from({ length: runners }, runner));
+    return results;
+  };
+
+  private runResponse = (run: EvaluationRun, baseline?: EvaluationRun) => {
+    const comparison = baseline
+      ? this.compare(run.report, baseline.report, baseline.id)
+      : undefined;
+    return {
+      ...run,
+      comparison: comparison ?? null,
+      markdown: markdownReport(run.report, comparison),
+    };
+  };
+
+  private findRun = async (id: string, tenantId: string) => {
+    const [run] = await this.databaseService.query<EvaluationRun>(
+      'SELECT * FROM evaluation_runs WHERE id = $1 AND tenant_id = $2',
+      [id, tenantId],
+    );
+    if (!run) throw this.runNotFound();
+    return run;
+  };
+
+  private findBaseline = async (dataset: string, tenantId: string) => {
+    const [run] = await this.databaseService.query<EvaluationRun>(
+      `SELECT * FROM evaluation_runs
+       WHERE tenant_id = $1 AND dataset = $2 AND is_baseline`,
+      [tenantId, dataset],
+    );
+    return run;
+  };
+
+  private clearBaseline = (
+    client: pg.PoolClient,
+    dataset: string,
+    tenantId: string,
+  ) =>
+    client.query(
+      `UPDATE evaluation_runs SET is_baseline = false
+       WHERE tenant_id = $1 AND dataset = $2 AND is_baseline`,
+      [tenantId, dataset],
+    );
+
+  private runNotFound = () =>
+    new NotFoundException(
+      customMessage(HttpStatus.NOT_FOUND, MESSAGES.EVALUATION_RUN_NOT_FOUND),
+    );
+
+  // HTTP exceptions carry the customMessage envelope, whose message is more telling than theirs
+  private errorMessage = (e: unknown) => {
+    if (e instanceof HttpException) {
+      const response = e.getResponse();
+      if (typeof response === 'object' && 'message' in response) {
+        return [response.message].flat().join(', ');
+      }
+    }
+    return e instanceof Error ? e.message : String(e);
+  };
+
+  private exceptionHandling = (e: unknown) => {
+    if (e instanceof HttpException) throw e;
+    Logger.error(e);
+    throw (
+      toModelProviderError(e) ??
+      new HttpException(
+        customMessage(
+          HttpStatus.INTERNAL_SERVER_ERROR,
+          MESSAGES.EXTERNAL_SERVER_ERROR,
+        ),
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      )
+    );
+  };
+}
+
+const JUDGE_OUTPUT_EXCERPT_LENGTH = 200;
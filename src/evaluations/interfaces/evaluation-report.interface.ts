@@ -0,0 +1,121 @@
+import { EVALUATION_METRICS } from 'src/utils/constants/evaluation.constants';
+import { Citation } from 'src/langchain-chat/interfaces/citation.interface';
+import { UsageSummary } from 'src/usage/interfaces/usage.interface';
+import { EvaluationDatasetDto } from '../dtos/evaluation-dataset.dto';
+
+// Metrics without any case to score them, e.g. correctness without expected answers, are null
+export type EvaluationMetrics = Record<EVALUATION_METRICS, number | null>;
+
+// A judge score is null when the judge did not respond with a valid score
+export interface JudgeScore {
+  score: number | null;
+  reason: string;
+}
+
+/**
+ * The result of one question of an evaluation dataset.
+ *
+ * @interface EvaluationCaseResult
+ *
+ * @property id - Identifier of the case, or its 1-based position in the dataset.
+ * @property question, expected_answer - The question and its reference answer.
+ * @property answer - The answer of the document chat.
+ * @property retrieved - The retrieved chunks, in rank order.
+ * @property rank - Rank of the first retrieved chunk matching an expected source, null when none matched
+ *                  or the case has no expected sources.
+ * @property hit, reciprocal_rank - Retrieval scores of the case, null when it has no expected sources.
+ * @property faithfulness, correctness - Judge scores of the answer; correctness is null without an expected answer.
+ * @property error - Why the case could not be evaluated; such cases are left out of the metrics.
+ */
+export interface EvaluationCaseResult {
+  id: string;
+  question: string;
+  expected_answer: string | null;
+  answer: string | null;
+  retrieved: Omit<Citation, 'snippet'>[];
+  rank: number | null;
+  hit: boolean | null;
+  reciprocal_rank: number | null;
+  faithfulness: JudgeScore | null;
+  correctness: JudgeScore | null;
+  error?: string;
+}
+
+/**
+ * The report of an evaluation run.
+ *
+ * @interface EvaluationReport
+ *
+ * @property dataset - Name of the evaluated dataset.
+ * @property settings - The retrieval, chat model and prompt template settings of the dataset, and the judge model.
+ * @property metrics - The metrics of the run, see EVALUATION_METRICS.
+ * @property case_count, failed_case_count - Number of cases, and of cases that could not be evaluated.
+ * @property cases - The result of each case.
+ * @property usage - Tokens and cost of the model calls of the run, including the judge's.
+ * @property started_at, finished_at - When the run started and finished, as ISO 8601 strings.
+ */
+export interface EvaluationReport {
+  dataset: string;
+  settings: Pick<
+    EvaluationDatasetDto,
+    'retrieval' | 'model_options' | 'prompt_template'
+  > & { judge_model: string };
+  metrics: EvaluationMetrics;
+  case_count: number;
+  failed_case_count: number;
+  cases: EvaluationCaseResult[];
+  usage: UsageSummary;
+  started_at: string;
+  finished_at: string;
+}
+
+/**
+ * Change of a metric between a baseline and a new report; a drop larger than the configured
+ * tolerance is a regression.
+ */
+export interface MetricComparison {
+  baseline: number | null;
+  current: number | null;
+  delta: number | null;
+  regressed: boolean;
+}
+
+/**
+ * Comparison of a report with a baseline report.
+ *
+ * @interface EvaluationComparison
+ *
+ * @property baseline_run_id - The stored run compared with, if the baseline is a stored run.
+ * @property baseline_finished_at - When the baseline run finished.
+ * @property metrics - The comparison of each metric.
+ * @property regressions - The metrics that regressed.
+ */
+export interface EvaluationComparison {
+  baseline_run_id: string | null;
+  baseline_finished_at: string;
+  metrics: Record<EVALUATION_METRICS, MetricComparison>;
+  regressions: EVALUATION_METRICS[];
+}
+
+/**
+ * An evaluation run stored in the `evaluation_runs` table.
+ *
+ * @interface EvaluationRun
+ *
+ * @property id - Identifier of the run.
+ * @property tenant_id - The tenant whose documents were evaluated.
+ * @property dataset - Name of the evaluated dataset.
+ * @property metrics - The metrics of the run, copied from its report.
+ * @property report - The full report of the run.
+ * @property is_baseline - Whether the run is the baseline new runs of its dataset are compared with.
+ * @property created_at - When the run was stored.
+ */
+export interface EvaluationRun {
+  id: string;
+  tenant_id: string;
+  dataset: string;
+  metrics: EvaluationMetrics;
+  report: EvaluationReport;
+  is_baseline: boolean;
+  created_at: Date;
+}
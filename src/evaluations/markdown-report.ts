@@ -0,0 +1,80 @@
+import { EVALUATION_METRICS } from 'src/utils/constants/evaluation.constants';
+import {
+  EvaluationComparison,
+  EvaluationReport,
+} from './interfaces/evaluation-report.interface';
+
+/**
+ * Renders an evaluation report as Markdown: its settings and metrics, compared with the baseline
+ * when a comparison is given, then one row per case.
+ *
+ * @param report - The report to render.
+ * @param comparison - The comparison of the report with a baseline, if any.
+ */
+export const markdownReport = (
+  report: EvaluationReport,
+  comparison?: EvaluationComparison,
+) => {
+  const { retrieval, model_options, prompt_template, judge_model } =
+    report.settings;
+  const lines = [
+    `# Evaluation of ${report.dataset}`,
+    '',
+    `- Run: ${report.started_at} to ${report.finished_at}`,
+    `- Cases: ${report.case_count} (${report.failed_case_count} failed)`,
+    `- Retrieval: ${JSON.stringify(retrieval ?? {})}`,
+    `- Chat model: ${JSON.stringify(model_options ?? {})}`,
+    `- Prompt template: ${prompt_template ? `${prompt_template.name} v${prompt_template.version ?? 'latest'}` : 'built-in'}`,
+    `- Judge model: ${judge_model}`,
+    `- Usage: ${report.usage.total_tokens} tokens, $${report.usage.cost.toFixed(4)}`,
+    '',
+    '## Metrics',
+    '',
+  ];
+
+  if (comparison) {
+    lines.push(
+      `Compared with the baseline of ${comparison.baseline_finished_at}.`,
+      '',
+      '| Metric | Baseline | Current | Delta | |',
+      '| --- | --- | --- | --- | --- |',
+      ...Object.values(EVALUATION_METRICS).map((metric) => {
+        const { baseline, current, delta, regressed } =
+          comparison.metrics[metric];
+        return `| ${metric} | ${score(baseline)} | ${score(current)} | ${signed(delta)} | ${regressed ? 'regression' : ''} |`;
+      }),
+    );
+  } else {
+    lines.push(
+      '| Metric | Value |',
+      '| --- | --- |',
+      ...Object.values(EVALUATION_METRICS).map(
+        (metric) => `| ${metric} | ${score(report.metrics[metric])} |`,
+      ),
+    );
+  }
+
+  lines.push(
+    '',
+    '## Cases',
+    '',
+    '| Case | Hit | Rank | Faithfulness | Correctness | Question |',
+    '| --- | --- | --- | --- | --- | --- |',
+    ...report.cases.map(
+      (result) =>
+        `| ${cell(result.id)} | ${result.hit === null ? 'n/a' : result.hit ? 'yes' : 'no'} | ${result.rank ?? '-'} | ${score(result.faithfulness?.score)} | ${score(result.correctness?.score)} | ${cell(result.error ? `${result.question} (error: ${result.error})` : result.question)} |`,
+    ),
+    '',
+  );
+  return lines.join('\n');
+};
+
+const score = (value?: number | null) =>
+  value === null || value === undefined ? 'n/a' : value.toFixed(3);
+
+const signed = (value: number | null) =>
+  value === null ? 'n/a' : `${value >= 0 ? '+' : ''}${value.toFixed(3)}`;
+
+// Table cells cannot hold pipes or line breaks
+const cell = (text: string) =>
+  text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
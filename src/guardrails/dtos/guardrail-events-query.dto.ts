@@ -0,0 +1,49 @@
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  GUARDRAIL_DECISIONS,
+  GUARDRAILS,
+  MAX_GUARDRAIL_EVENTS_LIMIT,
+} from 'src/utils/constants/guardrails.constants';
+
+export class GuardrailEventsQueryDto {
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @IsOptional()
+  @IsUUID()
+  tenant_id?: string;
+
+  @IsOptional()
+  @IsEnum(GUARDRAILS)
+  guardrail?: GUARDRAILS;
+
+  @IsOptional()
+  @IsEnum(GUARDRAIL_DECISIONS)
+  decision?: GUARDRAIL_DECISIONS;
+
+  @IsOptional()
+  @IsString()
+  request_id?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_GUARDRAIL_EVENTS_LIMIT)
+  limit?: number;
+}
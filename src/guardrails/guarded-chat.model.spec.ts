@@ -0,0 +1,62 @@
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { HumanMessage } from '@langchain/core/messages';
+import { GuardedChatModel } from './guarded-chat.model';
+import { GuardrailsService } from './guardrails.service';
+import { PiiRedactor } from './pii-redactor';
+import { OutputBlockedError } from 'src/errors/guardrail.errors';
+import {
+  MODERATION_RULES,
+  PII_ENTITIES,
+} from 'src/utils/constants/guardrails.constants';
+
+// Blocks the outputs naming the blocked term, as GuardrailsService does when blocking
+const guardrailsService = {
+  redactor: () => new PiiRedactor(Object.values(PII_ENTITIES), true),
+  recordRedaction: jest.fn(),
+  blocks: (_raw: string, output: string) => output.includes('Falcon'),
+  moderate: jest.fn(async (_raw: string, output: string) => {
+    if (output.includes('Falcon')) {
+      throw new OutputBlockedError([MODERATION_RULES.BLOCKED_TERMS]);
+    }
+  }),
+} as unknown as GuardrailsService;
+
+describe('GuardedChatModel', () => {
+  const guardedModel = (response: string) => {
+    const chatModel = new FakeListChatModel({ responses: [response] });
+    const streamResponseChunks = jest.spyOn(chatModel, '_streamResponseChunks');
+    return {
+      model: new GuardedChatModel(chatModel, guardrailsService),
+      // The messages that reached the wrapped model
+      sentMessages: () => streamResponseChunks.mock.calls[0][0],
+    };
+  };
+
+  it('redacts the prompt and restores the placeholders of the streamed answer', async () => {
+    const { model, sentMessages } = guardedModel('I wrote to [EMAIL_1].');
+
+    let answer = '';
+    for await (const chunk of await model.stream([
+      new HumanMessage('Write to jane@example.com'),
+    ])) {
+      answer += chunk.content;
+    }
+
+    expect(sentMessages()[0].content).toBe('Write to [EMAIL_1]');
+    expect(answer).toBe('I wrote to jane@example.com.');
+  });
+
+  it('stops a stream as soon as its output is blocked', async () => {
+    const { model } = guardedModel('The codename is Falcon, launching soon.');
+
+    const tokens: string[] = [];
+    const stream = async () => {
+      for await (const chunk of await model.stream('What is the codename?')) {
+        tokens.push(chunk.content as string);
+      }
+    };
+
+    await expect(stream()).rejects.toThrow(OutputBlockedError);
+    expect(tokens.join('')).toBe('The codename is Falco');
+  });
+});
@@ -0,0 +1,186 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import {
+  AIMessageChunk,
+  BaseMessage,
+  MessageContent,
+  MessageContentComplex,
+} from '@langchain/core/messages';
+import {
+  ChatGeneration,
+  ChatGenerationChunk,
+  ChatResult,
+} from '@langchain/core/outputs';
+import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import { chatModelChunks } from 'src/services/model-providers/chat-model-chunks';
+import { GuardrailsService } from './guardrails.service';
+
+// Maps every string of the function and tool call arguments, and other extra fields, of a message
+const mapStrings = (value: unknown, map: (text: string) => string): unknown => {
+  if (typeof value === 'string') return map(value);
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, map));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]),
+    );
+  }
+  return value;
+};
+
+// Copies a message, of whichever class, with its text mapped; images and other parts are kept as they are
+const mapMessage = <T extends BaseMessage>(
+  message: T,
+  map: (text: string) => string,
+): T => {
+  const content: MessageContent =
+    typeof message.content === 'string'
+      ? map(message.content)
+      : message.content.map((part: MessageContentComplex) =>
+          part.type === 'text' && typeof part.text === 'string'
+            ? { ...part, text: map(part.text) }
+            : part,
+        );
+  return Object.assign(Object.create(Object.getPrototypeOf(message)), message, {
+    content,
+    additional_kwargs: mapStrings(
+      message.additional_kwargs,
+      map,
+    ) as BaseMessage['additional_kwargs'],
+  });
+};
+
+/**
+ * Chat model applying the PII redaction and output moderation guardrails around another chat model.
+ *
+ * Each call gets its own PiiRedactor: the messages are redacted before they reach the wrapped
+ * model, and the placeholders are restored in its output, text, message and function call
+ * arguments alike. Like FallbackChatModel, the wrapped model is called through its own `_generate`
+ * and `_streamResponseChunks`, so that a call makes a single chat model run; the tokens it streams
+ * are restored before they reach the callbacks of the run, a placeholder split across tokens being
+ * held back until it is complete. The output then goes through the moderation rules of
+ * GuardrailsService: a stream stops, and a streamed `_generate` stops sending tokens, as soon as the
+ * output is to be blocked, and the call fails with an OutputBlockedError.
+ *
+ * @param {BaseChatModel} chatModel - The chat model answering the calls.
+ * @param {GuardrailsService} guardrailsService - The service applying the guardrails and recording their decisions.
+ */
+export class GuardedChatModel extends BaseChatModel {
+  constructor(
+    private chatModel: BaseChatModel,
+    private guardrailsService: GuardrailsService,
+  ) {
+    super({});
+  }
+
+  _llmType() {
+    return 'guarded';
+  }
+
+  invocationParams(options?: this['ParsedCallOptions']) {
+    return this.chatModel.invocationParams(options);
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun,
+  ): Promise<ChatResult> {
+    const { redactor, redacted } = await this.redact(messages);
+    const restorer = redactor.restorer();
+    let blocked = false;
+    const release = async (text: string) => {
+      blocked ||= this.guardrailsService.blocks(restorer.raw, restorer.text);
+      if (!blocked && text) await runManager?.handleLLMNewToken(text);
+    };
+
+    const result = await this.chatModel._generate(
+      redacted,
+      options,
+      this.tokenRunManager(runManager, (token) =>
+        release(restorer.push(token)),
+      ),
+    );
+    await release(restorer.flush());
+
+    const generations: ChatGeneration[] = result.generations.map(
+      (generation) => ({
+        ...generation,
+        text: redactor.restore(generation.text),
+        message: mapMessage(generation.message, (text) =>
+          redactor.restore(text),
+        ),
+      }),
+    );
+    for (const [index, { text }] of generations.entries()) {
+      await this.guardrailsService.moderate(
+        result.generations[index].text,
+        text,
+      );
+    }
+    return { ...result, generations };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const { redactor, redacted } = await this.redact(messages);
+    const restorer = redactor.restorer();
+    const restoredChunk = (chunk: ChatGenerationChunk, text: string) => {
+      const message = mapMessage(chunk.message, (content) =>
+        redactor.restore(content),
+      );
+      if (typeof message.content === 'string') message.content = text;
+      return new ChatGenerationChunk({
+        text,
+        message,
+        generationInfo: chunk.generationInfo,
+      });
+    };
+
+    // The tokens of the wrapped model are released below, once restored and moderated
+    for await (const chunk of chatModelChunks(
+      this.chatModel,
+      redacted,
+      options,
+      this.tokenRunManager(runManager, async () => undefined),
+    )) {
+      const text = restorer.push(chunk.text);
+      if (this.guardrailsService.blocks(restorer.raw, restorer.text)) {
+        await this.guardrailsService.moderate(restorer.raw, restorer.text);
+      }
+      yield restoredChunk(chunk, text);
+      if (text) await runManager?.handleLLMNewToken(text);
+    }
+
+    const text = restorer.flush();
+    await this.guardrailsService.moderate(restorer.raw, restorer.text);
+    if (text) {
+      yield new ChatGenerationChunk({
+        text,
+        message: new AIMessageChunk(text),
+      });
+      await runManager?.handleLLMNewToken(text);
+    }
+  }
+
+  private redact = async (messages: BaseMessage[]) => {
+    const redactor = this.guardrailsService.redactor();
+    const redacted = messages.map((message) =>
+      mapMessage(message, (text) => redactor.redact(text)),
+    );
+    await this.guardrailsService.recordRedaction(redactor);
+    return { redactor, redacted };
+  };
+
+  // The run of this model, with the tokens of the wrapped model diverted to the guardrails
+  private tokenRunManager = (
+    runManager: CallbackManagerForLLMRun | undefined,
+    onToken: (token: string) => Promise<void>,
+  ) => {
+    if (!runManager) return undefined;
+    const tokenRunManager: CallbackManagerForLLMRun = Object.create(runManager);
+    tokenRunManager.handleLLMNewToken = (token: string) => onToken(token);
+    return tokenRunManager;
+  };
+}
@@ -0,0 +1,27 @@
+import { Embeddings } from '@langchain/core/embeddings';
+import { GuardrailsService } from './guardrails.service';
+
+/**
+ * Embeddings model delegating to another one with the personal data of the texts redacted, so that
+ * neither the ingested chunks nor the search queries reach the provider with it. Only the vectors
+ * are computed from the redacted texts; the chunks are stored as they were written.
+ */
+export class GuardedEmbeddings extends Embeddings {
+  constructor(
+    private embeddings: Embeddings,
+    private guardrailsService: GuardrailsService,
+  ) {
+    super({});
+  }
+
+  async embedDocuments(documents: string[]) {
+    return this.embeddings.embedDocuments(
+      await this.guardrailsService.redactTexts(documents),
+    );
+  }
+
+  async embedQuery(document: string) {
+    const [redacted] = await this.guardrailsService.redactTexts([document]);
+    return this.embeddings.embedQuery(redacted);
+  }
+}
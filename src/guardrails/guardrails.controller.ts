@@ -0,0 +1,26 @@
+/**
+ * Admin controller listing the decisions of the guardrails recorded by GuardrailsService, across tenants.
+ *
+ * @class GuardrailsController
+ *
+ * @method events - Lists the recorded guardrail decisions, newest first. Accepts GET requests with a
+ *                  GuardrailEventsQueryDto: `from` and `to` bound the date range, `tenant_id`, `guardrail`,
+ *                  `decision` and `request_id` filter the events, and `limit` caps their number (100 by
+ *                  default, 1000 at most).
+ */
+
+import { Controller, Get, Query } from '@nestjs/common';
+import { GuardrailsService } from './guardrails.service';
+import { GuardrailEventsQueryDto } from './dtos/guardrail-events-query.dto';
+import { AdminOnly } from 'src/auth/decorators/admin-only.decorator';
+
+@AdminOnly()
+@Controller('guardrails')
+export class GuardrailsController {
+  constructor(private readonly guardrailsService: GuardrailsService) {}
+
+  @Get('events')
+  async events(@Query() guardrailEventsQueryDto: GuardrailEventsQueryDto) {
+    return await this.guardrailsService.events(guardrailEventsQueryDto);
+  }
+}
@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common';
+import { GuardrailsService } from './guardrails.service';
+import { GuardrailsController } from './guardrails.controller';
+
+/**
+ * Global module for the guardrails. GuardrailsService is shared with ModelProviderService, which
+ * guards every chat model and embeddings model it creates, and with VectorStoreService, which
+ * screens the chunks it retrieves.
+ */
+@Global()
+@Module({
+  controllers: [GuardrailsController],
+  providers: [GuardrailsService],
+  exports: [GuardrailsService],
+})
+export class GuardrailsModule {}
@@ -0,0 +1,329 @@
+/**
+ * Service applying the guardrails around the model calls and recording each of their decisions.
+ *
+ * Three guardrails are applied:
+ * - PII redaction: ModelProviderService hands out chat models wrapped by `guardChatModel` and
+ *   embeddings wrapped by `guardEmbeddings`, so that the emails, phone numbers, card numbers, social
+ *   security numbers and IBANs of the prompts, chat history, retrieved context and ingested chunks
+ *   reach the model provider as placeholders, which are restored in the chat model output.
+ * - Prompt injection: VectorStoreService and DocumentSummariesService pass the chunks they read
+ *   through `screenChunks` before they are inserted into a prompt, so that the sentences of uploaded
+ *   documents asking the model to ignore its instructions, take another role or reveal its prompt,
+ *   or impersonating a system turn, are stripped or flagged.
+ * - Output moderation: the output of the guarded chat models must not contain credentials, personal
+ *   data the model made up rather than restored, or blocked terms. A breaking output is withheld, the
+ *   call failing with an OutputBlockedError, or flagged; a stream stops as soon as it breaks a rule.
+ *
+ * Every decision is stored in the `guardrail_events` table with the tenant, endpoint and correlation
+ * ID of the request it was made for, and counted in the `guardrail_decisions_total` metric. Events
+ * only describe what was found, e.g., the number of emails redacted, never the matched text.
+ *
+ * Configuration (the `guardrails` namespace, see src/config/guardrails.config.ts):
+ * - piiAction, piiEntities - Redact, flag or ignore personal data, and its kinds: GUARDRAILS_PII_ACTION, GUARDRAILS_PII_ENTITIES.
+ * - injectionAction - Strip, flag or ignore injection patterns: GUARDRAILS_INJECTION_ACTION.
+ * - moderationAction - Block, flag or ignore breaking outputs: GUARDRAILS_MODERATION_ACTION.
+ * - blockedTerms - Terms the outputs must not contain, matched case-insensitively: GUARDRAILS_BLOCKED_TERMS.
+ *
+ * @class GuardrailsService
+ *
+ * @method guardChatModel - Wraps a chat model in a GuardedChatModel.
+ * @method guardEmbeddings - Wraps an embeddings model in a GuardedEmbeddings.
+ *
+ * @method redactor - Returns the PiiRedactor of a new chat model call.
+ * @method recordRedaction - Records the personal data found by a redactor, if any.
+ * @method redactTexts - Redacts the personal data of texts to embed, each with its own redactor.
+ *
+ * @method screenChunks - Strips or flags the injection patterns of retrieved chunks.
+ * @param {Chunk[]} chunks - The chunks, with their text in `pageContent`.
+ * @returns The chunks to insert into the prompt; chunks left empty by stripping are dropped.
+ *
+ * @method blocks - Tells whether an output is to be withheld, so that a stream stops before sending more of it.
+ * @method moderate - Records an output breaking a moderation rule, and throws an OutputBlockedError when blocking.
+ * @param {string} raw - The output as the model wrote it, with placeholders.
+ * @param {string} output - The output with the placeholders restored, as sent to the client.
+ *
+ * @method events - Lists the recorded decisions, newest first.
+ * @param {GuardrailEventsQueryDto} guardrailEventsQueryDto - The date range, filters and limit of the list.
+ */
+
+import {
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { Embeddings } from '@langchain/core/embeddings';
+import { DatabaseService } from 'src/services/database.service';
+import { UsageService } from 'src/usage/usage.service';
+import { ObservabilityService } from 'src/observability/observability.service';
+import { MetricsService } from 'src/observability/metrics.service';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import { METRICS } from 'src/utils/constants/observability.constants';
+import {
+  CREDENTIALS_PATTERN,
+  DEFAULT_GUARDRAIL_EVENTS_LIMIT,
+  GUARDRAIL_DECISIONS,
+  GUARDRAILS,
+  INJECTION_ACTIONS,
+  INJECTION_PATTERNS,
+  INJECTION_RULES,
+  MODERATION_ACTIONS,
+  MODERATION_RULES,
+  PII_ACTIONS,
+  PII_ENTITIES,
+} from 'src/utils/constants/guardrails.constants';
+import {
+  GuardrailsConfig,
+  guardrailsConfig,
+} from 'src/config/guardrails.config';
+import { OutputBlockedError } from 'src/errors/guardrail.errors';
+import { PiiRedactor, replacePii } from './pii-redactor';
+import { GuardedChatModel } from './guarded-chat.model';
+import { GuardedEmbeddings } from './guarded.embeddings';
+import { GuardrailEventsQueryDto } from './dtos/guardrail-events-query.dto';
+import { GuardrailEvent } from './interfaces/guardrail-event.interface';
+
+type Chunk = { pageContent: string; metadata: Record<string, any> };
+
+// Sentences, and lines, are the unit stripped from a chunk
+const SENTENCE_PATTERN = /[^.!?\n]+(?:[.!?]+|\n|$)|\n/g;
+
+@Injectable()
+export class GuardrailsService {
+  constructor(
+    private databaseService: DatabaseService,
+    private usageService: UsageService,
+    private observabilityService: ObservabilityService,
+    private metricsService: MetricsService,
+    @Inject(guardrailsConfig.KEY) private guardrailsSettings: GuardrailsConfig,
+  ) {}
+
+  async onModuleInit() {
+    await this.databaseService.query(`
+      CREATE TABLE IF NOT EXISTS guardrail_events (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID,
+        request_id TEXT,
+        endpoint TEXT,
+        guardrail TEXT NOT NULL,
+        decision TEXT NOT NULL,
+        details JSONB NOT NULL DEFAULT '{}',
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `);
+    await this.databaseService.query(`
+      CREATE INDEX IF NOT EXISTS guardrail_events_created_at_idx
+        ON guardrail_events (created_at);
+    `);
+  }
+
+  guardChatModel(chatModel: BaseChatModel): BaseChatModel {
+    return new GuardedChatModel(chatModel, this);
+  }
+
+  guardEmbeddings(embeddings: Embeddings): Embeddings {
+    return new GuardedEmbeddings(embeddings, this);
+  }
+
+  redactor() {
+    const { piiAction, piiEntities } = this.guardrailsSettings;
+    return new PiiRedactor(
+      piiAction === PII_ACTIONS.OFF ? [] : piiEntities,
+      piiAction === PII_ACTIONS.REDACT,
+    );
+  }
+
+  async recordRedaction(...redactors: PiiRedactor[]) {
+    const entities: Partial<Record<PII_ENTITIES, number>> = {};
+    for (const { counts } of redactors) {
+      for (const [entity, count] of Object.entries(counts)) {
+        entities[entity] = (entities[entity] ?? 0) + count;
+      }
+    }
+    if (!Object.keys(entities).length) return;
+
+    await this.record(
+      GUARDRAILS.PII_REDACTION,
+      this.guardrailsSettings.piiAction === PII_ACTIONS.REDACT
+        ? GUARDRAIL_DECISIONS.REDACTED
+        : GUARDRAIL_DECISIONS.FLAGGED,
+      { entities },
+    );
+  }
+
+  async redactTexts(texts: string[]) {
+    const redactors = texts.map(() => this.redactor());
+    const redacted = texts.map((text, index) => redactors[index].redact(text));
+    await this.recordRedaction(...redactors);
+    return redacted;
+  }
+
+  async screenChunks<T extends Chunk>(chunks: T[]): Promise<T[]> {
+    const { injectionAction } = this.guardrailsSettings;
+    if (injectionAction === INJECTION_ACTIONS.OFF) return chunks;
+
+    const matches = chunks
+      .map((chunk) => ({
+        chunk,
+        rules: this.injectionRules(chunk.pageContent),
+      }))
+      .filter(({ rules }) => rules.length);
+    if (!matches.length) return chunks;
+
+    const strip = injectionAction === INJECTION_ACTIONS.STRIP;
+    await this.record(
+      GUARDRAILS.PROMPT_INJECTION,
+      strip ? GUARDRAIL_DECISIONS.STRIPPED : GUARDRAIL_DECISIONS.FLAGGED,
+      {
+        chunks: matches.map(({ chunk, rules }) => ({
+          document_id: chunk.metadata.documentId ?? null,
+          page_number: chunk.metadata.pageNumber ?? null,
+          rules,
+        })),
+      },
+    );
+    if (!strip) return chunks;
+
+    const matched = new Set<Chunk>(matches.map(({ chunk }) => chunk));
+    return chunks
+      .map((chunk) =>
+        matched.has(chunk)
+          ? { ...chunk, pageContent: this.strip(chunk.pageContent) }
+          : chunk,
+      )
+      .filter(({ pageContent }) => pageContent);
+  }
+
+  blocks(raw: string, output: string) {
+    return (
+      this.guardrailsSettings.moderationAction === MODERATION_ACTIONS.BLOCK &&
+      this.brokenRules(raw, output).length > 0
+    );
+  }
+
+  async moderate(raw: string, output: string) {
+    const { moderationAction } = this.guardrailsSettings;
+    const rules = this.brokenRules(raw, output);
+    if (!rules.length) return;
+
+    const block = moderationAction === MODERATION_ACTIONS.BLOCK;
+    await this.record(
+      GUARDRAILS.OUTPUT_MODERATION,
+      block ? GUARDRAIL_DECISIONS.BLOCKED : GUARDRAIL_DECISIONS.FLAGGED,
+      { rules },
+    );
+    if (block) throw new OutputBlockedError(rules);
+  }
+
+  async events(guardrailEventsQueryDto: GuardrailEventsQueryDto) {
+    try {
+      const params: unknown[] = [];
+      const conditions: string[] = [];
+      const addCondition = (value: unknown, condition: string) => {
+        if (value === undefined) return;
+        params.push(value);
+        conditions.push(`${condition} $${params.length}`);
+      };
+      addCondition(guardrailEventsQueryDto.from, 'created_at >=');
+      addCondition(guardrailEventsQueryDto.to, 'created_at <');
+      addCondition(guardrailEventsQueryDto.tenant_id, 'tenant_id =');
+      addCondition(guardrailEventsQueryDto.guardrail, 'guardrail =');
+      addCondition(guardrailEventsQueryDto.decision, 'decision =');
+      addCondition(guardrailEventsQueryDto.request_id, 'request_id =');
+      params.push(
+        guardrailEventsQueryDto.limit ?? DEFAULT_GUARDRAIL_EVENTS_LIMIT,
+      );
+
+      const events = await this.databaseService.query<GuardrailEvent>(
+        `SELECT * FROM guardrail_events
+         ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY created_at DESC
+         LIMIT $${params.length}`,
+        params,
+      );
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, { events });
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  private record = async (
+    guardrail: GUARDRAILS,
+    decision: GUARDRAIL_DECISIONS,
+    details: Record<string, unknown>,
+  ) => {
+    const context = this.usageService.currentContext();
+    this.metricsService.increment(METRICS.GUARDRAIL_DECISIONS, {
+      route: this.observabilityService.route(),
+      guardrail,
+      decision,
+    });
+
+    // Failing to store an event must not fail the call it audits
+    try {
+      await this.databaseService.query(
+        `INSERT INTO guardrail_events (tenant_id, request_id, endpoint, guardrail, decision, details)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          context?.tenantId ?? null,
+          this.observabilityService.requestId() ?? null,
+          context?.endpoint ?? null,
+          guardrail,
+          decision,
+          JSON.stringify(details),
+        ],
+      );
+    } catch (e: unknown) {
+      Logger.error(e);
+    }
+  };
+
+  private injectionRules = (text: string) =>
+    (Object.keys(INJECTION_PATTERNS) as INJECTION_RULES[]).filter((rule) =>
+      INJECTION_PATTERNS[rule].test(text),
+    );
+
+  private strip = (text: string) =>
+    (text.match(SENTENCE_PATTERN) ?? [])
+      .filter((sentence) => !this.injectionRules(sentence).length)
+      .join('')
+      .trim();
+
+  // Personal data in the raw output was written by the model, since the prompt only held placeholders
+  private brokenRules = (raw: string, output: string) => {
+    const { moderationAction, piiAction, piiEntities, blockedTerms } =
+      this.guardrailsSettings;
+    if (moderationAction === MODERATION_ACTIONS.OFF) return [];
+
+    const rules: MODERATION_RULES[] = [];
+    if (CREDENTIALS_PATTERN.test(output)) {
+      rules.push(MODERATION_RULES.CREDENTIALS);
+    }
+    if (
+      piiAction === PII_ACTIONS.REDACT &&
+      replacePii(raw, piiEntities, () => '') !== raw
+    ) {
+      rules.push(MODERATION_RULES.GENERATED_PII);
+    }
+    const text = output.toLowerCase();
+    if (blockedTerms.some((term) => text.includes(term))) {
+      rules.push(MODERATION_RULES.BLOCKED_TERMS);
+    }
+    return rules;
+  };
+
+  private exceptionHandling = (e: unknown) => {
+    if (e instanceof HttpException) throw e;
+    Logger.error(e);
+    throw new HttpException(
+      customMessage(
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        MESSAGES.EXTERNAL_SERVER_ERROR,
+      ),
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  };
+}
@@ -0,0 +1,31 @@
+import {
+  GUARDRAIL_DECISIONS,
+  GUARDRAILS,
+} from 'src/utils/constants/guardrails.constants';
+
+/**
+ * A decision of a guardrail, as stored in the `guardrail_events` audit log.
+ *
+ * @interface GuardrailEvent
+ *
+ * @property id - Identifier of the event.
+ * @property tenant_id - The tenant the request was made for, if any.
+ * @property request_id - The correlation ID of the request, if any.
+ * @property endpoint - The route the request was made to, if any.
+ * @property guardrail - The guardrail that made the decision.
+ * @property decision - What was done with the text.
+ * @property details - What was found: the number of values of each kind of personal data, the
+ *                     injection rules matched by each chunk or the moderation rules broken. The
+ *                     matched texts themselves are never stored.
+ * @property created_at - When the decision was made.
+ */
+export interface GuardrailEvent {
+  id: string;
+  tenant_id: string | null;
+  request_id: string | null;
+  endpoint: string | null;
+  guardrail: GUARDRAILS;
+  decision: GUARDRAIL_DECISIONS;
+  details: Record<string, unknown>;
+  created_at: Date;
+}
@@ -0,0 +1,108 @@
+import { PiiRedactor, replacePii } from './pii-redactor';
+import { PII_ENTITIES } from 'src/utils/constants/guardrails.constants';
+
+const ALL_ENTITIES = Object.values(PII_ENTITIES);
+
+const found = (text: string) => {
+  const entities: string[] = [];
+  replacePii(text, ALL_ENTITIES, (entity) => {
+    entities.push(entity);
+    return '';
+  });
+  return entities;
+};
+
+describe('replacePii', () => {
+  it('only takes the card numbers passing the Luhn check', () => {
+    expect(found('Card 4111 1111 1111 1111 on file')).toEqual([
+      PII_ENTITIES.CARD_NUMBER,
+    ]);
+    expect(found('Card 4111 1111 1111 1112 on file')).toEqual([]);
+  });
+
+  it('only takes the IBANs with valid check digits', () => {
+    expect(found('Pay to GB82 WEST 1234 5698 7654 32')).toEqual([
+      PII_ENTITIES.IBAN,
+    ]);
+    expect(found('Pay to GB83 WEST 1234 5698 7654 32')).not.toContain(
+      PII_ENTITIES.IBAN,
+    );
+  });
+
+  it('takes international and grouped phone numbers but not amounts', () => {
+    expect(found('Call +44 20 7946 0958 or 555-123-4567')).toEqual([
+      PII_ENTITIES.PHONE,
+      PII_ENTITIES.PHONE,
+    ]);
+    expect(found('The fund holds 100 000 000 in bonds')).toEqual([]);
+    expect(found('Order 12-34 shipped')).toEqual([]);
+  });
+
+  it('only looks for the given kinds of personal data', () => {
+    expect(
+      replacePii(
+        'Mail jane@example.com, SSN 123-45-6789',
+        [PII_ENTITIES.SSN],
+        () => '***',
+      ),
+    ).toBe('Mail jane@example.com, SSN ***');
+  });
+});
+
+describe('PiiRedactor', () => {
+  it('gives a value the same placeholder wherever it occurs and restores it', () => {
+    const redactor = new PiiRedactor(ALL_ENTITIES, true);
+
+    const redacted = redactor.redact(
+      'Mail jane@example.com or john@example.com, then jane@example.com again',
+    );
+
+    expect(redacted).toBe('Mail [EMAIL_1] or [EMAIL_2], then [EMAIL_1] again');
+    expect(redactor.counts).toEqual({ [PII_ENTITIES.EMAIL]: 3 });
+    expect(redactor.restore('Reply to [EMAIL_2] and [EMAIL_3]')).toBe(
+      'Reply to john@example.com and [EMAIL_3]',
+    );
+  });
+
+  it('leaves the text as it is when only flagging', () => {
+    const redactor = new PiiRedactor(ALL_ENTITIES, false);
+
+    expect(redactor.redact('SSN 123-45-6789')).toBe('SSN 123-45-6789');
+    expect(redactor.counts).toEqual({ [PII_ENTITIES.SSN]: 1 });
+  });
+});
+
+describe('StreamRestorer', () => {
+  const restorer = () => {
+    const redactor = new PiiRedactor(ALL_ENTITIES, true);
+    redactor.redact('Mail jane@example.com');
+    return redactor.restorer();
+  };
+
+  it('holds back a placeholder split across tokens until it is complete', () => {
+    const streamRestorer = restorer();
+
+    const released = ['Write to [EM', 'AIL_', '1] today'].map((token) =>
+      streamRestorer.push(token),
+    );
+
+    expect(released).toEqual(['Write to ', '', 'jane@example.com today']);
+    expect(streamRestorer.raw).toBe('Write to [EMAIL_1] today');
+    expect(streamRestorer.text).toBe('Write to jane@example.com today');
+  });
+
+  it('releases a bracket that turns out not to start a placeholder', () => {
+    const streamRestorer = restorer();
+
+    expect(streamRestorer.push('See [A')).toBe('See ');
+    expect(streamRestorer.push('ppendix B]')).toBe('[Appendix B]');
+  });
+
+  it('releases the held back end of the output once the stream ends', () => {
+    const streamRestorer = restorer();
+
+    expect(streamRestorer.push('Ends with [EMAIL_1')).toBe('Ends with ');
+    expect(streamRestorer.flush()).toBe('[EMAIL_1');
+    expect(streamRestorer.text).toBe('Ends with [EMAIL_1');
+  });
+});
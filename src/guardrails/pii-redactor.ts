@@ -0,0 +1,166 @@
+import {
+  PARTIAL_PII_PLACEHOLDER_PATTERN,
+  PHONE_MAX_DIGITS,
+  PHONE_MIN_DIGITS,
+  PII_ENTITIES,
+  PII_PATTERNS,
+  PII_PLACEHOLDER_PATTERN,
+} from 'src/utils/constants/guardrails.constants';
+
+// Card numbers end with a Luhn check digit
+const isCardNumber = (value: string) => {
+  const digits = value.replace(/\D/g, '');
+  const sum = [...digits].reverse().reduce((total, digit, index) => {
+    const doubled = Number(digit) * (index % 2 ? 2 : 1);
+    return total + (doubled > 9 ? doubled - 9 : doubled);
+  }, 0);
+  return sum % 10 === 0;
+};
+
+// IBANs carry ISO 7064 MOD 97-10 check digits, computed with the country code moved to the end
+const isIban = (value: string) => {
+  const compact = value.replace(/ /g, '');
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const character of rearranged) {
+    for (const digit of String(parseInt(character, 36))) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+};
+
+// Amounts written in thousands, such as 100 000 000, are not phone numbers
+const isPhoneNumber = (value: string) => {
+  const digits = value.replace(/\D/g, '').length;
+  return (
+    digits >= PHONE_MIN_DIGITS &&
+    digits <= PHONE_MAX_DIGITS &&
+    !/^\d{1,3}(?:[ .]\d{3})+$/.test(value)
+  );
+};
+
+const PII_CHECKS: Record<PII_ENTITIES, (value: string) => boolean> = {
+  [PII_ENTITIES.EMAIL]: () => true,
+  [PII_ENTITIES.CARD_NUMBER]: isCardNumber,
+  [PII_ENTITIES.IBAN]: isIban,
+  [PII_ENTITIES.SSN]: () => true,
+  [PII_ENTITIES.PHONE]: isPhoneNumber,
+};
+
+/**
+ * Replaces every value of the given kinds of personal data in a text, in the order of PII_ENTITIES.
+ *
+ * @param {string} text - The text to search.
+ * @param {PII_ENTITIES[]} entities - The kinds of personal data to look for.
+ * @param {Function} replace - Returns the replacement of a value of the given kind.
+ * @returns The text with the values replaced.
+ */
+export const replacePii = (
+  text: string,
+  entities: PII_ENTITIES[],
+  replace: (entity: PII_ENTITIES, value: string) => string,
+) =>
+  Object.values(PII_ENTITIES)
+    .filter((entity) => entities.includes(entity))
+    .reduce(
+      (replaced, entity) =>
+        replaced.replace(PII_PATTERNS[entity], (value) =>
+          PII_CHECKS[entity](value) ? replace(entity, value) : value,
+        ),
+      text,
+    );
+
+/**
+ * Redactor of the personal data sent to the model provider by one chat model or embeddings call.
+ *
+ * Each value found is replaced with a placeholder naming its kind, such as [EMAIL_1]. A value gets
+ * the same placeholder wherever it occurs in the call, so that the model can tell the values apart
+ * and refer to them, and `restore` puts the values back in the output of the call. Placeholders are
+ * only known to the redactor of their call, so an output never restores the values of another
+ * call. When only flagging, the texts are left as they are and the values are only counted.
+ *
+ * @class PiiRedactor
+ *
+ * @property counts - The number of values found by kind, recorded in the audit log instead of the values.
+ *
+ * @method redact - Returns the text with its personal data replaced, when redacting.
+ * @method restore - Returns the text with the placeholders of this redactor replaced by their values.
+ * @method restorer - Returns a StreamRestorer restoring an output streamed token by token.
+ */
+export class PiiRedactor {
+  readonly counts: Partial<Record<PII_ENTITIES, number>> = {};
+  private placeholders = new Map<string, string>();
+  private values = new Map<string, string>();
+
+  constructor(
+    private entities: PII_ENTITIES[],
+    private replace: boolean,
+  ) {}
+
+  redact(text: string) {
+    const redacted = replacePii(text, this.entities, this.placeholder);
+    return this.replace ? redacted : text;
+  }
+
+  restore(text: string) {
+    return text.replace(
+      PII_PLACEHOLDER_PATTERN,
+      (placeholder) => this.values.get(placeholder) ?? placeholder,
+    );
+  }
+
+  restorer() {
+    return new StreamRestorer(this);
+  }
+
+  private placeholder = (entity: PII_ENTITIES, value: string) => {
+    this.counts[entity] = (this.counts[entity] ?? 0) + 1;
+    const known = this.placeholders.get(value);
+    if (known) return known;
+
+    const number =
+      [...this.placeholders.values()].filter((placeholder) =>
+        placeholder.startsWith(`[${entity.toUpperCase()}_`),
+      ).length + 1;
+    const placeholder = `[${entity.toUpperCase()}_${number}]`;
+    this.placeholders.set(value, placeholder);
+    this.values.set(placeholder, value);
+    return placeholder;
+  };
+}
+
+/**
+ * Restores the placeholders of an output streamed token by token. A placeholder can be split across
+ * tokens, so the end of the output that may start one is held back until the next token completes
+ * or rules it out, and is released by `flush` once the stream ends.
+ *
+ * @property raw - The output received so far, as the model wrote it.
+ * @property text - The output released so far, restored.
+ */
+export class StreamRestorer {
+  raw = '';
+  text = '';
+  private pending = '';
+
+  constructor(private redactor: PiiRedactor) {}
+
+  push(token: string) {
+    this.raw += token;
+    const pending = this.pending + token;
+    this.pending = pending.match(PARTIAL_PII_PLACEHOLDER_PATTERN)?.[0] ?? '';
+    return this.release(pending.slice(0, pending.length - this.pending.length));
+  }
+
+  flush() {
+    const pending = this.pending;
+    this.pending = '';
+    return this.release(pending);
+  }
+
+  private release = (text: string) => {
+    const restored = this.redactor.restore(text);
+    this.text += restored;
+    return restored;
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * Data Transfer Objects for the agent chats, adding the choice of the tools the agent can call.
+ *
+ * @class AgentChatDto - Messages of an agent chat, see ContextAwareMessagesDto.
+ * @class ConversationAgentChatDto - New message of an agent chat within a stored conversation,
+ *                                   see ConversationMessageDto.
+ *
+ * @property tools - Optional names of the enabled tools, e.g., ['document_search', 'calculator'].
+ *                   The configured default tools are enabled when omitted.
+ */
+import { ArrayNotEmpty, IsArray, IsOptional, IsString } from 'class-validator';
+import { ContextAwareMessagesDto } from './context-aware-messages.dto';
+import { ConversationMessageDto } from './conversation-message.dto';
+
+export class AgentChatDto extends ContextAwareMessagesDto {
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  tools?: string[];
+}
+
+export class ConversationAgentChatDto extends ConversationMessageDto {
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  tools?: string[];
+}
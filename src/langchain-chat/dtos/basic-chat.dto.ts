@@ -0,0 +1,15 @@
+/**
+ * Data Transfer Object for basic chat.
+ *
+ * Combines BasicMessageDto with the settings of the response cache, see ResponseCacheSettingsDto.
+ *
+ * @class BasicChatDto
+ */
+import { IntersectionType } from '@nestjs/mapped-types';
+import { BasicMessageDto } from './basic-message.dto';
+import { ResponseCacheSettingsDto } from './response-cache-settings.dto';
+
+export class BasicChatDto extends IntersectionType(
+  BasicMessageDto,
+  ResponseCacheSettingsDto,
+) {}
@@ -10,11 +10,31 @@
  *
  * @property user_query - The query string provided by the user.
  *                        It must be a non-empty string.
+ * @property model_options - Optional overrides of the chat model settings, see ModelOptionsDto.
+ * @property prompt_template - Optional stored prompt template, by name and version, replacing the route's built-in one.
  */
-import { IsNotEmpty, IsString } from 'class-validator';
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ModelOptionsDto } from './model-options.dto';
+import { PromptTemplateSelectionDto } from 'src/prompt-templates/dtos/prompt-template-selection.dto';
 
 export class BasicMessageDto {
   @IsNotEmpty()
   @IsString()
   user_query: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ModelOptionsDto)
+  model_options?: ModelOptionsDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PromptTemplateSelectionDto)
+  prompt_template?: PromptTemplateSelectionDto;
 }
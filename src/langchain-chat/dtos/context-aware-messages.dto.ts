@@ -1,4 +1,14 @@
-import { IsArray, IsNotEmpty, IsString } from 'class-validator';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ModelOptionsDto } from './model-options.dto';
+import { PromptTemplateSelectionDto } from 'src/prompt-templates/dtos/prompt-template-selection.dto';
 
 /**
  * Data Transfer Object for an individual message.
@@ -33,11 +43,25 @@ export class MessageDto {
  *
  * @class ContextAwareMessagesDto
  *
- * @property messages - An array of MessageDto objects.
- *                      It is validated to be a non-empty array.
+ * @property messages - An array of MessageDto objects, the last one being the current message.
+ *                      It is validated to be a non-empty array of valid messages.
+ * @property model_options - Optional overrides of the chat model settings, see ModelOptionsDto.
+ * @property prompt_template - Optional stored prompt template, by name and version, replacing the route's built-in one.
  */
 export class ContextAwareMessagesDto {
-  @IsNotEmpty()
   @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => MessageDto)
   messages: MessageDto[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ModelOptionsDto)
+  model_options?: ModelOptionsDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PromptTemplateSelectionDto)
+  prompt_template?: PromptTemplateSelectionDto;
 }
@@ -0,0 +1,43 @@
+/**
+ * Data Transfer Object for a message sent to a stored conversation.
+ *
+ * Instead of resending the whole chat history like ContextAwareMessagesDto, the client
+ * only sends the identifier of the conversation and the new user message; the history
+ * is loaded from the database.
+ *
+ * @class ConversationMessageDto
+ *
+ * @property conversation_id - The identifier of an existing conversation. It must be a UUID.
+ * @property user_query - The new message of the user. It must be a non-empty string.
+ * @property model_options - Optional overrides of the chat model settings, see ModelOptionsDto.
+ * @property prompt_template - Optional stored prompt template, by name and version, replacing the route's built-in one.
+ */
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ModelOptionsDto } from './model-options.dto';
+import { PromptTemplateSelectionDto } from 'src/prompt-templates/dtos/prompt-template-selection.dto';
+
+export class ConversationMessageDto {
+  @IsUUID()
+  conversation_id: string;
+
+  @IsNotEmpty()
+  @IsString()
+  user_query: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ModelOptionsDto)
+  model_options?: ModelOptionsDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PromptTemplateSelectionDto)
+  prompt_template?: PromptTemplateSelectionDto;
+}
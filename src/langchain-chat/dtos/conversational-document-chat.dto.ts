@@ -0,0 +1,17 @@
+/**
+ * Data Transfer Object for conversational document chat.
+ *
+ * Combines the chat history of ContextAwareMessagesDto, whose last message is the question to
+ * answer, with optional settings that scope and tune the retrieval of the document chunks the
+ * answer is based on, see RetrievalSettingsDto.
+ *
+ * @class ConversationalDocumentChatDto
+ */
+import { IntersectionType } from '@nestjs/mapped-types';
+import { ContextAwareMessagesDto } from './context-aware-messages.dto';
+import { RetrievalSettingsDto } from './retrieval-settings.dto';
+
+export class ConversationalDocumentChatDto extends IntersectionType(
+  ContextAwareMessagesDto,
+  RetrievalSettingsDto,
+) {}
@@ -0,0 +1,19 @@
+/**
+ * Data Transfer Object for document-context chat.
+ *
+ * Combines BasicMessageDto with optional settings that scope and tune the retrieval of the
+ * document chunks the answer is based on, see RetrievalSettingsDto, and with the settings of the
+ * response cache, see ResponseCacheSettingsDto.
+ *
+ * @class DocumentChatDto
+ */
+import { IntersectionType } from '@nestjs/mapped-types';
+import { BasicMessageDto } from './basic-message.dto';
+import { RetrievalSettingsDto } from './retrieval-settings.dto';
+import { ResponseCacheSettingsDto } from './response-cache-settings.dto';
+
+export class DocumentChatDto extends IntersectionType(
+  BasicMessageDto,
+  RetrievalSettingsDto,
+  ResponseCacheSettingsDto,
+) {}
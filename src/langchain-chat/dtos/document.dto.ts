@@ -9,8 +9,10 @@
  * @class DocumentDto
  *
  * @property file - The file string to be used for filename.
+ * @property chunking_strategy, chunk_size, chunk_overlap, ... - Optional ingestion settings, see IngestionSettingsDto.
  */
+import { IngestionSettingsDto } from 'src/documents/dtos/ingestion-settings.dto';
 
-export class DocumentDto {
+export class DocumentDto extends IngestionSettingsDto {
   file: string;
 }
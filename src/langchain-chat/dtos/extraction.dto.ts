@@ -0,0 +1,42 @@
+/**
+ * Data Transfer Object for structured extraction.
+ *
+ * Combines BasicMessageDto, whose `user_query` describes the data to extract, with the settings of the
+ * optional document retrieval, see RetrievalSettingsDto.
+ *
+ * @class ExtractionDto
+ *
+ * @property json_schema - The JSON Schema the extracted data must validate against. It must be an object.
+ * @property use_documents - Whether to ground the extraction in the document chunks retrieved for the query.
+ * @property max_retries - Repair attempts when the output does not validate, between 0 and MAX_EXTRACTION_RETRIES.
+ */
+import { IntersectionType } from '@nestjs/mapped-types';
+import {
+  IsBoolean,
+  IsInt,
+  IsObject,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { MAX_EXTRACTION_RETRIES } from 'src/utils/constants/extraction.constants';
+import { BasicMessageDto } from './basic-message.dto';
+import { RetrievalSettingsDto } from './retrieval-settings.dto';
+
+export class ExtractionDto extends IntersectionType(
+  BasicMessageDto,
+  RetrievalSettingsDto,
+) {
+  @IsObject()
+  json_schema: Record<string, unknown>;
+
+  @IsOptional()
+  @IsBoolean()
+  use_documents?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_EXTRACTION_RETRIES)
+  max_retries?: number;
+}
@@ -0,0 +1,45 @@
+/**
+ * Data Transfer Object for per-request chat model settings.
+ *
+ * Every property is optional and overrides the configured default of ModelProviderService.
+ *
+ * @class ModelOptionsDto
+ *
+ * @property provider - Model provider, e.g., 'openai', 'anthropic', 'openai-compatible', 'fake'.
+ * @property model - Name of the model, as known by the provider.
+ * @property temperature - Randomness of the responses, between 0 and 2.
+ * @property max_tokens - Maximum number of tokens of the response. It must be a positive integer.
+ */
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { MODEL_PROVIDERS } from 'src/utils/constants/model-providers.constants';
+
+export class ModelOptionsDto {
+  @IsOptional()
+  @IsEnum(MODEL_PROVIDERS)
+  provider?: MODEL_PROVIDERS;
+
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  model?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(2)
+  temperature?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  max_tokens?: number;
+}
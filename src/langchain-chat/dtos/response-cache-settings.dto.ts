@@ -0,0 +1,15 @@
+/**
+ * Data Transfer Object for the response cache settings of the cached chat routes.
+ *
+ * @class ResponseCacheSettingsDto
+ *
+ * @property bypass_cache - Whether to skip the response cache lookup and have the model answer; the
+ *                          new answer then replaces the cached one. It must be a boolean.
+ */
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class ResponseCacheSettingsDto {
+  @IsOptional()
+  @IsBoolean()
+  bypass_cache?: boolean;
+}
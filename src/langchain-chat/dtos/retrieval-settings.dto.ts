@@ -0,0 +1,75 @@
+/**
+ * Data Transfer Object for the settings that scope and tune the retrieval of document chunks.
+ *
+ * Shared by the document-chat routes. Omitted settings fall back to DEFAULT_RETRIEVAL_OPTIONS.
+ *
+ * @class RetrievalSettingsDto
+ *
+ * @property document_ids - Only search the chunks of these documents. Each must be a UUID.
+ * @property filter - Only search chunks whose metadata contains these key/value pairs,
+ *                    e.g., { "source": "manual.pdf" }.
+ * @property k - Number of chunks to retrieve, between 1 and MAX_RETRIEVAL_K.
+ * @property min_score - Minimum similarity score of a retrieved chunk, between 0 and 1. Only allowed in vector mode: a request
+ *                      setting it for a keyword or hybrid retrieval gets a 400 response.
+ * @property search_type - 'similarity' (default) or 'mmr' for maximal marginal relevance, in vector mode.
+ * @property retrieval_mode - 'vector' (default), 'keyword' for full-text search, or 'hybrid' for both.
+ * @property vector_weight - Weight of the vector results in hybrid mode. It must be non-negative.
+ * @property keyword_weight - Weight of the keyword results in hybrid mode. It must be non-negative.
+ */
+import {
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  MAX_RETRIEVAL_K,
+  RETRIEVAL_MODES,
+  SEARCH_TYPES,
+} from 'src/utils/constants/retrieval.constants';
+
+export class RetrievalSettingsDto {
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  document_ids?: string[];
+
+  @IsOptional()
+  @IsObject()
+  filter?: Record<string, unknown>;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_RETRIEVAL_K)
+  k?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  min_score?: number;
+
+  @IsOptional()
+  @IsEnum(SEARCH_TYPES)
+  search_type?: SEARCH_TYPES;
+
+  @IsOptional()
+  @IsEnum(RETRIEVAL_MODES)
+  retrieval_mode?: RETRIEVAL_MODES;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  vector_weight?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  keyword_weight?: number;
+}
@@ -0,0 +1,16 @@
+/**
+ * Data Transfer Object for the query string of the streaming chat endpoints.
+ *
+ * @class StreamQueryDto
+ *
+ * @property protocol - The wire protocol used for the stream, either Server-Sent Events
+ *                      ('sse', the default) or the Vercel AI data-stream protocol ('data-stream').
+ */
+import { IsEnum, IsOptional } from 'class-validator';
+import { STREAM_PROTOCOLS } from 'src/utils/constants/stream.constants';
+
+export class StreamQueryDto {
+  @IsOptional()
+  @IsEnum(STREAM_PROTOCOLS)
+  protocol?: STREAM_PROTOCOLS;
+}
@@ -0,0 +1,20 @@
+/**
+ * A source of a document-chat answer. The answer refers to it with its marker, e.g., [1].
+ *
+ * @interface Citation
+ *
+ * @property marker - Number of the source, as used in the inline markers of the answer.
+ * @property document_id - Identifier of the document in the documents library.
+ * @property document_name - Original filename of the document.
+ * @property page_number - Page of the chunk, for formats that have pages.
+ * @property snippet - Beginning of the chunk's text.
+ * @property score - Relevance score of the chunk for the retrieval mode used, see RetrievedChunk.
+ */
+export interface Citation {
+  marker: number;
+  document_id: string;
+  document_name: string;
+  page_number?: number;
+  snippet: string;
+  score: number;
+}
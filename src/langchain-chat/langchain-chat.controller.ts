@@ -4,14 +4,16 @@
  * Handles HTTP requests for basic, context-aware, and document-context chat interactions,
  * and for uploading documents in the Langchain application. This controller is responsible for
  * validating incoming request data and orchestrating chat interactions through the LangchainChatService.
- * It supports endpoints for initiating basic chat, context-aware chat, uploading documents (specifically PDFs),
+ * It supports endpoints for initiating basic chat, context-aware chat, uploading documents (PDF, Markdown, HTML, DOCX, plain-text, CSV and JSON),
  * and conducting chats with document context, ensuring a versatile chat service experience.
+ * Every route requires an API key; the routes touching documents, conversations or agent tools pass the ID of
+ * the key's tenant, read with `@TenantId()`, so that they only see that tenant's data.
  *
  * @class LangchainChatController
  *
- * @method basicChat - Initiates a basic chat interaction. Accepts POST requests with a BasicMessageDto to capture the user's message.
- *                     Processes the chat through LangchainChatService.
- * @param {BasicMessageDto} messagesDto - DTO for the user's message.
+ * @method basicChat - Initiates a basic chat interaction. Accepts POST requests with a BasicChatDto to capture the user's message.
+ *                     Processes the chat through LangchainChatService, which may serve a cached answer unless `bypass_cache` is set.
+ * @param {BasicChatDto} basicChatDto - DTO for the user's message and the response cache settings.
  * @returns Processed chat response from the LangchainChatService.
  *
  * @method contextAwareChat - Initiates a context-aware chat interaction. Accepts POST requests with a ContextAwareMessagesDto to manage chat context.
@@ -19,17 +21,53 @@
  * @param {ContextAwareMessagesDto} contextAwareMessagesDto - DTO for managing chat context.
  * @returns Contextual chat response from the LangchainChatService.
  *
- * @method loadPDF - Handles the uploading of a PDF document. Utilizes FileInterceptor for handling file uploads and processes the uploaded PDF through LangchainChatService.
+ * @method loadDocument - Handles the uploading of a document. Utilizes FileInterceptor, with the storage and size limit registered in LangchainChatModule, for handling file uploads and processes the uploaded document through LangchainChatService.
+ *                        UploadCleanupInterceptor deletes the stored file when the request fails, validation of the DTO included.
  * @param {DocumentDto} documentDto - DTO for the document information, adjusted to include the uploaded file's name.
  * @param {Express.Multer.File} file - Uploaded file object.
- * @returns Response from the LangchainChatService after processing the uploaded PDF.
+ * @returns A 202 response from the LangchainChatService with the registered document and its queued ingestion job.
  *
- * @method documentChat - Initiates a document-context chat interaction. Accepts POST requests with a BasicMessageDto, using document context for enriched chat responses.
- *                        Processes the chat through LangchainChatService.
- * @param {BasicMessageDto} messagesDto - DTO for the user's message.
+ * @method previewChunks - Shows the chunks an uploaded document would be split into with the chunking strategy and settings of the
+ *                         DocumentDto, without registering or storing it. Only the semantic strategy calls the embeddings model, to
+ *                         find its breakpoints. Accepts the same multipart requests as loadDocument.
+ * @param {DocumentDto} documentDto - DTO for the document information and ingestion settings.
+ * @param {Express.Multer.File} file - Uploaded file object.
+ * @returns The settings used and the chunks, with their text and metadata.
+ *
+ * @method documentChat - Initiates a document-context chat interaction. Accepts POST requests with a DocumentChatDto, using document context for enriched chat responses.
+ *                        The DTO can limit the search to given documents or metadata, and tune the number of chunks, the minimum score and the search type.
+ *                        Processes the chat through LangchainChatService, which may serve a cached answer unless `bypass_cache` is set.
+ * @param {DocumentChatDto} documentChatDto - DTO for the user's message, retrieval settings and response cache settings.
  * @returns Document-contextual chat response from the LangchainChatService.
  *
- * This controller uses decorators to define routes and their configurations, ensuring proper request handling and response formatting. It also integrates file upload handling for PDF documents, enabling document-context chat functionalities.
+ * @method conversationalDocumentChat - Initiates a document-context chat that understands follow-up questions. Accepts POST requests with a
+ *                                      ConversationalDocumentChatDto holding the chat history and retrieval settings. The latest question is
+ *                                      rewritten into a standalone query before the documents are searched; the response includes that query.
+ * @param {ConversationalDocumentChatDto} conversationalDocumentChatDto - DTO for the messages and retrieval settings.
+ * @returns The answer, its citations and the standalone query from the LangchainChatService.
+ *
+ * @method extract - Extracts structured data. Accepts POST requests with an ExtractionDto holding the query, the JSON Schema the data
+ *                   must match and, optionally, the retrieval settings to ground it in documents.
+ * @param {ExtractionDto} extractionDto - DTO for the query, the JSON Schema, the retry limit and the retrieval settings.
+ * @returns The validated data from the LangchainChatService, or a 422 response when the model output never matched the schema.
+ *
+ * @method agentChat - Initiates an agent chat. Accepts POST requests with an AgentChatDto holding the messages and the names of
+ *                     the tools the agent may call. The response holds the answer and the tool calls made, with their input, output and timing.
+ * @param {AgentChatDto} agentChatDto - DTO for the messages and the enabled tools.
+ * @returns The agent's answer and intermediate steps from the LangchainChatService.
+ *
+ * @method conversationChat, conversationAgentChat - Context-aware and agent chat within a stored conversation. Accept POST requests with a
+ *         ConversationMessageDto holding the conversation ID and only the new user message; the reply is appended to the conversation.
+ * @param {ConversationMessageDto} conversationMessageDto - DTO for the conversation ID and the new user message.
+ * @returns The assistant reply from the LangchainChatService.
+ *
+ * @method streamBasicChat, streamContextAwareChat, streamDocumentChat, streamAgentChat - Streaming variants of the chat routes, served under `<route>/stream`.
+ *         Tokens are written as they are generated, as Server-Sent Events or in the Vercel AI data-stream protocol depending on the `protocol` query parameter.
+ *         The agent route additionally streams tool-call events, and its intermediate steps before the stream ends. Closing the connection aborts the upstream model call.
+ * @param {StreamQueryDto} streamQueryDto - DTO for the requested stream protocol.
+ * @param {Response} response - Express response the stream is written to.
+ *
+ * This controller uses decorators to define routes and their configurations, ensuring proper request handling and response formatting. It also integrates file upload handling for documents, enabling document-context chat functionalities.
  */
 
 import {
@@ -37,17 +75,27 @@ import {
   Controller,
   HttpCode,
   Post,
+  Query,
+  Res,
   UploadedFile,
   UseInterceptors,
 } from '@nestjs/common';
 import { LangchainChatService } from './langchain-chat.service';
 import { BasicMessageDto } from './dtos/basic-message.dto';
+import { BasicChatDto } from './dtos/basic-chat.dto';
 import { ContextAwareMessagesDto } from './dtos/context-aware-messages.dto';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { extname } from 'path';
 import { DocumentDto } from './dtos/document.dto';
-import { diskStorage } from 'multer';
-import { PDF_BASE_PATH } from 'src/utils/constants/common.constants';
+import { Response } from 'express';
+import { StreamQueryDto } from './dtos/stream-query.dto';
+import streamResponse from 'src/utils/responses/stream.response';
+import { ConversationMessageDto } from './dtos/conversation-message.dto';
+import { DocumentChatDto } from './dtos/document-chat.dto';
+import { ConversationalDocumentChatDto } from './dtos/conversational-document-chat.dto';
+import { AgentChatDto, ConversationAgentChatDto } from './dtos/agent-chat.dto';
+import { ExtractionDto } from './dtos/extraction.dto';
+import { TenantId } from 'src/auth/decorators/tenant-id.decorator';
+import { UploadCleanupInterceptor } from './upload-cleanup.interceptor';
 
 @Controller('langchain-chat')
 export class LangchainChatController {
@@ -55,55 +103,180 @@ export class LangchainChatController {
 
   @Post('basic-chat')
   @HttpCode(200)
-  async basicChat(@Body() messagesDto: BasicMessageDto) {
-    return await this.langchainChatService.basicChat(messagesDto);
+  async basicChat(
+    @Body() basicChatDto: BasicChatDto,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.langchainChatService.basicChat(basicChatDto, tenantId);
   }
 
   @Post('context-aware-chat')
   @HttpCode(200)
   async contextAwareChat(
     @Body() contextAwareMessagesDto: ContextAwareMessagesDto,
+    @TenantId() tenantId: string,
   ) {
     return await this.langchainChatService.contextAwareChat(
       contextAwareMessagesDto,
+      tenantId,
     );
   }
 
   @Post('upload-document')
-  @UseInterceptors(
-    FileInterceptor('file', {
-      storage: diskStorage({
-        destination: PDF_BASE_PATH,
-        filename: (req, file, callback) => {
-          const randomName = Array(32)
-            .fill(null)
-            .map(() => Math.round(Math.random() * 16).toString(16))
-            .join('');
-          callback(null, `${randomName}${extname(file.originalname)}`);
-        },
-      }),
-    }),
-  )
+  @UseInterceptors(FileInterceptor('file'), UploadCleanupInterceptor)
+  @HttpCode(202)
+  async loadDocument(
+    @Body() documentDto: DocumentDto,
+    @UploadedFile() file: Express.Multer.File,
+    @TenantId() tenantId: string,
+  ) {
+    if (file?.filename) {
+      documentDto.file = file.filename;
+    }
+    return await this.langchainChatService.uploadDocument(
+      documentDto,
+      file,
+      tenantId,
+    );
+  }
+
+  @Post('preview-chunks')
+  @UseInterceptors(FileInterceptor('file'), UploadCleanupInterceptor)
   @HttpCode(200)
-  async loadPDF(
+  async previewChunks(
     @Body() documentDto: DocumentDto,
     @UploadedFile() file: Express.Multer.File,
+    @TenantId() tenantId: string,
   ) {
-    if (file.filename) {
+    if (file?.filename) {
       documentDto.file = file.filename;
     }
-    return await this.langchainChatService.uploadPDF(documentDto);
+    return await this.langchainChatService.previewChunks(
+      documentDto,
+      file,
+      tenantId,
+    );
   }
 
   @Post('document-chat')
   @HttpCode(200)
-  async documentChat(@Body() messagesDto: BasicMessageDto) {
-    return await this.langchainChatService.documentChat(messagesDto);
+  async documentChat(
+    @Body() documentChatDto: DocumentChatDto,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.langchainChatService.documentChat(
+      documentChatDto,
+      tenantId,
+    );
+  }
+
+  @Post('conversational-document-chat')
+  @HttpCode(200)
+  async conversationalDocumentChat(
+    @Body() conversationalDocumentChatDto: ConversationalDocumentChatDto,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.langchainChatService.conversationalDocumentChat(
+      conversationalDocumentChatDto,
+      tenantId,
+    );
+  }
+
+  @Post('extract')
+  @HttpCode(200)
+  async extract(
+    @Body() extractionDto: ExtractionDto,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.langchainChatService.extract(extractionDto, tenantId);
   }
 
   @Post('agent-chat')
   @HttpCode(200)
-  async agentChat(@Body() contextAwareMessagesDto: ContextAwareMessagesDto) {
-    return await this.langchainChatService.agentChat(contextAwareMessagesDto);
+  async agentChat(
+    @Body() agentChatDto: AgentChatDto,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.langchainChatService.agentChat(agentChatDto, tenantId);
+  }
+
+  @Post('conversation-chat')
+  @HttpCode(200)
+  async conversationChat(
+    @Body() conversationMessageDto: ConversationMessageDto,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.langchainChatService.conversationChat(
+      conversationMessageDto,
+      tenantId,
+    );
+  }
+
+  @Post('conversation-agent-chat')
+  @HttpCode(200)
+  async conversationAgentChat(
+    @Body() conversationAgentChatDto: ConversationAgentChatDto,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.langchainChatService.conversationAgentChat(
+      conversationAgentChatDto,
+      tenantId,
+    );
+  }
+
+  @Post('basic-chat/stream')
+  async streamBasicChat(
+    @Body() messagesDto: BasicMessageDto,
+    @Query() streamQueryDto: StreamQueryDto,
+    @TenantId() tenantId: string,
+    @Res() response: Response,
+  ) {
+    await this.langchainChatService.streamBasicChat(
+      messagesDto,
+      tenantId,
+      streamResponse(response, streamQueryDto.protocol),
+    );
+  }
+
+  @Post('context-aware-chat/stream')
+  async streamContextAwareChat(
+    @Body() contextAwareMessagesDto: ContextAwareMessagesDto,
+    @Query() streamQueryDto: StreamQueryDto,
+    @TenantId() tenantId: string,
+    @Res() response: Response,
+  ) {
+    await this.langchainChatService.streamContextAwareChat(
+      contextAwareMessagesDto,
+      tenantId,
+      streamResponse(response, streamQueryDto.protocol),
+    );
+  }
+
+  @Post('document-chat/stream')
+  async streamDocumentChat(
+    @Body() documentChatDto: DocumentChatDto,
+    @Query() streamQueryDto: StreamQueryDto,
+    @TenantId() tenantId: string,
+    @Res() response: Response,
+  ) {
+    await this.langchainChatService.streamDocumentChat(
+      documentChatDto,
+      tenantId,
+      streamResponse(response, streamQueryDto.protocol),
+    );
+  }
+
+  @Post('agent-chat/stream')
+  async streamAgentChat(
+    @Body() agentChatDto: AgentChatDto,
+    @Query() streamQueryDto: StreamQueryDto,
+    @TenantId() tenantId: string,
+    @Res() response: Response,
+  ) {
+    await this.langchainChatService.streamAgentChat(
+      agentChatDto,
+      tenantId,
+      streamResponse(response, streamQueryDto.protocol),
+    );
   }
 }
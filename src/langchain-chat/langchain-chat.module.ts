@@ -1,10 +1,47 @@
 import { Module } from '@nestjs/common';
+import { MulterModule } from '@nestjs/platform-express';
+import { diskStorage } from 'multer';
+import { mkdirSync } from 'fs';
+import { extname, join } from 'path';
 import { LangchainChatService } from './langchain-chat.service';
 import { LangchainChatController } from './langchain-chat.controller';
-import { VectorStoreService } from 'src/services/vector-store.service';
+import { ConversationsModule } from 'src/conversations/conversations.module';
+import { DocumentsModule } from 'src/documents/documents.module';
+import { PromptTemplatesModule } from 'src/prompt-templates/prompt-templates.module';
+import { AgentToolsModule } from 'src/agent-tools/agent-tools.module';
+import { UploadsConfig, uploadsConfig } from 'src/config/uploads.config';
+import { AuthenticatedRequest } from 'src/auth/interfaces/api-key.interface';
 
 @Module({
+  imports: [
+    ConversationsModule,
+    DocumentsModule,
+    PromptTemplatesModule,
+    AgentToolsModule,
+    // Uploaded documents are stored under a random name in the tenant's subdirectory of the configured directory
+    MulterModule.registerAsync({
+      inject: [uploadsConfig.KEY],
+      useFactory: ({ directory, maxFileSize }: UploadsConfig) => ({
+        storage: diskStorage({
+          destination: (req: AuthenticatedRequest, file, callback) => {
+            const tenantDirectory = join(directory, req.auth.tenantId);
+            mkdirSync(tenantDirectory, { recursive: true });
+            callback(null, tenantDirectory);
+          },
+          filename: (req, file, callback) => {
+            const randomName = Array(32)
+              .fill(null)
+              .map(() => Math.round(Math.random() * 16).toString(16))
+              .join('');
+            callback(null, `${randomName}${extname(file.originalname)}`);
+          },
+        }),
+        limits: { fileSize: maxFileSize },
+      }),
+    }),
+  ],
   controllers: [LangchainChatController],
-  providers: [LangchainChatService, VectorStoreService],
+  providers: [LangchainChatService],
+  exports: [LangchainChatService],
 })
 export class LangchainChatModule {}
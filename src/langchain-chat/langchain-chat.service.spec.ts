@@ -0,0 +1,314 @@
+import {
+  BadRequestException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { BaseMessage } from '@langchain/core/messages';
+import { LangchainChatService } from './langchain-chat.service';
+import { VectorStoreService } from 'src/services/vector-store.service';
+import { ConversationsService } from 'src/conversations/conversations.service';
+import { DocumentsService } from 'src/documents/documents.service';
+import { DocumentLoaderRegistry } from 'src/documents/document-loader.registry';
+import { ModelProviderService } from 'src/services/model-provider.service';
+import { PromptTemplatesService } from 'src/prompt-templates/prompt-templates.service';
+import { AgentToolRegistry } from 'src/agent-tools/agent-tool.registry';
+import { UsageService } from 'src/usage/usage.service';
+import { ResponseCacheService } from 'src/services/response-cache.service';
+import { ObservabilityService } from 'src/observability/observability.service';
+import { uploadsConfig } from 'src/config/uploads.config';
+import { BUILT_IN_PROMPT_TEMPLATES } from 'src/utils/constants/prompt-templates.constants';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import { RETRIEVAL_MODES } from 'src/utils/constants/retrieval.constants';
+import { vercelRoles } from 'src/utils/constants/openAI.constants';
+
+const jsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    refund_days: { type: 'integer' },
+  },
+  required: ['name', 'refund_days'],
+  additionalProperties: false,
+};
+
+describe('LangchainChatService', () => {
+  let service: LangchainChatService;
+  let getChatModel: jest.Mock;
+  let search: jest.Mock;
+  // The prompts the chat model received, in order
+  let prompts: string[];
+
+  const answering = (...responses: string[]) => {
+    const chatModel = new FakeListChatModel({ responses });
+    const generate = chatModel._generate.bind(chatModel);
+    chatModel._generate = (messages: BaseMessage[], ...rest) => {
+      prompts.push(messages.map(({ content }) => content).join('\n'));
+      return generate(messages, ...rest);
+    };
+    getChatModel.mockReturnValue(chatModel);
+  };
+
+  beforeEach(async () => {
+    prompts = [];
+    getChatModel = jest.fn();
+    search = jest.fn().mockResolvedValue([]);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        LangchainChatService,
+        { provide: VectorStoreService, useValue: { search } },
+        { provide: ConversationsService, useValue: {} },
+        { provide: DocumentsService, useValue: {} },
+        { provide: DocumentLoaderRegistry, useValue: {} },
+        { provide: ModelProviderService, useValue: { getChatModel } },
+        {
+          provide: PromptTemplatesService,
+          useValue: {
+            resolve: async (name: string) => ({
+              template: BUILT_IN_PROMPT_TEMPLATES[name],
+            }),
+            assertInputs: () => undefined,
+          },
+        },
+        { provide: AgentToolRegistry, useValue: {} },
+        { provide: UsageService, useValue: { currentUsage: () => ({}) } },
+        { provide: ResponseCacheService, useValue: {} },
+        { provide: ObservabilityService, useValue: { runConfig: () => ({}) } },
+        { provide: uploadsConfig.KEY, useValue: {} },
+      ],
+    }).compile();
+
+    service = moduleRef.get(LangchainChatService);
+  });
+
+  describe('documentChat', () => {
+    it.each([RETRIEVAL_MODES.KEYWORD, RETRIEVAL_MODES.HYBRID])(
+      'rejects a minimum score in %s mode',
+      async (retrievalMode) => {
+        const error = await service
+          .documentChat(
+            {
+              user_query: 'What is the refund window?',
+              retrieval_mode: retrievalMode,
+              min_score: 0.5,
+            },
+            'tenant-1',
+          )
+          .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(BadRequestException);
+        expect((error as BadRequestException).getResponse()).toMatchObject({
+          error_code: 'MIN_SCORE_REQUIRES_VECTOR_MODE',
+        });
+      },
+    );
+  });
+
+  describe('answerFromDocuments', () => {
+    it('cites the sources by the numbers they are given in the prompt, with their page', async () => {
+      search.mockResolvedValue([
+        {
+          id: 'chunk-1',
+          pageContent: 'Refunds take 30 days.',
+          metadata: {
+            documentId: 'document-1',
+            source: 'policy.pdf',
+            pageNumber: 3,
+          },
+          score: 0.9,
+        },
+        {
+          id: 'chunk-2',
+          pageContent: 'Shipping is free.',
+          metadata: { documentId: 'document-2', source: 'faq.md' },
+          score: 0.8,
+        },
+      ]);
+      answering('Refunds take 30 days [1].');
+
+      const { citations } = await service.answerFromDocuments(
+        { user_query: 'What is the refund window?' },
+        'tenant-1',
+      );
+
+      expect(prompts[0]).toContain(
+        '[1] (policy.pdf, page 3)\nRefunds take 30 days.\n\n[2] (faq.md)\nShipping is free.',
+      );
+      expect(citations).toEqual([
+        {
+          marker: 1,
+          document_id: 'document-1',
+          document_name: 'policy.pdf',
+          page_number: 3,
+          snippet: 'Refunds take 30 days.',
+          score: 0.9,
+        },
+        {
+          marker: 2,
+          document_id: 'document-2',
+          document_name: 'faq.md',
+          page_number: undefined,
+          snippet: 'Shipping is free.',
+          score: 0.8,
+        },
+      ]);
+    });
+  });
+
+  describe('conversationalDocumentChat', () => {
+    const question = {
+      role: vercelRoles.user,
+      content: 'What is the refund window?',
+    };
+    const followUp = [
+      question,
+      { role: vercelRoles.assistant, content: 'Refunds take 30 days.' },
+      { role: vercelRoles.user, content: 'And for gift cards?' },
+    ];
+
+    it('retrieves with the standalone rewrite of a follow-up question', async () => {
+      answering(
+        'What is the refund window for gift cards?',
+        'Gift cards are not refunded.',
+      );
+
+      const response = await service.conversationalDocumentChat(
+        { messages: followUp },
+        'tenant-1',
+      );
+
+      expect(prompts[0]).toContain('Refunds take 30 days.');
+      expect(prompts[0]).toContain('And for gift cards?');
+      expect(getChatModel.mock.calls[0][0]).toMatchObject({ temperature: 0 });
+      expect(search).toHaveBeenCalledWith(
+        'What is the refund window for gift cards?',
+        'tenant-1',
+        expect.anything(),
+      );
+      expect(response).toMatchObject({
+        data: {
+          answer: 'Gift cards are not refunded.',
+          standalone_query: 'What is the refund window for gift cards?',
+        },
+      });
+    });
+
+    it('retrieves with a first question as it is, without rewriting it', async () => {
+      answering('Refunds take 30 days.');
+
+      await service.conversationalDocumentChat(
+        { messages: [question] },
+        'tenant-1',
+      );
+
+      expect(prompts).toHaveLength(1);
+      expect(search).toHaveBeenCalledWith(
+        'What is the refund window?',
+        'tenant-1',
+        expect.anything(),
+      );
+    });
+
+    it('falls back to the question when the rewrite is empty', async () => {
+      answering('  ', 'Gift cards are not refunded.');
+
+      const response = await service.conversationalDocumentChat(
+        { messages: followUp },
+        'tenant-1',
+      );
+
+      expect(search).toHaveBeenCalledWith(
+        'And for gift cards?',
+        'tenant-1',
+        expect.anything(),
+      );
+      expect(response).toMatchObject({
+        data: { standalone_query: 'And for gift cards?' },
+      });
+    });
+  });
+
+  describe('extract', () => {
+    it('returns the JSON of the model, taken out of a code block, at the first attempt', async () => {
+      answering('```json\n{"name": "Acme", "refund_days": 30}\n```');
+
+      const response = await service.extract(
+        { user_query: 'Acme refunds within 30 days', json_schema: jsonSchema },
+        'tenant-1',
+      );
+
+      expect(response).toMatchObject({
+        data: { result: { name: 'Acme', refund_days: 30 }, attempts: 1 },
+      });
+      expect(getChatModel).toHaveBeenCalledWith(
+        expect.objectContaining({ temperature: 0 }),
+      );
+    });
+
+    it('asks the model to repair an output breaking the schema', async () => {
+      answering(
+        '{"name": "Acme", "refund_days": "thirty", "country": "US"}',
+        '{"name": "Acme", "refund_days": 30}',
+      );
+
+      const response = await service.extract(
+        { user_query: 'Acme refunds within 30 days', json_schema: jsonSchema },
+        'tenant-1',
+      );
+
+      expect(response).toMatchObject({
+        data: { result: { name: 'Acme', refund_days: 30 }, attempts: 2 },
+      });
+      expect(prompts[1]).toContain('"refund_days": "thirty"');
+      expect(prompts[1]).toContain(
+        '/ must NOT have additional properties: country',
+      );
+      expect(prompts[1]).toContain('/refund_days must be integer');
+    });
+
+    it('fails with the last errors once the repairs are used up', async () => {
+      answering('Acme, 30 days', '{"name": "Acme"}');
+
+      const error = await service
+        .extract(
+          {
+            user_query: 'Acme refunds within 30 days',
+            json_schema: jsonSchema,
+            max_retries: 1,
+          },
+          'tenant-1',
+        )
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(UnprocessableEntityException);
+      expect(
+        (error as UnprocessableEntityException).getResponse(),
+      ).toMatchObject({
+        message: [MESSAGES.EXTRACTION_FAILED],
+        data: {
+          errors: ["/ must have required property 'refund_days'"],
+          output: '{"name": "Acme"}',
+          attempts: 2,
+        },
+      });
+      expect(prompts).toHaveLength(2);
+      expect(prompts[1]).toContain('The response is not valid JSON');
+    });
+
+    it('rejects an invalid JSON Schema before calling the model', async () => {
+      answering('{}');
+
+      await expect(
+        service.extract(
+          {
+            user_query: 'Acme refunds within 30 days',
+            json_schema: { type: 'no-such-type' },
+          },
+          'tenant-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(prompts).toEqual([]);
+    });
+  });
+});
@@ -1,224 +1,1051 @@
 /**
  * Service for handling Langchain Chat operations.
  *
- * This service facilitates various types of chat interactions using OpenAI's language models.
- * It supports basic chat, context-aware chat, document context chat, and PDF uploading functionalities.
+ * This service facilitates various types of chat interactions using the language models of the
+ * configured provider (OpenAI, Anthropic, an OpenAI-compatible server or the offline fake). Each
+ * request may override the provider, model, temperature and maximum tokens through `model_options`.
+ * Prompts come from PromptTemplatesService: each route has a built-in template, and a request may
+ * pick another template of its tenant, by name and version, through `prompt_template`. The variables the
+ * template declares are checked against the chain inputs before the model is called.
+ * The data of every chat response carries a `usage` summary of the model and embeddings calls
+ * made to answer it, with their tokens and cost, as recorded by UsageService; streams send it as
+ * a final `usage` event. Every chain runs with the runnable config of ObservabilityService, so that
+ * its chain, model, retriever and tool runs are logged and measured under the request's correlation ID.
+ * Documents, their chunks and conversations belong to a tenant: the routes touching them take the
+ * ID of the tenant whose API key made the request, and only ever read or write that tenant's data.
+ * It supports basic chat, context-aware chat, document context chat, and document uploading functionalities.
  * Basic chat and context-aware chat utilize pre-defined templates for processing user queries,
  * whereas document chat leverages document context for more nuanced responses.
- * The PDF upload feature processes and stores PDF content for document context chats.
+ * The document upload feature processes and stores PDF, Markdown, HTML, DOCX, plain-text, CSV and JSON content for document context chats.
  *
  * @class LangchainChatService
  *
- * @method basicChat - Processes a basic chat message using a predefined template, sends it to the OpenAI model for a response, and formats the response. Handles errors with HttpExceptions.
- * @param {BasicMessageDto} basicMessageDto - Data Transfer Object containing the user's query.
- * @returns Formatted response from the OpenAI model.
+ * @method basicChat - Processes a basic chat message using a predefined template, sends it to the chat model for a response, and formats the response. Handles errors with HttpExceptions.
+ *                     The answer is served from ResponseCacheService when the tenant asked the same or a similar question before.
+ * @param {BasicChatDto} basicChatDto - Data Transfer Object containing the user's query and whether to bypass the response cache.
+ * @param {string} tenantId - The tenant the answer is cached for.
+ * @returns The answer from the chat model or the cache, and how it was served in `cache`.
  *
  * @method contextAwareChat - Processes messages with consideration for the context of previous interactions, using a context-aware template for coherent responses. Handles errors with HttpExceptions.
  * @param {ContextAwareMessagesDto} contextAwareMessagesDto - Data Transfer Object containing the user’s current message and the chat history.
- * @returns Contextually relevant response from the OpenAI model.
+ * @returns Contextually relevant response from the chat model.
  *
- * @method documentChat - Processes a chat message with context derived from document similarity search, using a document-context template. Handles errors with HttpExceptions.
- * @param {BasicMessageDto} basicMessageDto - Data Transfer Object containing the user's query.
- * @returns Response from the OpenAI model, contextualized with document information.
+ * @method documentChat - Processes a chat message with context derived from document search (vector, keyword or hybrid), using a document-context template. Handles errors with HttpExceptions.
+ *                        The retrieved chunks are numbered in the prompt so that the answer can cite them with inline markers like [1].
+ *                        Like basicChat, it is served from ResponseCacheService when possible, the cached answer depending on the retrieval
+ *                        settings too; it is dropped from the cache when the tenant's documents change.
+ * @param {DocumentChatDto} documentChatDto - Data Transfer Object containing the user's query and the settings scoping and tuning the document search.
+ * @returns The answer from the chat model, contextualized with document information, the citations its markers point to, and how it was served in `cache`.
  *
- * @method uploadPDF - Processes a PDF file by loading, splitting into text, and storing its content for later use in document context chats. Handles file existence verification and errors with HttpExceptions.
- * @param {DocumentDto} documentDto - Data Transfer Object containing the file path of the PDF to be processed.
- * @returns Success message upon successful PDF processing and storage.
+ * @method answerFromDocuments - The pipeline of documentChat without the response envelope and the cache, also used by the evaluation runs.
+ *                               Resolves the prompt template unless given the one documentChat keyed its cache entry with.
+ *                               Errors are rethrown as they are.
+ * @returns The answer, its citations in retrieval order, and the numbered context the answer was generated from.
+ *
+ * @method conversationalDocumentChat - Document chat that understands follow-up questions. The latest question is first rewritten
+ *                                      into a standalone query from the conversation history, the documents are searched with that
+ *                                      query, and the answer is generated from both the retrieved context and the conversation history.
+ * @param {ConversationalDocumentChatDto} conversationalDocumentChatDto - Data Transfer Object containing the messages and the retrieval settings.
+ * @returns The answer, its citations and the standalone query the documents were searched with.
+ *
+ * @method extract - Extracts structured data described by the user's query as JSON validating against the request's JSON Schema,
+ *                   optionally grounded in retrieved document chunks. Output that is not valid JSON or does not match the schema
+ *                   is sent back to the model with the validation errors, up to `max_retries` times. An invalid schema is
+ *                   rejected with a 400 response, and output still invalid after the last retry with a 422 response.
+ * @param {ExtractionDto} extractionDto - Data Transfer Object containing the query, the JSON Schema, the retry limit and the retrieval settings.
+ * @returns The validated data, the number of model calls it took and, when grounded in documents, the citations of the chunks used.
+ *
+ * @method uploadDocument - Registers an uploaded document in the documents library through DocumentsService and queues its ingestion, which stores its content for later use in document context chats.
+ *                          Handles file existence verification, rejects formats without a registered loader with a 415 response and files identical to one of the tenant's documents with a 409 response, and handles errors with HttpExceptions.
+ * @param {DocumentDto} documentDto - Data Transfer Object containing the file path of the document to be processed and optional ingestion settings.
+ * @param {Express.Multer.File} file - The uploaded file, used to record its original name, size and MIME type.
+ * @returns A 202 response with the registered document and its ingestion job, whose progress is reported by the `ingestion-jobs` routes.
+ *
+ * @method previewChunks - Splits an uploaded document with the chunking strategy and settings of the request through DocumentsService,
+ *                         without embedding or storing its chunks, then deletes the file. The semantic strategy still embeds its sentences.
+ * @param {DocumentDto} documentDto - Data Transfer Object containing the file path of the document and optional ingestion settings.
+ * @param {Express.Multer.File} file - The uploaded file.
+ * @returns The settings used and the chunks the document would be stored as, with their text and metadata.
+ *
+ * @method agentChat - Answers with an agent that can call the tools enabled by the request, picked from AgentToolRegistry.
+ * @param {AgentChatDto} agentChatDto - Data Transfer Object containing the messages and the names of the enabled tools.
+ * @returns The agent's answer and its intermediate steps: the tool calls it made, with their input, output and timing.
+ *
+ * @method conversationChat, conversationAgentChat - Context-aware and agent chat within a stored conversation. The chat history is
+ *         loaded from ConversationsService instead of being sent by the client, and the user message and the assistant reply are
+ *         appended to the conversation once the model has answered.
+ * @param {ConversationMessageDto} conversationMessageDto - Data Transfer Object containing the conversation ID and the new user message.
+ * @returns The assistant reply, and for the agent variant its intermediate steps.
+ *
+ * @method streamBasicChat, streamContextAwareChat, streamDocumentChat, streamAgentChat - Streaming variants of the chat methods above.
+ *         They write the model's tokens to a StreamWriter as they are generated instead of returning the full completion; the agent
+ *         variant also writes an event for each tool call, and its intermediate steps once the answer is complete. The upstream model call is aborted when the writer's signal is aborted.
+ * @param {StreamWriter} writer - Writer bound to the streaming HTTP response.
+ *
+ * Failed model calls are reported with the status and error code of their cause, see toModelProviderError: a 429 response when the
+ * provider keeps rate limiting, a 400 response when the prompt exceeds the context window, a 503 response when the provider is
+ * unavailable and a 502 response when it rejects the call. Streams report them in their error event.
  *
  * The class utilizes several internal methods for operations such as loading chat chains, formatting messages, generating success responses, and handling exceptions.
- * These methods interact with external libraries and services, including the OpenAI API, file system operations, and custom utilities for message formatting and response generation.
+ * These methods interact with external libraries and services, including the model provider APIs, file system operations, and custom utilities for message formatting and response generation.
  */
 
 import {
   BadRequestException,
   HttpException,
   HttpStatus,
+  Inject,
   Injectable,
   Logger,
+  UnprocessableEntityException,
 } from '@nestjs/common';
 import { BasicMessageDto } from './dtos/basic-message.dto';
+import { BasicChatDto } from './dtos/basic-chat.dto';
 import { PromptTemplate } from '@langchain/core/prompts';
-import { ChatOpenAI } from '@langchain/openai';
 import { HttpResponseOutputParser } from 'langchain/output_parsers';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { RunnableConfig } from '@langchain/core/runnables';
 import { TEMPLATES } from 'src/utils/constants/templates.constants';
-import customMessage from 'src/utils/responses/customMessage.response';
+import customMessage, {
+  errorCode,
+} from 'src/utils/responses/customMessage.response';
+import { toModelProviderError } from 'src/errors/model-provider.errors';
 import { MESSAGES } from 'src/utils/constants/messages.constants';
-import { openAI, vercelRoles } from 'src/utils/constants/openAI.constants';
+import { vercelRoles } from 'src/utils/constants/openAI.constants';
 import { ContextAwareMessagesDto } from './dtos/context-aware-messages.dto';
 import { Message as VercelChatMessage } from 'ai';
 
 import { existsSync } from 'fs';
-import { PDFLoader } from 'langchain/document_loaders/fs/pdf';
-import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
+import { unlink } from 'fs/promises';
 import { VectorStoreService } from 'src/services/vector-store.service';
 import * as path from 'path';
-import { Document } from '@langchain/core/documents';
 import { DocumentDto } from './dtos/document.dto';
-import { PDF_BASE_PATH } from 'src/utils/constants/common.constants';
-import { TavilySearchResults } from '@langchain/community/tools/tavily_search';
-import { AgentExecutor, createOpenAIFunctionsAgent } from 'langchain/agents';
+import { UploadsConfig, uploadsConfig } from 'src/config/uploads.config';
+import { DynamicTool } from '@langchain/core/tools';
+import {
+  AgentExecutor,
+  createOpenAIFunctionsAgent,
+  createStructuredChatAgent,
+} from 'langchain/agents';
 import {
   ChatPromptTemplate,
   MessagesPlaceholder,
 } from '@langchain/core/prompts';
-import { pull } from 'langchain/hub';
 import { HumanMessage, AIMessage } from 'langchain/schema';
+import { StreamWriter } from 'src/utils/responses/stream.response';
+import { STREAM_EVENTS } from 'src/utils/constants/stream.constants';
+import { ConversationsService } from 'src/conversations/conversations.service';
+import { ConversationMessageDto } from './dtos/conversation-message.dto';
+import { AgentChatDto, ConversationAgentChatDto } from './dtos/agent-chat.dto';
+import { AgentToolRegistry } from 'src/agent-tools/agent-tool.registry';
+import { IntermediateStep } from 'src/agent-tools/interfaces/intermediate-step.interface';
+import { DocumentsService } from 'src/documents/documents.service';
+import { DocumentLoaderRegistry } from 'src/documents/document-loader.registry';
+import { DocumentChatDto } from './dtos/document-chat.dto';
+import { ConversationalDocumentChatDto } from './dtos/conversational-document-chat.dto';
+import { RetrievalSettingsDto } from './dtos/retrieval-settings.dto';
+import { Citation } from './interfaces/citation.interface';
+import {
+  RetrievalOptions,
+  RetrievedChunk,
+} from 'src/services/interfaces/retrieval.interface';
+import { CITATION_SNIPPET_LENGTH } from 'src/utils/constants/common.constants';
+import { RETRIEVAL_MODES } from 'src/utils/constants/retrieval.constants';
+import { ModelProviderService } from 'src/services/model-provider.service';
+import { ModelOptionsDto } from './dtos/model-options.dto';
+import { PromptTemplatesService } from 'src/prompt-templates/prompt-templates.service';
+import { PromptTemplateSelectionDto } from 'src/prompt-templates/dtos/prompt-template-selection.dto';
+import { PROMPT_TEMPLATE_NAMES } from 'src/utils/constants/prompt-templates.constants';
+import { UsageService } from 'src/usage/usage.service';
+import { ResponseCacheService } from 'src/services/response-cache.service';
+import { ObservabilityService } from 'src/observability/observability.service';
+import { ResponseCacheKey } from 'src/services/interfaces/response-cache.interface';
+import { formatSource } from 'src/services/numbered-sources';
+import { RESPONSE_CACHE_ENDPOINTS } from 'src/utils/constants/response-cache.constants';
+import Ajv, { ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { ExtractionDto } from './dtos/extraction.dto';
+import {
+  DEFAULT_EXTRACTION_RETRIES,
+  NO_EXTRACTION_CONTEXT,
+} from 'src/utils/constants/extraction.constants';
 
 @Injectable()
 export class LangchainChatService {
-  constructor(private vectorStoreService: VectorStoreService) {}
+  constructor(
+    private vectorStoreService: VectorStoreService,
+    private conversationsService: ConversationsService,
+    private documentsService: DocumentsService,
+    private documentLoaderRegistry: DocumentLoaderRegistry,
+    private modelProviderService: ModelProviderService,
+    private promptTemplatesService: PromptTemplatesService,
+    private agentToolRegistry: AgentToolRegistry,
+    private usageService: UsageService,
+    private responseCacheService: ResponseCacheService,
+    private observabilityService: ObservabilityService,
+    @Inject(uploadsConfig.KEY) private uploadsSettings: UploadsConfig,
+  ) {}
 
-  async basicChat(basicMessageDto: BasicMessageDto) {
+  async basicChat(basicChatDto: BasicChatDto, tenantId: string) {
     try {
-      const chain = this.loadSingleChain(TEMPLATES.BASIC_CHAT_TEMPLATE);
-      const response = await chain.invoke({
-        input: basicMessageDto.user_query,
-      });
-      return this.successResponse(response);
+      const input = { input: basicChatDto.user_query };
+      const template = await this.loadPromptTemplate(
+        basicChatDto.prompt_template,
+        PROMPT_TEMPLATE_NAMES.BASIC_CHAT,
+        input,
+        tenantId,
+      );
+      const data = await this.responseCacheService.cached(
+        this.responseCacheKey(
+          RESPONSE_CACHE_ENDPOINTS.BASIC_CHAT,
+          tenantId,
+          template,
+          basicChatDto.model_options,
+        ),
+        basicChatDto.user_query,
+        basicChatDto.bypass_cache,
+        async () => {
+          const chain = this.loadSingleChain(
+            template,
+            basicChatDto.model_options,
+          );
+          const response = await chain.invoke(
+            input,
+            this.observabilityService.runConfig(),
+          );
+          return { response: { answer: this.decodeResponse(response) } };
+        },
+      );
+      return this.chatResponse(data);
     } catch (e: unknown) {
       this.exceptionHandling(e);
     }
   }
 
-  async contextAwareChat(contextAwareMessagesDto: ContextAwareMessagesDto) {
+  async contextAwareChat(
+    contextAwareMessagesDto: ContextAwareMessagesDto,
+    tenantId: string,
+  ) {
     try {
-      const messages = contextAwareMessagesDto.messages ?? [];
-      const formattedPreviousMessages = messages
-        .slice(0, -1)
-        .map(this.formatMessage);
-      const currentMessageContent = messages[messages.length - 1].content;
-
-      const chain = this.loadSingleChain(TEMPLATES.CONTEXT_AWARE_CHAT_TEMPLATE);
+      const input = this.contextAwareChainInput(contextAwareMessagesDto);
+      const template = await this.loadPromptTemplate(
+        contextAwareMessagesDto.prompt_template,
+        PROMPT_TEMPLATE_NAMES.CONTEXT_AWARE_CHAT,
+        input,
+        tenantId,
+      );
+      const chain = this.loadSingleChain(
+        template,
+        contextAwareMessagesDto.model_options,
+      );
 
-      const response = await chain.invoke({
-        chat_history: formattedPreviousMessages.join('\n'),
-        input: currentMessageContent,
-      });
+      const response = await chain.invoke(
+        input,
+        this.observabilityService.runConfig(),
+      );
       return this.successResponse(response);
     } catch (e: unknown) {
       this.exceptionHandling(e);
     }
   }
 
-  async documentChat(basicMessageDto: BasicMessageDto) {
+  async documentChat(documentChatDto: DocumentChatDto, tenantId: string) {
+    try {
+      // The template is resolved once, before the retrieval a cache hit skips, and the answer of a
+      // miss is generated with the very template its cache entry is keyed on
+      const template = await this.loadPromptTemplate(
+        documentChatDto.prompt_template,
+        PROMPT_TEMPLATE_NAMES.DOCUMENT_CHAT,
+        { context: '', question: '' },
+        tenantId,
+      );
+      const data = await this.responseCacheService.cached(
+        this.responseCacheKey(
+          RESPONSE_CACHE_ENDPOINTS.DOCUMENT_CHAT,
+          tenantId,
+          template,
+          documentChatDto.model_options,
+          this.retrievalOptions(documentChatDto),
+        ),
+        documentChatDto.user_query,
+        documentChatDto.bypass_cache,
+        async () => {
+          const { answer, citations } = await this.answerFromDocuments(
+            documentChatDto,
+            tenantId,
+            template,
+          );
+          return {
+            response: { answer, citations },
+            documentIds: citations.map(({ document_id }) => document_id),
+          };
+        },
+      );
+      return this.chatResponse(data);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async answerFromDocuments(
+    documentChatDto: DocumentChatDto,
+    tenantId: string,
+    template?: string,
+  ) {
+    const { input, citations } = await this.documentChainInput(
+      documentChatDto,
+      tenantId,
+    );
+    template ??= await this.loadPromptTemplate(
+      documentChatDto.prompt_template,
+      PROMPT_TEMPLATE_NAMES.DOCUMENT_CHAT,
+      input,
+      tenantId,
+    );
+    const chain = this.loadSingleChain(template, documentChatDto.model_options);
+    const response = await chain.invoke(
+      input,
+      this.observabilityService.runConfig(),
+    );
+    return {
+      answer: this.decodeResponse(response),
+      citations,
+      context: input.context,
+    };
+  }
+
+  async conversationalDocumentChat(
+    conversationalDocumentChatDto: ConversationalDocumentChatDto,
+    tenantId: string,
+  ) {
     try {
-      const documentContext = await this.vectorStoreService.similaritySearch(
-        basicMessageDto.user_query,
-        3,
+      const { chat_history, input: question } = this.contextAwareChainInput(
+        conversationalDocumentChatDto,
+      );
+      const standaloneQuery = await this.rewriteQuestion(
+        chat_history,
+        question,
+        conversationalDocumentChatDto.model_options,
       );
 
+      const { context, citations } = await this.retrieveContext(
+        standaloneQuery,
+        conversationalDocumentChatDto,
+        tenantId,
+      );
+      const input = { chat_history, context, question };
+      const template = await this.loadPromptTemplate(
+        conversationalDocumentChatDto.prompt_template,
+        PROMPT_TEMPLATE_NAMES.CONVERSATIONAL_DOCUMENT_CHAT,
+        input,
+        tenantId,
+      );
       const chain = this.loadSingleChain(
-        TEMPLATES.DOCUMENT_CONTEXT_CHAT_TEMPLATE,
+        template,
+        conversationalDocumentChatDto.model_options,
       );
-
-      const response = await chain.invoke({
-        context: JSON.stringify(documentContext),
-        question: basicMessageDto.user_query,
+      const response = await chain.invoke(
+        input,
+        this.observabilityService.runConfig(),
+      );
+      return this.chatResponse({
+        answer: this.decodeResponse(response),
+        citations,
+        standalone_query: standaloneQuery,
       });
-      return this.successResponse(response);
     } catch (e: unknown) {
       this.exceptionHandling(e);
     }
   }
 
-  async uploadPDF(documentDto: DocumentDto) {
+  async extract(extractionDto: ExtractionDto, tenantId: string) {
     try {
-      // Load the file
-      const file = PDF_BASE_PATH + '/' + documentDto.file;
-      const resolvedPath = path.resolve(file);
-      // Check if the file exists
-      if (!existsSync(resolvedPath)) {
-        throw new BadRequestException('File does not exist.');
-      }
+      const validate = this.compileSchema(extractionDto.json_schema);
+      const { context, citations } = extractionDto.use_documents
+        ? await this.retrieveContext(
+            extractionDto.user_query,
+            extractionDto,
+            tenantId,
+          )
+        : { context: NO_EXTRACTION_CONTEXT, citations: [] };
+      const input = {
+        schema: JSON.stringify(extractionDto.json_schema, null, 2),
+        context,
+        input: extractionDto.user_query,
+      };
+      const template = await this.loadPromptTemplate(
+        extractionDto.prompt_template,
+        PROMPT_TEMPLATE_NAMES.EXTRACTION,
+        input,
+        tenantId,
+      );
+      // Extraction is deterministic unless the request sets a temperature
+      const modelOptions = {
+        ...extractionDto.model_options,
+        temperature: extractionDto.model_options?.temperature ?? 0,
+      };
 
-      // Load the PDF using PDFLoader
-      const pdfLoader = new PDFLoader(resolvedPath);
-      const pdf = await pdfLoader.load();
+      const maxRetries =
+        extractionDto.max_retries ?? DEFAULT_EXTRACTION_RETRIES;
+      let output = await this.loadExtractionChain(
+        template,
+        modelOptions,
+      ).invoke(input, this.observabilityService.runConfig());
+      let extraction = this.parseExtraction(output, validate);
+      let attempts = 1;
+      while (extraction.errors && attempts <= maxRetries) {
+        const repairInput = {
+          ...input,
+          output,
+          errors: extraction.errors.join('\n'),
+        };
+        const repairTemplate = await this.loadPromptTemplate(
+          undefined,
+          PROMPT_TEMPLATE_NAMES.EXTRACTION_REPAIR,
+          repairInput,
+        );
+        output = await this.loadExtractionChain(
+          repairTemplate,
+          modelOptions,
+        ).invoke(repairInput, this.observabilityService.runConfig());
+        extraction = this.parseExtraction(output, validate);
+        attempts++;
+      }
 
-      // Split the PDF into texts using RecursiveCharacterTextSplitter
-      const textSplitter = new RecursiveCharacterTextSplitter({
-        chunkSize: 1000,
-        chunkOverlap: 50,
+      if (extraction.errors) {
+        throw new UnprocessableEntityException(
+          customMessage(
+            HttpStatus.UNPROCESSABLE_ENTITY,
+            MESSAGES.EXTRACTION_FAILED,
+            {
+              errors: extraction.errors,
+              output,
+              attempts,
+              usage: this.usageService.currentUsage(),
+            },
+          ),
+        );
+      }
+      return this.chatResponse({
+        result: extraction.result,
+        attempts,
+        citations,
       });
-      const texts = await textSplitter.splitDocuments(pdf);
-      let embeddings: Document[] = [];
-
-      for (let index = 0; index < texts.length; index++) {
-        const page = texts[index];
-        const splitTexts = await textSplitter.splitText(page.pageContent);
-        const pageEmbeddings = splitTexts.map((text) => ({
-          pageContent: text,
-          metadata: {
-            pageNumber: index,
-          },
-        }));
-        embeddings = embeddings.concat(pageEmbeddings);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async uploadDocument(
+    documentDto: DocumentDto,
+    file: Express.Multer.File,
+    tenantId: string,
+  ) {
+    try {
+      await this.checkUpload(documentDto, file, tenantId);
+      const queued = await this.documentsService.register(
+        file,
+        documentDto,
+        tenantId,
+      );
+      return customMessage(HttpStatus.ACCEPTED, MESSAGES.SUCCESS, queued);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async previewChunks(
+    documentDto: DocumentDto,
+    file: Express.Multer.File,
+    tenantId: string,
+  ) {
+    try {
+      const resolvedPath = await this.checkUpload(documentDto, file, tenantId);
+      try {
+        const preview = await this.documentsService.previewChunks(
+          file,
+          documentDto,
+        );
+        return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, preview);
+      } finally {
+        // A previewed file is never registered
+        await unlink(resolvedPath);
       }
-      await this.vectorStoreService.addDocuments(embeddings);
-      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS);
     } catch (e: unknown) {
-      console.log(e);
+      this.exceptionHandling(e);
+    }
+  }
 
+  async agentChat(agentChatDto: AgentChatDto, tenantId: string) {
+    try {
+      const input = this.agentInput(agentChatDto);
+      const { tools, steps } = this.agentToolRegistry.createToolkit(
+        tenantId,
+        agentChatDto.tools,
+      );
+      const agentExecutor = await this.loadAgentExecutor(
+        await this.loadPromptTemplate(
+          agentChatDto.prompt_template,
+          PROMPT_TEMPLATE_NAMES.AGENT_SYSTEM,
+          input,
+          tenantId,
+        ),
+        tools,
+        false,
+        agentChatDto.model_options,
+      );
+
+      const response = await agentExecutor.invoke(
+        input,
+        this.observabilityService.runConfig(),
+      );
+      return this.agentResponse(response.output, steps);
+    } catch (e: unknown) {
       this.exceptionHandling(e);
     }
   }
 
-  async agentChat(contextAwareMessagesDto: ContextAwareMessagesDto) {
+  async conversationChat(
+    conversationMessageDto: ConversationMessageDto,
+    tenantId: string,
+  ) {
     try {
-      const tools = [new TavilySearchResults({ maxResults: 1 })];
-
-      const messages = contextAwareMessagesDto.messages ?? [];
-      const formattedPreviousMessages = messages
-        .slice(0, -1)
-        .map(this.formatBaseMessages);
-      const currentMessageContent = messages[messages.length - 1].content;
-
-      const prompt = ChatPromptTemplate.fromMessages([
-        [
-          'system',
-          'You are an agent that follows SI system standards and responds responds normally',
-        ],
-        new MessagesPlaceholder({ variableName: 'chat_history' }),
-        ['user', '{input}'],
-        new MessagesPlaceholder({ variableName: 'agent_scratchpad' }),
-      ]);
-
-      const llm = new ChatOpenAI({
-        temperature: +openAI.BASIC_CHAT_OPENAI_TEMPERATURE,
-        modelName: openAI.GPT_3_5_TURBO_1106.toString(),
-      });
+      const contextAwareMessagesDto = await this.loadConversation(
+        conversationMessageDto,
+        tenantId,
+      );
+      const input = this.contextAwareChainInput(contextAwareMessagesDto);
+      const template = await this.loadPromptTemplate(
+        conversationMessageDto.prompt_template,
+        PROMPT_TEMPLATE_NAMES.CONTEXT_AWARE_CHAT,
+        input,
+        tenantId,
+      );
+      const chain = this.loadSingleChain(
+        template,
+        conversationMessageDto.model_options,
+      );
 
-      const agent = await createOpenAIFunctionsAgent({
-        llm,
+      const response = await chain.invoke(
+        input,
+        this.observabilityService.runConfig(),
+      );
+      const answer = this.decodeResponse(response);
+      await this.saveConversationTurn(conversationMessageDto, answer, tenantId);
+      return this.chatResponse({ answer });
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async conversationAgentChat(
+    conversationAgentChatDto: ConversationAgentChatDto,
+    tenantId: string,
+  ) {
+    try {
+      const contextAwareMessagesDto = await this.loadConversation(
+        conversationAgentChatDto,
+        tenantId,
+      );
+      const input = this.agentInput(contextAwareMessagesDto);
+      const { tools, steps } = this.agentToolRegistry.createToolkit(
+        tenantId,
+        conversationAgentChatDto.tools,
+      );
+      const agentExecutor = await this.loadAgentExecutor(
+        await this.loadPromptTemplate(
+          conversationAgentChatDto.prompt_template,
+          PROMPT_TEMPLATE_NAMES.AGENT_SYSTEM,
+          input,
+          tenantId,
+        ),
         tools,
-        prompt,
-      });
+        false,
+        conversationAgentChatDto.model_options,
+      );
+
+      const response = await agentExecutor.invoke(
+        input,
+        this.observabilityService.runConfig(),
+      );
+      await this.saveConversationTurn(
+        conversationAgentChatDto,
+        response.output,
+        tenantId,
+      );
+      return this.agentResponse(response.output, steps);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async streamBasicChat(
+    basicMessageDto: BasicMessageDto,
+    tenantId: string,
+    writer: StreamWriter,
+  ) {
+    await this.streamChain(writer, async () => {
+      const input = { input: basicMessageDto.user_query };
+      const template = await this.loadPromptTemplate(
+        basicMessageDto.prompt_template,
+        PROMPT_TEMPLATE_NAMES.BASIC_CHAT,
+        input,
+        tenantId,
+      );
+      const chain = this.loadStreamingChain(
+        template,
+        basicMessageDto.model_options,
+      );
+      return chain.stream(input, this.abortableConfig(writer));
+    });
+  }
 
-      const agentExecutor = new AgentExecutor({
-        agent,
+  async streamContextAwareChat(
+    contextAwareMessagesDto: ContextAwareMessagesDto,
+    tenantId: string,
+    writer: StreamWriter,
+  ) {
+    await this.streamChain(writer, async () => {
+      const input = this.contextAwareChainInput(contextAwareMessagesDto);
+      const template = await this.loadPromptTemplate(
+        contextAwareMessagesDto.prompt_template,
+        PROMPT_TEMPLATE_NAMES.CONTEXT_AWARE_CHAT,
+        input,
+        tenantId,
+      );
+      const chain = this.loadStreamingChain(
+        template,
+        contextAwareMessagesDto.model_options,
+      );
+      return chain.stream(input, this.abortableConfig(writer));
+    });
+  }
+
+  async streamDocumentChat(
+    documentChatDto: DocumentChatDto,
+    tenantId: string,
+    writer: StreamWriter,
+  ) {
+    await this.streamChain(writer, async () => {
+      const { input, citations } = await this.documentChainInput(
+        documentChatDto,
+        tenantId,
+      );
+      const template = await this.loadPromptTemplate(
+        documentChatDto.prompt_template,
+        PROMPT_TEMPLATE_NAMES.DOCUMENT_CHAT,
+        input,
+        tenantId,
+      );
+      const chain = this.loadStreamingChain(
+        template,
+        documentChatDto.model_options,
+      );
+      writer.event(STREAM_EVENTS.CITATIONS, { citations });
+      return chain.stream(input, this.abortableConfig(writer));
+    });
+  }
+
+  async streamAgentChat(
+    agentChatDto: AgentChatDto,
+    tenantId: string,
+    writer: StreamWriter,
+  ) {
+    try {
+      const input = this.agentInput(agentChatDto);
+      const { tools, steps } = this.agentToolRegistry.createToolkit(
+        tenantId,
+        agentChatDto.tools,
+      );
+      const agentExecutor = await this.loadAgentExecutor(
+        await this.loadPromptTemplate(
+          agentChatDto.prompt_template,
+          PROMPT_TEMPLATE_NAMES.AGENT_SYSTEM,
+          input,
+          tenantId,
+        ),
         tools,
+        true,
+        agentChatDto.model_options,
+      );
+      const events = agentExecutor.streamEvents(input, {
+        ...this.abortableConfig(writer),
+        version: 'v1',
       });
 
-      const response = await agentExecutor.invoke({
-        input: currentMessageContent,
-        chat_history: formattedPreviousMessages,
-      });
-      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, response.output);
+      for await (const { event, name, data } of events) {
+        if (writer.signal.aborted) break;
+        if (event === 'on_llm_stream') {
+          const token = data.chunk?.text ?? data.chunk?.content;
+          if (token) writer.token(token);
+        } else if (event === 'on_tool_start') {
+          writer.event(STREAM_EVENTS.TOOL_START, {
+            tool: name,
+            input: data.input,
+          });
+        } else if (event === 'on_tool_end') {
+          writer.event(STREAM_EVENTS.TOOL_END, {
+            tool: name,
+            output: data.output,
+          });
+        }
+      }
+      if (!writer.signal.aborted) {
+        writer.event(STREAM_EVENTS.INTERMEDIATE_STEPS, {
+          intermediate_steps: steps,
+        });
+        writer.event(STREAM_EVENTS.USAGE, {
+          usage: this.usageService.currentUsage(),
+        });
+      }
     } catch (e: unknown) {
-      this.exceptionHandling(e);
+      this.streamExceptionHandling(e, writer);
+    } finally {
+      writer.end();
     }
   }
 
-  private loadSingleChain = (template: string) => {
-    const prompt = PromptTemplate.fromTemplate(template);
+  private contextAwareChainInput = (
+    contextAwareMessagesDto: ContextAwareMessagesDto,
+  ) => {
+    const messages = contextAwareMessagesDto.messages ?? [];
+    const formattedPreviousMessages = messages
+      .slice(0, -1)
+      .map(this.formatMessage);
+    const currentMessageContent = messages[messages.length - 1].content;
+
+    return {
+      chat_history: formattedPreviousMessages.join('\n'),
+      input: currentMessageContent,
+    };
+  };
+
+  private documentChainInput = async (
+    documentChatDto: DocumentChatDto,
+    tenantId: string,
+  ) => {
+    const { context, citations } = await this.retrieveContext(
+      documentChatDto.user_query,
+      documentChatDto,
+      tenantId,
+    );
+
+    return {
+      input: { context, question: documentChatDto.user_query },
+      citations,
+    };
+  };
+
+  private retrieveContext = async (
+    query: string,
+    retrievalSettingsDto: RetrievalSettingsDto,
+    tenantId: string,
+  ) => {
+    const documentContext = await this.vectorStoreService.search(
+      query,
+      tenantId,
+      this.retrievalOptions(retrievalSettingsDto),
+    );
+
+    return {
+      context: documentContext.map(formatSource).join('\n\n'),
+      citations: documentContext.map(this.toCitation),
+    };
+  };
+
+  // Keyword ranks and fused scores are not similarities, which a minimum score could be compared with
+  private retrievalOptions = (
+    retrievalSettingsDto: RetrievalSettingsDto,
+  ): RetrievalOptions => {
+    const { retrieval_mode: mode, min_score: minScore } = retrievalSettingsDto;
+    if (
+      minScore !== undefined &&
+      mode !== undefined &&
+      mode !== RETRIEVAL_MODES.VECTOR
+    ) {
+      throw new BadRequestException(
+        customMessage(
+          HttpStatus.BAD_REQUEST,
+          MESSAGES.MIN_SCORE_REQUIRES_VECTOR_MODE,
+        ),
+      );
+    }
+    return {
+      k: retrievalSettingsDto.k,
+      documentIds: retrievalSettingsDto.document_ids,
+      filter: retrievalSettingsDto.filter,
+      mode: retrievalSettingsDto.retrieval_mode,
+      minScore: retrievalSettingsDto.min_score,
+      searchType: retrievalSettingsDto.search_type,
+      vectorWeight: retrievalSettingsDto.vector_weight,
+      keywordWeight: retrievalSettingsDto.keyword_weight,
+    };
+  };
+
+  // Cached answers are only served for the same template, chat model, temperature, maximum tokens and retrieval settings
+  private responseCacheKey = (
+    endpoint: RESPONSE_CACHE_ENDPOINTS,
+    tenantId: string,
+    template: string,
+    modelOptionsDto: ModelOptionsDto = {},
+    retrievalOptions: RetrievalOptions = {},
+  ): ResponseCacheKey => ({
+    tenantId,
+    endpoint,
+    template,
+    model: this.modelProviderService.getChatModelName({
+      provider: modelOptionsDto.provider,
+      model: modelOptionsDto.model,
+    }),
+    settings: {
+      temperature: modelOptionsDto.temperature,
+      max_tokens: modelOptionsDto.max_tokens,
+      ...retrievalOptions,
+    },
+  });
+
+  // A first question needs no rewriting; follow-ups are rewritten deterministically, at temperature 0
+  private rewriteQuestion = async (
+    chatHistory: string,
+    question: string,
+    modelOptionsDto: ModelOptionsDto = {},
+  ) => {
+    if (!chatHistory) return question;
+
+    const input = { chat_history: chatHistory, question };
+    const template = await this.loadPromptTemplate(
+      undefined,
+      PROMPT_TEMPLATE_NAMES.STANDALONE_QUESTION,
+      input,
+    );
+    const chain = PromptTemplate.fromTemplate(template)
+      .pipe(this.loadChatModel(false, { ...modelOptionsDto, temperature: 0 }))
+      .pipe(new StringOutputParser());
+    const standaloneQuery = (
+      await chain.invoke(input, this.observabilityService.runConfig())
+    ).trim();
+    return standaloneQuery || question;
+  };
+
+  private toCitation = (chunk: RetrievedChunk, index: number): Citation => ({
+    marker: index + 1,
+    document_id: chunk.metadata.documentId,
+    document_name: chunk.metadata.source,
+    page_number: chunk.metadata.pageNumber,
+    snippet: chunk.pageContent.slice(0, CITATION_SNIPPET_LENGTH),
+    score: chunk.score,
+  });
+
+  private agentInput = (contextAwareMessagesDto: ContextAwareMessagesDto) => {
+    const messages = contextAwareMessagesDto.messages ?? [];
+    const formattedPreviousMessages = messages
+      .slice(0, -1)
+      .map(this.formatBaseMessages);
+    const currentMessageContent = messages[messages.length - 1].content;
+
+    return {
+      input: currentMessageContent,
+      chat_history: formattedPreviousMessages,
+    };
+  };
+
+  private loadConversation = async (
+    conversationMessageDto: ConversationMessageDto,
+    tenantId: string,
+  ): Promise<ContextAwareMessagesDto> => {
+    const history = await this.conversationsService.getMessages(
+      conversationMessageDto.conversation_id,
+      tenantId,
+    );
+
+    return {
+      messages: [
+        ...history.map(({ role, content }) => ({ role, content })),
+        { role: vercelRoles.user, content: conversationMessageDto.user_query },
+      ],
+    };
+  };
+
+  private saveConversationTurn = (
+    conversationMessageDto: ConversationMessageDto,
+    answer: string,
+    tenantId: string,
+  ) =>
+    this.conversationsService.appendMessages(
+      conversationMessageDto.conversation_id,
+      [
+        { role: vercelRoles.user, content: conversationMessageDto.user_query },
+        { role: vercelRoles.assistant, content: answer },
+      ],
+      tenantId,
+    );
+
+  private loadAgentExecutor = async (
+    systemMessage: string,
+    tools: DynamicTool[],
+    streaming = false,
+    modelOptionsDto?: ModelOptionsDto,
+  ) => {
+    const llm = this.loadChatModel(streaming, modelOptionsDto);
+
+    // Providers without function calling get a structured-chat agent, which picks tools through JSON blobs
+    const agent = this.modelProviderService.getProvider(
+      modelOptionsDto?.provider,
+    ).supportsFunctionCalling
+      ? await createOpenAIFunctionsAgent({
+          llm,
+          tools,
+          prompt: ChatPromptTemplate.fromMessages([
+            ['system', systemMessage],
+            new MessagesPlaceholder({ variableName: 'chat_history' }),
+            ['user', '{input}'],
+            new MessagesPlaceholder({ variableName: 'agent_scratchpad' }),
+          ]),
+        })
+      : await createStructuredChatAgent({
+          llm,
+          tools,
+          prompt: ChatPromptTemplate.fromMessages([
+            [
+              'system',
+              `${systemMessage}\n\n${TEMPLATES.STRUCTURED_CHAT_AGENT_TEMPLATE}`,
+            ],
+            new MessagesPlaceholder({ variableName: 'chat_history' }),
+            ['user', TEMPLATES.STRUCTURED_CHAT_AGENT_INPUT_TEMPLATE],
+          ]),
+        });
+
+    return new AgentExecutor({
+      agent,
+      tools,
+    });
+  };
 
-    const model = new ChatOpenAI({
-      temperature: +openAI.BASIC_CHAT_OPENAI_TEMPERATURE,
-      modelName: openAI.GPT_3_5_TURBO_1106.toString(),
+  // Resolves the template the tenant requested, or the built-in one, and checks its variables against the chain inputs
+  private loadPromptTemplate = async (
+    promptTemplateSelectionDto: PromptTemplateSelectionDto | undefined,
+    defaultName: PROMPT_TEMPLATE_NAMES,
+    input: Record<string, unknown>,
+    tenantId?: string,
+  ) => {
+    const record = await this.promptTemplatesService.resolve(
+      promptTemplateSelectionDto?.name ?? defaultName,
+      promptTemplateSelectionDto?.version,
+      tenantId,
+    );
+    this.promptTemplatesService.assertInputs(record, Object.keys(input));
+    return record.template;
+  };
+
+  private loadChatModel = (
+    streaming = false,
+    modelOptionsDto: ModelOptionsDto = {},
+  ) =>
+    this.modelProviderService.getChatModel({
+      provider: modelOptionsDto.provider,
+      model: modelOptionsDto.model,
+      temperature: modelOptionsDto.temperature,
+      maxTokens: modelOptionsDto.max_tokens,
+      streaming,
     });
 
+  private loadSingleChain = (
+    template: string,
+    modelOptionsDto?: ModelOptionsDto,
+  ) => {
+    const prompt = PromptTemplate.fromTemplate(template);
+
     const outputParser = new HttpResponseOutputParser();
-    return prompt.pipe(model).pipe(outputParser);
+    return prompt
+      .pipe(this.loadChatModel(false, modelOptionsDto))
+      .pipe(outputParser);
+  };
+
+  private loadExtractionChain = (
+    template: string,
+    modelOptionsDto?: ModelOptionsDto,
+  ) =>
+    PromptTemplate.fromTemplate(template)
+      .pipe(this.loadChatModel(false, modelOptionsDto))
+      .pipe(new StringOutputParser());
+
+  private loadStreamingChain = (
+    template: string,
+    modelOptionsDto?: ModelOptionsDto,
+  ) => {
+    const prompt = PromptTemplate.fromTemplate(template);
+
+    return prompt
+      .pipe(this.loadChatModel(true, modelOptionsDto))
+      .pipe(new StringOutputParser());
+  };
+
+  // RunnableConfig does not declare `signal` yet, but it is forwarded to the model's call options.
+  private abortableConfig = (writer: StreamWriter) =>
+    ({
+      ...this.observabilityService.runConfig(),
+      signal: writer.signal,
+    }) as Partial<RunnableConfig>;
+
+  private streamChain = async (
+    writer: StreamWriter,
+    openStream: () => Promise<AsyncIterable<string>>,
+  ) => {
+    try {
+      for await (const token of await openStream()) {
+        if (writer.signal.aborted) break;
+        writer.token(token);
+      }
+      if (!writer.signal.aborted) {
+        writer.event(STREAM_EVENTS.USAGE, {
+          usage: this.usageService.currentUsage(),
+        });
+      }
+    } catch (e: unknown) {
+      this.streamExceptionHandling(e, writer);
+    } finally {
+      writer.end();
+    }
+  };
+
+  // A compiler per request, so that schemas sharing an $id do not clash and are not cached forever
+  private compileSchema = (schema: Record<string, unknown>) => {
+    const ajv = addFormats(new Ajv({ allErrors: true, strict: false }));
+    try {
+      return ajv.compile(schema);
+    } catch (e: unknown) {
+      throw new BadRequestException(
+        customMessage(HttpStatus.BAD_REQUEST, MESSAGES.INVALID_JSON_SCHEMA, {
+          error: e instanceof Error ? e.message : String(e),
+        }),
+      );
+    }
+  };
+
+  // Models often wrap JSON in a markdown code block despite the instructions
+  private parseExtraction = (
+    output: string,
+    validate: ValidateFunction,
+  ): { result?: unknown; errors?: string[] } => {
+    const fenced = output.match(/```(?:json)?\s*([\s\S]*?)```/);
+    let result: unknown;
+    try {
+      result = JSON.parse((fenced ? fenced[1] : output).trim());
+    } catch (e: unknown) {
+      return {
+        errors: [`The response is not valid JSON: ${(e as Error).message}`],
+      };
+    }
+    if (validate(result)) return { result };
+    return {
+      errors: validate.errors.map(
+        ({ instancePath, message, params }) =>
+          `${instancePath || '/'} ${message}` +
+          ('additionalProperty' in params
+            ? `: ${params.additionalProperty}`
+            : ''),
+      ),
+    };
   };
 
   private formatMessage = (message: VercelChatMessage) =>
@@ -229,23 +1056,92 @@ export class LangchainChatService {
       ? new HumanMessage({ content: message.content, additional_kwargs: {} })
       : new AIMessage({ content: message.content, additional_kwargs: {} });
 
+  private agentResponse = (answer: string, steps: IntermediateStep[]) =>
+    this.chatResponse({ answer, intermediate_steps: steps });
+
+  private decodeResponse = (response: Uint8Array) =>
+    new TextDecoder().decode(response);
+
   private successResponse = (response: Uint8Array) =>
-    customMessage(
-      HttpStatus.OK,
-      MESSAGES.SUCCESS,
-      Object.values(response)
-        .map((code) => String.fromCharCode(code))
-        .join(''),
+    this.chatResponse({ answer: this.decodeResponse(response) });
+
+  private chatResponse = (data: object) =>
+    customMessage(HttpStatus.OK, MESSAGES.SUCCESS, {
+      ...data,
+      usage: this.usageService.currentUsage(),
+    });
+
+  // Checks that a file was uploaded, that it is stored in the tenant's upload directory and that a loader can parse it
+  private checkUpload = async (
+    documentDto: DocumentDto,
+    file: Express.Multer.File,
+    tenantId: string,
+  ) => {
+    if (!file) {
+      throw new BadRequestException(
+        customMessage(HttpStatus.BAD_REQUEST, MESSAGES.FILE_REQUIRED),
+      );
+    }
+    const resolvedPath = path.resolve(
+      this.uploadsSettings.directory,
+      tenantId,
+      path.basename(documentDto.file),
     );
+    if (!existsSync(resolvedPath)) {
+      throw new BadRequestException(
+        customMessage(HttpStatus.BAD_REQUEST, MESSAGES.FILE_NOT_FOUND),
+      );
+    }
+
+    // Reject formats without a registered loader before they reach the library
+    try {
+      this.documentLoaderRegistry.resolve(file.originalname, file.mimetype);
+    } catch (e: unknown) {
+      await unlink(resolvedPath);
+      throw e;
+    }
+    return resolvedPath;
+  };
 
   private exceptionHandling = (e: unknown) => {
+    if (e instanceof HttpException) throw e;
     Logger.error(e);
-    throw new HttpException(
-      customMessage(
+    throw (
+      toModelProviderError(e) ??
+      new HttpException(
+        customMessage(
+          HttpStatus.INTERNAL_SERVER_ERROR,
+          MESSAGES.EXTERNAL_SERVER_ERROR,
+        ),
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      )
+    );
+  };
+
+  private streamExceptionHandling = (e: unknown, writer: StreamWriter) => {
+    // A client disconnect aborts the model call; there is nobody left to notify.
+    if (writer.signal.aborted) return;
+    // Client errors, such as an unknown prompt template, are reported as they are
+    if (!(e instanceof HttpException)) Logger.error(e);
+    const error = e instanceof HttpException ? e : toModelProviderError(e);
+    if (error) {
+      const response = error.getResponse();
+      const message = [
+        typeof response === 'string'
+          ? response
+          : (response as { message: string | string[] }).message,
+      ]
+        .flat()
+        .join(', ');
+      writer.error(message, errorCode(error.getStatus(), message));
+      return;
+    }
+    writer.error(
+      MESSAGES.EXTERNAL_SERVER_ERROR,
+      errorCode(
         HttpStatus.INTERNAL_SERVER_ERROR,
         MESSAGES.EXTERNAL_SERVER_ERROR,
       ),
-      HttpStatus.INTERNAL_SERVER_ERROR,
     );
   };
 }
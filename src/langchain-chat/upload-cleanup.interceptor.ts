@@ -0,0 +1,32 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { rm } from 'fs/promises';
+import { Observable, catchError, from, mergeMap, throwError } from 'rxjs';
+
+/**
+ * Interceptor deleting the file an upload route stored on disk when the request fails. Multer
+ * stores the file before the request DTO is validated, so a request rejected by the validation
+ * pipe, or failing in its handler, would otherwise leave the file behind. It must be listed after
+ * the FileInterceptor storing the file.
+ */
+@Injectable()
+export class UploadCleanupInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest<Request>();
+
+    return next.handle().pipe(
+      catchError((error: unknown) => {
+        if (!request.file?.path) return throwError(() => error);
+        // The handler may have deleted the file already
+        return from(rm(request.file.path, { force: true })).pipe(
+          mergeMap(() => throwError(() => error)),
+        );
+      }),
+    );
+  }
+}
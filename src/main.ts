@@ -1,10 +1,28 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
+import { ServerConfig, serverConfig } from './config/server.config';
+import {
+  ObservabilityConfig,
+  observabilityConfig,
+} from './config/observability.config';
+import { JsonLogger } from './observability/json.logger';
+import { LOG_FORMATS } from './utils/constants/observability.constants';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
-  app.setGlobalPrefix('api/v1');
-  app.enableCors();
-  await app.listen(6000);
+  // Logs are buffered until the configured logger is in place, so that startup logs use it too
+  const app = await NestFactory.create(AppModule, { bufferLogs: true });
+  const { logFormat } = app.get<ObservabilityConfig>(observabilityConfig.KEY);
+  if (logFormat === LOG_FORMATS.JSON) {
+    app.useLogger(app.get(JsonLogger));
+  }
+  app.flushLogs();
+
+  const { port, apiPrefix, corsOrigins } = app.get<ServerConfig>(
+    serverConfig.KEY,
+  );
+  // Probes and scrapers expect the health check and the metrics at the root
+  app.setGlobalPrefix(apiPrefix, { exclude: ['health', 'metrics'] });
+  app.enableCors({ origin: corsOrigins.length ? corsOrigins : false });
+  await app.listen(port);
 }
 bootstrap();
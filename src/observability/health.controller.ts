@@ -0,0 +1,25 @@
+/**
+ * Controller of the health check, open without an API key so that load balancers and orchestrators
+ * can probe it.
+ *
+ * @class HealthController
+ *
+ * @method check - Checks the PostgreSQL pool, the pgvector extension and the configured model provider.
+ *                 Accepts GET requests; responds with 200 and the report of each check when every
+ *                 dependency is up, and with 503 and the same report otherwise.
+ */
+
+import { Controller, Get } from '@nestjs/common';
+import { Public } from 'src/auth/decorators/public.decorator';
+import { HealthService } from './health.service';
+
+@Public()
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  @Get()
+  async check() {
+    return await this.healthService.check();
+  }
+}
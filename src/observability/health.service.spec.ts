@@ -0,0 +1,122 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { HealthService } from './health.service';
+import { DatabaseService } from 'src/services/database.service';
+import { ModelProviderService } from 'src/services/model-provider.service';
+import { observabilityConfig } from 'src/config/observability.config';
+import { HEALTH_STATUS } from 'src/utils/constants/observability.constants';
+
+describe('HealthService', () => {
+  let service: HealthService;
+  let query: jest.Mock;
+  let getChatModel: jest.Mock;
+
+  beforeEach(async () => {
+    query = jest.fn(async (sql: string) =>
+      sql.includes('pg_extension') ? [{ extversion: '0.7.0' }] : [],
+    );
+    getChatModel = jest.fn();
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        HealthService,
+        {
+          provide: DatabaseService,
+          useValue: {
+            query,
+            pool: { totalCount: 2, idleCount: 1, waitingCount: 0 },
+          },
+        },
+        {
+          provide: ModelProviderService,
+          useValue: {
+            getChatModel,
+            getEmbeddings: jest.fn(),
+            getChatModelName: () => 'gpt-4o-mini',
+            getEmbeddingsModel: () => 'text-embedding-3-small',
+          },
+        },
+        {
+          provide: observabilityConfig.KEY,
+          useValue: { healthCheckTimeoutMs: 50 },
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(HealthService);
+  });
+
+  describe('check', () => {
+    it('reports every dependency up', async () => {
+      expect(await service.check()).toMatchObject({
+        statusCode: 200,
+        data: {
+          status: HEALTH_STATUS.UP,
+          checks: {
+            database: {
+              status: HEALTH_STATUS.UP,
+              details: { total_connections: 2, idle_connections: 1 },
+            },
+            pgvector: {
+              status: HEALTH_STATUS.UP,
+              details: { version: '0.7.0' },
+            },
+            model_provider: {
+              status: HEALTH_STATUS.UP,
+              details: { chat_model: 'gpt-4o-mini' },
+            },
+          },
+        },
+      });
+    });
+
+    it('responds with 503 and the report when a dependency is down', async () => {
+      query.mockResolvedValue([]);
+      getChatModel.mockImplementation(() => {
+        throw new Error('OPENAI_API_KEY is not set');
+      });
+
+      const error = await service.check().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ServiceUnavailableException);
+      expect(
+        (error as ServiceUnavailableException).getResponse(),
+      ).toMatchObject({
+        error_code: 'SERVICE_UNHEALTHY',
+        data: {
+          status: HEALTH_STATUS.DOWN,
+          checks: {
+            database: { status: HEALTH_STATUS.UP },
+            pgvector: {
+              status: HEALTH_STATUS.DOWN,
+              error: 'The pgvector extension is not installed',
+            },
+            model_provider: {
+              status: HEALTH_STATUS.DOWN,
+              error: 'OPENAI_API_KEY is not set',
+            },
+          },
+        },
+      });
+    });
+
+    it('reports a dependency down when its check outlasts the timeout', async () => {
+      query.mockReturnValue(new Promise(() => undefined));
+
+      const error = await service.check().catch((e: unknown) => e);
+
+      expect(
+        (error as ServiceUnavailableException).getResponse(),
+      ).toMatchObject({
+        data: {
+          checks: {
+            database: {
+              status: HEALTH_STATUS.DOWN,
+              error: 'The check timed out',
+            },
+          },
+        },
+      });
+    });
+  });
+});
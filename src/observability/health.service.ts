@@ -0,0 +1,129 @@
+/**
+ * Service checking the dependencies the application cannot serve requests without.
+ *
+ * The checks run in parallel, each bounded by the configured timeout: the PostgreSQL pool must run
+ * a query, the pgvector extension must be installed in the database, and the configured chat and
+ * embeddings providers must be registered and able to create their models with the configured
+ * credentials. The model provider check does not call the provider, so that probes cost nothing.
+ *
+ * Configuration (the `observability` namespace, see src/config/observability.config.ts):
+ * - healthCheckTimeoutMs - How long each check may take before its dependency is reported down.
+ *
+ * @class HealthService
+ *
+ * @method check - Checks every dependency.
+ * @returns The health report, see HealthReport; a ServiceUnavailableException carrying the report is
+ *          thrown when a dependency is down.
+ */
+
+import {
+  HttpStatus,
+  Inject,
+  Injectable,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import { HEALTH_STATUS } from 'src/utils/constants/observability.constants';
+import {
+  ObservabilityConfig,
+  observabilityConfig,
+} from 'src/config/observability.config';
+import { DatabaseService } from 'src/services/database.service';
+import { ModelProviderService } from 'src/services/model-provider.service';
+import { HealthCheck, HealthReport } from './interfaces/health.interface';
+
+@Injectable()
+export class HealthService {
+  constructor(
+    private databaseService: DatabaseService,
+    private modelProviderService: ModelProviderService,
+    @Inject(observabilityConfig.KEY)
+    private observabilitySettings: ObservabilityConfig,
+  ) {}
+
+  async check() {
+    const [database, pgvector, model_provider] = await Promise.all([
+      this.run(this.checkDatabase),
+      this.run(this.checkPgvector),
+      this.run(this.checkModelProvider),
+    ]);
+    const checks = { database, pgvector, model_provider };
+    const report: HealthReport = {
+      status: Object.values(checks).every(
+        (check) => check.status === HEALTH_STATUS.UP,
+      )
+        ? HEALTH_STATUS.UP
+        : HEALTH_STATUS.DOWN,
+      checks,
+    };
+
+    if (report.status === HEALTH_STATUS.DOWN) {
+      throw new ServiceUnavailableException(
+        customMessage(
+          HttpStatus.SERVICE_UNAVAILABLE,
+          MESSAGES.SERVICE_UNHEALTHY,
+          report,
+        ),
+      );
+    }
+    return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, report);
+  }
+
+  private checkDatabase = async () => {
+    await this.databaseService.query('SELECT 1');
+    const { totalCount, idleCount, waitingCount } = this.databaseService.pool;
+    return {
+      total_connections: totalCount,
+      idle_connections: idleCount,
+      waiting_clients: waitingCount,
+    };
+  };
+
+  private checkPgvector = async () => {
+    const [extension] = await this.databaseService.query<{
+      extversion: string;
+    }>("SELECT extversion FROM pg_extension WHERE extname = 'vector'");
+    if (!extension) {
+      throw new Error('The pgvector extension is not installed');
+    }
+    return { version: extension.extversion };
+  };
+
+  // Creating the models checks the provider names, model settings and credentials of the configuration
+  private checkModelProvider = async () => {
+    this.modelProviderService.getChatModel();
+    this.modelProviderService.getEmbeddings();
+    return {
+      chat_model: this.modelProviderService.getChatModelName(),
+      embeddings_model: this.modelProviderService.getEmbeddingsModel(),
+    };
+  };
+
+  private run = async (
+    check: () => Promise<Record<string, unknown>>,
+  ): Promise<HealthCheck> => {
+    const startedAt = performance.now();
+    const latency = () => Math.round(performance.now() - startedAt);
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(
+        () => reject(new Error('The check timed out')),
+        this.observabilitySettings.healthCheckTimeoutMs,
+      );
+    });
+
+    try {
+      const details = await Promise.race([check(), timeout]);
+      return { status: HEALTH_STATUS.UP, latency_ms: latency(), details };
+    } catch (e: unknown) {
+      return {
+        status: HEALTH_STATUS.DOWN,
+        latency_ms: latency(),
+        error: e instanceof Error ? e.message : String(e),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
@@ -0,0 +1,35 @@
+import { HEALTH_STATUS } from 'src/utils/constants/observability.constants';
+
+/**
+ * The outcome of the check of one dependency by HealthService.
+ *
+ * @interface HealthCheck
+ *
+ * @property status - Whether the dependency answered in time.
+ * @property latency_ms - How long the check took.
+ * @property error - Why the dependency is down.
+ * @property details - What the check found out, e.g., the pgvector version or the configured models.
+ */
+export interface HealthCheck {
+  status: HEALTH_STATUS;
+  latency_ms: number;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * The report of the `/health` route: the application is up when every dependency is.
+ *
+ * @interface HealthReport
+ *
+ * @property status - `up` when every check passed, `down` otherwise.
+ * @property checks - The check of the PostgreSQL pool, of the pgvector extension and of the model provider.
+ */
+export interface HealthReport {
+  status: HEALTH_STATUS;
+  checks: {
+    database: HealthCheck;
+    pgvector: HealthCheck;
+    model_provider: HealthCheck;
+  };
+}
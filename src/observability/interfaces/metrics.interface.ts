@@ -0,0 +1,28 @@
+import { METRICS } from 'src/utils/constants/observability.constants';
+
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Declaration of a metric exposed by MetricsService.
+ *
+ * @interface MetricDefinition
+ *
+ * @property name - Name of the metric, see METRICS.
+ * @property help - Description of the metric, sent in its `# HELP` line.
+ * @property type - Whether the metric counts events or observes values into buckets.
+ * @property buckets - Upper bounds of the buckets of a histogram, in ascending order.
+ */
+export interface MetricDefinition {
+  name: METRICS;
+  help: string;
+  type: 'counter' | 'histogram';
+  buckets?: number[];
+}
+
+// One combination of label values of a metric; a counter only uses `sum`
+export interface MetricSeries {
+  labels: MetricLabels;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
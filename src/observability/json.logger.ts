@@ -0,0 +1,94 @@
+import { Injectable, LoggerService, LogLevel } from '@nestjs/common';
+import { ObservabilityService } from './observability.service';
+
+// Nest passes the stack of an error log as a string parameter
+const isStack = (value: unknown): value is string =>
+  typeof value === 'string' && /\n\s+at /.test(value);
+
+/**
+ * Logger writing every log entry as one JSON object per line, used application-wide when
+ * LOG_FORMAT is `json`.
+ *
+ * Each entry carries its time, level, the context of the logger and the correlation ID of the
+ * request it was written for. Object messages, such as the run entries of
+ * ObservabilityCallbackHandler, are merged into the entry; errors contribute their message and
+ * stack. Errors go to stderr and the other levels to stdout, like the default logger.
+ */
+@Injectable()
+export class JsonLogger implements LoggerService {
+  private logLevels: LogLevel[] = [
+    'log',
+    'error',
+    'warn',
+    'debug',
+    'verbose',
+    'fatal',
+  ];
+
+  constructor(private observabilityService: ObservabilityService) {}
+
+  log(message: unknown, ...optionalParams: unknown[]) {
+    this.write('log', message, optionalParams);
+  }
+
+  error(message: unknown, ...optionalParams: unknown[]) {
+    this.write('error', message, optionalParams);
+  }
+
+  warn(message: unknown, ...optionalParams: unknown[]) {
+    this.write('warn', message, optionalParams);
+  }
+
+  debug(message: unknown, ...optionalParams: unknown[]) {
+    this.write('debug', message, optionalParams);
+  }
+
+  verbose(message: unknown, ...optionalParams: unknown[]) {
+    this.write('verbose', message, optionalParams);
+  }
+
+  fatal(message: unknown, ...optionalParams: unknown[]) {
+    this.write('fatal', message, optionalParams);
+  }
+
+  setLogLevels(levels: LogLevel[]) {
+    this.logLevels = levels;
+  }
+
+  private write = (
+    level: LogLevel,
+    message: unknown,
+    optionalParams: unknown[],
+  ) => {
+    if (!this.logLevels.includes(level)) return;
+
+    const context = optionalParams.find(
+      (param) => typeof param === 'string' && !isStack(param),
+    );
+    const entry: Record<string, unknown> = {
+      time: new Date().toISOString(),
+      level,
+      context,
+      request_id: this.observabilityService.requestId(),
+      ...this.fields(message),
+    };
+    entry.stack ??= optionalParams.find(isStack);
+
+    const stream = ['error', 'fatal'].includes(level)
+      ? process.stderr
+      : process.stdout;
+    stream.write(`${JSON.stringify(entry)}\n`);
+  };
+
+  private fields = (message: unknown): Record<string, unknown> => {
+    if (message instanceof Error) {
+      return {
+        message: message.message,
+        error: message.name,
+        stack: message.stack,
+      };
+    }
+    if (message && typeof message === 'object') return { ...message };
+    return { message: String(message) };
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Admin controller exposing the metrics of MetricsService to Prometheus, which can send the admin
+ * API key as a bearer token.
+ *
+ * @class MetricsController
+ *
+ * @method metrics - Renders the HTTP, LangChain run, token and retrieval metrics of this instance in the
+ *                   Prometheus text exposition format. Accepts GET requests.
+ */
+
+import { Controller, Get, Header } from '@nestjs/common';
+import { AdminOnly } from 'src/auth/decorators/admin-only.decorator';
+import { MetricsService } from './metrics.service';
+
+@AdminOnly()
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  @Get()
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  metrics() {
+    return this.metricsService.render();
+  }
+}
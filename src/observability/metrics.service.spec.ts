@@ -0,0 +1,88 @@
+import { MetricsService } from './metrics.service';
+import {
+  LATENCY_BUCKETS,
+  METRICS,
+} from 'src/utils/constants/observability.constants';
+
+describe('MetricsService', () => {
+  let service: MetricsService;
+
+  // The lines of the rendered metric, without its HELP and TYPE comments
+  const samples = (name: METRICS) =>
+    service
+      .render()
+      .split('\n')
+      .filter((line) => line.startsWith(name));
+
+  beforeEach(() => {
+    service = new MetricsService();
+  });
+
+  describe('render', () => {
+    it('declares every metric, with its help and type', () => {
+      const output = service.render();
+
+      expect(output).toContain(
+        `# HELP ${METRICS.HTTP_REQUESTS} HTTP responses sent, by method, route and status code.\n# TYPE ${METRICS.HTTP_REQUESTS} counter\n`,
+      );
+      expect(output).toContain(
+        `# TYPE ${METRICS.HTTP_REQUEST_DURATION} histogram\n`,
+      );
+      expect(output.endsWith('\n')).toBe(true);
+    });
+
+    it('adds up a counter per label set, whatever the order of the labels', () => {
+      service.increment(METRICS.HTTP_REQUESTS, {
+        method: 'GET',
+        route: '/health',
+        status: '200',
+      });
+      service.increment(
+        METRICS.HTTP_REQUESTS,
+        { status: '200', route: '/health', method: 'GET' },
+        2,
+      );
+      service.increment(METRICS.HTTP_REQUESTS, {
+        method: 'GET',
+        route: '/health',
+        status: '503',
+      });
+
+      expect(samples(METRICS.HTTP_REQUESTS)).toEqual([
+        'http_requests_total{method="GET",route="/health",status="200"} 3',
+        'http_requests_total{method="GET",route="/health",status="503"} 1',
+      ]);
+    });
+
+    it('escapes backslashes, quotes and line breaks in label values', () => {
+      service.increment(METRICS.LANGCHAIN_RUN_ERRORS, {
+        name: 'say "hi"\\\nbye',
+      });
+
+      expect(samples(METRICS.LANGCHAIN_RUN_ERRORS)).toEqual([
+        'langchain_run_errors_total{name="say \\"hi\\"\\\\\\nbye"} 1',
+      ]);
+    });
+
+    it('counts the observations of a histogram in cumulative buckets', () => {
+      const labels = { method: 'GET', route: '/health' };
+      service.observe(METRICS.HTTP_REQUEST_DURATION, labels, 0.02);
+      service.observe(METRICS.HTTP_REQUEST_DURATION, labels, 0.3);
+      service.observe(METRICS.HTTP_REQUEST_DURATION, labels, 1000);
+
+      const lines = samples(METRICS.HTTP_REQUEST_DURATION);
+      const bucket = (le: string) =>
+        lines.find((line) => line.includes(`le="${le}"`))?.split(' ')[1];
+
+      expect(lines).toHaveLength(LATENCY_BUCKETS.length + 3);
+      expect(bucket('0.05')).toBe('1');
+      expect(bucket('0.5')).toBe('2');
+      expect(bucket(String(LATENCY_BUCKETS.at(-1)))).toBe('2');
+      expect(bucket('+Inf')).toBe('3');
+      expect(lines.slice(-2)).toEqual([
+        'http_request_duration_seconds_sum{method="GET",route="/health"} 1000.32',
+        'http_request_duration_seconds_count{method="GET",route="/health"} 3',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Service collecting the application metrics, exposed in the Prometheus text format on `/metrics`.
+ *
+ * Metrics are kept in memory, per instance, from the start of the process: the HTTP responses and
+ * their latency by route, measured by RequestIdMiddleware; the latency and errors of the LangChain
+ * runs by route and model or run name, and the number of chunks of each retrieval, measured by
+ * ObservabilityCallbackHandler; the tokens of the model calls by route and model, counted by
+ * UsageService; and the decisions of the guardrails, counted by GuardrailsService. The metrics and
+ * their buckets are declared in METRIC_DEFINITIONS below.
+ *
+ * @class MetricsService
+ *
+ * @method increment - Adds a value, 1 by default, to a counter.
+ * @param {METRICS} name - The counter.
+ * @param {MetricLabels} labels - The label values of the series to add to.
+ *
+ * @method observe - Records a value in the buckets of a histogram.
+ * @param {METRICS} name - The histogram.
+ * @param {MetricLabels} labels - The label values of the series to record in.
+ * @param {number} value - The observed value, e.g., a duration in seconds.
+ *
+ * @method render - Renders every metric in the Prometheus text exposition format.
+ */
+
+import { Injectable } from '@nestjs/common';
+import {
+  LATENCY_BUCKETS,
+  METRICS,
+  RETRIEVED_DOCUMENTS_BUCKETS,
+} from 'src/utils/constants/observability.constants';
+import {
+  MetricDefinition,
+  MetricLabels,
+  MetricSeries,
+} from './interfaces/metrics.interface';
+
+const METRIC_DEFINITIONS: MetricDefinition[] = [
+  {
+    name: METRICS.HTTP_REQUESTS,
+    help: 'HTTP responses sent, by method, route and status code.',
+    type: 'counter',
+  },
+  {
+    name: METRICS.HTTP_REQUEST_DURATION,
+    help: 'Time to respond to HTTP requests, in seconds, by method and route.',
+    type: 'histogram',
+    buckets: LATENCY_BUCKETS,
+  },
+  {
+    name: METRICS.LANGCHAIN_RUN_DURATION,
+    help: 'Duration of the LangChain chain, chat model, retriever and tool runs, in seconds.',
+    type: 'histogram',
+    buckets: LATENCY_BUCKETS,
+  },
+  {
+    name: METRICS.LANGCHAIN_RUN_ERRORS,
+    help: 'LangChain chain, chat model, retriever and tool runs that failed.',
+    type: 'counter',
+  },
+  {
+    name: METRICS.MODEL_TOKENS,
+    help: 'Prompt and completion tokens of the chat model and embeddings calls, by route and model.',
+    type: 'counter',
+  },
+  {
+    name: METRICS.RETRIEVED_DOCUMENTS,
+    help: 'Number of chunks returned by each retrieval, by route.',
+    type: 'histogram',
+    buckets: RETRIEVED_DOCUMENTS_BUCKETS,
+  },
+  {
+    name: METRICS.GUARDRAIL_DECISIONS,
+    help: 'Decisions of the PII redaction, prompt-injection and output moderation guardrails, by route.',
+    type: 'counter',
+  },
+];
+
+@Injectable()
+export class MetricsService {
+  private series = new Map<METRICS, Map<string, MetricSeries>>(
+    METRIC_DEFINITIONS.map((definition) => [definition.name, new Map()]),
+  );
+
+  increment(name: METRICS, labels: MetricLabels, value = 1) {
+    const series = this.seriesOf(name, labels);
+    series.sum += value;
+  }
+
+  observe(name: METRICS, labels: MetricLabels, value: number) {
+    const { buckets } = this.definition(name);
+    const series = this.seriesOf(name, labels);
+    buckets.forEach((bound, index) => {
+      if (value <= bound) series.bucketCounts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render() {
+    const lines = METRIC_DEFINITIONS.flatMap(
+      ({ name, help, type, buckets }) => [
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} ${type}`,
+        ...[...this.series.get(name).values()].flatMap((series) =>
+          type === 'counter'
+            ? [`${name}${labelSet(series.labels)} ${series.sum}`]
+            : [
+                ...buckets.map(
+                  (bound, index) =>
+                    `${name}_bucket${labelSet({ ...series.labels, le: String(bound) })} ${series.bucketCounts[index]}`,
+                ),
+                `${name}_bucket${labelSet({ ...series.labels, le: '+Inf' })} ${series.count}`,
+                `${name}_sum${labelSet(series.labels)} ${series.sum}`,
+                `${name}_count${labelSet(series.labels)} ${series.count}`,
+              ],
+        ),
+      ],
+    );
+    return `${lines.join('\n')}\n`;
+  }
+
+  private definition = (name: METRICS) =>
+    METRIC_DEFINITIONS.find((definition) => definition.name === name);
+
+  private seriesOf = (name: METRICS, labels: MetricLabels) => {
+    const metric = this.series.get(name);
+    const key = labelSet(labels);
+    if (!metric.has(key)) {
+      metric.set(key, {
+        labels,
+        bucketCounts: (this.definition(name).buckets ?? []).map(() => 0),
+        sum: 0,
+        count: 0,
+      });
+    }
+    return metric.get(key);
+  };
+}
+
+// Labels are sorted so that the same values always make the same series, whatever their order
+const labelSet = (labels: MetricLabels) => {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map((label) => `${label}="${escapeLabelValue(labels[label])}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+};
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
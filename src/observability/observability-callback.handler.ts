@@ -0,0 +1,243 @@
+import { Logger } from '@nestjs/common';
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import { DocumentInterface } from '@langchain/core/documents';
+import { Serialized } from '@langchain/core/load/serializable';
+import { LLMResult } from '@langchain/core/outputs';
+import { chatModelName } from 'src/usage/usage-callback.handler';
+import {
+  LANGCHAIN_RUN_TYPES,
+  METRICS,
+} from 'src/utils/constants/observability.constants';
+import { MetricsService } from './metrics.service';
+import type { ObservabilityService } from './observability.service';
+
+interface ObservedRun {
+  runType: LANGCHAIN_RUN_TYPES;
+  name: string;
+  parentRunId: string | null;
+  requestId: string | null;
+  route: string;
+  startedAt: number;
+}
+
+/**
+ * LangChain callback handler logging and measuring the chain, chat model, retriever and tool runs
+ * it observes.
+ *
+ * The start of a run is logged at debug level with its type, name, parent run and the correlation
+ * ID found in its metadata; its end is logged with its duration, and its failure with the error, as
+ * structured entries of the `LangChain` logger. The duration and failures of every run, and the
+ * number of chunks of every retrieval, are added to the metrics of MetricsService, labelled with the
+ * route the run was made for; chat model runs are named after their model. The handler is awaited
+ * so that runs are attributed to the request they were started in.
+ */
+export class ObservabilityCallbackHandler extends BaseCallbackHandler {
+  name = 'observability_callback_handler';
+  awaitHandlers = true;
+
+  private readonly logger = new Logger('LangChain');
+  private runs = new Map<string, ObservedRun>();
+
+  constructor(
+    private observabilityService: ObservabilityService,
+    private metricsService: MetricsService,
+  ) {
+    super();
+  }
+
+  handleChainStart(
+    chain: Serialized,
+    _inputs: unknown,
+    runId: string,
+    parentRunId?: string,
+    _tags?: string[],
+    metadata?: Record<string, unknown>,
+    _runType?: string,
+    name?: string,
+  ) {
+    this.start(
+      runId,
+      LANGCHAIN_RUN_TYPES.CHAIN,
+      chain,
+      parentRunId,
+      metadata,
+      name,
+    );
+  }
+
+  handleChainEnd(_outputs: unknown, runId: string) {
+    this.end(runId);
+  }
+
+  handleChainError(error: unknown, runId: string) {
+    this.fail(runId, error);
+  }
+
+  handleChatModelStart(
+    llm: Serialized,
+    _messages: unknown,
+    runId: string,
+    parentRunId?: string,
+    extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>,
+  ) {
+    this.start(
+      runId,
+      LANGCHAIN_RUN_TYPES.LLM,
+      llm,
+      parentRunId,
+      metadata,
+      chatModelName(llm, extraParams),
+    );
+  }
+
+  handleLLMEnd(output: LLMResult, runId: string) {
+    this.end(runId, { token_usage: output.llmOutput?.tokenUsage });
+  }
+
+  handleLLMError(error: unknown, runId: string) {
+    this.fail(runId, error);
+  }
+
+  handleRetrieverStart(
+    retriever: Serialized,
+    _query: string,
+    runId: string,
+    parentRunId?: string,
+    _tags?: string[],
+    metadata?: Record<string, unknown>,
+    name?: string,
+  ) {
+    this.start(
+      runId,
+      LANGCHAIN_RUN_TYPES.RETRIEVER,
+      retriever,
+      parentRunId,
+      metadata,
+      name,
+    );
+  }
+
+  handleRetrieverEnd(documents: DocumentInterface[], runId: string) {
+    const run = this.runs.get(runId);
+    if (run) {
+      this.metricsService.observe(
+        METRICS.RETRIEVED_DOCUMENTS,
+        { route: run.route },
+        documents.length,
+      );
+    }
+    this.end(runId, { documents: documents.length });
+  }
+
+  handleRetrieverError(error: unknown, runId: string) {
+    this.fail(runId, error);
+  }
+
+  handleToolStart(
+    tool: Serialized,
+    _input: string,
+    runId: string,
+    parentRunId?: string,
+    _tags?: string[],
+    metadata?: Record<string, unknown>,
+    name?: string,
+  ) {
+    this.start(
+      runId,
+      LANGCHAIN_RUN_TYPES.TOOL,
+      tool,
+      parentRunId,
+      metadata,
+      name,
+    );
+  }
+
+  handleToolEnd(_output: string, runId: string) {
+    this.end(runId);
+  }
+
+  handleToolError(error: unknown, runId: string) {
+    this.fail(runId, error);
+  }
+
+  private start = (
+    runId: string,
+    runType: LANGCHAIN_RUN_TYPES,
+    serialized: Serialized,
+    parentRunId?: string,
+    metadata?: Record<string, unknown>,
+    name?: string,
+  ) => {
+    const run: ObservedRun = {
+      runType,
+      name: name ?? serialized.id[serialized.id.length - 1],
+      parentRunId: parentRunId ?? null,
+      requestId:
+        (metadata?.request_id as string) ??
+        this.observabilityService.requestId() ??
+        null,
+      route: this.observabilityService.route(),
+      startedAt: performance.now(),
+    };
+    this.runs.set(runId, run);
+    this.logger.debug({ event: 'run_start', ...this.entry(runId, run) });
+  };
+
+  private end = (runId: string, details: Record<string, unknown> = {}) => {
+    const run = this.finish(runId);
+    if (!run) return;
+    this.logger.log({
+      event: 'run_end',
+      ...this.entry(runId, run),
+      duration_ms: Math.round(run.duration * 1000),
+      ...details,
+    });
+  };
+
+  private fail = (runId: string, error: unknown) => {
+    const run = this.finish(runId);
+    if (!run) return;
+    this.metricsService.increment(
+      METRICS.LANGCHAIN_RUN_ERRORS,
+      this.labels(run),
+    );
+    this.logger.error({
+      event: 'run_error',
+      ...this.entry(runId, run),
+      duration_ms: Math.round(run.duration * 1000),
+      error: error instanceof Error ? error.message : String(error),
+    });
+  };
+
+  // Failed runs are timed too, since slow failures such as timeouts matter as much as slow successes
+  private finish = (runId: string) => {
+    const run = this.runs.get(runId);
+    this.runs.delete(runId);
+    if (!run) return undefined;
+
+    const duration = (performance.now() - run.startedAt) / 1000;
+    this.metricsService.observe(
+      METRICS.LANGCHAIN_RUN_DURATION,
+      this.labels(run),
+      duration,
+    );
+    return { ...run, duration };
+  };
+
+  private labels = (run: ObservedRun) => ({
+    route: run.route,
+    run_type: run.runType,
+    name: run.name,
+  });
+
+  private entry = (runId: string, run: ObservedRun) => ({
+    request_id: run.requestId,
+    route: run.route,
+    run_type: run.runType,
+    name: run.name,
+    run_id: runId,
+    parent_run_id: run.parentRunId,
+  });
+}
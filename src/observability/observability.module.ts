@@ -0,0 +1,26 @@
+import { Global, MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { ObservabilityService } from './observability.service';
+import { MetricsService } from './metrics.service';
+import { HealthService } from './health.service';
+import { JsonLogger } from './json.logger';
+import { MetricsController } from './metrics.controller';
+import { HealthController } from './health.controller';
+import { RequestIdMiddleware } from './request-id.middleware';
+
+/**
+ * Global module for correlation IDs, structured logs, metrics and health checks. ObservabilityService
+ * is shared with the services running chains, and MetricsService with UsageService, which counts the
+ * tokens of the model calls; the middleware giving every request its correlation ID applies to
+ * every route.
+ */
+@Global()
+@Module({
+  controllers: [MetricsController, HealthController],
+  providers: [ObservabilityService, MetricsService, HealthService, JsonLogger],
+  exports: [ObservabilityService, MetricsService, JsonLogger],
+})
+export class ObservabilityModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(RequestIdMiddleware).forRoutes('*');
+  }
+}
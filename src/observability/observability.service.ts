@@ -0,0 +1,102 @@
+/**
+ * Service carrying the correlation ID of each request into the logs and LangChain runs made for it.
+ *
+ * RequestIdMiddleware runs every request in the context of its correlation ID, read from the
+ * `x-request-id` header or generated, and the ingestion worker runs every job in the context of
+ * the request that queued it. JsonLogger stamps the ID on every log line, and the chains of the
+ * application run with `runConfig()`, which attaches `callbackHandler` and passes the ID in their
+ * metadata, so that every chain, chat model, retriever and tool run is logged and measured.
+ *
+ * @class ObservabilityService
+ *
+ * @method runInRequest - Runs a function, and everything it starts, in the context of a correlation ID.
+ * @method requestId - Returns the correlation ID of the current context, if any.
+ * @method route - Names the route the current work is done for, to label metrics; see UsageContext.
+ *
+ * @method runConfig - Returns the runnable config logging and measuring the runs of a chain, to pass
+ *                     to its `invoke`, `stream` or `batch` call.
+ *
+ * @method traceRetrieval - Runs a search outside of LangChain as a retriever run, so that it is
+ *                          logged and measured like the runs of LangChain retrievers.
+ * @param {string} name - Name of the retriever.
+ * @param {string} query - The search query.
+ * @param {Function} retrieve - Runs the search and returns the retrieved documents.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { CallbackManager } from '@langchain/core/callbacks/manager';
+import { DocumentInterface } from '@langchain/core/documents';
+import { RunnableConfig } from '@langchain/core/runnables';
+import { UsageService } from 'src/usage/usage.service';
+import { NO_ROUTE } from 'src/utils/constants/observability.constants';
+import { MetricsService } from './metrics.service';
+import { ObservabilityCallbackHandler } from './observability-callback.handler';
+
+@Injectable()
+export class ObservabilityService {
+  readonly callbackHandler: ObservabilityCallbackHandler;
+  private requestIdStorage = new AsyncLocalStorage<string>();
+
+  constructor(
+    private usageService: UsageService,
+    metricsService: MetricsService,
+  ) {
+    this.callbackHandler = new ObservabilityCallbackHandler(
+      this,
+      metricsService,
+    );
+  }
+
+  runInRequest<T>(requestId: string | null, run: () => T): T {
+    return requestId ? this.requestIdStorage.run(requestId, run) : run();
+  }
+
+  requestId(): string | undefined {
+    return this.requestIdStorage.getStore();
+  }
+
+  route(): string {
+    return this.usageService.currentContext()?.endpoint ?? NO_ROUTE;
+  }
+
+  runConfig(): Partial<RunnableConfig> {
+    const requestId = this.requestId();
+    return {
+      callbacks: [this.callbackHandler],
+      metadata: requestId ? { request_id: requestId } : {},
+    };
+  }
+
+  async traceRetrieval<T extends DocumentInterface>(
+    name: string,
+    query: string,
+    retrieve: () => Promise<T[]>,
+  ): Promise<T[]> {
+    const { callbacks, metadata } = this.runConfig();
+    const callbackManager = await CallbackManager.configure(
+      callbacks,
+      undefined,
+      undefined,
+      undefined,
+      metadata,
+    );
+    const runManager = await callbackManager.handleRetrieverStart(
+      { lc: 1, type: 'not_implemented', id: [name] },
+      query,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      name,
+    );
+    try {
+      const documents = await retrieve();
+      await runManager.handleRetrieverEnd(documents);
+      return documents;
+    } catch (e: unknown) {
+      await runManager.handleRetrieverError(e);
+      throw e;
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { EventEmitter } from 'events';
+import { Logger } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { RequestIdMiddleware } from './request-id.middleware';
+import { ObservabilityService } from './observability.service';
+import { MetricsService } from './metrics.service';
+import { UsageService } from 'src/usage/usage.service';
+import {
+  METRICS,
+  REQUEST_ID_HEADER,
+} from 'src/utils/constants/observability.constants';
+
+describe('RequestIdMiddleware', () => {
+  let middleware: RequestIdMiddleware;
+  let observabilityService: ObservabilityService;
+  let metricsService: { increment: jest.Mock; observe: jest.Mock };
+
+  const request = (requestId?: string) =>
+    ({
+      method: 'POST',
+      path: '/langchain-chat/basic-chat',
+      route: { path: '/langchain-chat/basic-chat' },
+      header: (name: string) =>
+        name === REQUEST_ID_HEADER ? requestId : undefined,
+    }) as unknown as Request;
+
+  const response = () =>
+    Object.assign(new EventEmitter(), {
+      statusCode: 200,
+      setHeader: jest.fn(),
+    }) as unknown as Response & EventEmitter & { setHeader: jest.Mock };
+
+  // Runs the middleware, returning the response and what the rest of the request saw
+  const handle = (requestId?: string) => {
+    const res = response();
+    let seen: { requestId: string; metadata: Record<string, unknown> };
+    middleware.use(request(requestId), res, () => {
+      seen = {
+        requestId: observabilityService.requestId(),
+        metadata: observabilityService.runConfig().metadata,
+      };
+    });
+    return { res, seen };
+  };
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    metricsService = { increment: jest.fn(), observe: jest.fn() };
+    observabilityService = new ObservabilityService(
+      { currentContext: () => undefined } as unknown as UsageService,
+      metricsService as unknown as MetricsService,
+    );
+    middleware = new RequestIdMiddleware(
+      observabilityService,
+      metricsService as unknown as MetricsService,
+    );
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('propagates the correlation ID of the request to its handler and LangChain runs', () => {
+    const { res, seen } = handle('checkout-42');
+
+    expect(res.setHeader).toHaveBeenCalledWith(
+      REQUEST_ID_HEADER,
+      'checkout-42',
+    );
+    expect(seen).toEqual({
+      requestId: 'checkout-42',
+      metadata: { request_id: 'checkout-42' },
+    });
+    expect(observabilityService.requestId()).toBeUndefined();
+  });
+
+  it('replaces a missing or malformed correlation ID with a new UUID', () => {
+    for (const presented of [undefined, 'not a token\n']) {
+      const { res, seen } = handle(presented);
+
+      expect(seen.requestId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(res.setHeader).toHaveBeenCalledWith(
+        REQUEST_ID_HEADER,
+        seen.requestId,
+      );
+    }
+  });
+
+  it('counts the response under its route once it is sent', () => {
+    const { res } = handle('checkout-42');
+    expect(metricsService.increment).not.toHaveBeenCalled();
+
+    res.emit('finish');
+
+    expect(metricsService.increment).toHaveBeenCalledWith(
+      METRICS.HTTP_REQUESTS,
+      { method: 'POST', route: '/langchain-chat/basic-chat', status: '200' },
+    );
+    expect(metricsService.observe).toHaveBeenCalledWith(
+      METRICS.HTTP_REQUEST_DURATION,
+      { method: 'POST', route: '/langchain-chat/basic-chat' },
+      expect.any(Number),
+    );
+  });
+});
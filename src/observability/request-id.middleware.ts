@@ -0,0 +1,76 @@
+import { Injectable, Logger, NestMiddleware } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import {
+  METRICS,
+  REQUEST_ID_HEADER,
+  REQUEST_ID_PATTERN,
+  UNMATCHED_ROUTE,
+} from 'src/utils/constants/observability.constants';
+import { MetricsService } from './metrics.service';
+import { ObservabilityService } from './observability.service';
+
+/**
+ * Middleware giving every request a correlation ID and measuring its response.
+ *
+ * The ID is the `x-request-id` header of the request when it is a short token, and a new UUID
+ * otherwise; it is echoed in the `x-request-id` header of the response, and the rest of the
+ * request, guards and handler included, runs in its context. Once the response is sent, it is
+ * logged and counted in the HTTP metrics under the path of the matched route, so that requests for
+ * different IDs share the same labels.
+ */
+@Injectable()
+export class RequestIdMiddleware implements NestMiddleware {
+  private readonly logger = new Logger('HTTP');
+
+  constructor(
+    private observabilityService: ObservabilityService,
+    private metricsService: MetricsService,
+  ) {}
+
+  use(request: Request, response: Response, next: NextFunction) {
+    const presented = request.header(REQUEST_ID_HEADER);
+    const requestId = REQUEST_ID_PATTERN.test(presented ?? '')
+      ? presented
+      : randomUUID();
+    response.setHeader(REQUEST_ID_HEADER, requestId);
+
+    const startedAt = performance.now();
+    response.on('finish', () =>
+      this.observabilityService.runInRequest(requestId, () =>
+        this.measure(request, response, startedAt),
+      ),
+    );
+    this.observabilityService.runInRequest(requestId, next);
+  }
+
+  private measure = (
+    request: Request,
+    response: Response,
+    startedAt: number,
+  ) => {
+    const duration = (performance.now() - startedAt) / 1000;
+    const route: string = request.route?.path ?? UNMATCHED_ROUTE;
+    const { method } = request;
+    const status = String(response.statusCode);
+
+    this.metricsService.increment(METRICS.HTTP_REQUESTS, {
+      method,
+      route,
+      status,
+    });
+    this.metricsService.observe(
+      METRICS.HTTP_REQUEST_DURATION,
+      { method, route },
+      duration,
+    );
+    this.logger.log({
+      event: 'http_request',
+      method,
+      route,
+      path: request.path,
+      status: response.statusCode,
+      duration_ms: Math.round(duration * 1000),
+    });
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * Data Transfer Object for adding a version to an existing prompt template.
+ *
+ * @class CreatePromptTemplateVersionDto
+ *
+ * @property template - The f-string template of the new version.
+ * @property description - Optional note on the changes of the version.
+ */
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class CreatePromptTemplateVersionDto {
+  @IsNotEmpty()
+  @IsString()
+  template: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
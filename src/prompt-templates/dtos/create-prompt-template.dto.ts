@@ -0,0 +1,33 @@
+/**
+ * Data Transfer Object for creating a prompt template, stored as its version 1.
+ *
+ * @class CreatePromptTemplateDto
+ *
+ * @property name - Name of the template. Lowercase letters, digits, '-' and '_', starting with a letter or digit.
+ * @property template - The f-string template; its `{placeholders}` become the declared variables.
+ * @property description - Optional note on the purpose of the template.
+ */
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { PROMPT_TEMPLATE_NAME_PATTERN } from 'src/utils/constants/prompt-templates.constants';
+
+export class CreatePromptTemplateDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  @Matches(PROMPT_TEMPLATE_NAME_PATTERN)
+  name: string;
+
+  @IsNotEmpty()
+  @IsString()
+  template: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
@@ -0,0 +1,20 @@
+/**
+ * Data Transfer Object for picking the prompt template of a chat request.
+ *
+ * @class PromptTemplateSelectionDto
+ *
+ * @property name - Name of a stored prompt template.
+ * @property version - Version of the template. The latest version is used when omitted.
+ */
+import { IsInt, IsNotEmpty, IsOptional, IsString, Min } from 'class-validator';
+
+export class PromptTemplateSelectionDto {
+  @IsNotEmpty()
+  @IsString()
+  name: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  version?: number;
+}
@@ -0,0 +1,22 @@
+/**
+ * A stored version of a prompt template, as returned by PromptTemplatesService.
+ *
+ * @interface PromptTemplateRecord
+ *
+ * @property id - Identifier of the version.
+ * @property name - Name of the template, shared by all its versions.
+ * @property version - Version number, starting at 1 and incremented with each new version.
+ * @property template - The f-string template, e.g., 'Answer {question} using {context}'.
+ * @property input_variables - Variables declared by the template, parsed from its placeholders.
+ * @property description - Optional note on the purpose or the changes of the version.
+ * @property created_at - When the version was stored.
+ */
+export interface PromptTemplateRecord {
+  id: string;
+  name: string;
+  version: number;
+  template: string;
+  input_variables: string[];
+  description: string | null;
+  created_at: Date;
+}
@@ -0,0 +1,110 @@
+/**
+ * Controller for managing the stored prompt templates of the chat routes.
+ *
+ * Chat requests pick a template with their `prompt_template` property, by name and optional version.
+ * Templates belong to the tenant whose API key made the request; the built-in templates are shared
+ * by all tenants and read-only.
+ *
+ * @class PromptTemplatesController
+ *
+ * @method create - Creates a template as version 1. Accepts POST requests with a CreatePromptTemplateDto.
+ * @method addVersion - Adds a version to a template. Accepts POST requests with a CreatePromptTemplateVersionDto.
+ * @method findAll - Lists the latest version of every template, the built-in ones included.
+ * @method findVersions - Lists all versions of a template, latest first.
+ * @method findVersion - Shows a single version of a template.
+ * @method remove - Deletes all versions of a template.
+ * @method removeVersion - Deletes a single version of a template.
+ * Built-in templates cannot be given versions or deleted, and their names cannot be taken.
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+} from '@nestjs/common';
+import { TenantId } from 'src/auth/decorators/tenant-id.decorator';
+import { PromptTemplatesService } from './prompt-templates.service';
+import { CreatePromptTemplateDto } from './dtos/create-prompt-template.dto';
+import { CreatePromptTemplateVersionDto } from './dtos/create-prompt-template-version.dto';
+
+@Controller('prompt-templates')
+export class PromptTemplatesController {
+  constructor(
+    private readonly promptTemplatesService: PromptTemplatesService,
+  ) {}
+
+  @Post()
+  @HttpCode(201)
+  async create(
+    @Body() createPromptTemplateDto: CreatePromptTemplateDto,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.promptTemplatesService.create(
+      createPromptTemplateDto,
+      tenantId,
+    );
+  }
+
+  @Post(':name/versions')
+  @HttpCode(201)
+  async addVersion(
+    @Param('name') name: string,
+    @Body() createPromptTemplateVersionDto: CreatePromptTemplateVersionDto,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.promptTemplatesService.addVersion(
+      name,
+      createPromptTemplateVersionDto,
+      tenantId,
+    );
+  }
+
+  @Get()
+  async findAll(@TenantId() tenantId: string) {
+    return await this.promptTemplatesService.findAll(tenantId);
+  }
+
+  @Get(':name')
+  async findVersions(
+    @Param('name') name: string,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.promptTemplatesService.findVersions(name, tenantId);
+  }
+
+  @Get(':name/versions/:version')
+  async findVersion(
+    @Param('name') name: string,
+    @Param('version', ParseIntPipe) version: number,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.promptTemplatesService.findVersion(
+      name,
+      version,
+      tenantId,
+    );
+  }
+
+  @Delete(':name')
+  async remove(@Param('name') name: string, @TenantId() tenantId: string) {
+    return await this.promptTemplatesService.remove(name, tenantId);
+  }
+
+  @Delete(':name/versions/:version')
+  async removeVersion(
+    @Param('name') name: string,
+    @Param('version', ParseIntPipe) version: number,
+    @TenantId() tenantId: string,
+  ) {
+    return await this.promptTemplatesService.removeVersion(
+      name,
+      version,
+      tenantId,
+    );
+  }
+}
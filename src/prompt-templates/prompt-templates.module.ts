@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PromptTemplatesService } from './prompt-templates.service';
+import { PromptTemplatesController } from './prompt-templates.controller';
+
+@Module({
+  controllers: [PromptTemplatesController],
+  providers: [PromptTemplatesService],
+  exports: [PromptTemplatesService],
+})
+export class PromptTemplatesModule {}
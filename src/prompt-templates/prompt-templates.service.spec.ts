@@ -0,0 +1,111 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { PromptTemplatesService } from './prompt-templates.service';
+import { DatabaseService } from 'src/services/database.service';
+import { PROMPT_TEMPLATE_NAMES } from 'src/utils/constants/prompt-templates.constants';
+
+describe('PromptTemplatesService', () => {
+  let service: PromptTemplatesService;
+  let query: jest.Mock;
+
+  beforeEach(async () => {
+    query = jest.fn().mockResolvedValue([]);
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PromptTemplatesService,
+        { provide: DatabaseService, useValue: { query } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(PromptTemplatesService);
+  });
+
+  describe('create', () => {
+    it('stores the template for the tenant', async () => {
+      query.mockResolvedValueOnce([{ name: 'support', version: 1 }]);
+
+      await service.create(
+        { name: 'support', template: 'Answer {input}' },
+        'tenant-1',
+      );
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain('tenant_id = $5');
+      expect(params).toEqual([
+        'support',
+        'Answer {input}',
+        ['input'],
+        null,
+        'tenant-1',
+      ]);
+    });
+
+    it('rejects the name of a built-in template', async () => {
+      await expect(
+        service.create(
+          { name: PROMPT_TEMPLATE_NAMES.BASIC_CHAT, template: '{input}' },
+          'tenant-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addVersion', () => {
+    it('rejects a version of a built-in template', async () => {
+      await expect(
+        service.addVersion(
+          PROMPT_TEMPLATE_NAMES.DOCUMENT_CHAT,
+          { template: 'Ignore {context} and answer {question}' },
+          'tenant-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(query).not.toHaveBeenCalled();
+    });
+
+    it('only adds versions to the templates of the tenant', async () => {
+      await expect(
+        service.addVersion('support', { template: '{input}' }, 'tenant-2'),
+      ).rejects.toThrow(NotFoundException);
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain('WHERE name = $1 AND tenant_id = $5');
+      expect(params[4]).toBe('tenant-2');
+    });
+  });
+
+  describe('resolve', () => {
+    it('looks up the templates of the tenant and the built-in ones', async () => {
+      query.mockResolvedValueOnce([{ name: 'support', version: 2 }]);
+
+      await service.resolve('support', undefined, 'tenant-1');
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain(
+        '(tenant_id = $1 OR (tenant_id IS NULL AND name = ANY($2)))',
+      );
+      expect(params[0]).toBe('tenant-1');
+      expect(params[1]).toEqual(
+        expect.arrayContaining(Object.values(PROMPT_TEMPLATE_NAMES)),
+      );
+      expect(params.slice(2)).toEqual(['support', null]);
+    });
+
+    it('only looks up the built-in templates without a tenant', async () => {
+      query.mockResolvedValueOnce([{ name: 'summary-map', version: 1 }]);
+
+      await service.resolve(PROMPT_TEMPLATE_NAMES.SUMMARY_MAP);
+
+      expect(query.mock.calls[0][1][0]).toBeNull();
+    });
+  });
+
+  describe('removeVersion', () => {
+    it('rejects deleting a version of a built-in template', async () => {
+      await expect(
+        service.removeVersion(PROMPT_TEMPLATE_NAMES.BASIC_CHAT, 1, 'tenant-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(query).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Service for the prompt templates of the chat routes, stored with names and versions in PostgreSQL.
+ *
+ * Versions are immutable: changing a template adds a version, and chat requests pick a template by
+ * name and, optionally, version, the latest version being used otherwise. The variables a template
+ * declares are parsed from its placeholders when it is stored, and checked against the inputs of a
+ * chain before the chain calls its model. The built-in templates of TEMPLATES are seeded as version 1
+ * of their name on module init.
+ *
+ * Templates belong to a tenant: the routes only create, list and delete the templates of the tenant
+ * whose API key made the request, and chat requests only pick those. The built-in templates belong
+ * to no tenant and are shared by all of them; tenants can read them but not add versions of them or
+ * delete them, nor create templates under their names.
+ *
+ * @class PromptTemplatesService
+ *
+ * @method create - Stores a new template of the tenant as version 1, or throws a ConflictException if the
+ *                  tenant already has a template of that name.
+ * @method addVersion - Stores a new version of a template of the tenant.
+ * @method findAll - Lists the latest version of every template of the tenant and of every built-in template.
+ * @method findVersions - Lists all versions of a template, latest first.
+ * @method findVersion - Shows a single version of a template.
+ * @method remove - Deletes all versions of a template of the tenant.
+ * @method removeVersion - Deletes a single version of a template of the tenant.
+ * Writes to a built-in template, or under its name, are rejected with a BadRequestException.
+ *
+ * @method resolve - Returns a version of a template of the tenant or a built-in template, the latest when
+ *                   no version is given, throwing a NotFoundException when it does not exist. Without a
+ *                   tenant, only the built-in templates are looked up.
+ * @method assertInputs - Throws a BadRequestException listing the declared variables of a template that
+ *                        are missing from the given chain inputs.
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { DatabaseService } from 'src/services/database.service';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import { BUILT_IN_PROMPT_TEMPLATES } from 'src/utils/constants/prompt-templates.constants';
+import { CreatePromptTemplateDto } from './dtos/create-prompt-template.dto';
+import { CreatePromptTemplateVersionDto } from './dtos/create-prompt-template-version.dto';
+import { PromptTemplateRecord } from './interfaces/prompt-template.interface';
+
+const BUILT_IN_NAMES = Object.keys(BUILT_IN_PROMPT_TEMPLATES);
+
+// The templates of the tenant ($1) and the built-in templates ($2), whatever else shares their names
+const VISIBLE_TEMPLATES =
+  '(tenant_id = $1 OR (tenant_id IS NULL AND name = ANY($2)))';
+
+@Injectable()
+export class PromptTemplatesService {
+  constructor(private databaseService: DatabaseService) {}
+
+  async onModuleInit() {
+    await this.databaseService.query(`
+      CREATE TABLE IF NOT EXISTS prompt_templates (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        template TEXT NOT NULL,
+        input_variables TEXT[] NOT NULL,
+        description TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        tenant_id UUID
+      );
+    `);
+    // Templates stored before tenants were introduced belong to no tenant; only the built-in ones stay visible
+    await this.databaseService.query(
+      'ALTER TABLE prompt_templates ADD COLUMN IF NOT EXISTS tenant_id UUID',
+    );
+    await this.databaseService.query(
+      'ALTER TABLE prompt_templates DROP CONSTRAINT IF EXISTS prompt_templates_name_version_key',
+    );
+    // Version numbers are unique per tenant, and among the templates of no tenant
+    await this.databaseService.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS prompt_templates_tenant_id_name_version_idx
+        ON prompt_templates (tenant_id, name, version) WHERE tenant_id IS NOT NULL;
+    `);
+    await this.databaseService.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS prompt_templates_name_version_idx
+        ON prompt_templates (name, version) WHERE tenant_id IS NULL;
+    `);
+
+    for (const [name, template] of Object.entries(BUILT_IN_PROMPT_TEMPLATES)) {
+      await this.databaseService.query(
+        `INSERT INTO prompt_templates (name, version, template, input_variables, description)
+         SELECT $1, 1, $2, $3, 'Built-in template'
+         WHERE NOT EXISTS (
+           SELECT 1 FROM prompt_templates WHERE name = $1 AND tenant_id IS NULL
+         )`,
+        [name, template, this.parseVariables(template)],
+      );
+    }
+  }
+
+  async create(
+    createPromptTemplateDto: CreatePromptTemplateDto,
+    tenantId: string,
+  ) {
+    try {
+      const { name, template, description } = createPromptTemplateDto;
+      this.assertNotBuiltIn(name);
+      const [record] = await this.databaseService.query<PromptTemplateRecord>(
+        `INSERT INTO prompt_templates (name, version, template, input_variables, description, tenant_id)
+         SELECT $1, 1, $2, $3, $4, $5
+         WHERE NOT EXISTS (
+           SELECT 1 FROM prompt_templates WHERE name = $1 AND tenant_id = $5
+         )
+         RETURNING *`,
+        [
+          name,
+          template,
+          this.parseVariables(template),
+          description ?? null,
+          tenantId,
+        ],
+      );
+      if (!record) throw this.conflict();
+      return customMessage(HttpStatus.CREATED, MESSAGES.SUCCESS, record);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async addVersion(
+    name: string,
+    createPromptTemplateVersionDto: CreatePromptTemplateVersionDto,
+    tenantId: string,
+  ) {
+    try {
+      const { template, description } = createPromptTemplateVersionDto;
+      this.assertNotBuiltIn(name);
+      const [record] = await this.databaseService.query<PromptTemplateRecord>(
+        `INSERT INTO prompt_templates (name, version, template, input_variables, description, tenant_id)
+         SELECT $1, MAX(version) + 1, $2, $3, $4, $5
+         FROM prompt_templates WHERE name = $1 AND tenant_id = $5
+         HAVING COUNT(*) > 0
+         RETURNING *`,
+        [
+          name,
+          template,
+          this.parseVariables(template),
+          description ?? null,
+          tenantId,
+        ],
+      );
+      if (!record) throw this.notFound();
+      return customMessage(HttpStatus.CREATED, MESSAGES.SUCCESS, record);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async findAll(tenantId: string) {
+    try {
+      const records = await this.databaseService.query<PromptTemplateRecord>(
+        `SELECT DISTINCT ON (name) * FROM prompt_templates
+         WHERE ${VISIBLE_TEMPLATES}
+         ORDER BY name, version DESC`,
+        [tenantId, BUILT_IN_NAMES],
+      );
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, records);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async findVersions(name: string, tenantId: string) {
+    try {
+      const records = await this.databaseService.query<PromptTemplateRecord>(
+        `SELECT * FROM prompt_templates
+         WHERE ${VISIBLE_TEMPLATES} AND name = $3
+         ORDER BY version DESC`,
+        [tenantId, BUILT_IN_NAMES, name],
+      );
+      if (!records.length) throw this.notFound();
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, records);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async findVersion(name: string, version: number, tenantId: string) {
+    try {
+      const record = await this.resolve(name, version, tenantId);
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, record);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async remove(name: string, tenantId: string) {
+    try {
+      this.assertNotBuiltIn(name);
+      const deleted = await this.databaseService.query(
+        'DELETE FROM prompt_templates WHERE name = $1 AND tenant_id = $2 RETURNING id',
+        [name, tenantId],
+      );
+      if (!deleted.length) throw this.notFound();
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async removeVersion(name: string, version: number, tenantId: string) {
+    try {
+      this.assertNotBuiltIn(name);
+      const deleted = await this.databaseService.query(
+        `DELETE FROM prompt_templates
+         WHERE name = $1 AND version = $2 AND tenant_id = $3
+         RETURNING id`,
+        [name, version, tenantId],
+      );
+      if (!deleted.length) throw this.notFound();
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS);
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  async resolve(name: string, version?: number, tenantId?: string) {
+    const [record] = await this.databaseService.query<PromptTemplateRecord>(
+      `SELECT * FROM prompt_templates
+       WHERE ${VISIBLE_TEMPLATES} AND name = $3 AND ($4::int IS NULL OR version = $4)
+       ORDER BY version DESC LIMIT 1`,
+      [tenantId ?? null, BUILT_IN_NAMES, name, version ?? null],
+    );
+    if (!record) throw this.notFound();
+    return record;
+  }
+
+  assertInputs(record: PromptTemplateRecord, inputs: string[]) {
+    const missing = record.input_variables.filter(
+      (variable) => !inputs.includes(variable),
+    );
+    if (missing.length) {
+      throw new BadRequestException(
+        customMessage(
+          HttpStatus.BAD_REQUEST,
+          MESSAGES.PROMPT_TEMPLATE_VARIABLES_MISMATCH,
+          {
+            name: record.name,
+            version: record.version,
+            missing_variables: missing,
+            available_variables: inputs,
+          },
+        ),
+      );
+    }
+  }
+
+  private parseVariables = (template: string) => {
+    try {
+      return PromptTemplate.fromTemplate(template).inputVariables;
+    } catch (e: unknown) {
+      throw new BadRequestException(
+        customMessage(
+          HttpStatus.BAD_REQUEST,
+          MESSAGES.INVALID_PROMPT_TEMPLATE,
+          {
+            reason: e instanceof Error ? e.message : String(e),
+          },
+        ),
+      );
+    }
+  };
+
+  private assertNotBuiltIn = (name: string) => {
+    if (name in BUILT_IN_PROMPT_TEMPLATES) {
+      throw new BadRequestException(
+        customMessage(
+          HttpStatus.BAD_REQUEST,
+          MESSAGES.BUILT_IN_PROMPT_TEMPLATE,
+        ),
+      );
+    }
+  };
+
+  private notFound = () =>
+    new NotFoundException(
+      customMessage(HttpStatus.NOT_FOUND, MESSAGES.PROMPT_TEMPLATE_NOT_FOUND),
+    );
+
+  private conflict = () =>
+    new ConflictException(
+      customMessage(HttpStatus.CONFLICT, MESSAGES.PROMPT_TEMPLATE_EXISTS),
+    );
+
+  private exceptionHandling = (e: unknown) => {
+    if (e instanceof HttpException) throw e;
+    Logger.error(e);
+    throw new HttpException(
+      customMessage(
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        MESSAGES.EXTERNAL_SERVER_ERROR,
+      ),
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  };
+}
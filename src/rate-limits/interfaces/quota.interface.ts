@@ -0,0 +1,39 @@
+import { TOKEN_BUDGET_PERIODS } from 'src/utils/constants/rate-limits.constants';
+
+/**
+ * Requests a client may still make on a route in the current minute.
+ *
+ * @interface RequestQuota
+ *
+ * @property limit - Requests allowed per minute.
+ * @property remaining - Requests left in the current minute.
+ * @property reset_seconds - Seconds until the counter resets.
+ * @property exceeded - Whether this request went over the limit.
+ */
+export interface RequestQuota {
+  limit: number;
+  remaining: number;
+  reset_seconds: number;
+  exceeded: boolean;
+}
+
+/**
+ * Tokens an API key may still use in the current UTC day or month.
+ *
+ * @interface TokenBudget
+ *
+ * @property period - The day or month the budget covers.
+ * @property limit - Tokens allowed in the period.
+ * @property used - Tokens used so far, as recorded by UsageService.
+ * @property remaining - Tokens left in the period.
+ * @property reset_seconds - Seconds until the next period starts.
+ * @property exceeded - Whether the budget is used up.
+ */
+export interface TokenBudget {
+  period: TOKEN_BUDGET_PERIODS;
+  limit: number;
+  used: number;
+  remaining: number;
+  reset_seconds: number;
+  exceeded: boolean;
+}
@@ -0,0 +1,141 @@
+import { Controller, HttpException, HttpStatus, Post } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimitsService } from './rate-limits.service';
+import { DatabaseService } from 'src/services/database.service';
+import { rateLimitsConfig } from 'src/config/rate-limits.config';
+import { AuthenticatedRequest } from 'src/auth/interfaces/api-key.interface';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import {
+  RATE_LIMIT_HEADERS,
+  TOKEN_BUDGET_PERIODS,
+} from 'src/utils/constants/rate-limits.constants';
+
+@Controller('langchain-chat')
+class ChatController {
+  @Post('agent-chat')
+  agentChat() {}
+}
+
+describe('RateLimitGuard', () => {
+  let guard: RateLimitGuard;
+  let count: number;
+  let usage: { day_used: number; month_used: number };
+  let headers: Record<string, unknown>;
+
+  const auth: AuthenticatedRequest['auth'] = {
+    tenantId: 'tenant-1',
+    apiKeyId: 'key-1',
+    limits: {
+      requests_per_minute: null,
+      daily_token_budget: 1000,
+      monthly_token_budget: 20000,
+    },
+  };
+
+  const canActivate = (request: Partial<AuthenticatedRequest>) => {
+    const response = {
+      setHeader: (name: string, value: unknown) => (headers[name] = value),
+    };
+    return guard.canActivate(
+      new ExecutionContextHost(
+        [request, response],
+        ChatController,
+        ChatController.prototype.agentChat,
+      ),
+    );
+  };
+
+  // The guard refuses a request by throwing; its response is the one of the exception
+  const refusal = async (request: Partial<AuthenticatedRequest>) => {
+    const error = await canActivate(request).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(HttpException);
+    return (error as HttpException).getResponse();
+  };
+
+  beforeEach(async () => {
+    count = 1;
+    usage = { day_used: 0, month_used: 0 };
+    headers = {};
+
+    const query = async (sql: string) =>
+      sql.includes('rate_limit_counters') && sql.startsWith('INSERT')
+        ? [{ count, reset_seconds: 42 }]
+        : sql.includes('usage_records')
+          ? [{ ...usage, day_reset_seconds: 3600, month_reset_seconds: 7200 }]
+          : [];
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        RateLimitGuard,
+        RateLimitsService,
+        { provide: DatabaseService, useValue: { query } },
+        {
+          provide: rateLimitsConfig.KEY,
+          useValue: {
+            requestsPerMinute: 60,
+            routes: { 'langchain-chat/agent-chat': 10 },
+          },
+        },
+      ],
+    }).compile();
+
+    guard = moduleRef.get(RateLimitGuard);
+  });
+
+  it('reports the remaining requests of the route and token budgets of the key', async () => {
+    count = 4;
+    usage = { day_used: 250, month_used: 5000 };
+
+    expect(await canActivate({ auth })).toBe(true);
+    expect(headers).toEqual({
+      [RATE_LIMIT_HEADERS.LIMIT]: 10,
+      [RATE_LIMIT_HEADERS.REMAINING]: 6,
+      [RATE_LIMIT_HEADERS.RESET]: 42,
+      [RATE_LIMIT_HEADERS.TOKENS_DAY_LIMIT]: 1000,
+      [RATE_LIMIT_HEADERS.TOKENS_DAY_REMAINING]: 750,
+      [RATE_LIMIT_HEADERS.TOKENS_MONTH_LIMIT]: 20000,
+      [RATE_LIMIT_HEADERS.TOKENS_MONTH_REMAINING]: 15000,
+    });
+  });
+
+  it('refuses a request over the limit of the route with a 429 response and Retry-After', async () => {
+    count = 11;
+
+    expect(await refusal({ auth })).toEqual({
+      statusCode: HttpStatus.TOO_MANY_REQUESTS,
+      message: [MESSAGES.RATE_LIMIT_EXCEEDED],
+      error_code: 'RATE_LIMIT_EXCEEDED',
+      data: { limit: 10, retry_after: 42 },
+    });
+    expect(headers[RATE_LIMIT_HEADERS.REMAINING]).toBe(0);
+    expect(headers[RATE_LIMIT_HEADERS.RETRY_AFTER]).toBe(42);
+  });
+
+  it('refuses a request once a token budget is used up, until every used up budget resets', async () => {
+    usage = { day_used: 1200, month_used: 20000 };
+
+    expect(await refusal({ auth })).toEqual({
+      statusCode: HttpStatus.TOO_MANY_REQUESTS,
+      message: [MESSAGES.TOKEN_BUDGET_EXCEEDED],
+      error_code: 'TOKEN_BUDGET_EXCEEDED',
+      data: {
+        budgets: [
+          { period: TOKEN_BUDGET_PERIODS.DAY, limit: 1000, used: 1200 },
+          { period: TOKEN_BUDGET_PERIODS.MONTH, limit: 20000, used: 20000 },
+        ],
+        retry_after: 7200,
+      },
+    });
+    expect(headers[RATE_LIMIT_HEADERS.TOKENS_DAY_REMAINING]).toBe(0);
+    expect(headers[RATE_LIMIT_HEADERS.RETRY_AFTER]).toBe(7200);
+  });
+
+  it('counts admin requests against the client IP, without token budgets', async () => {
+    usage = { day_used: 5000, month_used: 50000 };
+
+    expect(await canActivate({ ip: '10.0.0.1' })).toBe(true);
+    expect(headers).not.toHaveProperty(RATE_LIMIT_HEADERS.TOKENS_DAY_LIMIT);
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { PATH_METADATA } from '@nestjs/common/constants';
+import { Response } from 'express';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import {
+  RATE_LIMIT_HEADERS,
+  TOKEN_BUDGET_PERIODS,
+} from 'src/utils/constants/rate-limits.constants';
+import { AuthenticatedRequest } from 'src/auth/interfaces/api-key.interface';
+import { RateLimitsService } from './rate-limits.service';
+
+/**
+ * Guard enforcing the requests per minute of each route and the token budgets of each API key.
+ * It runs after ApiKeyGuard, so that requests are counted against the key that authenticated
+ * them; admin requests are counted against the client IP and have no token budget. Every
+ * response reports the remaining quota in headers, and a request over a limit is refused with
+ * a 429 response and a `Retry-After` header.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(private rateLimitsService: RateLimitsService) {}
+
+  async canActivate(context: ExecutionContext) {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const { auth } = request;
+
+    const quota = await this.rateLimitsService.consumeRequest(
+      auth?.apiKeyId ?? `ip:${request.ip}`,
+      this.routeKey(context),
+      auth?.limits.requests_per_minute,
+    );
+    response.setHeader(RATE_LIMIT_HEADERS.LIMIT, quota.limit);
+    response.setHeader(RATE_LIMIT_HEADERS.REMAINING, quota.remaining);
+    response.setHeader(RATE_LIMIT_HEADERS.RESET, quota.reset_seconds);
+    if (quota.exceeded) {
+      throw this.tooManyRequests(response, MESSAGES.RATE_LIMIT_EXCEEDED, {
+        limit: quota.limit,
+        retry_after: quota.reset_seconds,
+      });
+    }
+    if (!auth) return true;
+
+    const budgets = await this.rateLimitsService.tokenBudgets(
+      auth.apiKeyId,
+      auth.limits,
+    );
+    for (const budget of budgets) {
+      const [limitHeader, remainingHeader] = BUDGET_HEADERS[budget.period];
+      response.setHeader(limitHeader, budget.limit);
+      response.setHeader(remainingHeader, budget.remaining);
+    }
+    const exceeded = budgets.filter((budget) => budget.exceeded);
+    if (exceeded.length) {
+      // Usable again once every exhausted budget has reset
+      const retryAfter = Math.max(
+        ...exceeded.map((budget) => budget.reset_seconds),
+      );
+      throw this.tooManyRequests(response, MESSAGES.TOKEN_BUDGET_EXCEEDED, {
+        budgets: exceeded.map(({ period, limit, used }) => ({
+          period,
+          limit,
+          used,
+        })),
+        retry_after: retryAfter,
+      });
+    }
+    return true;
+  }
+
+  // The route as configured in RATE_LIMIT_ROUTES, e.g. `langchain-chat/agent-chat`
+  private routeKey = (context: ExecutionContext) =>
+    [
+      Reflect.getMetadata(PATH_METADATA, context.getClass()),
+      Reflect.getMetadata(PATH_METADATA, context.getHandler()),
+    ]
+      .flatMap((path: string) => path?.split('/') ?? [])
+      .filter(Boolean)
+      .join('/');
+
+  private tooManyRequests = (
+    response: Response,
+    message: MESSAGES,
+    data: { retry_after: number; [key: string]: unknown },
+  ) => {
+    response.setHeader(RATE_LIMIT_HEADERS.RETRY_AFTER, data.retry_after);
+    return new HttpException(
+      customMessage(HttpStatus.TOO_MANY_REQUESTS, message, data),
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  };
+}
+
+const BUDGET_HEADERS: Record<TOKEN_BUDGET_PERIODS, RATE_LIMIT_HEADERS[]> = {
+  [TOKEN_BUDGET_PERIODS.DAY]: [
+    RATE_LIMIT_HEADERS.TOKENS_DAY_LIMIT,
+    RATE_LIMIT_HEADERS.TOKENS_DAY_REMAINING,
+  ],
+  [TOKEN_BUDGET_PERIODS.MONTH]: [
+    RATE_LIMIT_HEADERS.TOKENS_MONTH_LIMIT,
+    RATE_LIMIT_HEADERS.TOKENS_MONTH_REMAINING,
+  ],
+};
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { RateLimitsService } from './rate-limits.service';
+import { RateLimitGuard } from './rate-limit.guard';
+
+/**
+ * Module for the rate limits and token budgets. The guard is registered application-wide by
+ * AuthModule, right after the API key guard it depends on.
+ */
+@Module({
+  providers: [RateLimitsService, RateLimitGuard],
+  exports: [RateLimitsService, RateLimitGuard],
+})
+export class RateLimitsModule {}
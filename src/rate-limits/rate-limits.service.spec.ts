@@ -0,0 +1,110 @@
+import { Test } from '@nestjs/testing';
+import { RateLimitsService } from './rate-limits.service';
+import { DatabaseService } from 'src/services/database.service';
+import { rateLimitsConfig } from 'src/config/rate-limits.config';
+import { TOKEN_BUDGET_PERIODS } from 'src/utils/constants/rate-limits.constants';
+
+describe('RateLimitsService', () => {
+  let service: RateLimitsService;
+  let query: jest.Mock;
+
+  beforeEach(async () => {
+    query = jest.fn().mockResolvedValue([]);
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        RateLimitsService,
+        { provide: DatabaseService, useValue: { query } },
+        {
+          provide: rateLimitsConfig.KEY,
+          useValue: {
+            requestsPerMinute: 60,
+            routes: { 'langchain-chat/agent-chat': 10 },
+            dailyTokenBudget: 1000,
+            monthlyTokenBudget: undefined,
+          },
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(RateLimitsService);
+  });
+
+  describe('consumeRequest', () => {
+    it('applies the stricter of the key and route limits', async () => {
+      query.mockResolvedValueOnce([{ count: 5, reset_seconds: 30 }]);
+
+      expect(
+        await service.consumeRequest('key-1', 'langchain-chat/agent-chat', 20),
+      ).toEqual({
+        limit: 10,
+        remaining: 5,
+        reset_seconds: 30,
+        exceeded: false,
+      });
+    });
+
+    it('exceeds the limit with the request past it', async () => {
+      query.mockResolvedValueOnce([{ count: 11, reset_seconds: 0 }]);
+
+      expect(
+        await service.consumeRequest('key-1', 'langchain-chat/agent-chat'),
+      ).toEqual({ limit: 10, remaining: 0, reset_seconds: 1, exceeded: true });
+    });
+
+    it('clears the past windows of the client with its first request of a window', async () => {
+      query.mockResolvedValueOnce([{ count: 1, reset_seconds: 60 }]);
+
+      await service.consumeRequest('key-1', 'documents');
+
+      expect(query).toHaveBeenCalledTimes(2);
+      expect(query.mock.calls[1][0]).toContain(
+        'DELETE FROM rate_limit_counters',
+      );
+      expect(query.mock.calls[1][1]).toEqual(['key-1']);
+    });
+  });
+
+  describe('tokenBudgets', () => {
+    it('reports the budgets that are set, the key overriding the defaults', async () => {
+      query.mockResolvedValueOnce([
+        {
+          day_used: 1000,
+          month_used: 4000,
+          day_reset_seconds: 3600,
+          month_reset_seconds: 86400,
+        },
+      ]);
+
+      const budgets = await service.tokenBudgets('key-1', {
+        monthly_token_budget: 5000,
+      });
+
+      expect(budgets).toEqual([
+        {
+          period: TOKEN_BUDGET_PERIODS.DAY,
+          limit: 1000,
+          used: 1000,
+          remaining: 0,
+          reset_seconds: 3600,
+          exceeded: true,
+        },
+        {
+          period: TOKEN_BUDGET_PERIODS.MONTH,
+          limit: 5000,
+          used: 4000,
+          remaining: 1000,
+          reset_seconds: 86400,
+          exceeded: false,
+        },
+      ]);
+      expect(query.mock.calls[0][1]).toEqual(['key-1']);
+    });
+
+    it('reads no usage when no budget is set', async () => {
+      expect(
+        await service.tokenBudgets('key-1', { daily_token_budget: 0 }),
+      ).toEqual([]);
+      expect(query).not.toHaveBeenCalled();
+    });
+  });
+});
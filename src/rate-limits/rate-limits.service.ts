@@ -0,0 +1,142 @@
+/**
+ * Service counting the requests of each client and the tokens of each API key against their limits.
+ *
+ * Requests are counted per client and route in one-minute windows of the `rate_limit_counters`
+ * table, incremented atomically by Postgres, so that the limits hold across restarts and across
+ * instances sharing the database. Token budgets are checked against the usage recorded by
+ * UsageService in the `usage_records` table for the current UTC day and month. A request is only
+ * refused once a budget is used up, so the request that crosses a budget still completes.
+ *
+ * Configuration (the `rateLimits` namespace, see src/config/rate-limits.config.ts):
+ * - requestsPerMinute - Default requests per minute per route (RATE_LIMIT_REQUESTS_PER_MINUTE).
+ * - routes - Stricter limits of given routes (RATE_LIMIT_ROUTES).
+ * - dailyTokenBudget, monthlyTokenBudget - Default token budgets (TOKEN_BUDGET_DAILY, TOKEN_BUDGET_MONTHLY).
+ *
+ * @class RateLimitsService
+ *
+ * @method consumeRequest - Counts a request of a client on a route and returns its remaining quota.
+ * @param {string} client - The API key ID, or the client IP for admin requests.
+ * @param {string} route - The route, as `<controller path>/<route path>`.
+ * @param {number} keyLimit - Requests per minute of the API key, if it overrides the default.
+ * @returns {RequestQuota} The limit, the remaining requests and whether the limit is exceeded.
+ *
+ * @method tokenBudgets - Returns the daily and monthly token budgets of an API key that are set,
+ *                        with the tokens used and remaining in the current period.
+ * @param {string} apiKeyId - The API key.
+ * @param {ApiKeyLimits} limits - The budgets of the key, if it overrides the defaults.
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { DatabaseService } from 'src/services/database.service';
+import {
+  RateLimitsConfig,
+  rateLimitsConfig,
+} from 'src/config/rate-limits.config';
+import { TOKEN_BUDGET_PERIODS } from 'src/utils/constants/rate-limits.constants';
+import { ApiKeyLimits } from 'src/auth/interfaces/api-key.interface';
+import { RequestQuota, TokenBudget } from './interfaces/quota.interface';
+
+@Injectable()
+export class RateLimitsService {
+  constructor(
+    private databaseService: DatabaseService,
+    @Inject(rateLimitsConfig.KEY) private rateLimitsSettings: RateLimitsConfig,
+  ) {}
+
+  async onModuleInit() {
+    await this.databaseService.query(`
+      CREATE TABLE IF NOT EXISTS rate_limit_counters (
+        client TEXT NOT NULL,
+        route TEXT NOT NULL,
+        window_start TIMESTAMPTZ NOT NULL,
+        count INTEGER NOT NULL,
+        PRIMARY KEY (client, route, window_start)
+      );
+    `);
+  }
+
+  async consumeRequest(
+    client: string,
+    route: string,
+    keyLimit?: number | null,
+  ): Promise<RequestQuota> {
+    const { requestsPerMinute, routes } = this.rateLimitsSettings;
+    const limit = Math.min(
+      keyLimit ?? requestsPerMinute,
+      routes[route] ?? Infinity,
+    );
+
+    const [{ count, reset_seconds }] = await this.databaseService.query<{
+      count: number;
+      reset_seconds: number;
+    }>(
+      `INSERT INTO rate_limit_counters (client, route, window_start, count)
+       VALUES ($1, $2, date_trunc('minute', now()), 1)
+       ON CONFLICT (client, route, window_start)
+         DO UPDATE SET count = rate_limit_counters.count + 1
+       RETURNING count,
+         ceil(extract(epoch FROM window_start + interval '1 minute' - now()))::int AS reset_seconds`,
+      [client, route],
+    );
+    // The first request of a window clears the client's past windows
+    if (count === 1) {
+      await this.databaseService.query(
+        `DELETE FROM rate_limit_counters
+         WHERE client = $1 AND window_start < date_trunc('minute', now())`,
+        [client],
+      );
+    }
+
+    return {
+      limit,
+      remaining: Math.max(limit - count, 0),
+      reset_seconds: Math.max(reset_seconds, 1),
+      exceeded: count > limit,
+    };
+  }
+
+  async tokenBudgets(
+    apiKeyId: string,
+    limits: Partial<ApiKeyLimits> = {},
+  ): Promise<TokenBudget[]> {
+    const { dailyTokenBudget, monthlyTokenBudget } = this.rateLimitsSettings;
+    const budgets = {
+      [TOKEN_BUDGET_PERIODS.DAY]: limits.daily_token_budget ?? dailyTokenBudget,
+      [TOKEN_BUDGET_PERIODS.MONTH]:
+        limits.monthly_token_budget ?? monthlyTokenBudget,
+    };
+    const periods = Object.values(TOKEN_BUDGET_PERIODS).filter(
+      (period) => budgets[period],
+    );
+    if (!periods.length) return [];
+
+    const [usage] = await this.databaseService.query<
+      Record<`${TOKEN_BUDGET_PERIODS}_${'used' | 'reset_seconds'}`, number>
+    >(
+      `SELECT
+         coalesce(sum(total_tokens) FILTER (
+           WHERE created_at >= date_trunc('day', now(), 'UTC')), 0)::float8 AS day_used,
+         coalesce(sum(total_tokens), 0)::float8 AS month_used,
+         ceil(extract(epoch FROM date_trunc('day', now(), 'UTC') + interval '1 day' - now()))::int
+           AS day_reset_seconds,
+         ceil(extract(epoch FROM date_trunc('month', now(), 'UTC') + interval '1 month' - now()))::int
+           AS month_reset_seconds
+       FROM usage_records
+       WHERE caller = $1 AND created_at >= date_trunc('month', now(), 'UTC')`,
+      [apiKeyId],
+    );
+
+    return periods.map((period) => {
+      const limit = budgets[period];
+      const used = usage[`${period}_used`];
+      return {
+        period,
+        limit,
+        used,
+        remaining: Math.max(limit - used, 0),
+        reset_seconds: usage[`${period}_reset_seconds`],
+        exceeded: used >= limit,
+      };
+    });
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Service owning the PostgreSQL connection pool shared by every database-backed service.
+ *
+ * The pool is opened with the settings of the `database` configuration namespace when the
+ * service is constructed, so that other services can use it from their own `onModuleInit`
+ * hooks to create the tables they need, and it is closed when the module is destroyed.
+ *
+ * @class DatabaseService
+ * @decorator Injectable - Marks the class as a service that can be injected.
+ *
+ * @property {pg.Pool} pool - The PostgreSQL connection pool for database operations.
+ *
+ * @method query - Runs a single parameterised query on the pool and returns its rows.
+ *
+ * @method transaction - Runs the given callback inside a transaction on a dedicated client,
+ *                       committing when it resolves and rolling back when it throws.
+ *
+ * @method onModuleDestroy - Cleans up resources by ending the PostgreSQL pool connection.
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import * as pg from 'pg';
+import { DatabaseConfig, databaseConfig } from 'src/config/database.config';
+
+@Injectable()
+export class DatabaseService {
+  readonly pool: pg.Pool;
+
+  constructor(@Inject(databaseConfig.KEY) databaseSettings: DatabaseConfig) {
+    this.pool = new pg.Pool(databaseSettings);
+  }
+
+  async query<T = any>(text: string, params: unknown[] = []): Promise<T[]> {
+    const result = await this.pool.query(text, params);
+    return result.rows;
+  }
+
+  async transaction<T>(work: (client: pg.PoolClient) => Promise<T>) {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (e: unknown) {
+      await client.query('ROLLBACK');
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+
+  async onModuleDestroy() {
+    await this.pool.end();
+  }
+}
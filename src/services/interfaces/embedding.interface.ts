@@ -0,0 +1,12 @@
+/**
+ * How VectorStoreService splits the texts it embeds into calls to the embeddings model.
+ *
+ * @interface EmbeddingOptions
+ *
+ * @property batchSize - Texts embedded per call.
+ * @property concurrency - Calls in flight at once.
+ */
+export interface EmbeddingOptions {
+  batchSize: number;
+  concurrency: number;
+}
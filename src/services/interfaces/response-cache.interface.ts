@@ -0,0 +1,65 @@
+import {
+  RESPONSE_CACHE_ENDPOINTS,
+  RESPONSE_CACHE_OUTCOMES,
+} from 'src/utils/constants/response-cache.constants';
+
+/**
+ * What a cached answer is only served for, besides a similar query.
+ *
+ * @interface ResponseCacheKey
+ *
+ * @property tenantId - The tenant the answer was generated for; null for admin requests.
+ * @property endpoint - The route the answer was generated by.
+ * @property template - The text of the prompt template, so that new template versions are answered afresh.
+ * @property model - The chat model, as `<provider>/<model>`.
+ * @property settings - The other request settings the answer depends on, e.g., temperature and retrieval settings.
+ */
+export interface ResponseCacheKey {
+  tenantId: string | null;
+  endpoint: RESPONSE_CACHE_ENDPOINTS;
+  template: string;
+  model: string;
+  settings: Record<string, unknown>;
+}
+
+/**
+ * An answer generated on a cache miss.
+ *
+ * @interface CacheableResponse
+ *
+ * @property response - The data of the chat response, without its usage.
+ * @property documentIds - The documents the answer was generated from; the answer is dropped from the cache when they change.
+ *                         Omitted for answers that do not depend on documents.
+ */
+export interface CacheableResponse<T extends object> {
+  response: T;
+  documentIds?: string[];
+}
+
+/**
+ * How a chat response was served, reported in its `cache` field.
+ *
+ * @interface ResponseCacheStatus
+ *
+ * @property outcome - See RESPONSE_CACHE_OUTCOMES.
+ * @property similarity - Cosine similarity between the query and the cached query, on hits.
+ * @property cached_at, expires_at - When the served answer was cached and when it expires.
+ */
+export interface ResponseCacheStatus {
+  outcome: RESPONSE_CACHE_OUTCOMES;
+  similarity?: number;
+  cached_at?: Date;
+  expires_at?: Date;
+}
+
+// A row of the `response_cache` table, without its embedding
+export interface ResponseCacheEntry {
+  id: string;
+  query: string;
+  response: object;
+  total_tokens: number;
+  cost: number | null;
+  created_at: Date;
+  expires_at: Date;
+  similarity?: number;
+}
@@ -0,0 +1,48 @@
+import {
+  RETRIEVAL_MODES,
+  SEARCH_TYPES,
+} from 'src/utils/constants/retrieval.constants';
+
+/**
+ * Options of a VectorStoreService search. Omitted options fall back to DEFAULT_RETRIEVAL_OPTIONS.
+ *
+ * @interface RetrievalOptions
+ *
+ * @property k - Number of chunks to return.
+ * @property documentIds - Only search the chunks of these documents.
+ * @property filter - Only search chunks whose metadata contains these key/value pairs.
+ * @property mode - Vector, keyword or hybrid retrieval.
+ * @property minScore - For vector mode, drop the results whose similarity score is below this value.
+ * @property searchType - For vector mode, plain similarity search or maximal marginal relevance.
+ * @property vectorWeight - For hybrid mode, the weight of the vector results in the fusion.
+ * @property keywordWeight - For hybrid mode, the weight of the keyword results in the fusion.
+ */
+export interface RetrievalOptions {
+  k?: number;
+  documentIds?: string[];
+  filter?: Record<string, unknown>;
+  mode?: RETRIEVAL_MODES;
+  minScore?: number;
+  searchType?: SEARCH_TYPES;
+  vectorWeight?: number;
+  keywordWeight?: number;
+}
+
+/**
+ * A chunk returned by a VectorStoreService search.
+ *
+ * @interface RetrievedChunk
+ *
+ * @property id - Identifier of the chunk in the vector store.
+ * @property pageContent - Text of the chunk.
+ * @property metadata - Metadata stored with the chunk, e.g., `documentId`, `source`, `pageNumber`.
+ * @property score - Relevance of the chunk to the query; higher is more relevant. This is the
+ *                   similarity in vector mode, the full-text rank in keyword mode and the fused
+ *                   reciprocal rank score in hybrid mode.
+ */
+export interface RetrievedChunk {
+  id: string;
+  pageContent: string;
+  metadata: Record<string, any>;
+  score: number;
+}
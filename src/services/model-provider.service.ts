@@ -0,0 +1,183 @@
+/**
+ * Service creating the chat models and embeddings used across the application.
+ *
+ * Chat models and embeddings come from a registry of providers: OpenAI, Anthropic, an
+ * OpenAI-compatible endpoint such as a local Ollama, and a deterministic offline fake. The
+ * provider and its settings are picked in configuration, and chat model settings can be
+ * overridden per request. Every model handed out reports its calls to UsageService, which
+ * records their token usage and cost. Failed model calls are retried with exponential backoff,
+ * and chat models are wrapped in a FallbackChatModel when a fallback model is configured. Every
+ * chat model and embeddings model is guarded by GuardrailsService, which redacts the personal data
+ * sent to the provider and moderates the chat model output.
+ *
+ * Configuration (the `models` namespace, see src/config/models.config.ts):
+ * - chat - Default chat model: CHAT_MODEL_PROVIDER, CHAT_MODEL, CHAT_MODEL_TEMPERATURE, CHAT_MODEL_MAX_TOKENS.
+ * - chat.fallback - Chat model answering when the chat model is rate limited or unavailable, with the same
+ *                   settings: CHAT_FALLBACK_PROVIDER, CHAT_FALLBACK_MODEL.
+ * - maxRetries - Retries of a failed model call before it fails or falls back: MODEL_MAX_RETRIES.
+ * - embeddings - Embeddings model used by the vector store: EMBEDDINGS_PROVIDER, EMBEDDINGS_MODEL.
+ * - openAI, anthropic, openAICompatible - Credentials and endpoint of each provider.
+ *
+ * @class ModelProviderService
+ *
+ * @method register - Adds a provider to the registry, replacing any provider with the same name.
+ *
+ * @method getProvider - Returns a registered provider, or throws a BadRequestException for unknown names.
+ * @param {string} name - Name of the provider; the configured chat provider when omitted.
+ *
+ * @method getChatModel - Creates a chat model from the configured defaults and the given overrides.
+ *                        When the overrides switch provider without naming a model, that provider's
+ *                        default model is used. The configured fallback model backs it up, unless the
+ *                        overrides resolve to the fallback model itself.
+ * @param {ChatModelOverrides} overrides - Per-request provider, model, temperature, max tokens and streaming.
+ *
+ * @method getChatModelName - Names the chat model the given overrides resolve to, as `<provider>/<model>`.
+ *
+ * @method getEmbeddings - Creates the configured embeddings model.
+ * @method getEmbeddingsModel - Names the configured embeddings model, as `<provider>/<model>`.
+ */
+
+import {
+  BadRequestException,
+  HttpStatus,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import { ModelsConfig, modelsConfig } from 'src/config/models.config';
+import {
+  ChatModelOptions,
+  ModelProviderDefinition,
+} from './model-providers/model-provider.interface';
+import { openAIProvider } from './model-providers/openai.provider';
+import { anthropicProvider } from './model-providers/anthropic.provider';
+import { openAICompatibleProvider } from './model-providers/openai-compatible.provider';
+import { fakeProvider } from './model-providers/fake.provider';
+import { FallbackChatModel } from './model-providers/fallback-chat.model';
+import { UsageService } from 'src/usage/usage.service';
+import { GuardrailsService } from 'src/guardrails/guardrails.service';
+
+export type ChatModelOverrides = Partial<ChatModelOptions> & {
+  provider?: string;
+};
+
+@Injectable()
+export class ModelProviderService {
+  private providers = new Map<string, ModelProviderDefinition>(
+    [
+      openAIProvider,
+      anthropicProvider,
+      openAICompatibleProvider,
+      fakeProvider,
+    ].map((provider) => [provider.name, provider]),
+  );
+
+  constructor(
+    @Inject(modelsConfig.KEY) private modelsSettings: ModelsConfig,
+    private usageService: UsageService,
+    private guardrailsService: GuardrailsService,
+  ) {}
+
+  register(provider: ModelProviderDefinition) {
+    this.providers.set(provider.name, provider);
+  }
+
+  getProvider(name?: string): ModelProviderDefinition {
+    const provider = this.providers.get(
+      name ?? this.modelsSettings.chat.provider,
+    );
+    if (!provider) {
+      throw new BadRequestException(
+        customMessage(HttpStatus.BAD_REQUEST, MESSAGES.UNKNOWN_MODEL_PROVIDER, {
+          providers: [...this.providers.keys()],
+        }),
+      );
+    }
+    return provider;
+  }
+
+  getChatModel(overrides: ChatModelOverrides = {}) {
+    const { chat } = this.modelsSettings;
+    const { provider, model } = this.chatModelProvider(overrides);
+
+    const options: ChatModelOptions = {
+      model,
+      temperature: overrides.temperature ?? chat.temperature,
+      maxTokens: overrides.maxTokens ?? chat.maxTokens,
+      streaming: overrides.streaming ?? false,
+    };
+    const chatModel = this.guardrailsService.guardChatModel(
+      this.withFallback(
+        provider.createChatModel(options, this.modelsSettings),
+        `${provider.name}/${model}`,
+        options,
+      ),
+    );
+    chatModel.callbacks = [this.usageService.callbackHandler];
+    return chatModel;
+  }
+
+  getChatModelName(overrides: ChatModelOverrides = {}) {
+    const { provider, model } = this.chatModelProvider(overrides);
+    return `${provider.name}/${model}`;
+  }
+
+  getEmbeddings() {
+    const { provider, model } = this.embeddingsProvider();
+    if (!provider.createEmbeddings) {
+      throw new Error(`Model provider "${provider.name}" has no embeddings`);
+    }
+    return this.usageService.trackEmbeddings(
+      this.guardrailsService.guardEmbeddings(
+        provider.createEmbeddings(model, this.modelsSettings),
+      ),
+      model,
+    );
+  }
+
+  getEmbeddingsModel() {
+    const { provider, model } = this.embeddingsProvider();
+    return `${provider.name}/${model}`;
+  }
+
+  private chatModelProvider = (overrides: ChatModelOverrides) => {
+    const { chat } = this.modelsSettings;
+    const provider = this.getProvider(overrides.provider);
+    const configuredModel =
+      provider.name === chat.provider ? chat.model : undefined;
+    return {
+      provider,
+      model: overrides.model ?? configuredModel ?? provider.defaultChatModel,
+    };
+  };
+
+  // Wraps the chat model with the configured fallback model, unless they are the same model
+  private withFallback = (
+    chatModel: BaseChatModel,
+    chatModelName: string,
+    options: ChatModelOptions,
+  ) => {
+    const { fallback } = this.modelsSettings.chat;
+    if (!fallback.provider) return chatModel;
+    const provider = this.getProvider(fallback.provider);
+    const model = fallback.model ?? provider.defaultChatModel;
+    if (`${provider.name}/${model}` === chatModelName) return chatModel;
+
+    return new FallbackChatModel(
+      chatModel,
+      provider.createChatModel({ ...options, model }, this.modelsSettings),
+      model,
+    );
+  };
+
+  private embeddingsProvider = () => {
+    const { embeddings } = this.modelsSettings;
+    const provider = this.getProvider(embeddings.provider);
+    return {
+      provider,
+      model: embeddings.model ?? provider.defaultEmbeddingsModel,
+    };
+  };
+}
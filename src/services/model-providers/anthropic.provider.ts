@@ -0,0 +1,21 @@
+import { ChatAnthropic } from '@langchain/anthropic';
+import { MODEL_PROVIDERS } from 'src/utils/constants/model-providers.constants';
+import { ModelProviderDefinition } from './model-provider.interface';
+
+export const anthropicProvider: ModelProviderDefinition = {
+  name: MODEL_PROVIDERS.ANTHROPIC,
+  defaultChatModel: 'claude-3-haiku-20240307',
+  supportsFunctionCalling: false,
+  createChatModel: (
+    { model, temperature, maxTokens, streaming },
+    { anthropic, maxRetries },
+  ) =>
+    new ChatAnthropic({
+      modelName: model,
+      temperature,
+      maxTokens,
+      streaming,
+      maxRetries,
+      anthropicApiKey: anthropic.apiKey,
+    }),
+};
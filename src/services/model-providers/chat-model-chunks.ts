@@ -0,0 +1,37 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessageChunk, BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk } from '@langchain/core/outputs';
+import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+
+/**
+ * Streams the answer of a chat model wrapped by another one, through the model's own
+ * `_streamResponseChunks` and with the run of the wrapping model. Models without streaming send
+ * their whole answer as one chunk.
+ */
+export async function* chatModelChunks(
+  model: BaseChatModel,
+  messages: BaseMessage[],
+  options: BaseChatModel['ParsedCallOptions'],
+  runManager?: CallbackManagerForLLMRun,
+): AsyncGenerator<ChatGenerationChunk> {
+  if (
+    model._streamResponseChunks !==
+    BaseChatModel.prototype._streamResponseChunks
+  ) {
+    yield* model._streamResponseChunks(messages, options, runManager);
+    return;
+  }
+
+  const { generations } = await model._generate(messages, options, runManager);
+  for (const { text, message, generationInfo } of generations) {
+    yield new ChatGenerationChunk({
+      text,
+      message: new AIMessageChunk({
+        content: message.content,
+        additional_kwargs: message.additional_kwargs,
+      }),
+      generationInfo,
+    });
+    await runManager?.handleLLMNewToken(text);
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Deterministic offline chat model and embeddings.
+ *
+ * The fake chat model answers every prompt with the same text for the same input, echoing the
+ * end of the last message, streams that answer word by word and reports word counts as token
+ * usage. The fake embeddings hash the words of a text into a fixed-size normalised vector, so
+ * that texts sharing words are similar and retrieval behaves sensibly. Together they let the
+ * whole service, and its end-to-end tests, run without network access or API keys.
+ */
+
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { Embeddings } from '@langchain/core/embeddings';
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+} from '@langchain/core/messages';
+import { ChatGenerationChunk, ChatResult } from '@langchain/core/outputs';
+import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import { MODEL_PROVIDERS } from 'src/utils/constants/model-providers.constants';
+import { ModelProviderDefinition } from './model-provider.interface';
+
+const FAKE_EMBEDDING_DIMENSIONS = 256;
+const FAKE_ECHO_LENGTH = 200;
+
+const words = (text: string) =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+const messageText = (message: BaseMessage) =>
+  typeof message.content === 'string'
+    ? message.content
+    : JSON.stringify(message.content);
+
+export class FakeChatModel extends BaseChatModel {
+  constructor(private model: string) {
+    super({});
+  }
+
+  _llmType() {
+    return MODEL_PROVIDERS.FAKE;
+  }
+
+  invocationParams() {
+    return { model: this.model };
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const text = this.respond(messages);
+    const promptTokens = words(messages.map(messageText).join(' ')).length;
+    const completionTokens = words(text).length;
+    return {
+      generations: [{ text, message: new AIMessage(text) }],
+      llmOutput: {
+        tokenUsage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+      },
+    };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    _options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    for (const token of this.respond(messages).split(/(?<= )/)) {
+      yield new ChatGenerationChunk({
+        text: token,
+        message: new AIMessageChunk(token),
+      });
+      await runManager?.handleLLMNewToken(token);
+    }
+  }
+
+  private respond(messages: BaseMessage[]) {
+    const lastMessage = messages.length
+      ? messageText(messages[messages.length - 1])
+      : '';
+    const echo = lastMessage.replace(/\s+/g, ' ').trim();
+    return `[${this.model}] ${echo.slice(-FAKE_ECHO_LENGTH)}`;
+  }
+}
+
+export class FakeEmbeddings extends Embeddings {
+  constructor() {
+    super({});
+  }
+
+  async embedDocuments(documents: string[]) {
+    return documents.map(this.embed);
+  }
+
+  async embedQuery(document: string) {
+    return this.embed(document);
+  }
+
+  // Feature hashing (FNV-1a) of the words of the text
+  private embed = (text: string) => {
+    const vector = new Array(FAKE_EMBEDDING_DIMENSIONS).fill(0);
+    for (const word of words(text)) {
+      let hash = 0x811c9dc5;
+      for (let index = 0; index < word.length; index++) {
+        hash = Math.imul(hash ^ word.charCodeAt(index), 0x01000193) >>> 0;
+      }
+      vector[hash % FAKE_EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.hypot(...vector);
+    // A zero vector has no cosine distance; give empty texts a fixed direction instead
+    if (!norm) return vector.map((_, index) => (index === 0 ? 1 : 0));
+    return vector.map((value) => value / norm);
+  };
+}
+
+export const fakeProvider: ModelProviderDefinition = {
+  name: MODEL_PROVIDERS.FAKE,
+  defaultChatModel: 'fake-chat',
+  defaultEmbeddingsModel: 'fake-embeddings',
+  supportsFunctionCalling: true,
+  createChatModel: ({ model }) => new FakeChatModel(model),
+  createEmbeddings: () => new FakeEmbeddings(),
+};
@@ -0,0 +1,109 @@
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { ChatGenerationChunk } from '@langchain/core/outputs';
+import { AIMessageChunk } from '@langchain/core/messages';
+import { FallbackChatModel } from './fallback-chat.model';
+import { FALLBACK_MODEL_INFO } from 'src/utils/constants/model-providers.constants';
+
+// An error of the provider SDKs, once LangChain has used up its retries
+const providerError = (status: number) =>
+  Object.assign(new Error(`Request failed with status ${status}`), { status });
+
+// A primary model streaming the given tokens, then failing with the error
+const failingModel = (error: Error, tokens: string[] = []) => {
+  const model = new FakeListChatModel({ responses: [''] });
+  model._generate = jest.fn().mockRejectedValue(error);
+  model._streamResponseChunks = async function* () {
+    for (const token of tokens) {
+      yield new ChatGenerationChunk({
+        text: token,
+        message: new AIMessageChunk(token),
+      });
+    }
+    throw error;
+  };
+  return model;
+};
+
+describe('FallbackChatModel', () => {
+  const fallback = () =>
+    new FakeListChatModel({ responses: ['Answer of the fallback model'] });
+
+  const streamed = async (model: FallbackChatModel) => {
+    let text = '';
+    for await (const chunk of await model.stream('Hello')) {
+      text += chunk.content;
+    }
+    return text;
+  };
+
+  it('answers with the fallback model when the primary model is rate limited', async () => {
+    const model = new FallbackChatModel(
+      failingModel(providerError(429)),
+      fallback(),
+      'fake-fallback',
+    );
+
+    const result = await model.generate([['human', 'Hello']]);
+
+    const [[generation]] = result.generations;
+    expect(generation.text).toBe('Answer of the fallback model');
+    expect(generation.generationInfo).toEqual({
+      [FALLBACK_MODEL_INFO]: 'fake-fallback',
+    });
+  });
+
+  it('does not fall back on an error that another model cannot fix', async () => {
+    const model = new FallbackChatModel(
+      failingModel(providerError(401)),
+      fallback(),
+      'fake-fallback',
+    );
+
+    await expect(model.invoke('Hello')).rejects.toThrow(
+      'Request failed with status 401',
+    );
+  });
+
+  it('streams the fallback model when the primary model fails before its first token', async () => {
+    const model = new FallbackChatModel(
+      failingModel(providerError(503)),
+      fallback(),
+      'fake-fallback',
+    );
+
+    expect(await streamed(model)).toBe('Answer of the fallback model');
+  });
+
+  it('does not fall back once the primary model has streamed tokens', async () => {
+    const model = new FallbackChatModel(
+      failingModel(providerError(503), ['Partial ', 'answer']),
+      fallback(),
+      'fake-fallback',
+    );
+
+    await expect(streamed(model)).rejects.toThrow(
+      'Request failed with status 503',
+    );
+  });
+
+  it('does not fall back on an aborted call', async () => {
+    const abortController = new AbortController();
+    const primary = failingModel(providerError(503));
+    primary._generate = jest.fn(async () => {
+      abortController.abort();
+      throw providerError(503);
+    });
+    const fallbackModel = fallback();
+    const fallbackGenerate = jest.spyOn(fallbackModel, '_generate');
+    const model = new FallbackChatModel(
+      primary,
+      fallbackModel,
+      'fake-fallback',
+    );
+
+    await expect(
+      model.invoke('Hello', { signal: abortController.signal }),
+    ).rejects.toThrow();
+    expect(fallbackGenerate).not.toHaveBeenCalled();
+  });
+});
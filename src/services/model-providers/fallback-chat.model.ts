@@ -0,0 +1,104 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk, ChatResult } from '@langchain/core/outputs';
+import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import { FALLBACK_MODEL_INFO } from 'src/utils/constants/model-providers.constants';
+import { toModelProviderError } from 'src/errors/model-provider.errors';
+import { chatModelChunks } from './chat-model-chunks';
+
+/**
+ * Chat model answering with a fallback model when the primary model is rate limited or unavailable.
+ *
+ * The wrapped models are called through their own `_generate` and `_streamResponseChunks`, with the
+ * run of this model, so that a call makes a single chat model run whichever model answers it and
+ * keeps the retries of the wrapped models. A call switches to the fallback model once the primary
+ * model has used up its retries on a transient error, see toModelProviderError, unless the call was
+ * aborted; a stream only switches while the primary model has not sent any token. The generations
+ * of the fallback model name it under FALLBACK_MODEL_INFO, so that UsageCallbackHandler records
+ * their usage under its name.
+ *
+ * @param {BaseChatModel} primary - The chat model answering the calls.
+ * @param {BaseChatModel} fallback - The chat model answering when the primary model fails.
+ * @param {string} fallbackModel - Name of the fallback model.
+ */
+export class FallbackChatModel extends BaseChatModel {
+  constructor(
+    private primary: BaseChatModel,
+    private fallback: BaseChatModel,
+    private fallbackModel: string,
+  ) {
+    super({});
+  }
+
+  _llmType() {
+    return 'fallback';
+  }
+
+  invocationParams(options?: this['ParsedCallOptions']) {
+    return this.primary.invocationParams(options);
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun,
+  ): Promise<ChatResult> {
+    try {
+      return await this.primary._generate(messages, options, runManager);
+    } catch (e: unknown) {
+      if (!this.canFallBack(e, options)) throw e;
+      const result = await this.fallback._generate(
+        messages,
+        options,
+        runManager,
+      );
+      result.generations.forEach((generation) => {
+        generation.generationInfo = this.fallbackInfo(generation);
+      });
+      return result;
+    }
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    let streamed = false;
+    try {
+      for await (const chunk of chatModelChunks(
+        this.primary,
+        messages,
+        options,
+        runManager,
+      )) {
+        streamed = true;
+        yield chunk;
+      }
+    } catch (e: unknown) {
+      if (streamed || !this.canFallBack(e, options)) throw e;
+      for await (const chunk of chatModelChunks(
+        this.fallback,
+        messages,
+        options,
+        runManager,
+      )) {
+        yield new ChatGenerationChunk({
+          text: chunk.text,
+          message: chunk.message,
+          generationInfo: this.fallbackInfo(chunk),
+        });
+      }
+    }
+  }
+
+  private canFallBack = (e: unknown, options: this['ParsedCallOptions']) =>
+    !options.signal?.aborted && toModelProviderError(e)?.transient === true;
+
+  private fallbackInfo = (generation: {
+    generationInfo?: Record<string, unknown>;
+  }) => ({
+    ...generation.generationInfo,
+    [FALLBACK_MODEL_INFO]: this.fallbackModel,
+  });
+}
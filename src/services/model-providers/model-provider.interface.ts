@@ -0,0 +1,49 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { Embeddings } from '@langchain/core/embeddings';
+import { ModelsConfig } from 'src/config/models.config';
+
+/**
+ * Settings of a chat model created by a provider.
+ *
+ * @interface ChatModelOptions
+ *
+ * @property model - Name of the model, as known by the provider.
+ * @property temperature - Randomness of the responses.
+ * @property maxTokens - Maximum number of tokens of a response. The provider's default applies when omitted.
+ * @property streaming - Whether the model emits tokens as they are generated.
+ */
+export interface ChatModelOptions {
+  model: string;
+  temperature: number;
+  maxTokens?: number;
+  streaming?: boolean;
+}
+
+/**
+ * A source of chat models and embeddings, registered in ModelProviderService.
+ *
+ * @interface ModelProviderDefinition
+ *
+ * @property name - Name of the provider, used in configuration and per-request overrides.
+ * @property defaultChatModel - Chat model used when neither configuration nor the request names one.
+ * @property defaultEmbeddingsModel - Embeddings model used when configuration does not name one.
+ * @property supportsFunctionCalling - Whether the provider's chat models can drive an OpenAI functions
+ *                                     agent; other providers get a structured-chat (JSON) agent.
+ * @property createChatModel - Creates a chat model with the given settings, and the credentials and retries
+ *                             from the `models` configuration namespace.
+ * @property createEmbeddings - Creates the embeddings model. Omitted for providers without embeddings.
+ */
+export interface ModelProviderDefinition {
+  name: string;
+  defaultChatModel: string;
+  defaultEmbeddingsModel?: string;
+  supportsFunctionCalling: boolean;
+  createChatModel: (
+    options: ChatModelOptions,
+    modelsSettings: ModelsConfig,
+  ) => BaseChatModel;
+  createEmbeddings?: (
+    model: string,
+    modelsSettings: ModelsConfig,
+  ) => Embeddings;
+}
@@ -0,0 +1,35 @@
+import { ChatOpenAI, OpenAIEmbeddings } from '@langchain/openai';
+import { MODEL_PROVIDERS } from 'src/utils/constants/model-providers.constants';
+import { ModelProviderDefinition } from './model-provider.interface';
+
+/**
+ * Talks to any endpoint implementing the OpenAI API, Ollama's by default. The endpoint is set
+ * with OPENAI_COMPATIBLE_BASE_URL; OPENAI_COMPATIBLE_API_KEY is only needed by endpoints that
+ * check it.
+ */
+export const openAICompatibleProvider: ModelProviderDefinition = {
+  name: MODEL_PROVIDERS.OPENAI_COMPATIBLE,
+  defaultChatModel: 'llama3',
+  defaultEmbeddingsModel: 'nomic-embed-text',
+  supportsFunctionCalling: false,
+  createChatModel: (
+    { model, temperature, maxTokens, streaming },
+    { openAICompatible, maxRetries },
+  ) =>
+    new ChatOpenAI({
+      modelName: model,
+      temperature,
+      maxTokens,
+      streaming,
+      maxRetries,
+      openAIApiKey: openAICompatible.apiKey,
+      configuration: { baseURL: openAICompatible.baseUrl },
+    }),
+  createEmbeddings: (model, { openAICompatible, maxRetries }) =>
+    new OpenAIEmbeddings({
+      modelName: model,
+      openAIApiKey: openAICompatible.apiKey,
+      configuration: { baseURL: openAICompatible.baseUrl },
+      maxRetries,
+    }),
+};
@@ -0,0 +1,28 @@
+import { ChatOpenAI, OpenAIEmbeddings } from '@langchain/openai';
+import { MODEL_PROVIDERS } from 'src/utils/constants/model-providers.constants';
+import { ModelProviderDefinition } from './model-provider.interface';
+
+export const openAIProvider: ModelProviderDefinition = {
+  name: MODEL_PROVIDERS.OPENAI,
+  defaultChatModel: 'gpt-3.5-turbo-1106',
+  defaultEmbeddingsModel: 'text-embedding-ada-002',
+  supportsFunctionCalling: true,
+  createChatModel: (
+    { model, temperature, maxTokens, streaming },
+    { openAI, maxRetries },
+  ) =>
+    new ChatOpenAI({
+      modelName: model,
+      temperature,
+      maxTokens,
+      streaming,
+      maxRetries,
+      openAIApiKey: openAI.apiKey,
+    }),
+  createEmbeddings: (model, { openAI, maxRetries }) =>
+    new OpenAIEmbeddings({
+      modelName: model,
+      openAIApiKey: openAI.apiKey,
+      maxRetries,
+    }),
+};
@@ -0,0 +1,18 @@
+import { DocumentInterface } from '@langchain/core/documents';
+
+/**
+ * Formats a retrieved chunk as a numbered source of a prompt, e.g., '[2] (policy.pdf, page 3)'
+ * followed by its text, so that the model can cite it by its marker.
+ *
+ * @param chunk - The chunk, with the `source` and optional `pageNumber` of its metadata.
+ * @param index - The position of the chunk among the sources; markers start at 1.
+ * @returns The marker, location and text of the chunk.
+ */
+export const formatSource = (
+  { pageContent, metadata }: DocumentInterface,
+  index: number,
+) => {
+  const { source, pageNumber } = metadata;
+  const location = pageNumber ? `${source}, page ${pageNumber}` : source;
+  return `[${index + 1}] (${location})\n${pageContent}`;
+};
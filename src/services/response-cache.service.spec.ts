@@ -0,0 +1,269 @@
+import { Test } from '@nestjs/testing';
+import { ResponseCacheService } from './response-cache.service';
+import { DatabaseService } from './database.service';
+import { ModelProviderService } from './model-provider.service';
+import { FakeEmbeddings } from './model-providers/fake.provider';
+import { UsageService } from 'src/usage/usage.service';
+import { responseCacheConfig } from 'src/config/response-cache.config';
+import { ResponseCacheKey } from './interfaces/response-cache.interface';
+import {
+  RESPONSE_CACHE_ENDPOINTS,
+  RESPONSE_CACHE_OUTCOMES,
+} from 'src/utils/constants/response-cache.constants';
+
+const key: ResponseCacheKey = {
+  tenantId: 'tenant-1',
+  endpoint: RESPONSE_CACHE_ENDPOINTS.DOCUMENT_CHAT,
+  template: 'Answer {question} from {context}',
+  model: 'fake/fake-chat',
+  settings: { k: 4 },
+};
+
+const entry = (similarity: number) => ({
+  id: 'entry-1',
+  query: 'What is the refund window?',
+  response: { answer: 'Cached answer' },
+  total_tokens: 120,
+  cost: 0.001,
+  created_at: new Date('2026-10-01T00:00:00Z'),
+  expires_at: new Date('2026-10-01T01:00:00Z'),
+  similarity,
+});
+
+describe('ResponseCacheService', () => {
+  let service: ResponseCacheService;
+  let settings: { ttlSeconds: number; similarityThreshold: number };
+  let query: jest.Mock;
+  let clientQuery: jest.Mock;
+  let generate: jest.Mock;
+  let embedQuery: jest.SpyInstance;
+  // The model calls of the request, which generating an answer adds to
+  let calls: object[];
+  // The rows of the exact and of the nearest cached query
+  let exact: object[];
+  let nearest: object[];
+
+  // The statements run in and out of transactions, with their parameters
+  const statements = () =>
+    [...query.mock.calls, ...clientQuery.mock.calls] as [string, unknown[]][];
+  const statement = (prefix: string) =>
+    statements().find(([sql]) => sql.trim().startsWith(prefix));
+
+  beforeEach(async () => {
+    settings = { ttlSeconds: 3600, similarityThreshold: 0.95 };
+    exact = [];
+    nearest = [];
+    query = jest.fn(async (sql: string) => {
+      if (sql.includes('1 AS similarity')) return exact;
+      if (sql.includes('AS similarity')) return nearest;
+      return [];
+    });
+    clientQuery = jest.fn().mockResolvedValue({ rows: [] });
+    calls = [{ fallback: false }];
+    generate = jest.fn(async () => ({
+      response: { answer: 'Fresh answer' },
+      documentIds: ['document-1', 'document-1', 'document-2'],
+    }));
+
+    const embeddings = new FakeEmbeddings();
+    embedQuery = jest.spyOn(embeddings, 'embedQuery');
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ResponseCacheService,
+        {
+          provide: DatabaseService,
+          useValue: {
+            query,
+            pool: { query: clientQuery },
+            transaction: (work) => work({ query: clientQuery }),
+          },
+        },
+        {
+          provide: ModelProviderService,
+          useValue: {
+            getEmbeddings: () => embeddings,
+            getEmbeddingsModel: () => 'fake/fake-embeddings',
+          },
+        },
+        {
+          provide: UsageService,
+          useValue: {
+            currentUsage: jest
+              .fn()
+              .mockReturnValueOnce({ total_tokens: 10, cost: 0.5, calls })
+              .mockReturnValueOnce({ total_tokens: 130, cost: 0.75, calls }),
+          },
+        },
+        { provide: responseCacheConfig.KEY, useValue: settings },
+      ],
+    }).compile();
+
+    service = moduleRef.get(ResponseCacheService);
+    await service.onModuleInit();
+    query.mockClear();
+  });
+
+  describe('cached', () => {
+    it('serves an exact match without embedding the query or generating an answer', async () => {
+      exact = [entry(1)];
+
+      const answer = await service.cached(
+        key,
+        '  what is the REFUND window? ',
+        false,
+        generate,
+      );
+
+      expect(answer).toEqual({
+        answer: 'Cached answer',
+        cache: {
+          outcome: RESPONSE_CACHE_OUTCOMES.EXACT_HIT,
+          similarity: 1,
+          cached_at: entry(1).created_at,
+          expires_at: entry(1).expires_at,
+        },
+      });
+      expect(embedQuery).not.toHaveBeenCalled();
+      expect(generate).not.toHaveBeenCalled();
+      expect(statement('SELECT')[0]).toContain('expires_at > now()');
+      expect(statement('UPDATE response_cache')[1]).toEqual(['entry-1']);
+      expect(statement('INSERT INTO response_cache_events')[1]).toEqual([
+        'tenant-1',
+        RESPONSE_CACHE_ENDPOINTS.DOCUMENT_CHAT,
+        RESPONSE_CACHE_OUTCOMES.EXACT_HIT,
+        1,
+        120,
+        0.001,
+      ]);
+    });
+
+    it('serves the nearest cached query when it is similar enough', async () => {
+      nearest = [entry(0.97)];
+
+      const answer = await service.cached(
+        key,
+        'How long is the refund window?',
+        false,
+        generate,
+      );
+
+      expect(answer.cache).toMatchObject({
+        outcome: RESPONSE_CACHE_OUTCOMES.SEMANTIC_HIT,
+        similarity: 0.97,
+      });
+      expect(generate).not.toHaveBeenCalled();
+    });
+
+    it('generates and caches an answer for the time to live on a miss', async () => {
+      nearest = [entry(0.9)];
+
+      const answer = await service.cached(
+        key,
+        'Can I return a gift?',
+        false,
+        generate,
+      );
+
+      expect(answer).toEqual({
+        answer: 'Fresh answer',
+        cache: { outcome: RESPONSE_CACHE_OUTCOMES.MISS },
+      });
+      const [, params] = statement('INSERT INTO response_cache (');
+      expect(params.slice(0, 2)).toEqual([
+        'tenant-1',
+        RESPONSE_CACHE_ENDPOINTS.DOCUMENT_CHAT,
+      ]);
+      expect(params.slice(9)).toEqual([
+        { answer: 'Fresh answer' },
+        ['document-1', 'document-2'],
+        120,
+        0.25,
+        3600,
+      ]);
+    });
+
+    it('does not cache an answer of the fallback model', async () => {
+      generate.mockImplementationOnce(async () => {
+        calls.push({ fallback: true });
+        return { response: { answer: 'Answer of the fallback model' } };
+      });
+
+      const answer = await service.cached(
+        key,
+        'Can I return a gift?',
+        false,
+        generate,
+      );
+
+      expect(answer).toEqual({
+        answer: 'Answer of the fallback model',
+        cache: { outcome: RESPONSE_CACHE_OUTCOMES.MISS },
+      });
+      expect(statement('INSERT INTO response_cache (')).toBeUndefined();
+      expect(statement('INSERT INTO response_cache_events')).toBeDefined();
+    });
+
+    it('replaces the cached answer with a fresh one when bypassing the lookup', async () => {
+      const answer = await service.cached(
+        key,
+        'What is the refund window?',
+        true,
+        generate,
+      );
+
+      expect(answer.cache).toEqual({ outcome: RESPONSE_CACHE_OUTCOMES.BYPASS });
+      expect(statement('SELECT')).toBeUndefined();
+      expect(statement('DELETE FROM response_cache')[0]).toContain(
+        'query_hash = $6) OR expires_at <= now()',
+      );
+      expect(statement('INSERT INTO response_cache (')).toBeDefined();
+    });
+
+    it('only generates the answer when the cache is disabled', async () => {
+      settings.ttlSeconds = 0;
+
+      expect(
+        await service.cached(
+          key,
+          'What is the refund window?',
+          false,
+          generate,
+        ),
+      ).toEqual({ answer: 'Fresh answer' });
+      expect(statements()).toEqual([]);
+    });
+
+    it('answers with the model when the cache cannot be read', async () => {
+      query.mockRejectedValueOnce(new Error('Connection refused'));
+
+      const answer = await service.cached(
+        key,
+        'What is the refund window?',
+        false,
+        generate,
+      );
+
+      expect(answer).toMatchObject({ answer: 'Fresh answer' });
+    });
+  });
+
+  describe('invalidateDocuments', () => {
+    it('drops the cached answers of the tenant generated from a document', async () => {
+      await service.invalidateDocuments('tenant-1', 'document-2');
+
+      const [sql, params] = statement('DELETE FROM response_cache');
+      expect(sql).toContain('$2::uuid = ANY(document_ids)');
+      expect(params).toEqual(['tenant-1', 'document-2']);
+    });
+
+    it('drops every answer generated from the documents of the tenant', async () => {
+      await service.invalidateDocuments('tenant-1');
+
+      expect(statement('DELETE FROM response_cache')[1]).toEqual([
+        'tenant-1',
+        null,
+      ]);
+    });
+  });
+});
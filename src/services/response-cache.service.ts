@@ -0,0 +1,412 @@
+/**
+ * Service caching the answers of the chat routes asked the same questions over and over.
+ *
+ * Answers are stored in the `response_cache` table with the embedding of their query, next to
+ * the chunks of VectorStoreService in the same pgvector database. A cached answer is only served
+ * for the same tenant, route, prompt template, chat model and request settings, see
+ * ResponseCacheKey, and for a query that is either the same, ignoring case and whitespace, or
+ * whose embedding has a cosine similarity to the cached query of at least `similarityThreshold`.
+ * Exact matches are looked up before the query is embedded.
+ *
+ * Cached answers expire after `ttlSeconds`. Answers generated from documents record the IDs of
+ * the documents they cite: DocumentsService drops them when one of these documents is removed or
+ * loses its chunks, and drops every answer generated from the tenant's documents when new chunks
+ * are stored, since they may now be retrieved for any question. A request can bypass the lookup;
+ * its fresh answer then replaces the cached one. An answer that a FallbackChatModel generated with
+ * its fallback model is not cached, since the key names the primary model. Failing to read or
+ * write the cache never fails the request: the model answers instead.
+ *
+ * Every lookup is recorded in the `response_cache_events` table with its outcome and, on hits,
+ * the tokens and cost the cached answer originally took, which `report` totals by route.
+ *
+ * Configuration (the `responseCache` namespace, see src/config/response-cache.config.ts):
+ * - ttlSeconds - How long an answer is served from the cache; 0 disables the cache (RESPONSE_CACHE_TTL_SECONDS).
+ * - similarityThreshold - Minimum cosine similarity of a near-duplicate query (RESPONSE_CACHE_SIMILARITY_THRESHOLD).
+ *
+ * @class ResponseCacheService
+ *
+ * @method cached - Serves a cached answer matching the key and query, or generates, caches and returns a new one.
+ * @param {ResponseCacheKey} key - The tenant, route, template, model and settings the answer must match.
+ * @param {string} query - The user's query.
+ * @param {boolean} bypass - Whether to skip the lookup and always generate a new answer.
+ * @param {Function} generate - Generates the answer on a miss.
+ * @returns The answer with a `cache` field describing how it was served, see ResponseCacheStatus; without it when the cache is disabled.
+ *
+ * @method invalidateDocuments - Drops the cached answers of a tenant generated from a document, or from any of its documents,
+ *                               optionally within the caller's transaction.
+ *
+ * @method report - Totals the lookups, hits, misses, bypasses and saved tokens and cost by route, and counts the cached answers.
+ * @param {ResponseCacheReportQueryDto} responseCacheReportQueryDto - The date range and the tenant and route filters of the report.
+ */
+
+import {
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import * as pg from 'pg';
+import { Embeddings } from '@langchain/core/embeddings';
+import { DatabaseService } from './database.service';
+import { ModelProviderService } from './model-provider.service';
+import { UsageService } from 'src/usage/usage.service';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import { RESPONSE_CACHE_OUTCOMES } from 'src/utils/constants/response-cache.constants';
+import {
+  ResponseCacheConfig,
+  responseCacheConfig,
+} from 'src/config/response-cache.config';
+import { ResponseCacheReportQueryDto } from 'src/usage/dtos/response-cache-report-query.dto';
+import {
+  CacheableResponse,
+  ResponseCacheEntry,
+  ResponseCacheKey,
+  ResponseCacheStatus,
+} from './interfaces/response-cache.interface';
+
+@Injectable()
+export class ResponseCacheService {
+  private embeddings: Embeddings;
+  private embeddingsModel: string;
+
+  constructor(
+    private databaseService: DatabaseService,
+    private modelProviderService: ModelProviderService,
+    private usageService: UsageService,
+    @Inject(responseCacheConfig.KEY)
+    private responseCacheSettings: ResponseCacheConfig,
+  ) {}
+
+  async onModuleInit() {
+    await this.databaseService.query('CREATE EXTENSION IF NOT EXISTS vector');
+    await this.databaseService.query(`
+      CREATE TABLE IF NOT EXISTS response_cache (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID,
+        endpoint TEXT NOT NULL,
+        template_hash TEXT NOT NULL,
+        model TEXT NOT NULL,
+        settings_hash TEXT NOT NULL,
+        query TEXT NOT NULL,
+        query_hash TEXT NOT NULL,
+        embedding VECTOR NOT NULL,
+        embeddings_model TEXT NOT NULL,
+        response JSONB NOT NULL,
+        document_ids UUID[],
+        total_tokens INTEGER NOT NULL,
+        cost NUMERIC(18, 8),
+        hit_count INTEGER NOT NULL DEFAULT 0,
+        last_hit_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        expires_at TIMESTAMPTZ NOT NULL
+      );
+    `);
+    await this.databaseService.query(`
+      CREATE INDEX IF NOT EXISTS response_cache_key_idx
+        ON response_cache (tenant_id, endpoint, model, settings_hash, template_hash);
+    `);
+    await this.databaseService.query(`
+      CREATE TABLE IF NOT EXISTS response_cache_events (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID,
+        endpoint TEXT NOT NULL,
+        outcome TEXT NOT NULL,
+        similarity DOUBLE PRECISION,
+        saved_tokens INTEGER NOT NULL DEFAULT 0,
+        saved_cost NUMERIC(18, 8),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `);
+    await this.databaseService.query(`
+      CREATE INDEX IF NOT EXISTS response_cache_events_created_at_idx
+        ON response_cache_events (created_at);
+    `);
+
+    this.embeddings = this.modelProviderService.getEmbeddings();
+    this.embeddingsModel = this.modelProviderService.getEmbeddingsModel();
+  }
+
+  async cached<T extends object>(
+    key: ResponseCacheKey,
+    query: string,
+    bypass: boolean,
+    generate: () => Promise<CacheableResponse<T>>,
+  ): Promise<T & { cache?: ResponseCacheStatus }> {
+    if (!this.responseCacheSettings.ttlSeconds) {
+      return (await generate()).response;
+    }
+
+    let embedding: number[] | undefined;
+    if (!bypass) {
+      try {
+        const lookup = await this.lookup(key, query);
+        if (lookup.entry) {
+          await this.recordHit(key, lookup.outcome, lookup.entry);
+          return {
+            ...(lookup.entry.response as T),
+            cache: {
+              outcome: lookup.outcome,
+              similarity: lookup.entry.similarity,
+              cached_at: lookup.entry.created_at,
+              expires_at: lookup.entry.expires_at,
+            },
+          };
+        }
+        embedding = lookup.embedding;
+      } catch (e: unknown) {
+        Logger.error(e);
+      }
+    }
+
+    const before = this.usageService.currentUsage();
+    const callsBefore = before.calls.length;
+    const generated = await generate();
+    const after = this.usageService.currentUsage();
+    const outcome = bypass
+      ? RESPONSE_CACHE_OUTCOMES.BYPASS
+      : RESPONSE_CACHE_OUTCOMES.MISS;
+    // The key names the primary model, which did not write an answer of the fallback model
+    const answeredByFallback = after.calls
+      .slice(callsBefore)
+      .some((call) => call.fallback);
+    try {
+      if (!answeredByFallback) {
+        await this.store(key, query, embedding, generated, {
+          total_tokens: after.total_tokens - before.total_tokens,
+          cost: after.cost - before.cost,
+        });
+      }
+      await this.recordEvent(key, outcome);
+    } catch (e: unknown) {
+      Logger.error(e);
+    }
+    return { ...generated.response, cache: { outcome } };
+  }
+
+  async invalidateDocuments(
+    tenantId: string,
+    documentId?: string,
+    client: pg.Pool | pg.PoolClient = this.databaseService.pool,
+  ) {
+    await client.query(
+      `DELETE FROM response_cache
+       WHERE tenant_id = $1 AND document_ids IS NOT NULL
+         AND ($2::uuid IS NULL OR $2::uuid = ANY(document_ids))`,
+      [tenantId, documentId ?? null],
+    );
+  }
+
+  async report(responseCacheReportQueryDto: ResponseCacheReportQueryDto) {
+    try {
+      const params: unknown[] = [];
+      const conditions: string[] = [];
+      const addCondition = (value: unknown, condition: string) => {
+        if (value === undefined) return;
+        params.push(value);
+        conditions.push(`${condition} $${params.length}`);
+      };
+      addCondition(responseCacheReportQueryDto.tenant_id, 'tenant_id =');
+      addCondition(responseCacheReportQueryDto.endpoint, 'endpoint =');
+      const entryConditions = [...conditions, 'expires_at > now()'];
+      const entryParams = [...params];
+      addCondition(responseCacheReportQueryDto.from, 'created_at >=');
+      addCondition(responseCacheReportQueryDto.to, 'created_at <');
+
+      const [rows, entries] = await Promise.all([
+        this.databaseService.query(
+          `SELECT endpoint, ${REPORT_TOTALS.join(', ')}
+           FROM response_cache_events
+           ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+           GROUP BY endpoint ORDER BY endpoint`,
+          params,
+        ),
+        // Cached answers are counted as of now, whatever the date range
+        this.databaseService.query(
+          `SELECT endpoint, count(*)::int AS entries, coalesce(sum(hit_count), 0)::int AS hits
+           FROM response_cache
+           WHERE ${entryConditions.join(' AND ')}
+           GROUP BY endpoint ORDER BY endpoint`,
+          entryParams,
+        ),
+      ]);
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, { rows, entries });
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  // Looks up an exact match first, then embeds the query for the nearest similar one
+  private lookup = async (
+    key: ResponseCacheKey,
+    query: string,
+  ): Promise<{
+    entry?: ResponseCacheEntry;
+    outcome?: RESPONSE_CACHE_OUTCOMES;
+    embedding?: number[];
+  }> => {
+    const params = this.keyParams(key);
+    const [exact] = await this.databaseService.query<ResponseCacheEntry>(
+      `SELECT ${ENTRY_COLUMNS}, 1 AS similarity
+       FROM response_cache
+       WHERE ${KEY_CONDITIONS} AND query_hash = $6
+       ORDER BY created_at DESC LIMIT 1`,
+      [...params, this.hash(normalizeQuery(query))],
+    );
+    if (exact) {
+      return {
+        entry: { ...exact, similarity: 1 },
+        outcome: RESPONSE_CACHE_OUTCOMES.EXACT_HIT,
+      };
+    }
+
+    const embedding = await this.embeddings.embedQuery(query);
+    const [nearest] = await this.databaseService.query<ResponseCacheEntry>(
+      `SELECT ${ENTRY_COLUMNS}, 1 - (embedding <=> $6::vector) AS similarity
+       FROM response_cache
+       WHERE ${KEY_CONDITIONS} AND embeddings_model = $7
+       ORDER BY embedding <=> $6::vector LIMIT 1`,
+      [...params, JSON.stringify(embedding), this.embeddingsModel],
+    );
+    const similarity = Number(nearest?.similarity);
+    if (
+      nearest &&
+      similarity >= this.responseCacheSettings.similarityThreshold
+    ) {
+      return {
+        entry: { ...nearest, similarity },
+        outcome: RESPONSE_CACHE_OUTCOMES.SEMANTIC_HIT,
+      };
+    }
+    return { embedding };
+  };
+
+  private store = async (
+    key: ResponseCacheKey,
+    query: string,
+    embedding: number[] | undefined,
+    { response, documentIds }: CacheableResponse<object>,
+    usage: { total_tokens: number; cost: number },
+  ) => {
+    const queryEmbedding =
+      embedding ?? (await this.embeddings.embedQuery(query));
+    const params = this.keyParams(key);
+    const queryHash = this.hash(normalizeQuery(query));
+    await this.databaseService.transaction(async (client) => {
+      // A fresh answer replaces the cached answer to the same query; expired answers are dropped on the way
+      await client.query(
+        `DELETE FROM response_cache
+         WHERE (${KEY_CONDITIONS} AND query_hash = $6) OR expires_at <= now()`,
+        [...params, queryHash],
+      );
+      await client.query(
+        `INSERT INTO response_cache (tenant_id, endpoint, template_hash, model, settings_hash,
+           query, query_hash, embedding, embeddings_model, response, document_ids, total_tokens,
+           cost, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13,
+           now() + make_interval(secs => $14))`,
+        [
+          ...params,
+          query,
+          queryHash,
+          JSON.stringify(queryEmbedding),
+          this.embeddingsModel,
+          response,
+          documentIds ? [...new Set(documentIds.filter(Boolean))] : null,
+          usage.total_tokens,
+          usage.cost,
+          this.responseCacheSettings.ttlSeconds,
+        ],
+      );
+    });
+  };
+
+  private recordHit = async (
+    key: ResponseCacheKey,
+    outcome: RESPONSE_CACHE_OUTCOMES,
+    entry: ResponseCacheEntry,
+  ) => {
+    await this.databaseService.query(
+      `UPDATE response_cache SET hit_count = hit_count + 1, last_hit_at = now()
+       WHERE id = $1`,
+      [entry.id],
+    );
+    await this.recordEvent(key, outcome, entry);
+  };
+
+  private recordEvent = (
+    key: ResponseCacheKey,
+    outcome: RESPONSE_CACHE_OUTCOMES,
+    entry?: ResponseCacheEntry,
+  ) =>
+    this.databaseService.query(
+      `INSERT INTO response_cache_events (tenant_id, endpoint, outcome, similarity,
+         saved_tokens, saved_cost)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        key.tenantId ?? null,
+        key.endpoint,
+        outcome,
+        entry?.similarity ?? null,
+        entry?.total_tokens ?? 0,
+        entry?.cost ?? null,
+      ],
+    );
+
+  // Parameters $1 to $5 of KEY_CONDITIONS
+  private keyParams = ({
+    tenantId,
+    endpoint,
+    template,
+    model,
+    settings,
+  }: ResponseCacheKey) => [
+    tenantId ?? null,
+    endpoint,
+    this.hash(template),
+    model,
+    this.hash(JSON.stringify(settings)),
+  ];
+
+  private hash = (text: string) =>
+    createHash('sha256').update(text).digest('hex');
+
+  private exceptionHandling = (e: unknown) => {
+    if (e instanceof HttpException) throw e;
+    Logger.error(e);
+    throw new HttpException(
+      customMessage(
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        MESSAGES.EXTERNAL_SERVER_ERROR,
+      ),
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  };
+}
+
+const ENTRY_COLUMNS =
+  'id, query, response, total_tokens, cost::float8 AS cost, created_at, expires_at';
+
+const KEY_CONDITIONS = `tenant_id IS NOT DISTINCT FROM $1 AND endpoint = $2
+  AND template_hash = $3 AND model = $4 AND settings_hash = $5 AND expires_at > now()`;
+
+// Queries differing only in case and whitespace are the same question
+const normalizeQuery = (query: string) =>
+  query.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Hit rates leave bypasses out, since they never look up the cache
+const REPORT_TOTALS = [
+  'count(*)::int AS lookups',
+  `count(*) FILTER (WHERE outcome IN ('${RESPONSE_CACHE_OUTCOMES.EXACT_HIT}', '${RESPONSE_CACHE_OUTCOMES.SEMANTIC_HIT}'))::int AS hits`,
+  `count(*) FILTER (WHERE outcome = '${RESPONSE_CACHE_OUTCOMES.EXACT_HIT}')::int AS exact_hits`,
+  `count(*) FILTER (WHERE outcome = '${RESPONSE_CACHE_OUTCOMES.SEMANTIC_HIT}')::int AS semantic_hits`,
+  `count(*) FILTER (WHERE outcome = '${RESPONSE_CACHE_OUTCOMES.MISS}')::int AS misses`,
+  `count(*) FILTER (WHERE outcome = '${RESPONSE_CACHE_OUTCOMES.BYPASS}')::int AS bypasses`,
+  `(count(*) FILTER (WHERE outcome IN ('${RESPONSE_CACHE_OUTCOMES.EXACT_HIT}', '${RESPONSE_CACHE_OUTCOMES.SEMANTIC_HIT}'))::float8
+    / nullif(count(*) FILTER (WHERE outcome <> '${RESPONSE_CACHE_OUTCOMES.BYPASS}'), 0)) AS hit_rate`,
+  `avg(similarity) FILTER (WHERE outcome = '${RESPONSE_CACHE_OUTCOMES.SEMANTIC_HIT}') AS mean_semantic_similarity`,
+  'coalesce(sum(saved_tokens), 0)::float8 AS saved_tokens',
+  'coalesce(sum(saved_cost), 0)::float8 AS saved_cost',
+];
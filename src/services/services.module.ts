@@ -0,0 +1,29 @@
+import { Global, Module } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { VectorStoreService } from './vector-store.service';
+import { ModelProviderService } from './model-provider.service';
+import { ResponseCacheService } from './response-cache.service';
+
+/**
+ * Global module for the services shared across feature modules.
+ *
+ * Registering these providers once keeps a single PostgreSQL pool, a single vector store,
+ * a single model provider registry and a single response cache for the whole application instead
+ * of one per importing module.
+ */
+@Global()
+@Module({
+  providers: [
+    DatabaseService,
+    VectorStoreService,
+    ModelProviderService,
+    ResponseCacheService,
+  ],
+  exports: [
+    DatabaseService,
+    VectorStoreService,
+    ModelProviderService,
+    ResponseCacheService,
+  ],
+})
+export class ServicesModule {}
@@ -0,0 +1,209 @@
+import { Test } from '@nestjs/testing';
+import { DistanceStrategy } from '@langchain/community/vectorstores/pgvector';
+import { VectorStoreService } from './vector-store.service';
+import { DatabaseService } from './database.service';
+import { ModelProviderService } from './model-provider.service';
+import { FakeEmbeddings } from './model-providers/fake.provider';
+import { vectorStoreConfig } from 'src/config/vector-store.config';
+import { ObservabilityService } from 'src/observability/observability.service';
+import { GuardrailsService } from 'src/guardrails/guardrails.service';
+import {
+  DEFAULT_RETRIEVAL_OPTIONS,
+  RETRIEVAL_MODES,
+} from 'src/utils/constants/retrieval.constants';
+
+describe('VectorStoreService', () => {
+  let service: VectorStoreService;
+  let query: jest.Mock;
+  let embeddings: FakeEmbeddings;
+
+  beforeEach(async () => {
+    query = jest.fn().mockResolvedValue([]);
+    embeddings = new FakeEmbeddings();
+    const client = { query: jest.fn(), release: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        VectorStoreService,
+        {
+          provide: DatabaseService,
+          useValue: { query, pool: { connect: async () => client } },
+        },
+        {
+          provide: ModelProviderService,
+          useValue: {
+            getEmbeddings: () => embeddings,
+            getEmbeddingsModel: () => 'fake-embeddings',
+          },
+        },
+        {
+          provide: ObservabilityService,
+          useValue: {
+            traceRetrieval: (_name: string, _query: string, retrieve) =>
+              retrieve(),
+          },
+        },
+        {
+          provide: GuardrailsService,
+          useValue: { screenChunks: async (chunks) => chunks },
+        },
+        {
+          provide: vectorStoreConfig.KEY,
+          useValue: {
+            tableName: 'documents',
+            columns: {
+              idColumnName: 'id',
+              vectorColumnName: 'vector',
+              contentColumnName: 'content',
+              metadataColumnName: 'metadata',
+            },
+            distanceStrategy: 'cosine' as DistanceStrategy,
+            textSearchConfig: 'english',
+          },
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(VectorStoreService);
+    await service.onModuleInit();
+  });
+
+  describe('search', () => {
+    it('applies the default settings a request leaves undefined', async () => {
+      await service.search('refund policy', 'tenant-1', {
+        k: undefined,
+        documentIds: undefined,
+        filter: undefined,
+        mode: undefined,
+        minScore: undefined,
+        searchType: undefined,
+        vectorWeight: undefined,
+        keywordWeight: undefined,
+      });
+
+      expect(query).toHaveBeenCalledTimes(1);
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain('ORDER BY vector <=> $1::vector');
+      expect(sql).not.toContain('>=');
+      expect(params.slice(1)).toEqual([
+        DEFAULT_RETRIEVAL_OPTIONS.k,
+        'tenant-1',
+      ]);
+    });
+
+    it('lets the settings of a request override the defaults', async () => {
+      await service.search('refund policy', 'tenant-1', {
+        k: 5,
+        minScore: 0.2,
+      });
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain('>= $4');
+      expect(params.slice(1)).toEqual([5, 'tenant-1', 0.2]);
+    });
+
+    it('fuses the vector and keyword results of a hybrid search with the default weights', async () => {
+      const row = (id: string) => ({
+        id,
+        content: id,
+        metadata: {},
+        embedding: '[1]',
+        score: 1,
+      });
+      // The vector search ranks a then b, the keyword search b then c
+      query.mockImplementation(async (sql: string) =>
+        sql.includes('websearch_to_tsquery')
+          ? [row('b'), row('c')]
+          : [row('a'), row('b')],
+      );
+
+      const chunks = await service.search('refund policy', 'tenant-1', {
+        mode: RETRIEVAL_MODES.HYBRID,
+        k: undefined,
+        vectorWeight: undefined,
+        keywordWeight: undefined,
+      });
+
+      const { k, hybridFetchFactor, rrfK } = DEFAULT_RETRIEVAL_OPTIONS;
+      expect(query.mock.calls.map(([, params]) => params[1])).toEqual([
+        k * hybridFetchFactor,
+        k * hybridFetchFactor,
+      ]);
+      expect(chunks.map(({ id }) => id)).toEqual(['b', 'a', 'c']);
+      expect(chunks[0].score).toBeCloseTo(1 / (rrfK + 2) + 1 / (rrfK + 1));
+      expect(chunks[1].score).toBeCloseTo(1 / (rrfK + 1));
+      expect(chunks[2].score).toBeCloseTo(1 / (rrfK + 2));
+    });
+  });
+
+  describe('embedDocuments', () => {
+    const texts = ['a', 'b', 'c', 'd', 'e'];
+
+    it('embeds the texts in batches, at most `concurrency` of them at once', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const embedDocuments = jest
+        .spyOn(embeddings, 'embedDocuments')
+        .mockImplementation(async (batch: string[]) => {
+          maxInFlight = Math.max(maxInFlight, ++inFlight);
+          await new Promise(setImmediate);
+          inFlight--;
+          return batch.map((text) => [text.charCodeAt(0)]);
+        });
+      const onProgress = jest.fn().mockResolvedValue(undefined);
+
+      const vectors = await service.embedDocuments(
+        texts,
+        { batchSize: 2, concurrency: 2 },
+        onProgress,
+      );
+
+      expect(embedDocuments.mock.calls.map(([batch]) => batch)).toEqual([
+        ['a', 'b'],
+        ['c', 'd'],
+        ['e'],
+      ]);
+      expect(maxInFlight).toBe(2);
+      expect(vectors).toEqual(texts.map((text) => [text.charCodeAt(0)]));
+      expect(onProgress.mock.calls.map(([embedded]) => embedded)).toEqual([
+        2, 4, 5,
+      ]);
+    });
+
+    it('starts no further batch once one failed', async () => {
+      const embedDocuments = jest
+        .spyOn(embeddings, 'embedDocuments')
+        .mockRejectedValueOnce(new Error('Embeddings timed out'));
+
+      await expect(
+        service.embedDocuments(texts, { batchSize: 2, concurrency: 1 }),
+      ).rejects.toThrow('Embeddings timed out');
+      expect(embedDocuments).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('findEmbeddings', () => {
+    it('finds the vectors of the tenant embedded with the configured model, by content hash', async () => {
+      query.mockResolvedValueOnce([
+        { content_hash: 'hash-1', vector: '[0.1,0.2]' },
+      ]);
+
+      const vectors = await service.findEmbeddings('tenant-1', [
+        'hash-1',
+        'hash-2',
+      ]);
+
+      expect(vectors).toEqual(new Map([['hash-1', [0.1, 0.2]]]));
+      expect(query.mock.calls[0][1]).toEqual([
+        'tenant-1',
+        ['hash-1', 'hash-2'],
+        'fake-embeddings',
+      ]);
+    });
+
+    it('does not query the store without hashes', async () => {
+      expect(await service.findEmbeddings('tenant-1', [])).toEqual(new Map());
+      expect(query).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,123 +1,499 @@
 /**
  * Service for managing vector storage and performing operations like adding documents
- * and conducting similarity searches using PGVector and OpenAI embeddings.
+ * and conducting similarity searches using PGVector and the embeddings configured in
+ * ModelProviderService.
  *
- * This service initializes a PostgreSQL connection pool, sets up a vector store using
- * PGVector, and provides methods to add documents to the store and perform similarity
- * searches. It ensures that the necessary database schema and extensions are created
- * during module initialization and properly releases resources on module destruction.
+ * This service sets up a vector store using PGVector on the connection pool shared through
+ * DatabaseService, and provides methods to add documents to the store and perform similarity
+ * searches. The table, its distance strategy and its text search configuration come from the
+ * `vectorStore` configuration namespace. It ensures that the necessary database schema and
+ * extensions are created during module initialization.
  *
  * @class VectorStoreService
  * @decorator Injectable - Marks the class as a service that can be injected.
  *
  * @property {PGVectorStore} pgvectorStore - The PGVector store instance for storing
  *                                           and searching vectors.
- * @property {pg.Pool} pool - The PostgreSQL connection pool for database operations.
- *
  * @method onModuleInit - Initializes the service by setting up the database schema and
  *                        configuring the PGVector store. It is automatically called by
  *                        NestJS when the module is initialized.
  *
- * @method ensureDatabaseSchema - Ensures the required database schema and extensions
- *                                are present. It creates them if they don't exist.
+ * @method ensureDatabaseSchema - Ensures the required database schema, extensions and indexes,
+ *                                including the full-text index on the content column, are
+ *                                present. It creates them if they don't exist.
  *                                This method is private and only called internally.
  *
- * @method addDocuments - Adds an array of documents to the vector store. Each document
- *                        is processed to extract its vector representation before storage.
+ * Every chunk belongs to a tenant, recorded in its `tenantId` metadata: writes stamp the tenant
+ * on the chunks, and searches and deletions only ever see the chunks of the given tenant.
+ *
+ * @method embedDocuments - Computes the vector representations of the given texts, in batches of which
+ *                          at most `concurrency` are embedded at once.
+ * @param {string[]} texts - The texts to embed.
+ * @param {EmbeddingOptions} options - The batch size and concurrency of the embeddings calls.
+ * @param {Function} onProgress - Called with the number of texts embedded so far after each batch.
+ * @returns The vectors, in the order of the texts.
+ *
+ * @method findEmbeddings - Looks up the vectors of the tenant's chunks whose `contentHash` metadata
+ *                          matches one of the given hashes, so that identical chunks are not embedded
+ *                          again. Only chunks embedded with the configured embeddings model match.
+ * @returns A map of the found vectors by content hash.
+ *
+ * @method replaceDocumentChunks - Replaces the chunks of a document with the given chunks and their
+ *                                 vectors, on behalf of a tenant, recording the embeddings model in
+ *                                 their `embeddingModel` metadata. It runs on the given client, so
+ *                                 that the chunks are stored within the caller's transaction.
  *
- * @method similaritySearch - Performs a similarity search in the vector store based on
- *                            a query string and returns the most similar documents up to
- *                            a specified limit.
+ * @method deleteDocumentChunks - Deletes every chunk of the tenant whose `documentId` metadata matches
+ *                              the given document ID, optionally within the caller's transaction.
  *
- * @method onModuleDestroy - Cleans up resources by ending the PostgreSQL pool connection.
- *                           It is automatically called by NestJS when the module is
- *                           destroyed.
+ * @method getDocumentChunks - Returns the chunks of a tenant's document in document order: by page, then
+ *                             by their `chunkIndex` metadata, the position of the chunk in the document.
+ *
+ * @method search - Performs a search in the chunks of a tenant based on a query string and returns
+ *                  the most relevant chunks with their score. The search can be limited to given
+ *                  documents or to chunks whose metadata matches a filter. It runs in one of three
+ *                  modes: 'vector' (plain similarity or maximal marginal relevance, optionally cut
+ *                  off below a minimum similarity score), 'keyword' (Postgres full-text search
+ *                  ranked with ts_rank_cd) or 'hybrid' (both, merged with weighted reciprocal rank
+ *                  fusion). Searches are traced as retriever runs, named after their mode, through
+ *                  ObservabilityService. The retrieved chunks are screened for prompt injection by
+ *                  GuardrailsService before they are returned.
  */
 
-import { Injectable } from '@nestjs/common';
-import { OpenAIEmbeddings } from '@langchain/openai';
+import { Inject, Injectable } from '@nestjs/common';
+import * as pg from 'pg';
 import {
   DistanceStrategy,
   PGVectorStore,
 } from '@langchain/community/vectorstores/pgvector';
-import * as pg from 'pg';
 import { Document } from '@langchain/core/documents';
-import { PoolConfig } from 'pg';
+import { Embeddings } from '@langchain/core/embeddings';
+import { maximalMarginalRelevance } from '@langchain/core/utils/math';
+import { DatabaseService } from './database.service';
+import { ModelProviderService } from './model-provider.service';
+import {
+  RetrievalOptions,
+  RetrievedChunk,
+} from './interfaces/retrieval.interface';
+import { EmbeddingOptions } from './interfaces/embedding.interface';
+import {
+  DEFAULT_RETRIEVAL_OPTIONS,
+  RETRIEVAL_MODES,
+  SEARCH_TYPES,
+} from 'src/utils/constants/retrieval.constants';
+import {
+  VectorStoreConfig,
+  vectorStoreConfig,
+} from 'src/config/vector-store.config';
+import { ObservabilityService } from 'src/observability/observability.service';
+import { GuardrailsService } from 'src/guardrails/guardrails.service';
 
 @Injectable()
 export class VectorStoreService {
   private pgvectorStore: PGVectorStore;
-  private pool: pg.Pool;
+  private embeddings: Embeddings;
+  private embeddingsModel: string;
+
+  constructor(
+    private databaseService: DatabaseService,
+    private modelProviderService: ModelProviderService,
+    private observabilityService: ObservabilityService,
+    private guardrailsService: GuardrailsService,
+    @Inject(vectorStoreConfig.KEY) private config: VectorStoreConfig,
+  ) {}
 
   async onModuleInit() {
-    const { postgresConnectionOptions, tableName, columns, distanceStrategy } =
-      config;
-    this.pool = new pg.Pool(postgresConnectionOptions);
+    const { tableName, columns, distanceStrategy } = this.config;
     await this.ensureDatabaseSchema();
 
     const pgVectorConfig = {
-      pool: this.pool,
+      pool: this.databaseService.pool,
       tableName,
       columns,
       distanceStrategy,
     };
 
-    this.pgvectorStore = new PGVectorStore(
-      new OpenAIEmbeddings(),
-      pgVectorConfig,
-    );
+    this.embeddings = this.modelProviderService.getEmbeddings();
+    this.embeddingsModel = this.modelProviderService.getEmbeddingsModel();
+    this.pgvectorStore = new PGVectorStore(this.embeddings, pgVectorConfig);
   }
 
   private async ensureDatabaseSchema() {
-    const client = await this.pool.connect();
+    const client = await this.databaseService.pool.connect();
     try {
       // Check and create table and columns
       const query = `
-      CREATE TABLE IF NOT EXISTS ${config.tableName} (
-        ${config.columns.idColumnName} UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-        ${config.columns.vectorColumnName} VECTOR,
-        ${config.columns.contentColumnName} TEXT,
-        ${config.columns.metadataColumnName} JSONB
+      CREATE TABLE IF NOT EXISTS ${this.config.tableName} (
+        ${this.config.columns.idColumnName} UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        ${this.config.columns.vectorColumnName} VECTOR,
+        ${this.config.columns.contentColumnName} TEXT,
+        ${this.config.columns.metadataColumnName} JSONB
       );
     `;
       // Create requried extensions first
       await client.query('CREATE EXTENSION IF NOT EXISTS "uuid-ossp"');
       await client.query('CREATE EXTENSION IF NOT EXISTS vector');
       await client.query(query);
+      await client.query(`
+      CREATE INDEX IF NOT EXISTS ${this.config.tableName}_tenant_id_idx
+        ON ${this.config.tableName} ((${this.config.columns.metadataColumnName}->>'tenantId'));
+    `);
+      await client.query(`
+      CREATE INDEX IF NOT EXISTS ${this.config.tableName}_document_id_idx
+        ON ${this.config.tableName} ((${this.config.columns.metadataColumnName}->>'documentId'));
+    `);
+      // Looked up to reuse the vectors of identical chunks
+      await client.query(`
+      CREATE INDEX IF NOT EXISTS ${this.config.tableName}_content_hash_idx
+        ON ${this.config.tableName} ((${this.config.columns.metadataColumnName}->>'contentHash'));
+    `);
+      // Full-text index used by keyword and hybrid searches
+      await client.query(`
+      CREATE INDEX IF NOT EXISTS ${this.config.tableName}_content_fts_idx
+        ON ${this.config.tableName}
+        USING GIN (to_tsvector('${this.config.textSearchConfig}', ${this.config.columns.contentColumnName}));
+    `);
     } finally {
       client.release();
     }
   }
 
-  async addDocuments(documents: Document[]): Promise<void> {
-    await this.pgvectorStore.addDocuments(documents);
+  async embedDocuments(
+    texts: string[],
+    { batchSize, concurrency }: EmbeddingOptions,
+    onProgress?: (embedded: number) => Promise<void>,
+  ): Promise<number[][]> {
+    const vectors: number[][] = new Array(texts.length);
+    const starts = Array.from(
+      { length: Math.ceil(texts.length / batchSize) },
+      (_, index) => index * batchSize,
+    );
+    let embedded = 0;
+    let failed = false;
+
+    // Each runner embeds the next pending batch until none is left or another one failed
+    const runner = async () => {
+      while (starts.length && !failed) {
+        const start = starts.shift();
+        const batch = texts.slice(start, start + batchSize);
+        try {
+          const batchVectors = await this.embeddings.embedDocuments(batch);
+          batchVectors.forEach((vector, index) => {
+            vectors[start + index] = vector;
+          });
+        } catch (e: unknown) {
+          failed = true;
+          throw e;
+        }
+        embedded += batch.length;
+        await onProgress?.(embedded);
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, starts.length) }, runner),
+    );
+    return vectors;
+  }
+
+  async findEmbeddings(
+    tenantId: string,
+    contentHashes: string[],
+  ): Promise<Map<string, number[]>> {
+    const { vectorColumnName, metadataColumnName } = this.config.columns;
+    if (!contentHashes.length) return new Map();
+    const rows = await this.databaseService.query<{
+      content_hash: string;
+      vector: string;
+    }>(
+      `SELECT DISTINCT ON (${metadataColumnName}->>'contentHash')
+         ${metadataColumnName}->>'contentHash' AS content_hash,
+         ${vectorColumnName}::text AS vector
+       FROM ${this.config.tableName}
+       WHERE ${metadataColumnName}->>'tenantId' = $1
+         AND ${metadataColumnName}->>'contentHash' = ANY($2::text[])
+         AND ${metadataColumnName}->>'embeddingModel' = $3`,
+      [tenantId, contentHashes, this.embeddingsModel],
+    );
+    // pgvector prints vectors as JSON arrays
+    return new Map(
+      rows.map(({ content_hash, vector }) => [
+        content_hash,
+        JSON.parse(vector),
+      ]),
+    );
+  }
+
+  async replaceDocumentChunks(
+    client: pg.PoolClient,
+    documentId: string,
+    tenantId: string,
+    chunks: Document[],
+    vectors: number[][],
+  ): Promise<void> {
+    const { contentColumnName, vectorColumnName, metadataColumnName } =
+      this.config.columns;
+    await this.deleteDocumentChunks(documentId, tenantId, client);
+
+    for (let start = 0; start < chunks.length; start += INSERT_BATCH_SIZE) {
+      const rows = chunks
+        .slice(start, start + INSERT_BATCH_SIZE)
+        .map(({ pageContent, metadata }, index) => [
+          pageContent.replace(/\0/g, ''),
+          `[${vectors[start + index].join(',')}]`,
+          { ...metadata, tenantId, embeddingModel: this.embeddingsModel },
+        ]);
+      const placeholders = rows.map(
+        (row, index) =>
+          `($${index * 3 + 1}, $${index * 3 + 2}, $${index * 3 + 3})`,
+      );
+      await client.query(
+        `INSERT INTO ${this.config.tableName}
+           (${contentColumnName}, ${vectorColumnName}, ${metadataColumnName})
+         VALUES ${placeholders.join(', ')}`,
+        rows.flat(),
+      );
+    }
   }
 
-  async similaritySearch(query: string, limit: number): Promise<any> {
-    return this.pgvectorStore.similaritySearch(query, limit);
+  async deleteDocumentChunks(
+    documentId: string,
+    tenantId: string,
+    client: pg.Pool | pg.PoolClient = this.databaseService.pool,
+  ): Promise<void> {
+    const { metadataColumnName } = this.config.columns;
+    await client.query(
+      `DELETE FROM ${this.config.tableName}
+       WHERE ${metadataColumnName}->>'documentId' = $1
+         AND ${metadataColumnName}->>'tenantId' = $2`,
+      [documentId, tenantId],
+    );
   }
 
-  async onModuleDestroy() {
-    await this.pool.end();
+  async getDocumentChunks(
+    documentId: string,
+    tenantId: string,
+  ): Promise<Document[]> {
+    const { contentColumnName, metadataColumnName } = this.config.columns;
+    // Chunks stored before they were numbered only follow the page order
+    const rows = await this.databaseService.query<{
+      content: string;
+      metadata: Record<string, any>;
+    }>(
+      `SELECT ${contentColumnName} AS content, ${metadataColumnName} AS metadata
+       FROM ${this.config.tableName}
+       WHERE ${metadataColumnName}->>'documentId' = $1
+         AND ${metadataColumnName}->>'tenantId' = $2
+       ORDER BY (${metadataColumnName}->>'pageNumber')::int NULLS FIRST,
+         (${metadataColumnName}->>'chunkIndex')::int`,
+      [documentId, tenantId],
+    );
+    return rows.map(
+      ({ content, metadata }) =>
+        new Document({ pageContent: content, metadata }),
+    );
   }
+
+  async search(
+    query: string,
+    tenantId: string,
+    options: RetrievalOptions = {},
+  ): Promise<RetrievedChunk[]> {
+    // Options left undefined, such as the settings a request omits, keep their default
+    const setOptions = Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined),
+    );
+    const settings: SearchSettings = {
+      ...DEFAULT_RETRIEVAL_OPTIONS,
+      ...setOptions,
+      tenantId,
+    };
+
+    const chunks = await this.observabilityService.traceRetrieval(
+      `${settings.mode}_search`,
+      query,
+      async () => {
+        switch (settings.mode) {
+          case RETRIEVAL_MODES.KEYWORD:
+            return (await this.keywordRows(query, settings.k, settings)).map(
+              this.toRetrievedChunk,
+            );
+          case RETRIEVAL_MODES.HYBRID:
+            return this.hybridSearch(query, settings);
+          default:
+            return this.vectorSearch(query, settings);
+        }
+      },
+    );
+    return this.guardrailsService.screenChunks(chunks);
+  }
+
+  private vectorSearch = async (query: string, settings: SearchSettings) => {
+    const { k, searchType, mmrFetchFactor, mmrLambda } = settings;
+    const queryEmbedding = await this.embeddings.embedQuery(query);
+    const isMmr = searchType === SEARCH_TYPES.MMR;
+
+    const rows = await this.vectorRows(
+      queryEmbedding,
+      isMmr ? k * mmrFetchFactor : k,
+      settings,
+    );
+    if (!isMmr) return rows.map(this.toRetrievedChunk);
+
+    const selected = maximalMarginalRelevance(
+      queryEmbedding,
+      rows.map(({ embedding }) => JSON.parse(embedding)),
+      mmrLambda,
+      k,
+    );
+    return selected.map((index) => this.toRetrievedChunk(rows[index]));
+  };
+
+  // Reciprocal rank fusion: each list adds weight / (rrfK + rank) to the score of its chunks
+  private hybridSearch = async (query: string, settings: SearchSettings) => {
+    const { k, hybridFetchFactor, rrfK, vectorWeight, keywordWeight } =
+      settings;
+    const [vectorRows, keywordRows] = await Promise.all([
+      this.embeddings
+        .embedQuery(query)
+        // A minimum similarity would only cut the vector half of the fusion
+        .then((queryEmbedding) =>
+          this.vectorRows(queryEmbedding, k * hybridFetchFactor, {
+            ...settings,
+            minScore: undefined,
+          }),
+        ),
+      this.keywordRows(query, k * hybridFetchFactor, settings),
+    ]);
+
+    const fused = new Map<string, { row: SearchRow; score: number }>();
+    const fuse = (rows: SearchRow[], weight: number) =>
+      rows.forEach((row, rank) => {
+        const entry = fused.get(row.id) ?? { row, score: 0 };
+        entry.score += weight / (rrfK + rank + 1);
+        fused.set(row.id, entry);
+      });
+    fuse(vectorRows, vectorWeight);
+    fuse(keywordRows, keywordWeight);
+
+    return [...fused.values()]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k)
+      .map(({ row, score }) => ({ ...this.toRetrievedChunk(row), score }));
+  };
+
+  private vectorRows = (
+    queryEmbedding: number[],
+    limit: number,
+    options: SearchSettings,
+  ) => {
+    const { tableName, columns, distanceStrategy } = this.config;
+    const { operator, score } = DISTANCE_OPERATORS[distanceStrategy];
+    const distance = `${columns.vectorColumnName} ${operator} $1::vector`;
+
+    const params: unknown[] = [JSON.stringify(queryEmbedding), limit];
+    const conditions = this.filterConditions(params, options);
+    if (options.minScore !== undefined) {
+      params.push(options.minScore);
+      conditions.push(`${score(distance)} >= $${params.length}`);
+    }
+
+    return this.databaseService.query<SearchRow>(
+      `SELECT ${columns.idColumnName} AS id,
+              ${columns.contentColumnName} AS content,
+              ${columns.metadataColumnName} AS metadata,
+              ${columns.vectorColumnName}::text AS embedding,
+              ${score(distance)} AS score
+       FROM ${tableName}
+       ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY ${distance}
+       LIMIT $2`,
+      params,
+    );
+  };
+
+  private keywordRows = (
+    query: string,
+    limit: number,
+    options: SearchSettings,
+  ) => {
+    const { tableName, columns, textSearchConfig } = this.config;
+    const document = `to_tsvector('${textSearchConfig}', ${columns.contentColumnName})`;
+
+    const params: unknown[] = [query, limit];
+    const conditions = [
+      `${document} @@ keywords`,
+      ...this.filterConditions(params, options),
+    ];
+
+    return this.databaseService.query<SearchRow>(
+      `SELECT ${columns.idColumnName} AS id,
+              ${columns.contentColumnName} AS content,
+              ${columns.metadataColumnName} AS metadata,
+              ts_rank_cd(${document}, keywords) AS score
+       FROM ${tableName}, websearch_to_tsquery('${textSearchConfig}', $1) keywords
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY score DESC
+       LIMIT $2`,
+      params,
+    );
+  };
+
+  // Appends the parameters of the tenant, document and metadata filters, returning their conditions
+  private filterConditions = (
+    params: unknown[],
+    { tenantId, documentIds, filter }: SearchSettings,
+  ) => {
+    const { columns } = this.config;
+    params.push(tenantId);
+    const conditions = [
+      `${columns.metadataColumnName}->>'tenantId' = $${params.length}`,
+    ];
+    if (documentIds?.length) {
+      params.push(documentIds);
+      conditions.push(
+        `${columns.metadataColumnName}->>'documentId' = ANY($${params.length}::text[])`,
+      );
+    }
+    if (filter && Object.keys(filter).length) {
+      params.push(filter);
+      conditions.push(
+        `${columns.metadataColumnName} @> $${params.length}::jsonb`,
+      );
+    }
+    return conditions;
+  };
+
+  private toRetrievedChunk = (row: SearchRow): RetrievedChunk => ({
+    id: row.id,
+    pageContent: row.content,
+    metadata: row.metadata,
+    score: Number(row.score),
+  });
 }
 
-// Define the config
-const config = {
-  postgresConnectionOptions: {
-    type: 'postgres',
-    host: '127.0.0.1',
-    port: 5434,
-    user: 'pgvector',
-    password: 'admin',
-    database: 'pgvector-db',
-  } as PoolConfig,
-  tableName: 'testlangchain',
-  columns: {
-    idColumnName: 'id',
-    vectorColumnName: 'vector',
-    contentColumnName: 'content',
-    metadataColumnName: 'metadata',
+type SearchSettings = typeof DEFAULT_RETRIEVAL_OPTIONS &
+  RetrievalOptions & { tenantId: string };
+
+interface SearchRow {
+  id: string;
+  content: string;
+  metadata: Record<string, any>;
+  embedding?: string;
+  score: number;
+}
+
+// pgvector operator of each distance strategy, and how to turn its distance into a similarity score
+const DISTANCE_OPERATORS: Record<
+  DistanceStrategy,
+  { operator: string; score: (distance: string) => string }
+> = {
+  cosine: { operator: '<=>', score: (distance) => `1 - (${distance})` },
+  innerProduct: { operator: '<#>', score: (distance) => `-(${distance})` },
+  euclidean: {
+    operator: '<->',
+    score: (distance) => `1 / (1 + (${distance}))`,
   },
-  distanceStrategy: 'cosine' as DistanceStrategy,
 };
+
+// Rows per INSERT statement when storing chunks, keeping well below the Postgres parameter limit
+const INSERT_BATCH_SIZE = 500;
@@ -0,0 +1,20 @@
+import { IsDateString, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { RESPONSE_CACHE_ENDPOINTS } from 'src/utils/constants/response-cache.constants';
+
+export class ResponseCacheReportQueryDto {
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @IsOptional()
+  @IsEnum(RESPONSE_CACHE_ENDPOINTS)
+  endpoint?: RESPONSE_CACHE_ENDPOINTS;
+
+  @IsOptional()
+  @IsUUID()
+  tenant_id?: string;
+}
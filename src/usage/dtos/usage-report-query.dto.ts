@@ -0,0 +1,32 @@
+import { IsDateString, IsOptional, IsString, IsUUID } from 'class-validator';
+
+export class UsageReportQueryDto {
+  // Comma-separated dimensions among day, model, endpoint, caller and tenant
+  @IsOptional()
+  @IsString()
+  group_by?: string;
+
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @IsOptional()
+  @IsString()
+  model?: string;
+
+  @IsOptional()
+  @IsString()
+  endpoint?: string;
+
+  @IsOptional()
+  @IsString()
+  caller?: string;
+
+  @IsOptional()
+  @IsUUID()
+  tenant_id?: string;
+}
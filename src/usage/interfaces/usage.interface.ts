@@ -0,0 +1,40 @@
+import { USAGE_KINDS } from 'src/utils/constants/usage.constants';
+
+// The request a model call is made for, shared by every call made while handling it
+export interface UsageContext {
+  endpoint: string;
+  conversationId: string | null;
+  tenantId: string | null;
+  caller: string | null;
+  records: UsageRecord[];
+}
+
+export interface ModelUsage {
+  kind: USAGE_KINDS;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // Whether the token counts were estimated from the text instead of reported by the provider
+  estimated: boolean;
+  // Whether a FallbackChatModel answered with its fallback model
+  fallback?: boolean;
+}
+
+export interface UsageRecord {
+  kind: USAGE_KINDS;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost: number | null;
+  estimated: boolean;
+  fallback: boolean;
+}
+
+export interface UsageSummary {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost: number;
+  calls: UsageRecord[];
+}
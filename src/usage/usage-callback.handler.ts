@@ -0,0 +1,118 @@
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import { Serialized } from '@langchain/core/load/serializable';
+import { BaseMessage } from '@langchain/core/messages';
+import { ChatGeneration, LLMResult } from '@langchain/core/outputs';
+import {
+  ESTIMATED_CHARACTERS_PER_TOKEN,
+  USAGE_KINDS,
+} from 'src/utils/constants/usage.constants';
+import { FALLBACK_MODEL_INFO } from 'src/utils/constants/model-providers.constants';
+import { UsageService } from './usage.service';
+
+export const estimateTokens = (text: string) =>
+  Math.ceil(text.length / ESTIMATED_CHARACTERS_PER_TOKEN);
+
+// The model a chat model run calls, as named in its invocation parameters, or its class name
+export const chatModelName = (
+  llm: Serialized,
+  extraParams?: Record<string, any>,
+): string => {
+  const invocationParams = extraParams?.invocation_params ?? {};
+  return (
+    invocationParams.model ??
+    invocationParams.modelName ??
+    invocationParams.model_name ??
+    llm.id[llm.id.length - 1]
+  );
+};
+
+const messageText = (message: BaseMessage) =>
+  typeof message.content === 'string'
+    ? message.content
+    : JSON.stringify(message.content);
+
+/**
+ * LangChain callback handler recording the usage of the chat model runs it observes.
+ *
+ * The model name and the prompt are kept when a run starts, and the usage is recorded through
+ * UsageService when it ends, under the fallback model, and flagged as a fallback, when a FallbackChatModel switched to it. Token counts are read, in order, from the `tokenUsage` reported by
+ * OpenAI-style models, the `estimatedTokenUsage` of their streamed completions and the `usage` that
+ * Anthropic models attach to their message; when none is available, as for streamed runs of most
+ * providers, they are estimated from the prompt and completion text. The handler is awaited so
+ * that a run's usage is recorded before the chain that made it returns.
+ */
+export class UsageCallbackHandler extends BaseCallbackHandler {
+  name = 'usage_callback_handler';
+  awaitHandlers = true;
+
+  private runs = new Map<string, { model: string; prompt: string }>();
+
+  constructor(private usageService: UsageService) {
+    super();
+  }
+
+  handleChatModelStart(
+    llm: Serialized,
+    messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    extraParams?: Record<string, any>,
+  ) {
+    this.runs.set(runId, {
+      model: chatModelName(llm, extraParams),
+      prompt: messages.flat().map(messageText).join('\n'),
+    });
+  }
+
+  async handleLLMEnd(output: LLMResult, runId: string) {
+    const run = this.runs.get(runId);
+    this.runs.delete(runId);
+    if (!run) return;
+
+    // A FallbackChatModel names the fallback model in the generations it answered
+    const [generation] = output.generations.flat();
+    const fallbackModel = generation?.generationInfo?.[FALLBACK_MODEL_INFO];
+    await this.usageService.record({
+      kind: USAGE_KINDS.CHAT,
+      model: fallbackModel ?? run.model,
+      fallback: fallbackModel !== undefined,
+      ...this.tokenUsage(output, run.prompt),
+    });
+  }
+
+  handleLLMError(_error: unknown, runId: string) {
+    this.runs.delete(runId);
+  }
+
+  private tokenUsage = (output: LLMResult, prompt: string) => {
+    const { tokenUsage, estimatedTokenUsage } = output.llmOutput ?? {};
+    const reported = tokenUsage?.totalTokens ? tokenUsage : estimatedTokenUsage;
+    if (reported?.totalTokens) {
+      return {
+        promptTokens: reported.promptTokens ?? 0,
+        completionTokens: reported.completionTokens ?? 0,
+        estimated: reported !== tokenUsage,
+      };
+    }
+
+    const generations = output.generations.flat() as ChatGeneration[];
+    const anthropicUsage = generations[0]?.message?.additional_kwargs?.usage as
+      | { input_tokens?: number; output_tokens?: number }
+      | undefined;
+    if (anthropicUsage?.input_tokens !== undefined) {
+      return {
+        promptTokens: anthropicUsage.input_tokens,
+        completionTokens: anthropicUsage.output_tokens ?? 0,
+        estimated: false,
+      };
+    }
+
+    return {
+      promptTokens: estimateTokens(prompt),
+      completionTokens: estimateTokens(
+        generations.map((generation) => generation.text).join(''),
+      ),
+      estimated: true,
+    };
+  };
+}
@@ -0,0 +1,37 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { AuthenticatedRequest } from 'src/auth/interfaces/api-key.interface';
+import { UsageService } from './usage.service';
+
+/**
+ * Interceptor running every request handler in its own usage context, so that the model calls it
+ * makes are attributed to the route, the conversation named in the body, the tenant and the API
+ * key that authenticated the request, as the caller. Admin requests have no tenant, and their
+ * caller is the client IP.
+ */
+@Injectable()
+export class UsageContextInterceptor implements NestInterceptor {
+  constructor(private usageService: UsageService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+
+    // The handler runs when the stream is subscribed to, so subscribing inside the context scopes it
+    return new Observable((subscriber) =>
+      this.usageService.runInContext(
+        {
+          endpoint: request.route?.path ?? request.path,
+          conversationId: request.body?.conversation_id ?? null,
+          tenantId: request.auth?.tenantId ?? null,
+          caller: request.auth?.apiKeyId ?? request.ip ?? null,
+        },
+        () => next.handle().subscribe(subscriber),
+      ),
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { Embeddings } from '@langchain/core/embeddings';
+import { USAGE_KINDS } from 'src/utils/constants/usage.constants';
+import { UsageService } from './usage.service';
+import { estimateTokens } from './usage-callback.handler';
+
+/**
+ * Embeddings model delegating to another one and recording the usage of each call. Embeddings
+ * APIs do not report token counts through LangChain, so they are estimated from the embedded text.
+ */
+export class UsageTrackingEmbeddings extends Embeddings {
+  constructor(
+    private embeddings: Embeddings,
+    private model: string,
+    private usageService: UsageService,
+  ) {
+    super({});
+  }
+
+  async embedDocuments(documents: string[]) {
+    const vectors = await this.embeddings.embedDocuments(documents);
+    await this.recordUsage(documents);
+    return vectors;
+  }
+
+  async embedQuery(document: string) {
+    const vector = await this.embeddings.embedQuery(document);
+    await this.recordUsage([document]);
+    return vector;
+  }
+
+  private recordUsage = (documents: string[]) =>
+    this.usageService.record({
+      kind: USAGE_KINDS.EMBEDDING,
+      model: this.model,
+      promptTokens: documents.reduce(
+        (total, document) => total + estimateTokens(document),
+        0,
+      ),
+      completionTokens: 0,
+      estimated: true,
+    });
+}
@@ -0,0 +1,43 @@
+/**
+ * Admin controller reporting the token usage and cost recorded by UsageService, across tenants.
+ *
+ * @class UsageController
+ *
+ * @method report - Totals the calls, tokens and cost of the recorded model calls. Accepts GET requests with a
+ *                  UsageReportQueryDto: `group_by` lists the dimensions among day, model, endpoint, caller and
+ *                  tenant (day by default), `from` and `to` bound the date range, and `model`, `endpoint`, `caller`
+ *                  and `tenant_id` filter the calls.
+ *
+ * @method responseCacheReport - Reports the lookups of ResponseCacheService by route: hits, misses, bypasses, the hit rate and
+ *                               the tokens and cost the hits saved, and the number of answers currently cached. Accepts GET
+ *                               requests with a ResponseCacheReportQueryDto: `from` and `to` bound the date range, and
+ *                               `endpoint` and `tenant_id` filter the lookups.
+ */
+
+import { Controller, Get, Query } from '@nestjs/common';
+import { UsageService } from './usage.service';
+import { UsageReportQueryDto } from './dtos/usage-report-query.dto';
+import { ResponseCacheReportQueryDto } from './dtos/response-cache-report-query.dto';
+import { ResponseCacheService } from 'src/services/response-cache.service';
+import { AdminOnly } from 'src/auth/decorators/admin-only.decorator';
+
+@AdminOnly()
+@Controller('usage')
+export class UsageController {
+  constructor(
+    private readonly usageService: UsageService,
+    private readonly responseCacheService: ResponseCacheService,
+  ) {}
+
+  @Get('report')
+  async report(@Query() usageReportQueryDto: UsageReportQueryDto) {
+    return await this.usageService.report(usageReportQueryDto);
+  }
+
+  @Get('response-cache')
+  async responseCacheReport(
+    @Query() responseCacheReportQueryDto: ResponseCacheReportQueryDto,
+  ) {
+    return await this.responseCacheService.report(responseCacheReportQueryDto);
+  }
+}
@@ -0,0 +1,21 @@
+import { Global, Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { UsageService } from './usage.service';
+import { UsageController } from './usage.controller';
+import { UsageContextInterceptor } from './usage-context.interceptor';
+
+/**
+ * Global module for usage accounting. UsageService is shared with ModelProviderService, which
+ * attaches it to every model it creates, and the interceptor opening the usage context of each
+ * request is registered application-wide.
+ */
+@Global()
+@Module({
+  controllers: [UsageController],
+  providers: [
+    UsageService,
+    { provide: APP_INTERCEPTOR, useClass: UsageContextInterceptor },
+  ],
+  exports: [UsageService],
+})
+export class UsageModule {}
@@ -0,0 +1,211 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { Serialized } from '@langchain/core/load/serializable';
+import { AIMessage, HumanMessage } from '@langchain/core/messages';
+import { ChatGeneration, LLMResult } from '@langchain/core/outputs';
+import { UsageService } from './usage.service';
+import { DatabaseService } from 'src/services/database.service';
+import { MetricsService } from 'src/observability/metrics.service';
+import { usageConfig } from 'src/config/usage.config';
+import {
+  USAGE_KINDS,
+  USAGE_REPORT_GROUPS,
+} from 'src/utils/constants/usage.constants';
+
+const chatOpenAI = {
+  lc: 1,
+  type: 'constructor',
+  id: ['langchain', 'chat_models', 'openai', 'ChatOpenAI'],
+  kwargs: {},
+} as Serialized;
+
+describe('UsageService', () => {
+  let service: UsageService;
+  let query: jest.Mock;
+
+  // Runs a chat model call of gpt-4o through the callback handler, ending with the given output
+  const chatRun = async (output: Partial<LLMResult>) => {
+    const { callbackHandler } = service;
+    callbackHandler.handleChatModelStart(
+      chatOpenAI,
+      [[new HumanMessage('What is the refund window?')]],
+      'run-1',
+      undefined,
+      { invocation_params: { model: 'gpt-4o' } },
+    );
+    await callbackHandler.handleLLMEnd(
+      { generations: [[]], ...output } as LLMResult,
+      'run-1',
+    );
+    return service.currentUsage().calls[0];
+  };
+
+  beforeEach(async () => {
+    query = jest.fn().mockResolvedValue([]);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        UsageService,
+        { provide: DatabaseService, useValue: { query } },
+        { provide: MetricsService, useValue: { increment: jest.fn() } },
+        {
+          provide: usageConfig.KEY,
+          useValue: { prices: { 'gpt-4o': { prompt: 5, completion: 15 } } },
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(UsageService);
+  });
+
+  describe('callbackHandler', () => {
+    const inContext = (run: () => Promise<unknown>) =>
+      service.runInContext(
+        {
+          endpoint: '/langchain-chat/basic-chat',
+          conversationId: null,
+          tenantId: 'tenant-1',
+          caller: 'api-key-1',
+        },
+        run,
+      );
+
+    it('reads the token usage reported by OpenAI models', () =>
+      inContext(async () => {
+        const record = await chatRun({
+          llmOutput: {
+            tokenUsage: {
+              promptTokens: 1000,
+              completionTokens: 200,
+              totalTokens: 1200,
+            },
+          },
+        });
+
+        expect(record).toEqual({
+          kind: USAGE_KINDS.CHAT,
+          model: 'gpt-4o',
+          prompt_tokens: 1000,
+          completion_tokens: 200,
+          total_tokens: 1200,
+          cost: 0.008,
+          estimated: false,
+          fallback: false,
+        });
+        expect(query).toHaveBeenCalledWith(
+          expect.stringContaining('INSERT INTO usage_records'),
+          [
+            USAGE_KINDS.CHAT,
+            'gpt-4o',
+            '/langchain-chat/basic-chat',
+            null,
+            'tenant-1',
+            'api-key-1',
+            1000,
+            200,
+            1200,
+            0.008,
+            false,
+          ],
+        );
+      }));
+
+    it('reads the usage Anthropic models attach to their message', () =>
+      inContext(async () => {
+        const record = await chatRun({
+          generations: [
+            [
+              {
+                text: 'Thirty days.',
+                message: new AIMessage({
+                  content: 'Thirty days.',
+                  additional_kwargs: {
+                    usage: { input_tokens: 40, output_tokens: 5 },
+                  },
+                }),
+              },
+            ],
+          ] as ChatGeneration[][],
+        });
+
+        expect(record).toMatchObject({
+          prompt_tokens: 40,
+          completion_tokens: 5,
+          estimated: false,
+        });
+      }));
+
+    it('estimates the tokens from the text when the provider reports none', () =>
+      inContext(async () => {
+        const record = await chatRun({
+          generations: [[{ text: 'Thirty days.' }]],
+        });
+
+        // 26 characters of prompt and 12 of completion, at 4 characters per token
+        expect(record).toMatchObject({
+          prompt_tokens: 7,
+          completion_tokens: 3,
+          estimated: true,
+        });
+      }));
+  });
+
+  describe('record', () => {
+    it('records the calls of unpriced models without a cost', () =>
+      service.runInContext(
+        {
+          endpoint: '/langchain-chat/basic-chat',
+          conversationId: null,
+          tenantId: null,
+          caller: null,
+        },
+        async () => {
+          await service.record({
+            kind: USAGE_KINDS.EMBEDDING,
+            model: 'text-embedding-unknown',
+            promptTokens: 100,
+            completionTokens: 0,
+            estimated: false,
+          });
+
+          expect(service.currentUsage()).toMatchObject({
+            total_tokens: 100,
+            cost: 0,
+            calls: [{ cost: null }],
+          });
+        },
+      ));
+  });
+
+  describe('report', () => {
+    it('groups the usage by the requested dimensions, within the filters', async () => {
+      await service.report({
+        group_by: 'model,tenant',
+        from: '2024-05-01',
+        tenant_id: 'tenant-1',
+      } as never);
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain('SELECT model AS model, tenant_id AS tenant,');
+      expect(sql).toContain('WHERE created_at >= $1 AND tenant_id = $2');
+      expect(sql).toContain('GROUP BY model, tenant ORDER BY model, tenant');
+      expect(params).toEqual(['2024-05-01', 'tenant-1']);
+    });
+
+    it('rejects an unknown dimension', async () => {
+      const error = await service
+        .report({ group_by: 'day,colour' } as never)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect((error as BadRequestException).getResponse()).toMatchObject({
+        error_code: 'INVALID_USAGE_GROUP',
+        data: {
+          unknown_groups: ['colour'],
+          available_groups: Object.values(USAGE_REPORT_GROUPS),
+        },
+      });
+      expect(query).not.toHaveBeenCalled();
+    });
+  });
+});
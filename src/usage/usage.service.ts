@@ -0,0 +1,280 @@
+/**
+ * Service recording the token usage and cost of every chat model and embeddings call.
+ *
+ * Each HTTP request runs in a usage context, opened by UsageContextInterceptor, that names the
+ * endpoint, the conversation, the tenant and the caller the request is made for. ModelProviderService hands
+ * out chat models reporting to `callbackHandler` and embeddings wrapped by `trackEmbeddings`, so
+ * every call made while handling the request is priced, stored in the `usage_records` table and
+ * collected in the context, from which the chat responses report their usage. Token counts come
+ * from the provider when it reports them and are estimated from the text otherwise. The tokens of
+ * every call are also counted in the `model_tokens_total` metric of MetricsService.
+ *
+ * Configuration (the `usage` namespace, see src/config/usage.config.ts):
+ * - prices - Price table of the models, in US dollars per million tokens (MODEL_PRICES).
+ *
+ * @class UsageService
+ *
+ * @method runInContext - Runs a function, and every model call it makes, in the given usage context.
+ * @method currentContext - Returns the usage context of the current request, if any, so that work
+ *                          deferred to the background can be attributed to it.
+ *
+ * @method record - Prices a model call, stores it and adds it to the current usage context.
+ * @param {ModelUsage} usage - The model, kind and token counts of the call.
+ *
+ * @method currentUsage - Sums up the model calls made so far by the current request.
+ * @returns {UsageSummary} The total tokens and cost of the request, and its calls.
+ *
+ * @method trackEmbeddings - Wraps an embeddings model so that its calls are recorded.
+ *
+ * @method report - Totals the stored usage, grouped by day, model, endpoint, caller and/or tenant.
+ * @param {UsageReportQueryDto} usageReportQueryDto - The grouping dimensions and the date range and filters of the report.
+ */
+
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Embeddings } from '@langchain/core/embeddings';
+import { DatabaseService } from 'src/services/database.service';
+import customMessage from 'src/utils/responses/customMessage.response';
+import { MESSAGES } from 'src/utils/constants/messages.constants';
+import { USAGE_REPORT_GROUPS } from 'src/utils/constants/usage.constants';
+import { METRICS, NO_ROUTE } from 'src/utils/constants/observability.constants';
+import { UsageConfig, usageConfig } from 'src/config/usage.config';
+import { MetricsService } from 'src/observability/metrics.service';
+import { splitList } from 'src/config/agent-tools.config';
+import { UsageCallbackHandler } from './usage-callback.handler';
+import { UsageTrackingEmbeddings } from './usage-tracking.embeddings';
+import { UsageReportQueryDto } from './dtos/usage-report-query.dto';
+import {
+  ModelUsage,
+  UsageContext,
+  UsageRecord,
+  UsageSummary,
+} from './interfaces/usage.interface';
+
+@Injectable()
+export class UsageService {
+  readonly callbackHandler = new UsageCallbackHandler(this);
+  private contextStorage = new AsyncLocalStorage<UsageContext>();
+
+  constructor(
+    private databaseService: DatabaseService,
+    private metricsService: MetricsService,
+    @Inject(usageConfig.KEY) private usageSettings: UsageConfig,
+  ) {}
+
+  async onModuleInit() {
+    await this.databaseService.query(`
+      CREATE TABLE IF NOT EXISTS usage_records (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        kind TEXT NOT NULL,
+        model TEXT NOT NULL,
+        endpoint TEXT,
+        conversation_id UUID,
+        tenant_id UUID,
+        caller TEXT,
+        prompt_tokens INTEGER NOT NULL,
+        completion_tokens INTEGER NOT NULL,
+        total_tokens INTEGER NOT NULL,
+        cost NUMERIC(18, 8),
+        estimated BOOLEAN NOT NULL DEFAULT false,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `);
+    // Records stored before tenants were introduced belong to no tenant
+    await this.databaseService.query(
+      'ALTER TABLE usage_records ADD COLUMN IF NOT EXISTS tenant_id UUID',
+    );
+    await this.databaseService.query(`
+      CREATE INDEX IF NOT EXISTS usage_records_created_at_idx
+        ON usage_records (created_at);
+    `);
+    // Token budgets sum the usage of an API key over the current day and month
+    await this.databaseService.query(`
+      CREATE INDEX IF NOT EXISTS usage_records_caller_created_at_idx
+        ON usage_records (caller, created_at);
+    `);
+  }
+
+  runInContext<T>(context: Omit<UsageContext, 'records'>, run: () => T): T {
+    return this.contextStorage.run({ ...context, records: [] }, run);
+  }
+
+  currentContext(): Omit<UsageContext, 'records'> | undefined {
+    const context = this.contextStorage.getStore();
+    if (!context) return undefined;
+    const { endpoint, conversationId, tenantId, caller } = context;
+    return { endpoint, conversationId, tenantId, caller };
+  }
+
+  async record(usage: ModelUsage) {
+    const context = this.contextStorage.getStore();
+    const record: UsageRecord = {
+      kind: usage.kind,
+      model: usage.model,
+      prompt_tokens: usage.promptTokens,
+      completion_tokens: usage.completionTokens,
+      total_tokens: usage.promptTokens + usage.completionTokens,
+      cost: this.price(usage),
+      estimated: usage.estimated,
+      fallback: usage.fallback ?? false,
+    };
+    context?.records.push(record);
+    for (const [type, tokens] of [
+      ['prompt', record.prompt_tokens],
+      ['completion', record.completion_tokens],
+    ] as const) {
+      if (!tokens) continue;
+      this.metricsService.increment(
+        METRICS.MODEL_TOKENS,
+        {
+          route: context?.endpoint ?? NO_ROUTE,
+          model: record.model,
+          kind: record.kind,
+          type,
+        },
+        tokens,
+      );
+    }
+
+    // Failing to store a usage record must not fail the call it accounts for
+    try {
+      await this.databaseService.query(
+        `INSERT INTO usage_records (kind, model, endpoint, conversation_id, tenant_id,
+           caller, prompt_tokens, completion_tokens, total_tokens, cost, estimated)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        [
+          record.kind,
+          record.model,
+          context?.endpoint ?? null,
+          context?.conversationId ?? null,
+          context?.tenantId ?? null,
+          context?.caller ?? null,
+          record.prompt_tokens,
+          record.completion_tokens,
+          record.total_tokens,
+          record.cost,
+          record.estimated,
+        ],
+      );
+    } catch (e: unknown) {
+      Logger.error(e);
+    }
+  }
+
+  currentUsage(): UsageSummary {
+    const calls = this.contextStorage.getStore()?.records ?? [];
+    const sum = (pick: (record: UsageRecord) => number) =>
+      calls.reduce((total, record) => total + pick(record), 0);
+
+    return {
+      prompt_tokens: sum((record) => record.prompt_tokens),
+      completion_tokens: sum((record) => record.completion_tokens),
+      total_tokens: sum((record) => record.total_tokens),
+      cost: sum((record) => record.cost ?? 0),
+      calls,
+    };
+  }
+
+  trackEmbeddings(embeddings: Embeddings, model: string): Embeddings {
+    return new UsageTrackingEmbeddings(embeddings, model, this);
+  }
+
+  async report(usageReportQueryDto: UsageReportQueryDto) {
+    try {
+      const groups = this.reportGroups(usageReportQueryDto.group_by);
+      const params: unknown[] = [];
+      const conditions: string[] = [];
+      const addCondition = (value: unknown, condition: string) => {
+        if (value === undefined) return;
+        params.push(value);
+        conditions.push(`${condition} $${params.length}`);
+      };
+      addCondition(usageReportQueryDto.from, 'created_at >=');
+      addCondition(usageReportQueryDto.to, 'created_at <');
+      addCondition(usageReportQueryDto.model, 'model =');
+      addCondition(usageReportQueryDto.endpoint, 'endpoint =');
+      addCondition(usageReportQueryDto.caller, 'caller =');
+      addCondition(usageReportQueryDto.tenant_id, 'tenant_id =');
+
+      const dimensions = groups.map(
+        (group) => `${REPORT_DIMENSIONS[group]} AS ${group}`,
+      );
+      const rows = await this.databaseService.query(
+        `SELECT ${[...dimensions, ...REPORT_TOTALS].join(', ')}
+         FROM usage_records
+         ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ${groups.length ? `GROUP BY ${groups.join(', ')} ORDER BY ${groups.join(', ')}` : ''}`,
+        params,
+      );
+      return customMessage(HttpStatus.OK, MESSAGES.SUCCESS, {
+        group_by: groups,
+        rows,
+      });
+    } catch (e: unknown) {
+      this.exceptionHandling(e);
+    }
+  }
+
+  // Unpriced models are recorded without a cost rather than as free
+  private price = ({ model, promptTokens, completionTokens }: ModelUsage) => {
+    const price = this.usageSettings.prices[model];
+    if (!price) return null;
+    return (
+      (promptTokens * price.prompt + completionTokens * price.completion) /
+      1_000_000
+    );
+  };
+
+  private reportGroups = (groupBy: string = USAGE_REPORT_GROUPS.DAY) => {
+    const groups = [...new Set(splitList(groupBy))];
+    const unknownGroups = groups.filter(
+      (group) => !Object.values<string>(USAGE_REPORT_GROUPS).includes(group),
+    );
+    if (unknownGroups.length) {
+      throw new BadRequestException(
+        customMessage(HttpStatus.BAD_REQUEST, MESSAGES.INVALID_USAGE_GROUP, {
+          unknown_groups: unknownGroups,
+          available_groups: Object.values(USAGE_REPORT_GROUPS),
+        }),
+      );
+    }
+    return groups as USAGE_REPORT_GROUPS[];
+  };
+
+  private exceptionHandling = (e: unknown) => {
+    if (e instanceof HttpException) throw e;
+    Logger.error(e);
+    throw new HttpException(
+      customMessage(
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        MESSAGES.EXTERNAL_SERVER_ERROR,
+      ),
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  };
+}
+
+// SQL expression of each report dimension; days are UTC calendar days
+const REPORT_DIMENSIONS: Record<USAGE_REPORT_GROUPS, string> = {
+  [USAGE_REPORT_GROUPS.DAY]: `to_char(created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD')`,
+  [USAGE_REPORT_GROUPS.MODEL]: 'model',
+  [USAGE_REPORT_GROUPS.ENDPOINT]: 'endpoint',
+  [USAGE_REPORT_GROUPS.CALLER]: 'caller',
+  [USAGE_REPORT_GROUPS.TENANT]: 'tenant_id',
+};
+
+const REPORT_TOTALS = [
+  'count(*)::int AS calls',
+  'coalesce(sum(prompt_tokens), 0)::float8 AS prompt_tokens',
+  'coalesce(sum(completion_tokens), 0)::float8 AS completion_tokens',
+  'coalesce(sum(total_tokens), 0)::float8 AS total_tokens',
+  'coalesce(sum(cost), 0)::float8 AS cost',
+  'count(*) FILTER (WHERE cost IS NULL)::int AS unpriced_calls',
+];
@@ -0,0 +1,44 @@
+/**
+ * Enum for the tools registered in AgentToolRegistry.
+ *
+ * AGENT_TOOLS.DOCUMENT_SEARCH - Searches the uploaded documents through VectorStoreService.
+ * AGENT_TOOLS.CALCULATOR - Evaluates arithmetic expressions without executing code.
+ * AGENT_TOOLS.CURRENT_DATETIME - Returns the current date and time, optionally in a given time zone.
+ * AGENT_TOOLS.HTTP_FETCH - Fetches a URL whose host is in the configured allowlist.
+ * AGENT_TOOLS.WEB_SEARCH - Searches the web with Tavily. It needs the TAVILY_API_KEY environment variable.
+ */
+export enum AGENT_TOOLS {
+  DOCUMENT_SEARCH = 'document_search',
+  CALCULATOR = 'calculator',
+  CURRENT_DATETIME = 'current_datetime',
+  HTTP_FETCH = 'http_fetch',
+  WEB_SEARCH = 'web_search',
+}
+
+/**
+ * Constant for the number of chunks the document search tool returns.
+ *
+ * @constant
+ * @type {number}
+ * @default 4
+ */
+export const DOCUMENT_SEARCH_TOOL_K = 4;
+
+/**
+ * Constant for the maximum length of an expression accepted by the calculator tool.
+ *
+ * @constant
+ * @type {number}
+ * @default 500
+ */
+export const CALCULATOR_MAX_EXPRESSION_LENGTH = 500;
+
+/**
+ * Constant for how many times the maximum response length of the HTTP fetch tool an HTML page is
+ * read up to, since its markup and scripts take most of it and only its text is returned.
+ *
+ * @constant
+ * @type {number}
+ * @default 20
+ */
+export const HTTP_FETCH_HTML_READ_FACTOR = 20;
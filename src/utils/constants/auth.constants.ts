@@ -0,0 +1,23 @@
+/**
+ * Enum for the access levels of the routes, checked by ApiKeyGuard.
+ *
+ * ACCESS_LEVELS.TENANT - Requires an API key issued to a tenant; the default for every route.
+ * ACCESS_LEVELS.ADMIN - Requires the admin API key of the configuration.
+ * ACCESS_LEVELS.PUBLIC - Requires no API key, for probes such as the health check.
+ */
+export enum ACCESS_LEVELS {
+  TENANT = 'tenant',
+  ADMIN = 'admin',
+  PUBLIC = 'public',
+}
+
+// Metadata key under which routes declare their access level
+export const ACCESS_LEVEL_METADATA = 'access_level';
+
+// API keys are sent in this header, or as a bearer token in the Authorization header
+export const API_KEY_HEADER = 'x-api-key';
+
+// Issued keys look like `lck_<43 base64url characters>`; the prefix and a few characters identify them in listings
+export const API_KEY_PREFIX = 'lck_';
+export const API_KEY_BYTES = 32;
+export const API_KEY_DISPLAY_LENGTH = 12;
@@ -0,0 +1,35 @@
+/**
+ * Enum for the strategies splitting a document into chunks.
+ *
+ * CHUNKING_STRATEGIES.CHARACTER - Splits on paragraphs, then lines, then words, into chunks of at most `chunk_size` characters.
+ * CHUNKING_STRATEGIES.TOKEN - Splits into chunks of at most `chunk_size` tokens of the `encoding_name` tokenizer.
+ * CHUNKING_STRATEGIES.SENTENCE - Packs whole sentences into chunks of at most `chunk_size` characters, repeating the
+ *                                last `sentence_overlap` sentences of a chunk at the start of the next.
+ * CHUNKING_STRATEGIES.MARKDOWN - Splits at Markdown headings, recording them in the `headingPath` metadata of the chunks,
+ *                                then splits sections longer than `chunk_size` characters on Markdown boundaries.
+ * CHUNKING_STRATEGIES.SEMANTIC - Embeds each sentence, with `buffer_size` sentences on each side, and starts a new chunk
+ *                                where the distance between consecutive sentences exceeds the `breakpoint_percentile`
+ *                                percentile of all distances in the file.
+ */
+export enum CHUNKING_STRATEGIES {
+  CHARACTER = 'character',
+  TOKEN = 'token',
+  SENTENCE = 'sentence',
+  MARKDOWN = 'markdown',
+  SEMANTIC = 'semantic',
+}
+
+/**
+ * Constant for the tokenizers the token strategy can count with.
+ *
+ * @constant
+ */
+export const TOKEN_ENCODINGS = [
+  'gpt2',
+  'r50k_base',
+  'p50k_base',
+  'p50k_edit',
+  'cl100k_base',
+] as const;
+
+export type TokenEncoding = (typeof TOKEN_ENCODINGS)[number];
@@ -1,11 +1,18 @@
 /**
- * Constant for the base path where PDF files are stored.
+ * Constant for the length of the chunk snippets returned with document-chat citations.
  *
- * Defines the base path './src/pdfs' for storing uploaded PDF documents in the application.
+ * @constant
+ * @type {number}
+ * @default 300
+ */
+
+export const CITATION_SNIPPET_LENGTH = 300;
+
+/**
+ * Constant for the SQLSTATE code Postgres reports when a statement breaks a unique constraint or index.
  *
  * @constant
  * @type {string}
- * @default './src/pdfs'
  */
 
-export const PDF_BASE_PATH = './src/pdfs';
+export const UNIQUE_VIOLATION = '23505';
@@ -0,0 +1,15 @@
+/**
+ * Enum for the ingestion status of a registered document.
+ *
+ * DOCUMENT_STATUS.PROCESSING - The ingestion job of the document is queued or running.
+ * DOCUMENT_STATUS.READY - All chunks of the document are stored in the vector store. A re-ingestion that fails or is
+ *                         cancelled leaves the document ready with its previous chunks.
+ * DOCUMENT_STATUS.FAILED - Ingestion failed; no chunks of the document are stored.
+ * DOCUMENT_STATUS.CANCELLED - Ingestion was cancelled; no chunks of the document are stored.
+ */
+export enum DOCUMENT_STATUS {
+  PROCESSING = 'processing',
+  READY = 'ready',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
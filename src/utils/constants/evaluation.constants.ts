@@ -0,0 +1,14 @@
+/**
+ * Enum for the metrics of an evaluation run, each between 0 and 1, higher being better.
+ *
+ * EVALUATION_METRICS.HIT_RATE - Share of the cases with expected sources where at least one of them was retrieved.
+ * EVALUATION_METRICS.MRR - Mean reciprocal rank of the first retrieved chunk matching an expected source.
+ * EVALUATION_METRICS.FAITHFULNESS - Mean judge score of how well the answers are supported by the retrieved context.
+ * EVALUATION_METRICS.CORRECTNESS - Mean judge score of how well the answers agree with the expected answers.
+ */
+export enum EVALUATION_METRICS {
+  HIT_RATE = 'hit_rate',
+  MRR = 'mrr',
+  FAITHFULNESS = 'faithfulness',
+  CORRECTNESS = 'correctness',
+}
@@ -0,0 +1,10 @@
+/**
+ * Constants for the structured extraction route.
+ *
+ * DEFAULT_EXTRACTION_RETRIES - Repair attempts made when a request does not set `max_retries`.
+ * MAX_EXTRACTION_RETRIES - Upper bound of `max_retries`.
+ * NO_EXTRACTION_CONTEXT - Context given to the extraction prompt when it is not grounded in documents.
+ */
+export const DEFAULT_EXTRACTION_RETRIES = 2;
+export const MAX_EXTRACTION_RETRIES = 5;
+export const NO_EXTRACTION_CONTEXT = 'None.';
@@ -0,0 +1,168 @@
+/**
+ * Enum for the guardrails applied by GuardrailsService, as recorded in the audit log.
+ *
+ * GUARDRAILS.PII_REDACTION - Personal data in the prompts and embedded texts sent to the model provider.
+ * GUARDRAILS.PROMPT_INJECTION - Instructions hidden in the document chunks inserted into the prompts.
+ * GUARDRAILS.OUTPUT_MODERATION - Rules the chat model output must pass before it reaches the client.
+ */
+export enum GUARDRAILS {
+  PII_REDACTION = 'pii_redaction',
+  PROMPT_INJECTION = 'prompt_injection',
+  OUTPUT_MODERATION = 'output_moderation',
+}
+
+/**
+ * Enum for the decisions of the guardrails, as recorded in the audit log.
+ *
+ * GUARDRAIL_DECISIONS.REDACTED - Personal data was replaced with placeholders before reaching the provider.
+ * GUARDRAIL_DECISIONS.FLAGGED - A match was recorded, the text being left as it is.
+ * GUARDRAIL_DECISIONS.STRIPPED - The sentences of a chunk matching an injection pattern were removed.
+ * GUARDRAIL_DECISIONS.BLOCKED - The model output was withheld from the client.
+ */
+export enum GUARDRAIL_DECISIONS {
+  REDACTED = 'redacted',
+  FLAGGED = 'flagged',
+  STRIPPED = 'stripped',
+  BLOCKED = 'blocked',
+}
+
+/**
+ * Enum for the actions of the PII redaction guardrail (GUARDRAILS_PII_ACTION).
+ *
+ * PII_ACTIONS.REDACT - Replace personal data with placeholders, restored in the model output.
+ * PII_ACTIONS.FLAG - Only record the personal data sent to the provider in the audit log.
+ * PII_ACTIONS.OFF - Do not look for personal data.
+ */
+export enum PII_ACTIONS {
+  REDACT = 'redact',
+  FLAG = 'flag',
+  OFF = 'off',
+}
+
+/**
+ * Enum for the actions of the prompt-injection guardrail (GUARDRAILS_INJECTION_ACTION).
+ *
+ * INJECTION_ACTIONS.STRIP - Remove the sentences matching an injection pattern from the retrieved chunks.
+ * INJECTION_ACTIONS.FLAG - Only record the matching chunks in the audit log.
+ * INJECTION_ACTIONS.OFF - Do not screen the chunks.
+ */
+export enum INJECTION_ACTIONS {
+  STRIP = 'strip',
+  FLAG = 'flag',
+  OFF = 'off',
+}
+
+/**
+ * Enum for the actions of the output moderation guardrail (GUARDRAILS_MODERATION_ACTION).
+ *
+ * MODERATION_ACTIONS.BLOCK - Withhold an output breaking a rule, failing the request with a 422 response.
+ * MODERATION_ACTIONS.FLAG - Only record the outputs breaking a rule in the audit log.
+ * MODERATION_ACTIONS.OFF - Do not moderate the outputs.
+ */
+export enum MODERATION_ACTIONS {
+  BLOCK = 'block',
+  FLAG = 'flag',
+  OFF = 'off',
+}
+
+/**
+ * Enum for the kinds of personal data detected by the PII redaction guardrail.
+ *
+ * PII_ENTITIES.EMAIL - Email addresses.
+ * PII_ENTITIES.CARD_NUMBER - Payment card numbers of 13 to 19 digits passing the Luhn check.
+ * PII_ENTITIES.IBAN - International bank account numbers.
+ * PII_ENTITIES.SSN - US social security numbers, written as 123-45-6789.
+ * PII_ENTITIES.PHONE - Phone numbers of 9 to 15 digits, starting with a country code or written in groups.
+ */
+export enum PII_ENTITIES {
+  EMAIL = 'email',
+  CARD_NUMBER = 'card_number',
+  IBAN = 'iban',
+  SSN = 'ssn',
+  PHONE = 'phone',
+}
+
+/**
+ * Patterns of the personal data, applied in the order of PII_ENTITIES so that the digits of a card
+ * number or an IBAN are not taken for a phone number.
+ */
+export const PII_PATTERNS: Record<PII_ENTITIES, RegExp> = {
+  [PII_ENTITIES.EMAIL]:
+    /[\w.%+-]+@[A-Za-z\d-]+(?:\.[A-Za-z\d-]+)*\.[A-Za-z]{2,}/g,
+  [PII_ENTITIES.CARD_NUMBER]: /(?<![\w-])\d(?:[ -]?\d){12,18}(?![\w-])/g,
+  [PII_ENTITIES.IBAN]:
+    /\b[A-Z]{2}\d{2}(?: ?[A-Z\d]{4}){2,7}(?: ?[A-Z\d]{1,4})?\b/g,
+  [PII_ENTITIES.SSN]: /\b\d{3}-\d{2}-\d{4}\b/g,
+  // Either an international number, or groups of digits with the same separator throughout
+  [PII_ENTITIES.PHONE]:
+    /(?<![\w+])(?:\+\d{1,3}(?:[ .-]?(?:\(\d{1,4}\)|\d{1,4})){1,6}|(?:\(\d{1,4}\)[ .-]?)?\d{2,4}([ .-])\d{2,4}(?:\1\d{2,4}){1,3})(?![\w-])/g,
+};
+
+/**
+ * Constants of the phone number pattern: the numbers of digits a phone number can have.
+ */
+export const PHONE_MIN_DIGITS = 9;
+export const PHONE_MAX_DIGITS = 15;
+
+/**
+ * Matches a placeholder of the PII redaction guardrail, such as [EMAIL_1]; the number tells apart
+ * the values of the same kind within a model call.
+ */
+export const PII_PLACEHOLDER_PATTERN =
+  /\[(EMAIL|CARD_NUMBER|IBAN|SSN|PHONE)_(\d+)\]/g;
+
+/**
+ * Matches the end of a streamed output that may be the start of a placeholder, held back until
+ * the next token tells whether it is one.
+ */
+export const PARTIAL_PII_PLACEHOLDER_PATTERN = /\[[A-Z_]{0,12}\d{0,6}$/;
+
+/**
+ * Enum for the patterns of instructions injected into documents, screened in the retrieved chunks.
+ *
+ * INJECTION_RULES.IGNORE_INSTRUCTIONS - Asks the model to ignore, forget or override its instructions.
+ * INJECTION_RULES.ROLE_OVERRIDE - Gives the model a new identity or mode, e.g., "you are now".
+ * INJECTION_RULES.PROMPT_EXFILTRATION - Asks the model to reveal its system prompt or instructions.
+ * INJECTION_RULES.CHAT_MARKUP - Chat template tokens or headers impersonating a system or user turn.
+ */
+export enum INJECTION_RULES {
+  IGNORE_INSTRUCTIONS = 'ignore_instructions',
+  ROLE_OVERRIDE = 'role_override',
+  PROMPT_EXFILTRATION = 'prompt_exfiltration',
+  CHAT_MARKUP = 'chat_markup',
+}
+
+export const INJECTION_PATTERNS: Record<INJECTION_RULES, RegExp> = {
+  [INJECTION_RULES.IGNORE_INSTRUCTIONS]:
+    /\b(?:ignore|disregard|forget|override)\b[^.!?\n]{0,40}\b(?:instructions?|prompts?|rules|guidelines|directions)\b/i,
+  [INJECTION_RULES.ROLE_OVERRIDE]:
+    /\byou are now\b|\b(?:act|behave|pretend) as (?:an? )?(?:unrestricted|unfiltered|jailbroken)\b|\b(?:developer|DAN) mode\b/i,
+  [INJECTION_RULES.PROMPT_EXFILTRATION]:
+    /\b(?:reveal|print|repeat|show|output|leak)\b[^.!?\n]{0,40}\b(?:system prompt|hidden instructions|initial instructions|your instructions)\b/i,
+  [INJECTION_RULES.CHAT_MARKUP]:
+    /<\|(?:im_start|im_end|system|user|assistant|endoftext)\|>|\[\/?INST\]|<<\/?SYS>>|^#{2,}\s*(?:system|instructions?)\b/im,
+};
+
+/**
+ * Enum for the output moderation rules.
+ *
+ * MODERATION_RULES.CREDENTIALS - The output contains an API key, access token or private key.
+ * MODERATION_RULES.GENERATED_PII - The output contains personal data that the model wrote itself
+ *                                  rather than restored from a placeholder. Only applied when
+ *                                  personal data is redacted.
+ * MODERATION_RULES.BLOCKED_TERMS - The output contains a term of GUARDRAILS_BLOCKED_TERMS.
+ */
+export enum MODERATION_RULES {
+  CREDENTIALS = 'credentials',
+  GENERATED_PII = 'generated_pii',
+  BLOCKED_TERMS = 'blocked_terms',
+}
+
+export const CREDENTIALS_PATTERN =
+  /\b(?:sk-[\w-]{20,}|AKIA[\dA-Z]{16}|gh[pousr]_[A-Za-z\d]{36}|xox[abprs]-[A-Za-z\d-]{10,})\b|-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----/;
+
+/**
+ * Constants for the audit log route: the number of events it returns by default and at most.
+ */
+export const DEFAULT_GUARDRAIL_EVENTS_LIMIT = 100;
+export const MAX_GUARDRAIL_EVENTS_LIMIT = 1000;
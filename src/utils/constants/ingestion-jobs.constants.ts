@@ -0,0 +1,22 @@
+/**
+ * Enum for the status of an ingestion job.
+ *
+ * INGESTION_JOB_STATUS.QUEUED - The job waits for a worker, possibly until its next retry is due.
+ * INGESTION_JOB_STATUS.RUNNING - A worker is parsing, splitting or embedding the document.
+ * INGESTION_JOB_STATUS.SUCCEEDED - The chunks of the document are stored in the vector store.
+ * INGESTION_JOB_STATUS.FAILED - Every attempt failed; no chunks of the document are stored.
+ * INGESTION_JOB_STATUS.CANCELLED - The job was cancelled; no chunks of the document are stored.
+ */
+export enum INGESTION_JOB_STATUS {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+// Statuses of the jobs that can still be cancelled
+export const ACTIVE_INGESTION_JOB_STATUSES = [
+  INGESTION_JOB_STATUS.QUEUED,
+  INGESTION_JOB_STATUS.RUNNING,
+];
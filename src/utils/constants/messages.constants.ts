@@ -1,12 +1,90 @@
 /**
  * Enum for standardized message responses.
  *
+ * The key of a message is the machine-readable `error_code` of the error responses carrying it.
+ *
  * MESSAGES.BAD_REQUEST - Used for indicating a bad or invalid request.
  * MESSAGES.SUCCESS - Used to indicate successful completion of an operation.
  * MESSAGES.EXTERNAL_SERVER_ERROR - Used to indicate that an error has occured on server end.
+ * MESSAGES.CONVERSATION_NOT_FOUND - Used when a conversation ID does not match a stored conversation.
+ * MESSAGES.DOCUMENT_NOT_FOUND - Used when a document ID does not match a registered document.
+ * MESSAGES.FILE_NOT_FOUND - Used when the file of an upload or of a registered document is missing on disk.
+ * MESSAGES.UNSUPPORTED_FILE_TYPE - Used when no document loader is registered for an uploaded file.
+ * MESSAGES.UNKNOWN_MODEL_PROVIDER - Used when a request or the configuration names an unregistered model provider.
+ * MESSAGES.PROMPT_TEMPLATE_NOT_FOUND - Used when no stored prompt template matches a name and version.
+ * MESSAGES.PROMPT_TEMPLATE_EXISTS - Used when creating a prompt template under a name that is already taken.
+ * MESSAGES.INVALID_PROMPT_TEMPLATE - Used when a prompt template is not a valid f-string template.
+ * MESSAGES.PROMPT_TEMPLATE_VARIABLES_MISMATCH - Used when a prompt template declares variables the chain does not provide.
+ * MESSAGES.BUILT_IN_PROMPT_TEMPLATE - Used when a tenant would create, add a version of or delete a built-in prompt template.
+ * MESSAGES.UNKNOWN_AGENT_TOOL - Used when an agent request enables a tool that is not registered.
+ * MESSAGES.INVALID_USAGE_GROUP - Used when the usage report is grouped by an unknown dimension.
+ * MESSAGES.MISSING_API_KEY - Used when a request carries no API key.
+ * MESSAGES.INVALID_API_KEY - Used when an API key is unknown or revoked.
+ * MESSAGES.ADMIN_API_KEY_REQUIRED - Used when an admin route is called without the admin API key.
+ * MESSAGES.TENANT_NOT_FOUND - Used when a tenant ID does not match a tenant.
+ * MESSAGES.TENANT_EXISTS - Used when creating a tenant under a name that is already taken.
+ * MESSAGES.API_KEY_NOT_FOUND - Used when an API key ID does not match an issued key.
+ * MESSAGES.RATE_LIMIT_EXCEEDED - Used when a client sends more requests per minute than a route allows.
+ * MESSAGES.TOKEN_BUDGET_EXCEEDED - Used when an API key has used up its daily or monthly token budget.
+ * MESSAGES.INGESTION_JOB_NOT_FOUND - Used when an ingestion job ID does not match a job of the tenant.
+ * MESSAGES.INGESTION_JOB_FINISHED - Used when cancelling an ingestion job that has already finished.
+ * MESSAGES.DOCUMENT_INGESTION_IN_PROGRESS - Used when re-ingesting a document whose ingestion is still queued or running.
+ * MESSAGES.DUPLICATE_DOCUMENT - Used when a tenant uploads a file identical to one of its documents.
+ * MESSAGES.INVALID_JSON_SCHEMA - Used when an extraction request carries a JSON Schema that cannot be compiled.
+ * MESSAGES.EXTRACTION_FAILED - Used when the model output still does not validate against the JSON Schema after the last retry.
+ * MESSAGES.DOCUMENT_NOT_INGESTED - Used when summarizing a document that has no stored chunks.
+ * MESSAGES.EVALUATION_RUN_NOT_FOUND - Used when an evaluation run ID does not match a run of the tenant.
+ * MESSAGES.INVALID_CHUNKING_SETTINGS - Used when the chunk overlap of an upload or re-ingestion is not smaller than its chunk size.
+ * MESSAGES.SERVICE_UNHEALTHY - Used when the health check finds the database, pgvector or the model provider down.
+ * MESSAGES.VALIDATION_FAILED - Used when the body, query or parameters of a request do not match its DTO.
+ * MESSAGES.FILE_REQUIRED - Used when an upload request carries no file.
+ * MESSAGES.MODEL_RATE_LIMITED - Used when the model provider still rate limits a call after the last retry.
+ * MESSAGES.MODEL_CONTEXT_LENGTH_EXCEEDED - Used when a prompt does not fit in the context window of the model.
+ * MESSAGES.MODEL_UNAVAILABLE - Used when the model provider cannot be reached, times out or fails after the last retry.
+ * MESSAGES.MODEL_REQUEST_REJECTED - Used when the model provider rejects a call, e.g., for invalid credentials or an unknown model.
+ * MESSAGES.OUTPUT_BLOCKED - Used when the output of the chat model breaks an output moderation rule.
+ * MESSAGES.MIN_SCORE_REQUIRES_VECTOR_MODE - Used when a request sets a minimum score for a keyword or hybrid retrieval.
  */
 export enum MESSAGES {
   BAD_REQUEST = 'bad request',
   SUCCESS = 'success',
   EXTERNAL_SERVER_ERROR = 'Something went wrong, please try again later',
+  CONVERSATION_NOT_FOUND = 'Conversation not found',
+  DOCUMENT_NOT_FOUND = 'Document not found',
+  FILE_NOT_FOUND = 'File does not exist.',
+  UNSUPPORTED_FILE_TYPE = 'Unsupported file type',
+  UNKNOWN_MODEL_PROVIDER = 'Unknown model provider',
+  PROMPT_TEMPLATE_NOT_FOUND = 'Prompt template not found',
+  PROMPT_TEMPLATE_EXISTS = 'A prompt template with this name already exists',
+  INVALID_PROMPT_TEMPLATE = 'Invalid prompt template',
+  PROMPT_TEMPLATE_VARIABLES_MISMATCH = 'The prompt template uses variables that this chat does not provide',
+  BUILT_IN_PROMPT_TEMPLATE = 'Built-in prompt templates cannot be changed or deleted',
+  UNKNOWN_AGENT_TOOL = 'Unknown agent tool',
+  INVALID_USAGE_GROUP = 'The usage report cannot be grouped by these dimensions',
+  MISSING_API_KEY = 'An API key is required',
+  INVALID_API_KEY = 'Invalid or revoked API key',
+  ADMIN_API_KEY_REQUIRED = 'This route requires the admin API key',
+  TENANT_NOT_FOUND = 'Tenant not found',
+  TENANT_EXISTS = 'A tenant with this name already exists',
+  API_KEY_NOT_FOUND = 'API key not found',
+  RATE_LIMIT_EXCEEDED = 'Too many requests, please retry later',
+  TOKEN_BUDGET_EXCEEDED = 'The token budget of this API key is used up',
+  INGESTION_JOB_NOT_FOUND = 'Ingestion job not found',
+  INGESTION_JOB_FINISHED = 'The ingestion job has already finished',
+  DOCUMENT_INGESTION_IN_PROGRESS = 'The document is already being ingested',
+  DUPLICATE_DOCUMENT = 'An identical document has already been uploaded',
+  INVALID_JSON_SCHEMA = 'Invalid JSON Schema',
+  EXTRACTION_FAILED = 'The model did not return data matching the JSON Schema',
+  DOCUMENT_NOT_INGESTED = 'The document has no ingested content yet',
+  EVALUATION_RUN_NOT_FOUND = 'Evaluation run not found',
+  INVALID_CHUNKING_SETTINGS = 'The chunk overlap must be smaller than the chunk size',
+  SERVICE_UNHEALTHY = 'The service is unhealthy',
+  VALIDATION_FAILED = 'The request is invalid',
+  FILE_REQUIRED = 'A file is required',
+  MODEL_RATE_LIMITED = 'The model provider is rate limiting requests, please retry later',
+  MODEL_CONTEXT_LENGTH_EXCEEDED = 'The request does not fit in the context window of the model',
+  MODEL_UNAVAILABLE = 'The model provider is unavailable, please retry later',
+  MODEL_REQUEST_REJECTED = 'The model provider rejected the request',
+  OUTPUT_BLOCKED = 'The answer was withheld by the output moderation rules',
+  MIN_SCORE_REQUIRES_VECTOR_MODE = 'A minimum score only applies to the vector retrieval mode',
 }
@@ -0,0 +1,37 @@
+/**
+ * Enum for the model providers registered in ModelProviderService.
+ *
+ * MODEL_PROVIDERS.OPENAI - OpenAI chat models and embeddings.
+ * MODEL_PROVIDERS.ANTHROPIC - Anthropic chat models. Anthropic has no embeddings.
+ * MODEL_PROVIDERS.OPENAI_COMPATIBLE - A local or self-hosted endpoint speaking the OpenAI API,
+ *                                     such as Ollama, vLLM or LM Studio.
+ * MODEL_PROVIDERS.FAKE - Deterministic offline chat model and embeddings, for running the
+ *                        service and its tests without network access or API keys.
+ */
+export enum MODEL_PROVIDERS {
+  OPENAI = 'openai',
+  ANTHROPIC = 'anthropic',
+  OPENAI_COMPATIBLE = 'openai-compatible',
+  FAKE = 'fake',
+}
+
+/**
+ * Constants used to classify the errors of the model providers, see src/errors/model-provider.errors.ts.
+ *
+ * MODEL_CONNECTION_ERRORS - Classes and names of the errors raised when a provider cannot be reached
+ *                           or does not answer in time, by the OpenAI and Anthropic SDKs and by LangChain.
+ * MODEL_QUOTA_ERROR_CODES - Error codes of 429 responses that retrying will not fix, such as an
+ *                           exhausted OpenAI quota.
+ * CONTEXT_LENGTH_ERROR_PATTERN - Matches the messages of the providers for prompts longer than the
+ *                                context window, sent with a plain 400 status.
+ * FALLBACK_MODEL_INFO - Generation info key naming the fallback model that answered a chat model run.
+ */
+export const MODEL_CONNECTION_ERRORS = [
+  'APIConnectionError',
+  'APIConnectionTimeoutError',
+  'TimeoutError',
+];
+export const MODEL_QUOTA_ERROR_CODES = ['insufficient_quota'];
+export const CONTEXT_LENGTH_ERROR_PATTERN =
+  /context[_ ]length|context window|prompt is too long|too many tokens/i;
+export const FALLBACK_MODEL_INFO = 'fallback_model';
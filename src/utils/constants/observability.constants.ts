@@ -0,0 +1,73 @@
+/**
+ * Enum for the formats of the application logs.
+ *
+ * LOG_FORMATS.JSON - One JSON object per line, carrying the correlation ID of the request being handled.
+ * LOG_FORMATS.TEXT - The colored, human-readable lines of the default NestJS logger.
+ */
+export enum LOG_FORMATS {
+  JSON = 'json',
+  TEXT = 'text',
+}
+
+/**
+ * Enum for the kinds of LangChain runs logged and measured by ObservabilityCallbackHandler.
+ *
+ * LANGCHAIN_RUN_TYPES.CHAIN - A chain or runnable, including agent executors.
+ * LANGCHAIN_RUN_TYPES.LLM - A chat model call.
+ * LANGCHAIN_RUN_TYPES.RETRIEVER - A search of the vector store.
+ * LANGCHAIN_RUN_TYPES.TOOL - An agent tool call.
+ */
+export enum LANGCHAIN_RUN_TYPES {
+  CHAIN = 'chain',
+  LLM = 'llm',
+  RETRIEVER = 'retriever',
+  TOOL = 'tool',
+}
+
+/**
+ * Enum for the metrics exposed by MetricsService in the Prometheus text format.
+ *
+ * METRICS.HTTP_REQUESTS - Counter of the responses, by method, route and status code.
+ * METRICS.HTTP_REQUEST_DURATION - Histogram of the response times in seconds, by method and route.
+ * METRICS.LANGCHAIN_RUN_DURATION - Histogram of the LangChain run times in seconds, by route, run type
+ *   and name; the name of a chat model run is its model.
+ * METRICS.LANGCHAIN_RUN_ERRORS - Counter of the failed LangChain runs, by route, run type and name.
+ * METRICS.MODEL_TOKENS - Counter of the prompt and completion tokens, by route, model and kind of call.
+ * METRICS.RETRIEVED_DOCUMENTS - Histogram of the number of chunks each retrieval returned, by route.
+ * METRICS.GUARDRAIL_DECISIONS - Counter of the decisions of the guardrails, by route, guardrail and decision.
+ */
+export enum METRICS {
+  HTTP_REQUESTS = 'http_requests_total',
+  HTTP_REQUEST_DURATION = 'http_request_duration_seconds',
+  LANGCHAIN_RUN_DURATION = 'langchain_run_duration_seconds',
+  LANGCHAIN_RUN_ERRORS = 'langchain_run_errors_total',
+  MODEL_TOKENS = 'model_tokens_total',
+  RETRIEVED_DOCUMENTS = 'retrieved_documents',
+  GUARDRAIL_DECISIONS = 'guardrail_decisions_total',
+}
+
+// Upper bounds, in seconds, of the latency histogram buckets
+export const LATENCY_BUCKETS = [
+  0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60,
+];
+
+// Upper bounds of the retrieved chunk count histogram buckets
+export const RETRIEVED_DOCUMENTS_BUCKETS = [0, 1, 2, 4, 8, 16, 32, 64];
+
+// Label of the requests that matched no route, and of the work done outside of any request
+export const UNMATCHED_ROUTE = 'unmatched';
+export const NO_ROUTE = 'none';
+
+// Correlation IDs are read from, and echoed in, this header
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Correlation IDs sent by clients are only kept when they match this pattern; others are replaced
+export const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Enum for the states of the dependencies checked by HealthService.
+ */
+export enum HEALTH_STATUS {
+  UP = 'up',
+  DOWN = 'down',
+}
@@ -1,20 +1,11 @@
 /**
- * Enum for OpenAI configuration parameters.
+ * Enum for the roles of the messages exchanged with the Vercel AI SDK.
  *
- * This enum stores specific configuration values related to OpenAI usage in the
- * application, helping in maintaining consistency and ease of updates.
+ * @enum vercelRoles
  *
- * @enum openAI
- *
- * @member GPT_3_5_TURBO_1106 - Identifier for the specific OpenAI model version used.
- * @member BASIC_CHAT_OPENAI_TEMPERATURE - Controls the randomness in the model's responses,
- *                                         with a higher value resulting in more random responses.
+ * @member user - A message written by the user.
+ * @member assistant - A message generated by the AI.
  */
-export enum openAI {
-  GPT_3_5_TURBO_1106 = 'gpt-3.5-turbo-1106',
-  BASIC_CHAT_OPENAI_TEMPERATURE = 0.8,
-}
-
 export enum vercelRoles {
   user = 'user',
   assistant = 'assistant',
@@ -0,0 +1,77 @@
+import { TEMPLATES } from './templates.constants';
+
+/**
+ * Enum for the names of the built-in prompt templates, used by the chat routes when a
+ * request does not pick a template.
+ *
+ * PROMPT_TEMPLATE_NAMES.BASIC_CHAT - Basic chat; receives {input}.
+ * PROMPT_TEMPLATE_NAMES.CONTEXT_AWARE_CHAT - Context-aware and conversation chats; receives {chat_history} and {input}.
+ * PROMPT_TEMPLATE_NAMES.DOCUMENT_CHAT - Document chat; receives {context} and {question}.
+ * PROMPT_TEMPLATE_NAMES.STANDALONE_QUESTION - Rewriting of a follow-up question by the conversational document chat;
+ *                                             receives {chat_history} and {question}.
+ * PROMPT_TEMPLATE_NAMES.CONVERSATIONAL_DOCUMENT_CHAT - Conversational document chat; receives {chat_history}, {context} and {question}.
+ * PROMPT_TEMPLATE_NAMES.EXTRACTION - Structured extraction; receives {schema}, {context} and {input}.
+ * PROMPT_TEMPLATE_NAMES.EXTRACTION_REPAIR - Correction of an invalid extraction; receives {schema}, {context}, {input},
+ *                                           {output} and {errors}.
+ * PROMPT_TEMPLATE_NAMES.SUMMARY_MAP - Summary of a part of a document, in map-reduce summaries; receives {text}.
+ * PROMPT_TEMPLATE_NAMES.SUMMARY_COMBINE - Final document summary in the requested style; receives {style} and {text}.
+ * PROMPT_TEMPLATE_NAMES.SUMMARY_REFINE - Refinement of a summary with the next part of a document; receives {style},
+ *                                        {summary} and {text}.
+ * PROMPT_TEMPLATE_NAMES.EVALUATION_FAITHFULNESS - Judge scoring the faithfulness of an answer in evaluation runs; receives
+ *                                                 {context} and {answer}.
+ * PROMPT_TEMPLATE_NAMES.EVALUATION_CORRECTNESS - Judge scoring the correctness of an answer in evaluation runs; receives
+ *                                                {question}, {expected_answer} and {answer}.
+ * PROMPT_TEMPLATE_NAMES.AGENT_SYSTEM - System prompt of the agent chats; receives {input} and {chat_history}.
+ */
+export enum PROMPT_TEMPLATE_NAMES {
+  BASIC_CHAT = 'basic-chat',
+  CONTEXT_AWARE_CHAT = 'context-aware-chat',
+  DOCUMENT_CHAT = 'document-chat',
+  STANDALONE_QUESTION = 'standalone-question',
+  CONVERSATIONAL_DOCUMENT_CHAT = 'conversational-document-chat',
+  EXTRACTION = 'extraction',
+  EXTRACTION_REPAIR = 'extraction-repair',
+  SUMMARY_MAP = 'summary-map',
+  SUMMARY_COMBINE = 'summary-combine',
+  SUMMARY_REFINE = 'summary-refine',
+  EVALUATION_FAITHFULNESS = 'evaluation-faithfulness',
+  EVALUATION_CORRECTNESS = 'evaluation-correctness',
+  AGENT_SYSTEM = 'agent-system',
+}
+
+/**
+ * Constant for the built-in prompt templates, stored as version 1 of their name on startup
+ * when no version of that name exists.
+ *
+ * @constant
+ */
+export const BUILT_IN_PROMPT_TEMPLATES: Record<PROMPT_TEMPLATE_NAMES, string> =
+  {
+    [PROMPT_TEMPLATE_NAMES.BASIC_CHAT]: TEMPLATES.BASIC_CHAT_TEMPLATE,
+    [PROMPT_TEMPLATE_NAMES.CONTEXT_AWARE_CHAT]:
+      TEMPLATES.CONTEXT_AWARE_CHAT_TEMPLATE,
+    [PROMPT_TEMPLATE_NAMES.DOCUMENT_CHAT]:
+      TEMPLATES.DOCUMENT_CONTEXT_CHAT_TEMPLATE,
+    [PROMPT_TEMPLATE_NAMES.STANDALONE_QUESTION]:
+      TEMPLATES.STANDALONE_QUESTION_TEMPLATE,
+    [PROMPT_TEMPLATE_NAMES.CONVERSATIONAL_DOCUMENT_CHAT]:
+      TEMPLATES.CONVERSATIONAL_DOCUMENT_CHAT_TEMPLATE,
+    [PROMPT_TEMPLATE_NAMES.EXTRACTION]: TEMPLATES.EXTRACTION_TEMPLATE,
+    [PROMPT_TEMPLATE_NAMES.EXTRACTION_REPAIR]:
+      TEMPLATES.EXTRACTION_REPAIR_TEMPLATE,
+    [PROMPT_TEMPLATE_NAMES.SUMMARY_MAP]: TEMPLATES.SUMMARY_MAP_TEMPLATE,
+    [PROMPT_TEMPLATE_NAMES.SUMMARY_COMBINE]: TEMPLATES.SUMMARY_COMBINE_TEMPLATE,
+    [PROMPT_TEMPLATE_NAMES.SUMMARY_REFINE]: TEMPLATES.SUMMARY_REFINE_TEMPLATE,
+    [PROMPT_TEMPLATE_NAMES.EVALUATION_FAITHFULNESS]:
+      TEMPLATES.EVALUATION_FAITHFULNESS_TEMPLATE,
+    [PROMPT_TEMPLATE_NAMES.EVALUATION_CORRECTNESS]:
+      TEMPLATES.EVALUATION_CORRECTNESS_TEMPLATE,
+    [PROMPT_TEMPLATE_NAMES.AGENT_SYSTEM]: TEMPLATES.AGENT_SYSTEM_TEMPLATE,
+  };
+
+/**
+ * Constant for the pattern prompt template names must match, so that they can be used in URLs.
+ *
+ * @constant
+ */
+export const PROMPT_TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
@@ -0,0 +1,41 @@
+/**
+ * Default requests per minute of the routes that call models or tools the most, per API key,
+ * keyed by `<controller path>/<route path>`. Entries of the RATE_LIMIT_ROUTES environment variable
+ * are merged over these; other routes fall back to RATE_LIMIT_REQUESTS_PER_MINUTE.
+ */
+export const DEFAULT_ROUTE_RATE_LIMITS: Record<string, number> = {
+  'langchain-chat/agent-chat': 10,
+  'langchain-chat/agent-chat/stream': 10,
+  'langchain-chat/conversation-agent-chat': 10,
+  'langchain-chat/upload-document': 5,
+  'langchain-chat/preview-chunks': 10,
+  'documents/:id/summary': 10,
+};
+
+/**
+ * Enum for the periods of the token budgets, which reset at the start of each UTC day and month.
+ */
+export enum TOKEN_BUDGET_PERIODS {
+  DAY = 'day',
+  MONTH = 'month',
+}
+
+/**
+ * Enum for the response headers reporting the remaining quota of a client.
+ *
+ * RATE_LIMIT_HEADERS.LIMIT, REMAINING, RESET - Requests allowed on the route per minute, left in the
+ *   current minute, and seconds until the counter resets.
+ * RATE_LIMIT_HEADERS.TOKENS_DAY_*, TOKENS_MONTH_* - Token budget of the API key for the current UTC
+ *   day and month, and tokens left; only sent when the budget is set.
+ * RATE_LIMIT_HEADERS.RETRY_AFTER - Seconds to wait before retrying, sent with 429 responses.
+ */
+export enum RATE_LIMIT_HEADERS {
+  LIMIT = 'X-RateLimit-Limit',
+  REMAINING = 'X-RateLimit-Remaining',
+  RESET = 'X-RateLimit-Reset',
+  TOKENS_DAY_LIMIT = 'X-TokenBudget-Day-Limit',
+  TOKENS_DAY_REMAINING = 'X-TokenBudget-Day-Remaining',
+  TOKENS_MONTH_LIMIT = 'X-TokenBudget-Month-Limit',
+  TOKENS_MONTH_REMAINING = 'X-TokenBudget-Month-Remaining',
+  RETRY_AFTER = 'Retry-After',
+}
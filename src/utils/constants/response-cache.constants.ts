@@ -0,0 +1,25 @@
+/**
+ * Enum for the routes whose answers are cached by ResponseCacheService.
+ *
+ * RESPONSE_CACHE_ENDPOINTS.BASIC_CHAT - The `langchain-chat/basic-chat` route.
+ * RESPONSE_CACHE_ENDPOINTS.DOCUMENT_CHAT - The `langchain-chat/document-chat` route.
+ */
+export enum RESPONSE_CACHE_ENDPOINTS {
+  BASIC_CHAT = 'basic-chat',
+  DOCUMENT_CHAT = 'document-chat',
+}
+
+/**
+ * Enum for the outcomes of a response cache lookup, reported in the `cache` field of the response.
+ *
+ * RESPONSE_CACHE_OUTCOMES.EXACT_HIT - An answer to the same query, ignoring case and whitespace, was served.
+ * RESPONSE_CACHE_OUTCOMES.SEMANTIC_HIT - An answer to a query similar enough to this one was served.
+ * RESPONSE_CACHE_OUTCOMES.MISS - No cached answer matched; the model answered and the answer was cached.
+ * RESPONSE_CACHE_OUTCOMES.BYPASS - The request skipped the lookup; the model answered and the answer was cached.
+ */
+export enum RESPONSE_CACHE_OUTCOMES {
+  EXACT_HIT = 'exact_hit',
+  SEMANTIC_HIT = 'semantic_hit',
+  MISS = 'miss',
+  BYPASS = 'bypass',
+}
@@ -0,0 +1,63 @@
+import { DistanceStrategy } from '@langchain/community/vectorstores/pgvector';
+
+/**
+ * Enum for the search strategies supported by VectorStoreService.
+ *
+ * SEARCH_TYPES.SIMILARITY - Returns the chunks closest to the query.
+ * SEARCH_TYPES.MMR - Maximal marginal relevance: picks among the closest chunks those that are
+ *                    relevant to the query but not redundant with each other.
+ */
+export enum SEARCH_TYPES {
+  SIMILARITY = 'similarity',
+  MMR = 'mmr',
+}
+
+/**
+ * Enum for the retrieval modes supported by VectorStoreService.
+ *
+ * RETRIEVAL_MODES.VECTOR - Embedding similarity search.
+ * RETRIEVAL_MODES.KEYWORD - Postgres full-text search, which finds exact error codes, identifiers and names.
+ * RETRIEVAL_MODES.HYBRID - Both, merged with weighted reciprocal rank fusion.
+ */
+export enum RETRIEVAL_MODES {
+  VECTOR = 'vector',
+  KEYWORD = 'keyword',
+  HYBRID = 'hybrid',
+}
+
+/**
+ * Retrieval settings used when a request does not override them.
+ *
+ * @constant
+ *
+ * k - Number of chunks returned.
+ * mmrFetchFactor - For MMR, how many times k candidates are fetched before re-ranking.
+ * mmrLambda - For MMR, the trade-off between relevance (1) and diversity (0).
+ * vectorWeight, keywordWeight - For hybrid mode, the weight of each result list in the fusion.
+ * hybridFetchFactor - For hybrid mode, how many times k candidates each list contributes.
+ * rrfK - Rank offset of reciprocal rank fusion; larger values flatten the advantage of top ranks.
+ */
+export const DEFAULT_RETRIEVAL_OPTIONS = {
+  k: 3,
+  mode: RETRIEVAL_MODES.VECTOR,
+  searchType: SEARCH_TYPES.SIMILARITY,
+  mmrFetchFactor: 4,
+  mmrLambda: 0.5,
+  vectorWeight: 1,
+  keywordWeight: 1,
+  hybridFetchFactor: 4,
+  rrfK: 60,
+};
+
+export const MAX_RETRIEVAL_K = 50;
+
+/**
+ * Constant listing the pgvector distance strategies the vector store can be configured with.
+ *
+ * @constant
+ */
+export const DISTANCE_STRATEGIES: DistanceStrategy[] = [
+  'cosine',
+  'innerProduct',
+  'euclidean',
+];
@@ -0,0 +1,42 @@
+/**
+ * Enum for the wire protocols supported by the streaming chat endpoints.
+ *
+ * STREAM_PROTOCOLS.SSE - Server-Sent Events, one named event per token or tool call.
+ * STREAM_PROTOCOLS.DATA_STREAM - Vercel `ai` data-stream protocol (`0:"token"\n`), readable by `useChat`.
+ */
+export enum STREAM_PROTOCOLS {
+  SSE = 'sse',
+  DATA_STREAM = 'data-stream',
+}
+
+/**
+ * Enum for the events emitted on a chat stream.
+ *
+ * STREAM_EVENTS.TOKEN - A chunk of the model's answer.
+ * STREAM_EVENTS.TOOL_START - The agent invoked a tool.
+ * STREAM_EVENTS.TOOL_END - A tool returned its output to the agent.
+ * STREAM_EVENTS.CITATIONS - The sources a document-chat answer cites, sent before its first token.
+ * STREAM_EVENTS.INTERMEDIATE_STEPS - The tool calls of an agent answer, with their timing, sent after its last token.
+ * STREAM_EVENTS.USAGE - The tokens and cost of the model calls made for the answer, sent after its last token.
+ * STREAM_EVENTS.ERROR - The stream failed; no further tokens follow, nor a done event.
+ * STREAM_EVENTS.DONE - The model finished answering.
+ */
+export enum STREAM_EVENTS {
+  TOKEN = 'token',
+  TOOL_START = 'tool_start',
+  TOOL_END = 'tool_end',
+  CITATIONS = 'citations',
+  INTERMEDIATE_STEPS = 'intermediate_steps',
+  USAGE = 'usage',
+  ERROR = 'error',
+  DONE = 'done',
+}
+
+/**
+ * Prefixes of the Vercel `ai` data-stream protocol parts written by the data-stream writer.
+ */
+export enum DATA_STREAM_PREFIXES {
+  TEXT = '0',
+  DATA = '2',
+  ERROR = '3',
+}
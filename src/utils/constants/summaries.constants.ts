@@ -0,0 +1,44 @@
+/**
+ * Enum for the styles of the document summaries.
+ *
+ * SUMMARY_STYLES.BRIEF - A short paragraph with the main points.
+ * SUMMARY_STYLES.DETAILED - Several paragraphs following the structure of the document.
+ * SUMMARY_STYLES.BULLET_POINTS - A bulleted list of the key points.
+ * SUMMARY_STYLES.EXECUTIVE - An executive summary: the purpose, key findings, decisions and recommendations.
+ */
+export enum SUMMARY_STYLES {
+  BRIEF = 'brief',
+  DETAILED = 'detailed',
+  BULLET_POINTS = 'bullet_points',
+  EXECUTIVE = 'executive',
+}
+
+/**
+ * Enum for the strategies summarizing a document too long for a single model call.
+ *
+ * SUMMARY_STRATEGIES.MAP_REDUCE - Summarizes the sections of the document independently, in parallel,
+ *                                 then combines their summaries.
+ * SUMMARY_STRATEGIES.REFINE - Summarizes the first section, then refines the summary with each following
+ *                             section in turn; slower, but each step sees the summary so far.
+ */
+export enum SUMMARY_STRATEGIES {
+  MAP_REDUCE = 'map_reduce',
+  REFINE = 'refine',
+}
+
+/**
+ * Constant for the instructions given to the model for each summary style, passed to the summary
+ * prompt templates as {style}.
+ *
+ * @constant
+ */
+export const SUMMARY_STYLE_INSTRUCTIONS: Record<SUMMARY_STYLES, string> = {
+  [SUMMARY_STYLES.BRIEF]:
+    'Write a brief summary of one short paragraph covering only the main points.',
+  [SUMMARY_STYLES.DETAILED]:
+    'Write a detailed summary of several paragraphs that follows the structure of the document and keeps its important details, figures and names.',
+  [SUMMARY_STYLES.BULLET_POINTS]:
+    'Write the summary as a bulleted list of the key points, one point per line starting with "- ".',
+  [SUMMARY_STYLES.EXECUTIVE]:
+    'Write an executive summary for a decision maker: the purpose of the document, its key findings, and the decisions, risks and recommendations it raises.',
+};
@@ -3,7 +3,9 @@
  *
  * This enum centralizes the templates for different types of chats, providing a
  * uniform approach to structuring the input for AI models. These templates are
- * used to guide the AI in generating relevant and contextual responses.
+ * used to guide the AI in generating relevant and contextual responses. The chat,
+ * document and agent system templates are the built-in prompt templates, seeded as
+ * version 1 in the prompt templates store, where they can be versioned and replaced.
  *
  * @enum TEMPLATES
  *
@@ -21,7 +23,47 @@
  *  @member DOCUMENT_CONTEXT_CHAT_TEMPLATE - Template for chat interactions that require responses based on a specific
  *                                          document context. This template is structured to focus the AI's attention
  *                                          on the provided context, enabling it to generate informed responses to questions
- *                                          with regard to the document's content.
+ *                                          with regard to the document's content. Each source in the context is
+ *                                          numbered, and the AI is asked to cite the sources it uses with inline
+ *                                          markers like [1].
+ *
+ * @member STANDALONE_QUESTION_TEMPLATE - Template rewriting the latest question of a conversation into a standalone
+ *                                        search query, resolving references to earlier messages such as "it" or
+ *                                        "section 4", before the documents are searched.
+ *
+ * @member CONVERSATIONAL_DOCUMENT_CHAT_TEMPLATE - Template answering the latest question of a conversation from the
+ *                                                 retrieved document context and the conversation history, citing
+ *                                                 the numbered sources like DOCUMENT_CONTEXT_CHAT_TEMPLATE.
+ *
+ * @member EXTRACTION_TEMPLATE - Template asking the AI to extract the data requested by the user as a single JSON value
+ *                               matching a JSON Schema, optionally from retrieved document context.
+ *
+ * @member EXTRACTION_REPAIR_TEMPLATE - Template asking the AI to correct a previous extraction that is not valid JSON or
+ *                                      does not match the JSON Schema, given the validation errors.
+ *
+ * @member SUMMARY_MAP_TEMPLATE - Template summarizing one section of a document, or a group of section summaries,
+ *                                for a map-reduce summary.
+ *
+ * @member SUMMARY_COMBINE_TEMPLATE - Template writing the final summary of a document in the requested style, from
+ *                                    the whole text of a short document or from the summaries of its sections.
+ *
+ * @member SUMMARY_REFINE_TEMPLATE - Template refining the summary written so far with the next section of a document,
+ *                                   for a refine summary.
+ *
+ * @member EVALUATION_FAITHFULNESS_TEMPLATE - Template asking a judge model to score, from 0 to 1, how well an answer is
+ *                                           supported by the context it was generated from.
+ *
+ * @member EVALUATION_CORRECTNESS_TEMPLATE - Template asking a judge model to score, from 0 to 1, how well an answer
+ *                                          agrees with the expected answer to the question.
+ *
+ * @member AGENT_SYSTEM_TEMPLATE - System prompt of the agent chats.
+ *
+ * @member STRUCTURED_CHAT_AGENT_TEMPLATE - Instructions appended to the agent's system prompt for model providers
+ *                                          without function calling. They ask the AI to pick a tool, or give its
+ *                                          final answer, through a single JSON blob per turn.
+ *
+ * @member STRUCTURED_CHAT_AGENT_INPUT_TEMPLATE - User message of the structured-chat agent, followed by the
+ *                                                agent's previous thoughts, actions and observations.
  */
 
 export enum TEMPLATES {
@@ -36,8 +78,162 @@ export enum TEMPLATES {
    User: {input}
    AI:`,
 
-  DOCUMENT_CONTEXT_CHAT_TEMPLATE = `Answer the question based only on the following context:
+  DOCUMENT_CONTEXT_CHAT_TEMPLATE = `Answer the question based only on the following context.
+   Each source of the context starts with its number in square brackets. Cite the sources you use
+   by writing their number in square brackets, e.g. [1], right after the statement they support.
    {context}
    
    Question: {question}`,
+
+  STANDALONE_QUESTION_TEMPLATE = `Given the following conversation and a follow up question, rephrase the follow up
+   question to be a standalone question that can be searched in documents without the conversation.
+   Keep the names, numbers and terms the conversation refers to. Only return the standalone question.
+
+   Conversation:
+   {chat_history}
+
+   Follow up question: {question}
+   Standalone question:`,
+
+  CONVERSATIONAL_DOCUMENT_CHAT_TEMPLATE = `Answer the question based only on the following context and the conversation so far.
+   Each source of the context starts with its number in square brackets. Cite the sources you use
+   by writing their number in square brackets, e.g. [1], right after the statement they support.
+   {context}
+
+   Conversation:
+   {chat_history}
+
+   Question: {question}`,
+
+  EXTRACTION_TEMPLATE = `Extract the data requested by the user as a single JSON value that validates against the
+   following JSON Schema. Only use information from the request and the context below; when the schema
+   allows it, use null for data that is not available. Respond with the JSON value only, without any
+   explanation or markdown.
+
+   JSON Schema:
+   {schema}
+
+   Context:
+   {context}
+
+   Request: {input}
+   JSON:`,
+
+  EXTRACTION_REPAIR_TEMPLATE = `Your previous response to the request below is not valid: it must be a single JSON value
+   that validates against the JSON Schema. Correct it, keeping the data it extracted, and respond with the
+   corrected JSON value only, without any explanation or markdown.
+
+   JSON Schema:
+   {schema}
+
+   Context:
+   {context}
+
+   Request: {input}
+
+   Previous response:
+   {output}
+
+   Validation errors:
+   {errors}
+   JSON:`,
+
+  SUMMARY_MAP_TEMPLATE = `Write a concise summary of the following part of a document, keeping its key points,
+   figures and names.
+
+   Text:
+   {text}
+
+   Summary:`,
+
+  SUMMARY_COMBINE_TEMPLATE = `Summarize the document below, given as its text or as the summaries of its
+   consecutive parts. Only use information from the text. {style}
+
+   Text:
+   {text}
+
+   Summary:`,
+
+  SUMMARY_REFINE_TEMPLATE = `Refine the existing summary of a document with the next part of that document.
+   Keep the information of the existing summary, add the important points of the new part, and only use
+   information from the two. {style}
+
+   Existing summary:
+   {summary}
+
+   Next part:
+   {text}
+
+   Refined summary:`,
+
+  EVALUATION_FAITHFULNESS_TEMPLATE = `You are grading the faithfulness of an answer to the context it was generated from.
+   Score from 0 to 1 the share of the statements of the answer that are supported by the context: 1 when every
+   statement is supported, 0 when none is. An answer saying that the context does not contain the information
+   is faithful. Respond with a JSON object only, without markdown: {{"score": <number>, "reason": "<one sentence>"}}.
+
+   Context:
+   {context}
+
+   Answer:
+   {answer}
+   JSON:`,
+
+  EVALUATION_CORRECTNESS_TEMPLATE = `You are grading the correctness of an answer against the expected answer to a question.
+   Score from 0 to 1 how well the answer agrees with the expected answer: 1 when it states the same facts, 0 when it
+   contradicts or misses them; ignore differences of wording and extra details that do not contradict it. Respond
+   with a JSON object only, without markdown: {{"score": <number>, "reason": "<one sentence>"}}.
+
+   Question: {question}
+
+   Expected answer:
+   {expected_answer}
+
+   Answer:
+   {answer}
+   JSON:`,
+
+  AGENT_SYSTEM_TEMPLATE = 'You are an agent that follows SI system standards and responds responds normally',
+
+  STRUCTURED_CHAT_AGENT_TEMPLATE = `You have access to the following tools:
+
+{tools}
+
+Use a json blob to specify a tool by providing an action key (tool name) and an action_input key (tool input).
+
+Valid "action" values: "Final Answer" or {tool_names}
+
+Provide only ONE action per $JSON_BLOB, as shown:
+
+\`\`\`
+{{
+  "action": $TOOL_NAME,
+  "action_input": $INPUT
+}}
+\`\`\`
+
+Follow this format:
+
+Question: input question to answer
+Thought: consider previous and subsequent steps
+Action:
+\`\`\`
+$JSON_BLOB
+\`\`\`
+Observation: action result
+... (repeat Thought/Action/Observation N times)
+Thought: I know what to respond
+Action:
+\`\`\`
+{{
+  "action": "Final Answer",
+  "action_input": "Final response to human"
+}}
+\`\`\`
+
+Begin! Reminder to ALWAYS respond with a valid json blob of a single action. Use tools if necessary. Respond directly if appropriate. Format is Action:\`\`\`$JSON_BLOB\`\`\`then Observation`,
+
+  STRUCTURED_CHAT_AGENT_INPUT_TEMPLATE = `{input}
+
+{agent_scratchpad}
+(reminder to respond in a JSON blob no matter what)`,
 }
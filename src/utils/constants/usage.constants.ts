@@ -0,0 +1,49 @@
+/**
+ * Enum for the kinds of model calls recorded by UsageService.
+ *
+ * USAGE_KINDS.CHAT - A chat model completion.
+ * USAGE_KINDS.EMBEDDING - An embeddings request.
+ */
+export enum USAGE_KINDS {
+  CHAT = 'chat',
+  EMBEDDING = 'embedding',
+}
+
+/**
+ * Enum for the dimensions the usage report can be grouped by.
+ */
+export enum USAGE_REPORT_GROUPS {
+  DAY = 'day',
+  MODEL = 'model',
+  ENDPOINT = 'endpoint',
+  CALLER = 'caller',
+  TENANT = 'tenant',
+}
+
+// Rough token count of texts whose usage the provider does not report
+export const ESTIMATED_CHARACTERS_PER_TOKEN = 4;
+
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * Default prices of the known models, in US dollars per million prompt and completion tokens.
+ * Entries of the MODEL_PRICES environment variable are merged over these. Calls to models
+ * missing from the table are recorded without a cost.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-3.5-turbo-1106': { prompt: 1, completion: 2 },
+  'gpt-3.5-turbo-0125': { prompt: 0.5, completion: 1.5 },
+  'gpt-4-turbo': { prompt: 10, completion: 30 },
+  'gpt-4o': { prompt: 5, completion: 15 },
+  'text-embedding-ada-002': { prompt: 0.1, completion: 0 },
+  'text-embedding-3-small': { prompt: 0.02, completion: 0 },
+  'text-embedding-3-large': { prompt: 0.13, completion: 0 },
+  'claude-3-haiku-20240307': { prompt: 0.25, completion: 1.25 },
+  'claude-3-sonnet-20240229': { prompt: 3, completion: 15 },
+  'claude-3-opus-20240229': { prompt: 15, completion: 75 },
+  'fake-chat': { prompt: 0, completion: 0 },
+  'fake-embeddings': { prompt: 0, completion: 0 },
+};
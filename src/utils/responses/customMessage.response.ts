@@ -1,7 +1,19 @@
+import { HttpStatus } from '@nestjs/common';
+import { MESSAGES } from '../constants/messages.constants';
+
+// The key of the message in MESSAGES, e.g. DOCUMENT_NOT_FOUND, or the name of the status, e.g. NOT_FOUND
+export const errorCode = (statusCode: number, message: string): string =>
+  Object.keys(MESSAGES).find((key) => MESSAGES[key] === message) ??
+  HttpStatus[statusCode] ??
+  HttpStatus[HttpStatus.INTERNAL_SERVER_ERROR];
+
 function customMessage(statusCode: number, message: string, data = {}): object {
   return {
     statusCode: statusCode,
     message: [message],
+    ...(statusCode >= HttpStatus.BAD_REQUEST && {
+      error_code: errorCode(statusCode, message),
+    }),
     data: data,
   };
 }
@@ -0,0 +1,83 @@
+import { EventEmitter } from 'events';
+import { Response } from 'express';
+import streamResponse from './stream.response';
+import { STREAM_EVENTS, STREAM_PROTOCOLS } from '../constants/stream.constants';
+
+const fakeResponse = () => {
+  const response = Object.assign(new EventEmitter(), {
+    chunks: [] as string[],
+    writableEnded: false,
+    setHeader: jest.fn(),
+    flushHeaders: jest.fn(),
+    write: (chunk: string) => response.chunks.push(chunk),
+    end: () => {
+      response.writableEnded = true;
+    },
+  });
+  return response;
+};
+
+const eventNames = (chunks: string[]) =>
+  chunks.map((chunk) => chunk.match(/^event: (\w+)/)[1]);
+
+describe('streamResponse', () => {
+  it('ends a Server-Sent Events stream with a done event', () => {
+    const response = fakeResponse();
+    const writer = streamResponse(response as unknown as Response);
+
+    writer.token('Hello');
+    writer.event(STREAM_EVENTS.USAGE, { total_tokens: 1 });
+    writer.end();
+
+    expect(eventNames(response.chunks)).toEqual([
+      STREAM_EVENTS.TOKEN,
+      STREAM_EVENTS.USAGE,
+      STREAM_EVENTS.DONE,
+    ]);
+    expect(response.writableEnded).toBe(true);
+  });
+
+  it('does not write a done event after an error event', () => {
+    const response = fakeResponse();
+    const writer = streamResponse(response as unknown as Response);
+
+    writer.token('Hello');
+    writer.error('The model provider is unavailable', 'MODEL_UNAVAILABLE');
+    writer.end();
+
+    expect(eventNames(response.chunks)).toEqual([
+      STREAM_EVENTS.TOKEN,
+      STREAM_EVENTS.ERROR,
+    ]);
+    expect(response.chunks[1]).toContain('"error_code":"MODEL_UNAVAILABLE"');
+    expect(response.writableEnded).toBe(true);
+  });
+
+  it('writes the error as a plain string part of the data stream', () => {
+    const response = fakeResponse();
+    const writer = streamResponse(
+      response as unknown as Response,
+      STREAM_PROTOCOLS.DATA_STREAM,
+    );
+
+    writer.token('Hello');
+    writer.error('The model provider is unavailable', 'MODEL_UNAVAILABLE');
+    writer.end();
+
+    expect(response.chunks).toEqual([
+      '0:"Hello"\n',
+      '3:"The model provider is unavailable"\n',
+    ]);
+  });
+
+  it('stops writing once the client disconnects', () => {
+    const response = fakeResponse();
+    const writer = streamResponse(response as unknown as Response);
+
+    response.emit('close');
+    writer.token('Hello');
+
+    expect(writer.signal.aborted).toBe(true);
+    expect(response.chunks).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Opens a streaming HTTP response and returns a writer for chat tokens and events.
+ *
+ * The writer hides the wire format from the services: tokens and events are written
+ * either as Server-Sent Events or in the Vercel `ai` data-stream protocol, depending on
+ * the protocol requested by the client. The writer also exposes an AbortSignal that is
+ * aborted when the client disconnects before the stream ends, so that the upstream model
+ * call can be cancelled.
+ *
+ * @param response - The Express response to stream into.
+ * @param protocol - The wire protocol requested by the client.
+ * @returns A StreamWriter bound to the response.
+ */
+import { Response } from 'express';
+import { COMPLEX_HEADER } from 'ai';
+import {
+  DATA_STREAM_PREFIXES,
+  STREAM_EVENTS,
+  STREAM_PROTOCOLS,
+} from '../constants/stream.constants';
+
+export interface StreamWriter {
+  signal: AbortSignal;
+  token(text: string): void;
+  event(name: STREAM_EVENTS, data: object): void;
+  error(message: string, errorCode: string): void;
+  end(): void;
+}
+
+function streamResponse(
+  response: Response,
+  protocol: STREAM_PROTOCOLS = STREAM_PROTOCOLS.SSE,
+): StreamWriter {
+  const abortController = new AbortController();
+  response.on('close', () => {
+    if (!response.writableEnded) abortController.abort();
+  });
+
+  if (protocol === STREAM_PROTOCOLS.DATA_STREAM) {
+    response.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    response.setHeader(COMPLEX_HEADER, 'true');
+  } else {
+    response.setHeader('Content-Type', 'text/event-stream');
+    response.setHeader('Connection', 'keep-alive');
+  }
+  response.setHeader('Cache-Control', 'no-cache');
+  response.flushHeaders();
+
+  const write = (chunk: string) => {
+    if (!abortController.signal.aborted) response.write(chunk);
+  };
+  const writeDataPart = (prefix: DATA_STREAM_PREFIXES, value: unknown) =>
+    write(`${prefix}:${JSON.stringify(value)}\n`);
+  const writeEvent = (name: STREAM_EVENTS, data: unknown) =>
+    write(`event: ${name}\ndata: ${JSON.stringify(data)}\n\n`);
+  let failed = false;
+
+  return {
+    signal: abortController.signal,
+    token: (text: string) =>
+      protocol === STREAM_PROTOCOLS.DATA_STREAM
+        ? writeDataPart(DATA_STREAM_PREFIXES.TEXT, text)
+        : writeEvent(STREAM_EVENTS.TOKEN, { token: text }),
+    event: (name: STREAM_EVENTS, data: object) =>
+      protocol === STREAM_PROTOCOLS.DATA_STREAM
+        ? writeDataPart(DATA_STREAM_PREFIXES.DATA, [{ type: name, ...data }])
+        : writeEvent(name, data),
+    // The error part of the data-stream protocol is a plain string
+    error: (message: string, errorCode: string) => {
+      failed = true;
+      if (protocol === STREAM_PROTOCOLS.DATA_STREAM) {
+        writeDataPart(DATA_STREAM_PREFIXES.ERROR, message);
+      } else {
+        writeEvent(STREAM_EVENTS.ERROR, { message, error_code: errorCode });
+      }
+    },
+    // A stream that failed ends with its error event rather than a done event
+    end: () => {
+      if (protocol === STREAM_PROTOCOLS.SSE && !failed) {
+        writeEvent(STREAM_EVENTS.DONE, {});
+      }
+      if (!response.writableEnded) response.end();
+    },
+  };
+}
+export default streamResponse;
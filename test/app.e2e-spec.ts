@@ -0,0 +1,93 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import * as request from 'supertest';
+import { existsSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { AppModule } from 'src/app.module';
+import { DatabaseService } from 'src/services/database.service';
+import {
+  FakeDatabaseService,
+  TENANT_API_KEY,
+  TENANT_ID,
+} from './fake-database';
+
+describe('App (e2e)', () => {
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({ imports: [AppModule] })
+      .overrideProvider(DatabaseService)
+      .useValue(new FakeDatabaseService())
+      .compile();
+
+    app = moduleRef.createNestApplication();
+    app.setGlobalPrefix('api/v1', { exclude: ['health', 'metrics'] });
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('/health (GET) reports the fake models', async () => {
+    const { status, body } = await request(app.getHttpServer()).get('/health');
+
+    expect(status).toBe(200);
+    expect(body.data.checks.model_provider).toMatchObject({
+      status: 'up',
+      details: {
+        chat_model: 'fake/fake-chat',
+        embeddings_model: 'fake/fake-embeddings',
+      },
+    });
+  });
+
+  it('rejects a chat request without an API key', async () => {
+    const { status, body } = await request(app.getHttpServer())
+      .post('/api/v1/langchain-chat/basic-chat')
+      .send({ user_query: 'Hello' });
+
+    expect(status).toBe(401);
+    expect(body.error_code).toBe('MISSING_API_KEY');
+  });
+
+  it('/api/v1/langchain-chat/basic-chat (POST) answers with the fake chat model', async () => {
+    const { status, body } = await request(app.getHttpServer())
+      .post('/api/v1/langchain-chat/basic-chat')
+      .set('x-api-key', TENANT_API_KEY)
+      .send({ user_query: 'What is the refund window?' });
+
+    expect(status).toBe(200);
+    expect(body.data.answer).toMatch(/^\[fake-chat\] .*refund window/);
+    expect(body.data.usage.total_tokens).toBeGreaterThan(0);
+  });
+
+  it('/api/v1/langchain-chat/basic-chat/stream (POST) streams the answer and ends', async () => {
+    const { status, text } = await request(app.getHttpServer())
+      .post('/api/v1/langchain-chat/basic-chat/stream')
+      .set('x-api-key', TENANT_API_KEY)
+      .send({ user_query: 'What is the refund window?' });
+
+    expect(status).toBe(201);
+    const events = [...text.matchAll(/^event: (\w+)$/gm)].map(
+      ([, name]) => name,
+    );
+    expect(events[0]).toBe('token');
+    expect(events.slice(-2)).toEqual(['usage', 'done']);
+  });
+
+  it('deletes the uploaded file of a request with invalid ingestion settings', async () => {
+    const { status, body } = await request(app.getHttpServer())
+      .post('/api/v1/langchain-chat/preview-chunks')
+      .set('x-api-key', TENANT_API_KEY)
+      .field('chunk_size', 'abc')
+      .attach('file', Buffer.from('Refunds take 30 days.'), 'refunds.txt');
+
+    expect(status).toBe(400);
+    expect(body.error_code).toBe('VALIDATION_FAILED');
+    const tenantDirectory = join(process.env.UPLOAD_DIRECTORY, TENANT_ID);
+    expect(
+      existsSync(tenantDirectory) ? readdirSync(tenantDirectory) : [],
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,11 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// The application runs offline: the fake chat model and embeddings, and no database
+process.env.CHAT_MODEL_PROVIDER = 'fake';
+process.env.EMBEDDINGS_PROVIDER = 'fake';
+process.env.ADMIN_API_KEY = 'e2e-admin-api-key';
+process.env.LOG_FORMAT = 'text';
+// Uploads are stored in a directory of their own, which the tests list
+process.env.UPLOAD_DIRECTORY = mkdtempSync(join(tmpdir(), 'e2e-uploads-'));
@@ -0,0 +1,66 @@
+import { createHash } from 'crypto';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { BUILT_IN_PROMPT_TEMPLATES } from 'src/utils/constants/prompt-templates.constants';
+
+export const TENANT_ID = '00000000-0000-4000-8000-000000000001';
+export const TENANT_API_KEY = 'e2e-tenant-api-key';
+
+const hash = (key: string) => createHash('sha256').update(key).digest('hex');
+
+/**
+ * Stand-in for DatabaseService, so that the application runs without PostgreSQL. It answers the
+ * statements of the smoke-tested routes: the API key of one tenant, the rate limit counters, the
+ * pgvector extension and the built-in prompt templates. Every other statement, the schema set up
+ * by the services included, returns no rows.
+ */
+export class FakeDatabaseService {
+  readonly pool = {
+    totalCount: 1,
+    idleCount: 1,
+    waitingCount: 0,
+    connect: async () => this.client,
+    end: async () => undefined,
+  };
+
+  private client = {
+    query: async (text: string, params: unknown[] = []) => ({
+      rows: await this.query(text, params),
+    }),
+    release: () => undefined,
+  };
+
+  async query(text: string, params: unknown[] = []): Promise<any[]> {
+    if (text.includes('UPDATE api_keys SET last_used_at')) {
+      return params[0] === hash(TENANT_API_KEY)
+        ? [{ id: 'e2e-api-key', tenant_id: TENANT_ID, name: 'e2e' }]
+        : [];
+    }
+    if (text.includes('INSERT INTO rate_limit_counters')) {
+      return [{ count: 1, reset_seconds: 60 }];
+    }
+    if (text.includes('FROM pg_extension')) {
+      return [{ extversion: '0.7.0' }];
+    }
+    if (text.includes('SELECT * FROM prompt_templates')) {
+      const name = params[2] as string;
+      const template = BUILT_IN_PROMPT_TEMPLATES[name];
+      return template ? [this.builtInTemplate(name, template)] : [];
+    }
+    return [];
+  }
+
+  async transaction<T>(work: (client: any) => Promise<T>) {
+    return work(this.client);
+  }
+
+  private builtInTemplate = (name: string, template: string) => ({
+    id: `e2e-${name}`,
+    name,
+    version: 1,
+    template,
+    input_variables: PromptTemplate.fromTemplate(template).inputVariables,
+    description: 'Built-in template',
+    created_at: new Date(),
+    tenant_id: null,
+  });
+}